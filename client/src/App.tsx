@@ -74,6 +74,7 @@ const TokenPage = lazy(() => import("@/pages/token"));
 const AnalyticsPage = lazy(() => import("@/pages/analytics"));
 const ApiDocsPage = lazy(() => import("@/pages/api-docs"));
 const WatchlistPage = lazy(() => import("@/pages/watchlist"));
+const TokenApprovalsPage = lazy(() => import("@/pages/token-approvals"));
 const AirdropsPage = lazy(() => import("@/pages/airdrops"));
 const AirdropDetailPage = lazy(() => import("@/pages/airdrop-detail"));
 const ApiKeysPage = lazy(() => import("@/pages/developer/api-keys"));
@@ -118,6 +119,7 @@ function Router() {
       <Route path="/analytics" component={AnalyticsPage} />
       <Route path="/api-docs" component={ApiDocsPage} />
       <Route path="/watchlist" component={WatchlistPage} />
+      <Route path="/approvals/:address?" component={TokenApprovalsPage} />
       <Route path="/airdrops" component={AirdropsPage} />
       <Route path="/airdrop/:id" component={AirdropDetailPage} />
       <Route path="/search" component={SearchPage} />
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatFullTimestamp, formatNumber, formatTBT } from "@/lib/formatters";
+import { Info, Loader2 } from "lucide-react";
+import type { BalanceSnapshot } from "@shared/schema";
+
+// The chart shows the most recent changes only; older balances are still available through the lookup
+const CHART_SNAPSHOT_LIMIT = 1000;
+
+interface BalanceHistoryData {
+  snapshots: BalanceSnapshot[];
+  total: number;
+}
+
+interface BalanceAtResult {
+  blockNumber: number;
+  balance: string;
+  lastChangeBlock: number | null;
+  lastChangeTimestamp: string | null;
+  source: "snapshot" | "node";
+}
+
+interface BalanceHistoryChartProps {
+  address: string;
+  nativeSymbol: string;
+}
+
+export function BalanceHistoryChart({ address, nativeSymbol }: BalanceHistoryChartProps) {
+  const [lookupMode, setLookupMode] = useState<"block" | "date">("date");
+  const [lookupValue, setLookupValue] = useState("");
+  const [lookup, setLookup] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<BalanceHistoryData>({
+    queryKey: ["/api/addresses", address, "balance-history"],
+    queryFn: async () => {
+      const res = await fetch(`/api/addresses/${address}/balance-history?limit=${CHART_SNAPSHOT_LIMIT}`);
+      if (!res.ok) return { snapshots: [], total: 0 };
+      return res.json();
+    },
+    enabled: !!address,
+  });
+
+  const { data: balanceAt, isFetching: isLookingUp, error: lookupError } = useQuery<BalanceAtResult>({
+    queryKey: ["/api/addresses", address, "balance-history", lookup],
+    queryFn: async () => {
+      const res = await fetch(`/api/addresses/${address}/balance-history?${lookup}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || "Balance not available");
+      return body;
+    },
+    enabled: !!address && !!lookup,
+    retry: false,
+  });
+
+  const handleLookup = () => {
+    if (!lookupValue) return;
+    if (lookupMode === "block") {
+      setLookup(`block=${encodeURIComponent(lookupValue)}`);
+    } else {
+      // datetime-local values are in the browser's time zone
+      setLookup(`timestamp=${Math.floor(new Date(lookupValue).getTime() / 1000)}`);
+    }
+  };
+
+  const chartData = (data?.snapshots || [])
+    .filter((snapshot): snapshot is BalanceSnapshot & { balance: string } => snapshot.balance !== null)
+    .reverse()
+    .map((snapshot) => ({
+      block: snapshot.blockNumber,
+      date: new Date(snapshot.timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" }),
+      timestamp: snapshot.timestamp,
+      balance: Number(BigInt(snapshot.balance)) / 1e18,
+      raw: snapshot.balance,
+    }));
+
+  const ChartTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      return (
+        <div className="bg-background border rounded-lg shadow-lg p-3">
+          <p className="font-medium mb-1">Block {formatNumber(point.block)}</p>
+          <p className="text-xs text-muted-foreground mb-2">{formatFullTimestamp(point.timestamp)}</p>
+          <p className="text-sm font-mono">{formatTBT(point.raw)} {nativeSymbol}</p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      {isLoading ? (
+        <Skeleton className="h-[300px] w-full" />
+      ) : chartData.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8 space-y-2">
+          <Info className="h-8 w-8 mx-auto mb-4 opacity-50" />
+          <p>No balance history recorded for this address yet.</p>
+          <p className="text-sm">A snapshot is taken every time the address is touched in an indexed block.</p>
+        </div>
+      ) : (
+        <div className="space-y-2" data-testid="chart-balance-history">
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={chartData}>
+              <defs>
+                <linearGradient id="balanceGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="date" className="text-xs" />
+              <YAxis className="text-xs" tickFormatter={(value: number) => formatNumber(value)} />
+              <Tooltip content={<ChartTooltip />} />
+              <Area
+                type="stepAfter"
+                dataKey="balance"
+                name={`Balance (${nativeSymbol})`}
+                stroke="hsl(var(--primary))"
+                fill="url(#balanceGradient)"
+                strokeWidth={2}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+          {data && data.total > chartData.length && (
+            <p className="text-xs text-muted-foreground">
+              Showing the latest {formatNumber(chartData.length)} of {formatNumber(data.total)} balance changes.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="border rounded-lg p-4 space-y-3">
+        <span className="text-sm font-medium">Balance At</span>
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Lookup by</Label>
+            <Select value={lookupMode} onValueChange={(value) => { setLookupMode(value as "block" | "date"); setLookupValue(""); }}>
+              <SelectTrigger className="w-full sm:w-32" data-testid="select-balance-lookup-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">Date</SelectItem>
+                <SelectItem value="block">Block</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 flex-1">
+            <Label className="text-xs text-muted-foreground">{lookupMode === "block" ? "Block number" : "Date and time"}</Label>
+            <Input
+              type={lookupMode === "block" ? "number" : "datetime-local"}
+              min={0}
+              value={lookupValue}
+              onChange={(e) => setLookupValue(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLookup()}
+              data-testid="input-balance-lookup"
+            />
+          </div>
+          <Button onClick={handleLookup} disabled={!lookupValue || isLookingUp} data-testid="button-balance-lookup">
+            {isLookingUp && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Look Up
+          </Button>
+        </div>
+        {lookup && !isLookingUp && lookupError && (
+          <p className="text-sm text-destructive">{(lookupError as Error).message}</p>
+        )}
+        {lookup && !isLookingUp && balanceAt && (
+          <div className="text-sm space-y-1" data-testid="text-balance-at">
+            <p>
+              <span className="font-mono font-medium">{formatTBT(balanceAt.balance)} {nativeSymbol}</span>
+              <span className="text-muted-foreground"> after block </span>
+              <Link href={`/block/${balanceAt.blockNumber}`} className="font-mono text-primary hover:underline">
+                {formatNumber(balanceAt.blockNumber)}
+              </Link>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {balanceAt.source === "snapshot" && balanceAt.lastChangeBlock !== null
+                ? `Last changed in block ${formatNumber(balanceAt.lastChangeBlock)} (${formatFullTimestamp(balanceAt.lastChangeTimestamp || undefined)})`
+                : "Read from the node; no snapshot was recorded at or before this block"}
+            </p>
+            <p className="text-xs text-muted-foreground font-mono">{balanceAt.balance} wei</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AddressLink } from "@/components/address-link";
+import { DecodedEventParams } from "@/components/decoded-event-params";
+import { formatNumber, formatTBT } from "@/lib/formatters";
+import { ChevronDown, ChevronRight, GitBranch, AlertCircle } from "lucide-react";
+import type { CallTraceFrame } from "@shared/schema";
+
+// Deeper frames start collapsed so large DeFi traces stay readable
+const AUTO_EXPAND_DEPTH = 2;
+
+interface TraceData {
+  transactionHash: string;
+  cached: boolean;
+  trace: CallTraceFrame;
+}
+
+interface CallTraceTreeProps {
+  txHash: string;
+  nativeSymbol: string;
+}
+
+function countFrames(frame: CallTraceFrame): number {
+  return 1 + frame.calls.reduce((sum, call) => sum + countFrames(call), 0);
+}
+
+function callLabel(frame: CallTraceFrame): string {
+  if (frame.type === "CREATE" || frame.type === "CREATE2") return "constructor";
+  if (frame.decoded) return frame.decoded.name;
+  if (frame.input.length >= 10) return frame.input.slice(0, 10);
+  return frame.input === "0x" ? "fallback" : frame.input;
+}
+
+function TraceFrame({ frame, depth, nativeSymbol }: { frame: CallTraceFrame; depth: number; nativeSymbol: string }) {
+  const [expanded, setExpanded] = useState(depth < AUTO_EXPAND_DEPTH);
+  const [showDetails, setShowDetails] = useState(false);
+  const failed = !!frame.error;
+
+  return (
+    <div className={depth > 0 ? "ml-4 border-l pl-3" : ""}>
+      <div className="flex items-center gap-2 py-1 flex-wrap text-sm" data-testid={`trace-frame-${depth}`}>
+        {frame.calls.length > 0 ? (
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={expanded ? "Collapse calls" : "Expand calls"}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+        ) : (
+          <span className="w-4" />
+        )}
+        <Badge variant="outline" className="font-mono text-xs">{frame.type}</Badge>
+        <AddressLink address={frame.to} isContract showCopy={false} />
+        <button
+          type="button"
+          onClick={() => setShowDetails(!showDetails)}
+          className={`font-mono text-xs hover:underline ${failed ? "text-destructive" : "text-primary"}`}
+          title={frame.decoded?.signature}
+        >
+          {callLabel(frame)}
+          {frame.decoded && `(${frame.decoded.params.length > 0 ? "…" : ""})`}
+        </button>
+        {frame.value !== "0" && (
+          <Badge variant="secondary" className="font-mono text-xs">{formatTBT(frame.value)} {nativeSymbol}</Badge>
+        )}
+        <span className="text-xs text-muted-foreground font-mono">gas {formatNumber(frame.gasUsed)}</span>
+        {failed && (
+          <Badge variant="destructive" className="text-xs">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            {frame.revertReason || frame.error}
+          </Badge>
+        )}
+      </div>
+
+      {showDetails && (
+        <div className="ml-6 my-2 p-3 bg-muted/50 rounded-md space-y-3 text-xs">
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            <span><span className="text-muted-foreground">From:</span> <AddressLink address={frame.from} showCopy={false} /></span>
+            <span className="font-mono"><span className="text-muted-foreground font-sans">Gas limit:</span> {formatNumber(frame.gas)}</span>
+            <span className="font-mono"><span className="text-muted-foreground font-sans">Gas used:</span> {formatNumber(frame.gasUsed)}</span>
+          </div>
+          {frame.decoded ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <code className="font-mono">{frame.decoded.signature}</code>
+                <Badge variant="secondary" className="text-xs">{frame.decoded.source === "abi" ? "Verified ABI" : "Signature"}</Badge>
+              </div>
+              <DecodedEventParams event={frame.decoded} compact />
+              {frame.decoded.outputs && frame.decoded.outputs.length > 0 && (
+                <div className="space-y-1">
+                  <span className="text-muted-foreground">Returned</span>
+                  <DecodedEventParams event={{ ...frame.decoded, params: frame.decoded.outputs }} compact />
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Input</span>
+              <code className="block font-mono break-all whitespace-pre-wrap">{frame.input}</code>
+            </div>
+          )}
+          {frame.output && frame.output !== "0x" && !frame.decoded?.outputs && (
+            <div className="space-y-1">
+              <span className="text-muted-foreground">{failed ? "Revert data" : "Return data"}</span>
+              <code className="block font-mono break-all whitespace-pre-wrap">{frame.output}</code>
+            </div>
+          )}
+        </div>
+      )}
+
+      {expanded && frame.calls.map((call, i) => (
+        <TraceFrame key={i} frame={call} depth={depth + 1} nativeSymbol={nativeSymbol} />
+      ))}
+    </div>
+  );
+}
+
+export function CallTraceTree({ txHash, nativeSymbol }: CallTraceTreeProps) {
+  const { data, isLoading, error } = useQuery<TraceData>({
+    queryKey: ["/api/transactions", txHash, "trace"],
+    queryFn: async () => {
+      const res = await fetch(`/api/transactions/${txHash}/trace`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || "Failed to load trace");
+      return body;
+    },
+    enabled: !!txHash,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 6 }).map((_, i) => (
+          <Skeleton key={i} className="h-6" style={{ width: `${90 - i * 8}%`, marginLeft: `${i * 16}px` }} />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <GitBranch className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>{(error as Error)?.message || "Trace not available"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <span className="text-sm text-muted-foreground">
+          {formatNumber(countFrames(data.trace))} call frames. Click a function to see its arguments and return data.
+        </span>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/transactions/${txHash}/trace`} target="_blank" rel="noopener noreferrer">View JSON</a>
+        </Button>
+      </div>
+      <div className="overflow-x-auto" data-testid="call-trace-tree">
+        <TraceFrame frame={data.trace} depth={0} nativeSymbol={nativeSymbol} />
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import {
   Select,
@@ -8,6 +9,8 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Globe } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { getSelectedChainId, setSelectedChainId } from "@/lib/selected-chain";
 import type { Chain } from "@shared/schema";
 
 interface ChainSelectorProps {
@@ -16,13 +19,26 @@ interface ChainSelectorProps {
   className?: string;
 }
 
+// Without a controlling onChainChange, the selector switches the chain every page reads from
 export function ChainSelector({ selectedChainId, onChainChange, className }: ChainSelectorProps) {
   const { data, isLoading } = useQuery<{ chains: Chain[] }>({
     queryKey: ["/api/chains/active"],
   });
+  const [storedChainId, setStoredChainId] = useState(getSelectedChainId);
+
+  const handleChainChange = (chainId: number) => {
+    if (onChainChange) {
+      onChainChange(chainId);
+      return;
+    }
+    setSelectedChainId(chainId);
+    setStoredChainId(chainId);
+    queryClient.invalidateQueries();
+  };
 
   const chains = data?.chains || [];
-  const selectedChain = chains.find(c => c.chainId === selectedChainId) || chains.find(c => c.isDefault) || chains[0];
+  const activeChainId = selectedChainId ?? storedChainId;
+  const selectedChain = chains.find(c => c.chainId === activeChainId) || chains.find(c => c.isDefault) || chains[0];
 
   if (isLoading) {
     return (
@@ -55,7 +71,7 @@ export function ChainSelector({ selectedChainId, onChainChange, className }: Cha
   return (
     <Select
       value={selectedChain?.chainId?.toString()}
-      onValueChange={(value) => onChainChange?.(parseInt(value))}
+      onValueChange={(value) => handleChainChange(parseInt(value))}
     >
       <SelectTrigger 
         className={`w-auto gap-2 ${className}`}
@@ -0,0 +1,60 @@
+import { AddressLink } from "@/components/address-link";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { DecodedEvent } from "@shared/schema";
+
+interface DecodedEventParamsProps {
+  event: DecodedEvent;
+  compact?: boolean;
+}
+
+function ParamValue({ type, value }: { type: string; value: any }) {
+  if (type === "address" && typeof value === "string") {
+    return <AddressLink address={value} showFull />;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <span className="font-mono text-xs break-all">
+        [{value.map((v) => (typeof v === "object" ? JSON.stringify(v) : String(v))).join(", ")}]
+      </span>
+    );
+  }
+  return <span className="font-mono text-xs break-all">{String(value)}</span>;
+}
+
+export function DecodedEventParams({ event, compact = false }: DecodedEventParamsProps) {
+  if (event.params.length === 0) {
+    return <div className="text-xs text-muted-foreground">No parameters</div>;
+  }
+
+  return (
+    <Table data-testid={`table-event-${event.name}`}>
+      <TableHeader>
+        <TableRow>
+          {!compact && <TableHead className="w-10">#</TableHead>}
+          <TableHead>Name</TableHead>
+          <TableHead>Type</TableHead>
+          {!compact && <TableHead>Indexed</TableHead>}
+          <TableHead>Data</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {event.params.map((param, i) => (
+          <TableRow key={i}>
+            {!compact && <TableCell className="font-mono text-xs text-muted-foreground">{i}</TableCell>}
+            <TableCell className="font-mono text-xs">{param.name}</TableCell>
+            <TableCell className="font-mono text-xs text-muted-foreground">{param.type}</TableCell>
+            {!compact && (
+              <TableCell>
+                {param.indexed ? <Badge variant="secondary" className="text-xs">indexed</Badge> : null}
+              </TableCell>
+            )}
+            <TableCell className="max-w-[480px]">
+              <ParamValue type={param.type} value={param.value} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AddressLink } from "@/components/address-link";
+import { HashLink } from "@/components/hash-link";
+import { Pagination } from "@/components/pagination";
+import { formatNumber, formatTimestamp } from "@/lib/formatters";
+import { FileCode } from "lucide-react";
+import type { ContractCreation } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+interface DeployedContract extends ContractCreation {
+  contractName: string | null;
+}
+
+interface DeployedContractsData {
+  contracts: DeployedContract[];
+  total: number;
+}
+
+interface DeployedContractsProps {
+  address: string;
+}
+
+export function DeployedContracts({ address }: DeployedContractsProps) {
+  const [page, setPage] = useState(1);
+  const normalized = address.toLowerCase();
+
+  const { data, isLoading } = useQuery<DeployedContractsData>({
+    queryKey: ["/api/addresses", address, "contracts", page],
+    queryFn: async () => {
+      const res = await fetch(`/api/addresses/${address}/contracts?page=${page}&limit=${PAGE_SIZE}`);
+      if (!res.ok) throw new Error("Failed to fetch deployed contracts");
+      return res.json();
+    },
+    enabled: !!address,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!data || data.contracts.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <FileCode className="h-8 w-8 mx-auto mb-4 opacity-50" />
+        <p>No contracts deployed by this address</p>
+      </div>
+    );
+  }
+
+  const totalPages = Math.ceil(data.total / PAGE_SIZE);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Contract</TableHead>
+              <TableHead>Deployed</TableHead>
+              <TableHead>Transaction</TableHead>
+              <TableHead>Block</TableHead>
+              <TableHead>Age</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.contracts.map((contract) => (
+              <TableRow key={contract.id} data-testid={`row-deployed-${contract.contractAddress}`}>
+                <TableCell>
+                  <div className="flex flex-col gap-1">
+                    <AddressLink address={contract.contractAddress} isContract />
+                    {contract.contractName && (
+                      <span className="text-xs text-muted-foreground">{contract.contractName}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline" className="font-mono text-xs">{contract.creationType}</Badge>
+                    {contract.factoryAddress && contract.factoryAddress !== normalized && (
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        via <AddressLink address={contract.factoryAddress} isContract showCopy={false} className="text-xs" />
+                      </span>
+                    )}
+                    {contract.factoryAddress === normalized && (
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        for <AddressLink address={contract.creatorAddress} showCopy={false} className="text-xs" />
+                      </span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <HashLink hash={contract.transactionHash} type="tx" showCopy={false} />
+                </TableCell>
+                <TableCell className="font-mono text-sm">
+                  <Link href={`/block/${contract.blockNumber}`} className="text-primary hover:underline">
+                    {formatNumber(contract.blockNumber)}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{formatTimestamp(contract.timestamp)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {totalPages > 1 && (
+        <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+      )}
+    </div>
+  );
+}
@@ -4,16 +4,18 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { decodeMethod, getMethodBadgeColor, formatMethodName } from "@/lib/method-decoder";
+import { decodeMethod, getMethodBadgeColor, formatMethodName, type SignatureInfo } from "@/lib/method-decoder";
 
 interface MethodBadgeProps {
   input: string | null | undefined;
+  // Resolved by the list rendering the badge (see useMethodSignatures)
+  signature?: SignatureInfo | null;
   className?: string;
   showTooltip?: boolean;
 }
 
-export function MethodBadge({ input, className = "", showTooltip = true }: MethodBadgeProps) {
-  const decoded = decodeMethod(input);
+export function MethodBadge({ input, signature, className = "", showTooltip = true }: MethodBadgeProps) {
+  const decoded = decodeMethod(input, signature);
   const displayName = formatMethodName(decoded.name, 12);
   const colorClass = getMethodBadgeColor(decoded.type);
 
@@ -38,7 +40,7 @@ export function MethodBadge({ input, className = "", showTooltip = true }: Metho
       </TooltipTrigger>
       <TooltipContent>
         <div className="text-xs">
-          <div className="font-medium">{decoded.name}</div>
+          <div className="font-medium">{signature?.textSignature || decoded.name}</div>
           {decoded.selector && (
             <div className="text-muted-foreground font-mono">{decoded.selector}</div>
           )}
@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge";
+import { Clock, Repeat, XCircle, CheckCircle2 } from "lucide-react";
+import type { PendingTransactionStatus } from "@shared/schema";
+
+interface PendingStatusBadgeProps {
+  status: string;
+  size?: "sm" | "default";
+}
+
+export function PendingStatusBadge({ status, size = "default" }: PendingStatusBadgeProps) {
+  const iconClass = `mr-1 ${size === "sm" ? "h-2.5 w-2.5" : "h-3 w-3"}`;
+  const textClass = size === "sm" ? "text-xs" : "";
+
+  switch (status as PendingTransactionStatus) {
+    case "replaced":
+      return (
+        <Badge variant="outline" className={`border-amber-500 text-amber-600 dark:text-amber-400 ${textClass}`}>
+          <Repeat className={iconClass} />
+          Replaced
+        </Badge>
+      );
+    case "dropped":
+      return (
+        <Badge variant="destructive" className={textClass}>
+          <XCircle className={iconClass} />
+          Dropped
+        </Badge>
+      );
+    case "mined":
+      return (
+        <Badge className={`bg-green-600 dark:bg-green-700 text-white border-green-700 dark:border-green-600 ${textClass}`}>
+          <CheckCircle2 className={iconClass} />
+          Mined
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="secondary" className={textClass}>
+          <Clock className={`${iconClass} animate-pulse`} />
+          Pending
+        </Badge>
+      );
+  }
+}
@@ -0,0 +1,144 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, FileCode, Folder } from "lucide-react";
+import { CopyButton } from "@/components/copy-button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  file?: SourceFile;
+}
+
+interface SourceFileTreeProps {
+  files: SourceFile[];
+  mainFile?: string | null;
+}
+
+function buildTree(files: SourceFile[]): TreeNode[] {
+  const root: TreeNode = { name: "", path: "", children: [] };
+
+  for (const file of files) {
+    const parts = file.path.split("/").filter(Boolean);
+    let node = root;
+    parts.forEach((part, i) => {
+      const path = parts.slice(0, i + 1).join("/");
+      let child = node.children.find((c) => c.name === part);
+      if (!child) {
+        child = { name: part, path, children: [] };
+        node.children.push(child);
+      }
+      if (i === parts.length - 1) child.file = file;
+      node = child;
+    });
+  }
+
+  const sort = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => {
+      if (!!a.file !== !!b.file) return a.file ? 1 : -1;
+      return a.name.localeCompare(b.name);
+    });
+    nodes.forEach((n) => sort(n.children));
+  };
+  sort(root.children);
+
+  return root.children;
+}
+
+function TreeItem({
+  node,
+  depth,
+  selected,
+  onSelect,
+}: {
+  node: TreeNode;
+  depth: number;
+  selected: string;
+  onSelect: (path: string) => void;
+}) {
+  const [open, setOpen] = useState(true);
+
+  if (node.file) {
+    return (
+      <button
+        className={`flex items-center gap-1 w-full text-left text-xs font-mono py-1 pr-2 rounded-sm hover-elevate ${
+          selected === node.file.path ? "bg-muted text-primary" : ""
+        }`}
+        style={{ paddingLeft: depth * 12 + 8 }}
+        onClick={() => onSelect(node.file!.path)}
+        data-testid={`source-file-${node.path}`}
+      >
+        <FileCode className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{node.name}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        className="flex items-center gap-1 w-full text-left text-xs font-mono py-1 pr-2 rounded-sm hover-elevate"
+        style={{ paddingLeft: depth * 12 + 8 }}
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+        <Folder className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{node.name}</span>
+      </button>
+      {open && node.children.map((child) => (
+        <TreeItem key={child.path} node={child} depth={depth + 1} selected={selected} onSelect={onSelect} />
+      ))}
+    </div>
+  );
+}
+
+export function SourceFileTree({ files, mainFile }: SourceFileTreeProps) {
+  const tree = useMemo(() => buildTree(files), [files]);
+  const [selected, setSelected] = useState<string>(
+    (mainFile && files.some((f) => f.path === mainFile) ? mainFile : files[0]?.path) || ""
+  );
+  const selectedFile = files.find((f) => f.path === selected) || files[0];
+
+  if (files.length === 1) {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-mono text-muted-foreground truncate">{files[0].path}</span>
+          <CopyButton text={files[0].content} />
+        </div>
+        <div className="bg-muted rounded-md p-4 overflow-x-auto max-h-96">
+          <pre className="text-xs font-mono whitespace-pre-wrap break-all">{files[0].content}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4" data-testid="source-file-tree">
+      <ScrollArea className="border rounded-md max-h-[32rem] py-1">
+        {tree.map((node) => (
+          <TreeItem key={node.path} node={node} depth={0} selected={selectedFile?.path || ""} onSelect={setSelected} />
+        ))}
+      </ScrollArea>
+      {selectedFile && (
+        <div className="space-y-2 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-mono text-muted-foreground truncate">
+              {selectedFile.path}
+              {selectedFile.path === mainFile && " (main)"}
+            </span>
+            <CopyButton text={selectedFile.content} />
+          </div>
+          <div className="bg-muted rounded-md p-4 overflow-x-auto max-h-[32rem]">
+            <pre className="text-xs font-mono whitespace-pre-wrap break-all">{selectedFile.content}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AddressLink } from "@/components/address-link";
+import { formatTBT } from "@/lib/formatters";
+import { ArrowRight, Database } from "lucide-react";
+import type { AccountStateDiff, StorageSlotChange } from "@shared/schema";
+
+interface StateDiffData {
+  transactionHash: string;
+  cached: boolean;
+  accounts: AccountStateDiff[];
+}
+
+interface StateDiffViewProps {
+  txHash: string;
+  nativeSymbol: string;
+}
+
+function shortWord(word: string): string {
+  const trimmed = word.replace(/^0x0+/, "0x");
+  return trimmed === "0x" ? "0x0" : trimmed.length > 20 ? `${trimmed.slice(0, 10)}…${trimmed.slice(-8)}` : trimmed;
+}
+
+function codeSize(code: string | null): number {
+  return code ? Math.max(0, (code.length - 2) / 2) : 0;
+}
+
+function BeforeAfter({ before, after }: { before: string; after: string }) {
+  return (
+    <span className="inline-flex items-center gap-2 flex-wrap font-mono text-xs">
+      <span className="text-muted-foreground break-all">{before}</span>
+      <ArrowRight className="h-3 w-3 flex-shrink-0" />
+      <span className="break-all">{after}</span>
+    </span>
+  );
+}
+
+function StorageRows({ change }: { change: StorageSlotChange }) {
+  const slotCell = (
+    <TableCell className="font-mono text-xs" title={change.slot}>{shortWord(change.slot)}</TableCell>
+  );
+
+  if (!change.variables || change.variables.length === 0) {
+    return (
+      <TableRow>
+        {slotCell}
+        <TableCell className="text-xs text-muted-foreground">-</TableCell>
+        <TableCell className="font-mono text-xs break-all" title={change.before}>{shortWord(change.before)}</TableCell>
+        <TableCell className="font-mono text-xs break-all" title={change.after}>{shortWord(change.after)}</TableCell>
+      </TableRow>
+    );
+  }
+
+  return (
+    <>
+      {change.variables.map((variable, i) => (
+        <TableRow key={i}>
+          {i === 0 ? slotCell : <TableCell />}
+          <TableCell className="text-xs">
+            <span className="font-mono break-all">{variable.label}</span>
+            <span className="text-muted-foreground ml-1">({variable.type})</span>
+          </TableCell>
+          <TableCell className="font-mono text-xs break-all">{variable.before}</TableCell>
+          <TableCell className="font-mono text-xs break-all">{variable.after}</TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+function AccountDiff({ account, nativeSymbol }: { account: AccountStateDiff; nativeSymbol: string }) {
+  const balanceDelta = account.balance ? BigInt(account.balance.after) - BigInt(account.balance.before) : BigInt(0);
+
+  return (
+    <div className="p-4 bg-muted/50 rounded-lg space-y-3" data-testid={`state-account-${account.address}`}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <AddressLink address={account.address} />
+        {account.contractName && <Badge variant="secondary">{account.contractName}</Badge>}
+        {account.created && <Badge variant="outline">New account</Badge>}
+        {account.destroyed && <Badge variant="destructive">Self-destructed</Badge>}
+      </div>
+
+      {account.balance && (
+        <div className="flex items-start gap-2 text-sm flex-wrap">
+          <span className="text-muted-foreground min-w-20">Balance</span>
+          <BeforeAfter
+            before={`${formatTBT(account.balance.before)} ${nativeSymbol}`}
+            after={`${formatTBT(account.balance.after)} ${nativeSymbol}`}
+          />
+          <Badge
+            variant={balanceDelta < BigInt(0) ? "destructive" : "secondary"}
+            className={`font-mono text-xs ${balanceDelta > BigInt(0) ? "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20" : ""}`}
+          >
+            {balanceDelta > BigInt(0) ? "+" : balanceDelta < BigInt(0) ? "-" : ""}
+            {formatTBT((balanceDelta < BigInt(0) ? -balanceDelta : balanceDelta).toString())} {nativeSymbol}
+          </Badge>
+        </div>
+      )}
+
+      {account.nonce && (
+        <div className="flex items-start gap-2 text-sm">
+          <span className="text-muted-foreground min-w-20">Nonce</span>
+          <BeforeAfter before={String(account.nonce.before)} after={String(account.nonce.after)} />
+        </div>
+      )}
+
+      {account.code && (
+        <div className="flex items-start gap-2 text-sm">
+          <span className="text-muted-foreground min-w-20">Code</span>
+          <span className="text-xs">
+            {!account.code.before
+              ? `Contract deployed (${codeSize(account.code.after)} bytes)`
+              : !account.code.after
+                ? `Code removed (${codeSize(account.code.before)} bytes)`
+                : `Code changed (${codeSize(account.code.before)} → ${codeSize(account.code.after)} bytes)`}
+          </span>
+        </div>
+      )}
+
+      {account.storage.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-sm text-muted-foreground">
+            Storage ({account.storage.length} {account.storage.length === 1 ? "slot" : "slots"})
+            {!account.hasStorageLayout && " · verify the contract with a recent compiler to see variable names"}
+          </span>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Slot</TableHead>
+                  <TableHead>Variable</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {account.storage.map((change) => (
+                  <StorageRows key={change.slot} change={change} />
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function StateDiffView({ txHash, nativeSymbol }: StateDiffViewProps) {
+  const { data, isLoading, error } = useQuery<StateDiffData>({
+    queryKey: ["/api/transactions", txHash, "state"],
+    queryFn: async () => {
+      const res = await fetch(`/api/transactions/${txHash}/state`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || "Failed to load state changes");
+      return body;
+    },
+    enabled: !!txHash,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !data || data.accounts.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <Database className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>{error ? (error as Error).message : "No state changes recorded for this transaction"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {data.accounts.map((account) => (
+        <AccountDiff key={account.address} account={account} nativeSymbol={nativeSymbol} />
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { HashLink } from "./hash-link";
 import { AddressLink } from "./address-link";
 import { MethodBadge } from "./method-badge";
+import { useMethodSignatures } from "@/hooks/use-method-signatures";
+import { getSelector } from "@/lib/method-decoder";
 import { formatTBT, formatShortTimestamp } from "@/lib/formatters";
 import { ArrowRightLeft, ArrowRight, FileText, MoveRight } from "lucide-react";
 import { useAddressFormat } from "@/contexts/address-format-context";
@@ -32,6 +34,7 @@ export function TransactionsTable({
   const { isDesign2 } = useDesign();
   const nativeSymbol = chainConfig.native_symbol || "ETH";
   const displayTxs = limit ? transactions.slice(0, limit) : transactions;
+  const signatures = useMethodSignatures(displayTxs.map((tx) => tx.input));
 
   return (
     <Card className={isDesign2 ? "border-0 shadow-none bg-transparent" : ""}>
@@ -106,7 +109,7 @@ export function TransactionsTable({
                   </div>
 
                   <div className="flex items-center justify-between gap-2">
-                    <MethodBadge input={tx.input} />
+                    <MethodBadge input={tx.input} signature={signatures[getSelector(tx.input) ?? ""]} />
                     <span className="text-xs font-mono font-medium">
                       {formatTBT(tx.value)} {nativeSymbol}
                     </span>
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { getSelector, type SignatureInfo } from "@/lib/method-decoder";
+
+// Resolves the method selectors of a whole list in one request rather than one per row
+export function useMethodSignatures(inputs: (string | null | undefined)[]): Record<string, SignatureInfo> {
+  const selectors = Array.from(
+    new Set(inputs.map(getSelector).filter((s): s is string => s !== null))
+  ).sort();
+
+  const { data } = useQuery<{ signatures: Record<string, SignatureInfo> }>({
+    queryKey: ["/api/signatures", selectors],
+    queryFn: async () => {
+      const res = await fetch(`/api/signatures?selectors=${selectors.join(",")}`);
+      if (!res.ok) throw new Error("Failed to fetch signatures");
+      return res.json();
+    },
+    enabled: selectors.length > 0,
+    staleTime: Infinity,
+  });
+
+  return data?.signatures ?? {};
+}
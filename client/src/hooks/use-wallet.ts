@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+const TELEBIT_CHAIN_ID = "0x21707"; // 136919 in hex - Telebit chain ID
+
+export interface WalletTransaction {
+  to: string;
+  data: string;
+  // Hex quantities, as eth_sendTransaction expects
+  value?: string;
+  gas?: string;
+}
+
+function getEthereum(): any {
+  return typeof window === "undefined" ? undefined : (window as any).ethereum;
+}
+
+// Browser wallet (window.ethereum) connection shared by the contract write tab and the approvals page
+export function useWallet() {
+  const { toast } = useToast();
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const checkAndSwitchNetwork = async (): Promise<boolean> => {
+    const ethereum = getEthereum();
+    if (!ethereum) return false;
+
+    try {
+      const chainId = await ethereum.request({ method: "eth_chainId" });
+      if (chainId === TELEBIT_CHAIN_ID) {
+        return true;
+      }
+
+      try {
+        await ethereum.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: TELEBIT_CHAIN_ID }],
+        });
+        return true;
+      } catch (switchError: any) {
+        if (switchError.code === 4001) {
+          return false;
+        }
+        if (switchError.code === 4902) {
+          toast({
+            title: "Network Not Found",
+            description: "Please add Telebit network using the button in the footer, or add manually: Chain ID 136919, RPC: https://rpc.telemeet.space",
+          });
+        } else {
+          toast({
+            title: "Wrong Network",
+            description: "Please switch to Telebit network (Chain ID: 136919) in your wallet.",
+          });
+        }
+        return false;
+      }
+    } catch {
+      return false;
+    }
+  };
+
+  const connectWallet = async () => {
+    const ethereum = getEthereum();
+    if (!ethereum) {
+      toast({
+        title: "Wallet not found",
+        description: "Please install MetaMask or another Web3 wallet to interact with contracts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsConnecting(true);
+    try {
+      const accounts = await ethereum.request({ method: "eth_requestAccounts" });
+      if (accounts.length > 0) {
+        setWalletAddress(accounts[0]);
+        toast({
+          title: "Wallet connected",
+          description: `Connected: ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
+        });
+        await checkAndSwitchNetwork();
+      }
+    } catch (err: any) {
+      toast({
+        title: "Connection failed",
+        description: err.message || "Failed to connect wallet",
+        variant: "destructive",
+      });
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const disconnectWallet = () => {
+    setWalletAddress(null);
+    toast({
+      title: "Wallet disconnected",
+    });
+  };
+
+  // Returns the transaction hash; throws when the wallet rejects or fails to send
+  const sendTransaction = async (tx: WalletTransaction): Promise<string> => {
+    const ethereum = getEthereum();
+    if (!ethereum || !walletAddress) throw new Error("Wallet not connected");
+
+    return await ethereum.request({
+      method: "eth_sendTransaction",
+      params: [{
+        from: walletAddress,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value || "0x0",
+        ...(tx.gas ? { gas: tx.gas } : {}),
+      }],
+    });
+  };
+
+  return { walletAddress, isConnecting, connectWallet, disconnectWallet, checkAndSwitchNetwork, sendTransaction };
+}
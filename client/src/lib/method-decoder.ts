@@ -1,75 +1,11 @@
-const KNOWN_METHODS: Record<string, { name: string; type: string }> = {
-  "0xa9059cbb": { name: "transfer", type: "token" },
-  "0x23b872dd": { name: "transferFrom", type: "token" },
-  "0x095ea7b3": { name: "approve", type: "token" },
-  "0x70a08231": { name: "balanceOf", type: "token" },
-  "0xdd62ed3e": { name: "allowance", type: "token" },
-  "0x18160ddd": { name: "totalSupply", type: "token" },
-  "0x313ce567": { name: "decimals", type: "token" },
-  "0x06fdde03": { name: "name", type: "token" },
-  "0x95d89b41": { name: "symbol", type: "token" },
-  
-  "0x42842e0e": { name: "safeTransferFrom", type: "nft" },
-  "0xb88d4fde": { name: "safeTransferFrom", type: "nft" },
-  "0xa22cb465": { name: "setApprovalForAll", type: "nft" },
-  "0x6352211e": { name: "ownerOf", type: "nft" },
-  "0xe985e9c5": { name: "isApprovedForAll", type: "nft" },
-  "0x081812fc": { name: "getApproved", type: "nft" },
-  "0xc87b56dd": { name: "tokenURI", type: "nft" },
-  
-  "0xd0e30db0": { name: "deposit", type: "defi" },
-  "0x2e1a7d4d": { name: "withdraw", type: "defi" },
-  "0xe2bbb158": { name: "deposit", type: "defi" },
-  "0x441a3e70": { name: "withdraw", type: "defi" },
-  "0xf305d719": { name: "addLiquidity", type: "defi" },
-  "0xbaa2abde": { name: "removeLiquidity", type: "defi" },
-  "0x38ed1739": { name: "swapExactTokensForTokens", type: "defi" },
-  "0x7ff36ab5": { name: "swapExactETHForTokens", type: "defi" },
-  "0x18cbafe5": { name: "swapExactTokensForETH", type: "defi" },
-  "0xfb3bdb41": { name: "swapETHForExactTokens", type: "defi" },
-  "0x8803dbee": { name: "swapTokensForExactTokens", type: "defi" },
-  "0x5c11d795": { name: "swapExactTokensForTokensSupportingFeeOnTransferTokens", type: "defi" },
-  "0xb6f9de95": { name: "swapExactETHForTokensSupportingFeeOnTransferTokens", type: "defi" },
-  "0x791ac947": { name: "swapExactTokensForETHSupportingFeeOnTransferTokens", type: "defi" },
-  "0xe8e33700": { name: "addLiquidity", type: "defi" },
-  "0xf91b3f72": { name: "addLiquidityETH", type: "defi" },
-  
-  "0x60806040": { name: "Contract Creation", type: "deploy" },
-  "0x5fbfb9cf": { name: "initialize", type: "proxy" },
-  "0xc4d66de8": { name: "initialize", type: "proxy" },
-  "0xfe4b84df": { name: "initialize", type: "proxy" },
-  "0x8129fc1c": { name: "initialize", type: "proxy" },
-  "0x4f1ef286": { name: "upgradeToAndCall", type: "proxy" },
-  "0x3659cfe6": { name: "upgradeTo", type: "proxy" },
-  
-  "0x8da5cb5b": { name: "owner", type: "ownership" },
-  "0x715018a6": { name: "renounceOwnership", type: "ownership" },
-  "0xf2fde38b": { name: "transferOwnership", type: "ownership" },
-  
-  "0x3ccfd60b": { name: "withdraw", type: "common" },
-  "0x12065fe0": { name: "getBalance", type: "common" },
-  "0x8456cb59": { name: "pause", type: "common" },
-  "0x3f4ba83a": { name: "unpause", type: "common" },
-  "0x40c10f19": { name: "mint", type: "common" },
-  "0xa0712d68": { name: "mint", type: "common" },
-  "0x42966c68": { name: "burn", type: "common" },
-  "0x79cc6790": { name: "burnFrom", type: "common" },
-  "0x1249c58b": { name: "mint", type: "common" },
-  
-  "0x3593564c": { name: "execute", type: "uniswap" },
-  "0x04e45aaf": { name: "exactInputSingle", type: "uniswap" },
-  "0xb858183f": { name: "exactInput", type: "uniswap" },
-  "0x5023b4df": { name: "exactOutputSingle", type: "uniswap" },
-  "0x09b81346": { name: "exactOutput", type: "uniswap" },
-  
-  "0x0d58e9ad": { name: "claim", type: "airdrop" },
-  "0x4e71d92d": { name: "claim", type: "airdrop" },
-  "0x2e7ba6ef": { name: "claim", type: "airdrop" },
-  
-  "0x150b7a02": { name: "onERC721Received", type: "callback" },
-  "0xf23a6e61": { name: "onERC1155Received", type: "callback" },
-  "0xbc197c81": { name: "onERC1155BatchReceived", type: "callback" },
-};
+// Contract creation transactions carry init code rather than a selector
+const CONTRACT_CREATION_PREFIX = "0x60806040";
+
+export interface SignatureInfo {
+  name: string;
+  textSignature: string;
+  category: string | null;
+}
 
 export interface DecodedMethod {
   selector: string;
@@ -78,7 +14,13 @@ export interface DecodedMethod {
   isKnown: boolean;
 }
 
-export function decodeMethod(input: string | null | undefined): DecodedMethod {
+export function getSelector(input: string | null | undefined): string | null {
+  if (!input || input === "0x" || input.length < 10) return null;
+  return input.slice(0, 10).toLowerCase();
+}
+
+// Names come from the server-side signature registry (/api/signatures)
+export function decodeMethod(input: string | null | undefined, signature?: SignatureInfo | null): DecodedMethod {
   if (!input || input === "0x" || input.length < 10) {
     return {
       selector: "",
@@ -89,13 +31,21 @@ export function decodeMethod(input: string | null | undefined): DecodedMethod {
   }
 
   const selector = input.slice(0, 10).toLowerCase();
-  const known = KNOWN_METHODS[selector];
 
-  if (known) {
+  if (selector === CONTRACT_CREATION_PREFIX) {
+    return {
+      selector,
+      name: "Contract Creation",
+      type: "deploy",
+      isKnown: true
+    };
+  }
+
+  if (signature) {
     return {
       selector,
-      name: known.name,
-      type: known.type,
+      name: signature.name,
+      type: signature.category || "contract",
       isKnown: true
     };
   }
@@ -0,0 +1,12 @@
+// The server scopes every /api request to the chain named by this cookie
+const CHAIN_COOKIE = "chain";
+const ONE_YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+export function getSelectedChainId(): number | undefined {
+  const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${CHAIN_COOKIE}=(\\d+)`));
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function setSelectedChainId(chainId: number): void {
+  document.cookie = `${CHAIN_COOKIE}=${chainId}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+}
@@ -12,6 +12,8 @@ import { CopyButton } from "@/components/copy-button";
 import { HashLink } from "@/components/hash-link";
 import { AddressLink } from "@/components/address-link";
 import { Pagination } from "@/components/pagination";
+import { SourceFileTree, type SourceFile } from "@/components/source-file-tree";
+import { DecodedEventParams } from "@/components/decoded-event-params";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
@@ -24,6 +26,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Coins, Search, MoreVertical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import {
   formatNumber,
@@ -32,9 +35,12 @@ import {
   formatFullTimestamp,
   getMethodColor,
 } from "@/lib/formatters";
-import { User, FileCode, Wallet, ArrowRightIcon, Clock, Send, Download, Info, ExternalLink, CheckCircle2, XCircle, ChevronDown, ChevronRight, Loader2, AlertCircle, BookOpen, Pencil, Upload, Star } from "lucide-react";
+import { User, FileCode, Wallet, ArrowRightIcon, Clock, Send, Download, Info, ExternalLink, CheckCircle2, XCircle, ChevronDown, ChevronRight, Loader2, AlertCircle, BookOpen, Pencil, Upload, Star, ShieldCheck } from "lucide-react";
 import { isInWatchlist, addToWatchlist, removeFromWatchlist } from "@/lib/watchlist";
-import type { Address, Transaction, VerifiedContract, TokenTransfer, Token, TokenHolder, TransactionLog } from "@shared/schema";
+import { PendingStatusBadge } from "@/components/pending-status-badge";
+import { BalanceHistoryChart } from "@/components/balance-history-chart";
+import { DeployedContracts } from "@/components/deployed-contracts";
+import type { Address, Transaction, VerifiedContract, TokenTransfer, Token, TokenHolder, DecodedTransactionLog, PendingTransaction, ContractCreation } from "@shared/schema";
 
 const PAGE_SIZE = 25;
 
@@ -42,6 +48,8 @@ interface AddressData {
   address: Address;
   transactions: Transaction[];
   totalTransactions: number;
+  creation: ContractCreation | null;
+  deployedContractCount: number;
 }
 
 interface ContractMethod {
@@ -56,6 +64,33 @@ interface ContractMethods {
   writeMethods: ContractMethod[];
 }
 
+interface ProxyUpgradeEntry {
+  id: string;
+  implementationAddress: string | null;
+  beaconAddress: string | null;
+  eventType: string;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+interface ProxyData {
+  isProxy: boolean;
+  proxyType?: "eip1167" | "eip1967" | "eip1822" | "beacon";
+  implementationAddress?: string;
+  beaconAddress?: string | null;
+  implementationVerified?: boolean;
+  implementationName?: string | null;
+  upgrades?: ProxyUpgradeEntry[];
+}
+
+const PROXY_TYPE_LABELS: Record<string, string> = {
+  eip1167: "EIP-1167 Minimal Proxy",
+  eip1967: "EIP-1967 Transparent/UUPS Proxy",
+  eip1822: "EIP-1822 UUPS Proxy",
+  beacon: "EIP-1967 Beacon Proxy",
+};
+
 const COMPILER_VERSIONS = [
   "0.8.28", "0.8.27", "0.8.26", "0.8.25", "0.8.24", "0.8.23", "0.8.22", "0.8.21",
   "0.8.20", "0.8.19", "0.8.18", "0.8.17", "0.8.16", "0.8.15", "0.8.14", "0.8.13",
@@ -78,7 +113,12 @@ interface TokenHoldersData {
 }
 
 interface EventsData {
-  logs: TransactionLog[];
+  logs: DecodedTransactionLog[];
+  total: number;
+}
+
+interface PendingTransactionsData {
+  transactions: PendingTransaction[];
   total: number;
 }
 
@@ -106,24 +146,25 @@ export default function AddressPage() {
   const [tokenPage, setTokenPage] = useState(1);
   const [holderPage, setHolderPage] = useState(1);
   const [eventsPage, setEventsPage] = useState(1);
+  const [pendingPage, setPendingPage] = useState(1);
   const { toast } = useToast();
   const [showVerifyForm, setShowVerifyForm] = useState(false);
   const [verifyForm, setVerifyForm] = useState({
     name: "",
+    sourceFormat: "solidity-single-file",
     sourceCode: "",
+    standardJsonInput: "",
     compilerVersion: "0.8.20",
     evmVersion: "paris",
     optimization: false,
     runs: 200,
     constructorArgs: "",
-    abi: "",
     license: "MIT",
   });
   const [methodInputs, setMethodInputs] = useState<Record<string, Record<string, string>>>({});
   const [methodResults, setMethodResults] = useState<Record<string, { result: any; loading: boolean; error: string | null }>>({});
   const [expandedMethods, setExpandedMethods] = useState<Set<string>>(new Set());
-  const [walletAddress, setWalletAddress] = useState<string | null>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const { walletAddress, isConnecting, connectWallet, disconnectWallet, checkAndSwitchNetwork, sendTransaction } = useWallet();
   const [writeResults, setWriteResults] = useState<Record<string, { txHash?: string; loading: boolean; error: string | null }>>({});
   const [tokenHoldingsOpen, setTokenHoldingsOpen] = useState(false);
   const [tokenSearch, setTokenSearch] = useState("");
@@ -137,143 +178,67 @@ export default function AddressPage() {
     }
   }, [normalizedAddress]);
 
-  const TELEBIT_CHAIN_ID = "0x21707"; // 136919 in hex - Telebit chain ID
-
-  const checkAndSwitchNetwork = async (): Promise<boolean> => {
-    if (typeof window === "undefined" || !(window as any).ethereum) return false;
-
-    try {
-      const chainId = await (window as any).ethereum.request({ method: "eth_chainId" });
-      if (chainId === TELEBIT_CHAIN_ID) {
-        return true;
-      }
-      
-      try {
-        await (window as any).ethereum.request({
-          method: "wallet_switchEthereumChain",
-          params: [{ chainId: TELEBIT_CHAIN_ID }],
-        });
-        return true;
-      } catch (switchError: any) {
-        if (switchError.code === 4001) {
-          return false;
-        }
-        if (switchError.code === 4902) {
-          toast({
-            title: "Network Not Found",
-            description: "Please add Telebit network using the button in the footer, or add manually: Chain ID 136919, RPC: https://rpc.telemeet.space",
-          });
-        } else {
-          toast({
-            title: "Wrong Network",
-            description: "Please switch to Telebit network (Chain ID: 136919) in your wallet.",
-          });
-        }
-        return false;
-      }
-    } catch {
-      return false;
-    }
-  };
-
-  const connectWallet = async () => {
-    if (typeof window === "undefined" || !(window as any).ethereum) {
-      toast({
-        title: "Wallet not found",
-        description: "Please install MetaMask or another Web3 wallet to interact with contracts.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsConnecting(true);
-    try {
-      const accounts = await (window as any).ethereum.request({ method: "eth_requestAccounts" });
-      if (accounts.length > 0) {
-        setWalletAddress(accounts[0]);
-        toast({
-          title: "Wallet connected",
-          description: `Connected: ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
-        });
-        await checkAndSwitchNetwork();
-      }
-    } catch (err: any) {
-      toast({
-        title: "Connection failed",
-        description: err.message || "Failed to connect wallet",
-        variant: "destructive",
-      });
-    } finally {
-      setIsConnecting(false);
-    }
-  };
-
-  const disconnectWallet = () => {
-    setWalletAddress(null);
+  const handleDisconnectWallet = () => {
+    disconnectWallet();
     setWriteResults({});
-    toast({
-      title: "Wallet disconnected",
-    });
   };
 
-  const callWriteMethod = async (methodName: string, method: ContractMethod) => {
+  const callWriteMethod = async (method: ContractMethod, asProxy = false) => {
     if (!walletAddress || !normalizedAddress) return;
     
-    if (writeResults[methodName]?.loading) return;
+    const resultKey = `${asProxy ? "proxy_" : ""}${method.name}`;
+    const inputKey = `${asProxy ? "proxy_" : ""}write_${method.name}`;
+    if (writeResults[resultKey]?.loading) return;
 
     setExpandedMethods(prev => {
       const newSet = new Set(prev);
-      newSet.add(`write_${methodName}`);
+      newSet.add(inputKey);
       return newSet;
     });
 
     setWriteResults(prev => ({
       ...prev,
-      [methodName]: { loading: true, error: null, txHash: undefined }
+      [resultKey]: { loading: true, error: null, txHash: undefined }
     }));
 
     const networkOk = await checkAndSwitchNetwork();
     if (!networkOk) {
       setWriteResults(prev => ({
         ...prev,
-        [methodName]: { loading: false, error: "Please switch to Telebit network (Chain ID: 136919) to continue", txHash: undefined }
+        [resultKey]: { loading: false, error: "Please switch to Telebit network (Chain ID: 136919) to continue", txHash: undefined }
       }));
       return;
     }
 
-    const inputs = methodInputs[`write_${methodName}`] || {};
+    const inputs = methodInputs[inputKey] || {};
     const args = method.inputs.map(input => inputs[input.name] || "");
     const value = method.stateMutability === "payable" ? inputs["_value"] || "0" : "0";
 
     try {
       const prepareRes = await apiRequest("POST", `/api/contracts/${normalizedAddress}/write/prepare`, {
-        methodName,
+        functionName: method.name,
         args,
         value,
-        from: walletAddress,
+        asProxy,
       });
       
       if (!prepareRes.ok) {
         const errorData = await prepareRes.json();
-        throw new Error(errorData.error || "Failed to prepare transaction");
+        throw new Error(errorData.message || "Failed to prepare transaction");
       }
       
       const txData = await prepareRes.json();
 
-      const txHash = await (window as any).ethereum.request({
-        method: "eth_sendTransaction",
-        params: [{
-          from: walletAddress,
-          to: normalizedAddress,
-          data: txData.data,
-          value: txData.value || "0x0",
-          gas: txData.gas || "0x5208",
-        }],
+      const txHash = await sendTransaction({
+        to: normalizedAddress,
+        data: txData.data,
+        value: txData.value,
+        gas: txData.gas || "0x5208",
       });
 
       setWriteResults(prev => ({
         ...prev,
-        [methodName]: { txHash, loading: false, error: null }
+        [resultKey]: { txHash, loading: false, error: null }
       }));
 
       toast({
@@ -284,7 +249,7 @@ export default function AddressPage() {
       const errorMessage = err.message || "Transaction failed";
       setWriteResults(prev => ({
         ...prev,
-        [methodName]: { loading: false, error: errorMessage, txHash: undefined }
+        [resultKey]: { loading: false, error: errorMessage, txHash: undefined }
       }));
       toast({
         title: "Transaction failed",
@@ -304,7 +269,7 @@ export default function AddressPage() {
     enabled: !!normalizedAddress,
   });
 
-  const { data: contractData, isLoading: isLoadingContract } = useQuery<VerifiedContract & { isVerified: boolean }>({
+  const { data: contractData, isLoading: isLoadingContract } = useQuery<VerifiedContract & { isVerified: boolean; sourceFiles?: SourceFile[] }>({
     queryKey: ["/api/contracts", normalizedAddress],
     queryFn: async () => {
       const res = await fetch(`/api/contracts/${normalizedAddress}`);
@@ -315,6 +280,18 @@ export default function AddressPage() {
     enabled: !!normalizedAddress && data?.address?.isContract,
   });
 
+  const { data: compilersData } = useQuery<{ versions: string[] }>({
+    queryKey: ["/api/compilers"],
+    queryFn: async () => {
+      const res = await fetch("/api/compilers");
+      if (!res.ok) throw new Error("Failed to fetch compilers");
+      return res.json();
+    },
+    enabled: showVerifyForm,
+  });
+
+  const compilerVersions = compilersData?.versions?.length ? compilersData.versions : COMPILER_VERSIONS;
+
   const { data: methodsData } = useQuery<ContractMethods>({
     queryKey: ["/api/contracts", normalizedAddress, "methods"],
     queryFn: async () => {
@@ -325,6 +302,26 @@ export default function AddressPage() {
     enabled: !!normalizedAddress && !!contractData?.isVerified,
   });
 
+  const { data: proxyData } = useQuery<ProxyData>({
+    queryKey: ["/api/contracts", normalizedAddress, "proxy"],
+    queryFn: async () => {
+      const res = await fetch(`/api/contracts/${normalizedAddress}/proxy`);
+      if (!res.ok) throw new Error("Failed to fetch proxy info");
+      return res.json();
+    },
+    enabled: !!normalizedAddress && data?.address?.isContract,
+  });
+
+  const { data: proxyMethodsData } = useQuery<ContractMethods>({
+    queryKey: ["/api/contracts", normalizedAddress, "methods", "proxy"],
+    queryFn: async () => {
+      const res = await fetch(`/api/contracts/${normalizedAddress}/methods?asProxy=true`);
+      if (!res.ok) throw new Error("Failed to fetch proxy methods");
+      return res.json();
+    },
+    enabled: !!normalizedAddress && !!proxyData?.implementationVerified,
+  });
+
   const { data: tokenTransfersData, isLoading: isLoadingTokens } = useQuery<TokenTransferData>({
     queryKey: ["/api/token-transfers", normalizedAddress, tokenPage],
     queryFn: async () => {
@@ -388,32 +385,51 @@ export default function AddressPage() {
     enabled: !!normalizedAddress,
   });
 
+  // Mempool transactions sent from or to this address, plus recently dropped or replaced ones
+  const { data: pendingData, isLoading: isLoadingPending } = useQuery<PendingTransactionsData>({
+    queryKey: ["/api/addresses", normalizedAddress, "pending", pendingPage],
+    queryFn: async () => {
+      const res = await fetch(`/api/addresses/${normalizedAddress}/pending?page=${pendingPage}&limit=${PAGE_SIZE}`);
+      if (!res.ok) return { transactions: [], total: 0 };
+      return res.json();
+    },
+    enabled: !!normalizedAddress,
+    refetchInterval: 10000,
+  });
+
+  const pendingCount = pendingData?.transactions.filter((tx) => tx.status === "pending").length || 0;
+
   const isToken = !!tokenInfo;
 
   const verifyMutation = useMutation({
     mutationFn: async (formData: typeof verifyForm) => {
-      let parsedAbi;
-      try {
-        parsedAbi = JSON.parse(formData.abi);
-      } catch {
-        throw new Error("Invalid ABI JSON format");
+      let standardJsonInput;
+      if (formData.sourceFormat === "solidity-standard-json-input") {
+        try {
+          standardJsonInput = JSON.parse(formData.standardJsonInput);
+        } catch {
+          throw new Error("Invalid standard JSON input");
+        }
       }
-      
+
       const res = await apiRequest("POST", `/api/contracts/${normalizedAddress}/verify`, {
         name: formData.name,
-        sourceCode: formData.sourceCode,
+        sourceCode: standardJsonInput ? undefined : formData.sourceCode,
+        standardJsonInput,
         compilerVersion: formData.compilerVersion,
         evmVersion: formData.evmVersion,
         optimization: formData.optimization,
         runs: formData.runs,
         constructorArgs: formData.constructorArgs || undefined,
-        abi: parsedAbi,
         license: formData.license || undefined,
       });
       return res.json();
     },
-    onSuccess: () => {
-      toast({ title: "Contract verified successfully" });
+    onSuccess: (data: { matchType: "full" | "partial" }) => {
+      toast({
+        title: "Contract verified successfully",
+        description: data.matchType === "full" ? "Full match: bytecode and metadata are identical" : "Partial match: bytecode matches, metadata hash differs",
+      });
       setShowVerifyForm(false);
       queryClient.invalidateQueries({ queryKey: ["/api/contracts", normalizedAddress] });
       queryClient.invalidateQueries({ queryKey: ["/api/contracts", normalizedAddress, "methods"] });
@@ -423,33 +439,33 @@ export default function AddressPage() {
     },
   });
 
-  const callReadMethod = async (methodName: string) => {
+  const callReadMethod = async (method: ContractMethod, asProxy = false) => {
     if (!normalizedAddress) return;
     
-    const inputs = methodInputs[methodName] || {};
-    const args = methodsData?.readMethods
-      .find(m => m.name === methodName)?.inputs
-      .map(input => inputs[input.name] || "") || [];
+    const key = `${asProxy ? "proxy_" : ""}${method.name}`;
+    const inputs = methodInputs[key] || {};
+    const args = method.inputs.map(input => inputs[input.name] || "");
     
     setMethodResults(prev => ({
       ...prev,
-      [methodName]: { result: null, loading: true, error: null }
+      [key]: { result: null, loading: true, error: null }
     }));
 
     try {
       const res = await apiRequest("POST", `/api/contracts/${normalizedAddress}/read`, {
-        functionName: methodName,
+        functionName: method.name,
         args,
+        asProxy,
       });
       const data = await res.json();
       setMethodResults(prev => ({
         ...prev,
-        [methodName]: { result: data.result, loading: false, error: null }
+        [key]: { result: data.result, loading: false, error: null }
       }));
     } catch (err: any) {
       setMethodResults(prev => ({
         ...prev,
-        [methodName]: { result: null, loading: false, error: err.message }
+        [key]: { result: null, loading: false, error: err.message }
       }));
     }
   };
@@ -515,6 +531,376 @@ export default function AddressPage() {
   const Icon = address.isContract ? FileCode : User;
   const verifiedContractName = contractData?.isVerified ? contractData.name : null;
 
+  const renderProxyInfo = () => proxyData?.isProxy && proxyData.implementationAddress ? (
+    <Card data-testid="card-proxy-info">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Info className="h-5 w-5" />
+          <CardTitle className="text-lg">Proxy Contract</CardTitle>
+        </div>
+        <Badge variant="outline" data-testid="badge-proxy-type">
+          {PROXY_TYPE_LABELS[proxyData.proxyType || ""] || proxyData.proxyType}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+          <span className="text-sm text-muted-foreground sm:w-40">Implementation</span>
+          <div className="flex items-center gap-2 min-w-0">
+            <AddressLink address={proxyData.implementationAddress} isContract showFull />
+            {proxyData.implementationVerified ? (
+              <Badge variant="secondary" className="text-xs">
+                <CheckCircle2 className="h-3 w-3 mr-1 text-green-500" />
+                {proxyData.implementationName || "Verified"}
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs">Not verified</Badge>
+            )}
+          </div>
+        </div>
+        {proxyData.beaconAddress && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+            <span className="text-sm text-muted-foreground sm:w-40">Beacon</span>
+            <AddressLink address={proxyData.beaconAddress} isContract showFull />
+          </div>
+        )}
+        {!!proxyData.upgrades?.length && (
+          <div className="space-y-2">
+            <div className="text-sm text-muted-foreground">Upgrade History</div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Implementation / Beacon</TableHead>
+                  <TableHead>Block</TableHead>
+                  <TableHead>Txn Hash</TableHead>
+                  <TableHead>Age</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proxyData.upgrades.map((upgrade) => (
+                  <TableRow key={upgrade.id} data-testid={`row-proxy-upgrade-${upgrade.id}`}>
+                    <TableCell>
+                      <Badge variant="secondary" className="text-xs">{upgrade.eventType}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {upgrade.implementationAddress ? (
+                        <AddressLink address={upgrade.implementationAddress} isContract />
+                      ) : upgrade.beaconAddress ? (
+                        <AddressLink address={upgrade.beaconAddress} isContract />
+                      ) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/block/${upgrade.blockNumber}`} className="text-primary hover:underline font-mono text-sm">
+                        {formatNumber(upgrade.blockNumber)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <HashLink hash={upgrade.transactionHash} type="tx" />
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatTimestamp(upgrade.timestamp)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  ) : null;
+
+  const renderReadMethods = (methods: ContractMethod[] | undefined, asProxy = false) => {
+    const prefix = asProxy ? "proxy_" : "";
+    const testIdPrefix = asProxy ? "proxy-" : "";
+    return (
+      <CardContent className="space-y-2">
+        {!methods?.length ? (
+          <div className="text-center text-muted-foreground py-8">
+            No read methods available
+          </div>
+        ) : (
+          methods.map((method, idx) => (
+            <Collapsible 
+              key={method.name}
+              open={expandedMethods.has(`${prefix}${method.name}`)}
+              onOpenChange={() => toggleMethodExpand(`${prefix}${method.name}`)}
+            >
+              <div className="border rounded-md">
+                <CollapsibleTrigger asChild>
+                  <button 
+                    className="w-full flex items-center justify-between p-3 text-left hover-elevate"
+                    data-testid={`button-expand-${testIdPrefix}${method.name}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground font-mono">{idx + 1}.</span>
+                      <span className="font-mono text-sm">{method.name}</span>
+                      {method.inputs.length === 0 && (
+                        <Badge variant="secondary" className="text-xs">No inputs</Badge>
+                      )}
+                    </div>
+                    {expandedMethods.has(`${prefix}${method.name}`) ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                  </button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <div className="px-3 pb-3 space-y-3 border-t pt-3">
+                    {method.inputs.length > 0 && (
+                      <div className="space-y-2">
+                        {method.inputs.map((input) => (
+                          <div key={input.name} className="space-y-1">
+                            <Label className="text-xs">
+                              {input.name || "_"} <span className="text-muted-foreground">({input.type})</span>
+                            </Label>
+                            <Input
+                              placeholder={`Enter ${input.type}`}
+                              className="font-mono text-sm"
+                              value={methodInputs[`${prefix}${method.name}`]?.[input.name] || ""}
+                              onChange={(e) => setMethodInputs(prev => ({
+                                ...prev,
+                                [`${prefix}${method.name}`]: {
+                                  ...prev[`${prefix}${method.name}`],
+                                  [input.name]: e.target.value
+                                }
+                              }))}
+                              data-testid={`input-${testIdPrefix}${method.name}-${input.name}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={() => callReadMethod(method, asProxy)}
+                      disabled={methodResults[`${prefix}${method.name}`]?.loading}
+                      data-testid={`button-query-${testIdPrefix}${method.name}`}
+                    >
+                      {methodResults[`${prefix}${method.name}`]?.loading ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : null}
+                      Query
+                    </Button>
+                    {methodResults[`${prefix}${method.name}`] && (
+                      <div className="bg-muted rounded-md p-3">
+                        {methodResults[`${prefix}${method.name}`].error ? (
+                          <div className="flex items-center gap-2 text-destructive text-sm">
+                            <AlertCircle className="h-4 w-4" />
+                            {methodResults[`${prefix}${method.name}`].error}
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            <div className="text-xs text-muted-foreground flex items-center gap-1">
+                              <span>Returns:</span>
+                              {method.outputs.map((o, i) => (
+                                <span key={i} className="font-mono">{o.type}</span>
+                              ))}
+                            </div>
+                            <div className="font-mono text-sm break-all" data-testid={`result-${testIdPrefix}${method.name}`}>
+                              {JSON.stringify(methodResults[`${prefix}${method.name}`].result)}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </CollapsibleContent>
+              </div>
+            </Collapsible>
+          ))
+        )}
+      </CardContent>
+    );
+  };
+
+  const renderWriteContract = (title: string, methods: ContractMethod[] | undefined, asProxy = false) => {
+    const prefix = asProxy ? "proxy_" : "";
+    const testIdPrefix = asProxy ? "proxy-" : "";
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex items-center gap-2">
+              <Pencil className="h-5 w-5" />
+              <CardTitle className="text-lg">{title}</CardTitle>
+            </div>
+            {walletAddress ? (
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="font-mono text-xs" data-testid="text-wallet-address">
+                  <Wallet className="h-3 w-3 mr-1" />
+                  {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
+                </Badge>
+                <Button 
+                  size="sm" 
+                  variant="outline"
+                  onClick={handleDisconnectWallet}
+                  data-testid="button-disconnect-wallet"
+                >
+                  Disconnect
+                </Button>
+              </div>
+            ) : (
+              <Button 
+                onClick={connectWallet}
+                disabled={isConnecting}
+                data-testid="button-connect-wallet"
+              >
+                {isConnecting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Wallet className="h-4 w-4 mr-2" />
+                )}
+                Connect Wallet
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!walletAddress && (
+            <div className="bg-muted/50 rounded-md p-4 flex items-center gap-3">
+              <AlertCircle className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium">Connect your wallet to interact</p>
+                <p className="text-muted-foreground">
+                  Write methods require a connected wallet to sign transactions. 
+                  Use MetaMask or another Web3 wallet to interact with this contract.
+                </p>
+              </div>
+            </div>
+          )}
+          {!methods?.length ? (
+            <div className="text-center text-muted-foreground py-8">
+              No write methods available
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {methods.map((method, idx) => {
+                const methodState = writeResults[`${prefix}${method.name}`] ?? { loading: false, error: null, txHash: undefined };
+                return (
+                  <Collapsible 
+                    key={method.name}
+                    open={expandedMethods.has(`${prefix}write_${method.name}`)}
+                    onOpenChange={() => toggleMethodExpand(`${prefix}write_${method.name}`)}
+                  >
+                    <div className="border rounded-md">
+                      <CollapsibleTrigger asChild>
+                        <button 
+                          className="w-full flex items-center justify-between p-3 text-left hover-elevate"
+                          data-testid={`button-expand-write-${testIdPrefix}${method.name}`}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground font-mono">{idx + 1}.</span>
+                            <span className="font-mono text-sm">{method.name}</span>
+                            {method.stateMutability === "payable" && (
+                              <Badge variant="default" className="text-xs">Payable</Badge>
+                            )}
+                          </div>
+                          {expandedMethods.has(`${prefix}write_${method.name}`) ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <div className="px-3 pb-3 space-y-3 border-t pt-3">
+                          {method.inputs.length > 0 && (
+                            <div className="space-y-2">
+                              {method.inputs.map((input) => (
+                                <div key={input.name} className="space-y-1">
+                                  <Label className="text-xs">
+                                    {input.name || "_"} <span className="text-muted-foreground">({input.type})</span>
+                                  </Label>
+                                  <Input
+                                    placeholder={`Enter ${input.type}`}
+                                    className="font-mono text-sm"
+                                    value={methodInputs[`${prefix}write_${method.name}`]?.[input.name] || ""}
+                                    onChange={(e) => setMethodInputs(prev => ({
+                                      ...prev,
+                                      [`${prefix}write_${method.name}`]: {
+                                        ...prev[`${prefix}write_${method.name}`],
+                                        [input.name]: e.target.value
+                                      }
+                                    }))}
+                                    data-testid={`input-write-${testIdPrefix}${method.name}-${input.name}`}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {method.stateMutability === "payable" && (
+                            <div className="space-y-1">
+                              <Label className="text-xs">
+                                Value <span className="text-muted-foreground">({nativeSymbol})</span>
+                              </Label>
+                              <Input
+                                placeholder="0.0"
+                                className="font-mono text-sm"
+                                value={methodInputs[`${prefix}write_${method.name}`]?.["_value"] || ""}
+                                onChange={(e) => setMethodInputs(prev => ({
+                                  ...prev,
+                                  [`${prefix}write_${method.name}`]: {
+                                    ...prev[`${prefix}write_${method.name}`],
+                                    ["_value"]: e.target.value
+                                  }
+                                }))}
+                                data-testid={`input-write-${testIdPrefix}${method.name}-value`}
+                              />
+                            </div>
+                          )}
+                          <Button
+                            size="sm"
+                            onClick={() => callWriteMethod(method, asProxy)}
+                            disabled={!walletAddress || methodState.loading}
+                            data-testid={`button-write-${testIdPrefix}${method.name}`}
+                          >
+                            {methodState.loading ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : null}
+                            {walletAddress ? "Write" : "Connect Wallet First"}
+                          </Button>
+                          <div className="bg-muted rounded-md p-3 min-h-[2.5rem]" data-testid={`status-write-${testIdPrefix}${method.name}`}>
+                            {methodState.loading ? (
+                              <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Preparing transaction...
+                              </div>
+                            ) : methodState.error ? (
+                              <div className="flex items-center gap-2 text-destructive text-sm" data-testid={`error-write-${testIdPrefix}${method.name}`}>
+                                <AlertCircle className="h-4 w-4" />
+                                {methodState.error}
+                              </div>
+                            ) : methodState.txHash ? (
+                              <div className="space-y-1">
+                                <div className="text-xs text-muted-foreground">Transaction Hash:</div>
+                                <div className="font-mono text-sm break-all flex items-center gap-2" data-testid={`result-write-${testIdPrefix}${method.name}`}>
+                                  <Link href={`/tx/${methodState.txHash}`} className="text-primary hover:underline">
+                                    {methodState.txHash}
+                                  </Link>
+                                  <CopyButton text={methodState.txHash || ""} />
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="text-muted-foreground text-sm" data-testid={`ready-write-${testIdPrefix}${method.name}`}>
+                                Ready to execute
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      </CollapsibleContent>
+                    </div>
+                  </Collapsible>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <div className="container mx-auto px-4 py-6 space-y-6 overflow-hidden">
       <div className="min-w-0">
@@ -558,6 +944,12 @@ export default function AddressPage() {
           >
             <Star className={`h-4 w-4 ${inWatchlist ? "fill-yellow-500 text-yellow-500" : ""}`} />
           </Button>
+          <Link href={`/approvals/${normalizedAddress}`}>
+            <Button size="sm" variant="outline" className="gap-1" data-testid="link-token-approvals">
+              <ShieldCheck className="h-4 w-4" />
+              Token Approvals
+            </Button>
+          </Link>
         </div>
       </div>
 
@@ -782,6 +1174,25 @@ export default function AddressPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4 overflow-hidden">
+            {data?.creation && (
+              <div data-testid="text-contract-creator">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">
+                  Contract Creator
+                </p>
+                <div className="text-sm mt-1 flex items-center gap-1 flex-wrap">
+                  <AddressLink address={data.creation.creatorAddress} showCopy={false} />
+                  <span className="text-muted-foreground">at txn</span>
+                  <HashLink hash={data.creation.transactionHash} type="tx" showCopy={false} />
+                </div>
+                {data.creation.factoryAddress && (
+                  <div className="text-xs mt-1 flex items-center gap-1 flex-wrap text-muted-foreground">
+                    Deployed by factory
+                    <AddressLink address={data.creation.factoryAddress} isContract showCopy={false} className="text-xs" />
+                    ({data.creation.creationType})
+                  </div>
+                )}
+              </div>
+            )}
             <div>
               <p className="text-xs text-muted-foreground uppercase tracking-wide">
                 Transactions Sent
@@ -867,12 +1278,27 @@ export default function AddressPage() {
           <TabsTrigger value="transactions" data-testid="tab-transactions">
             Transactions
           </TabsTrigger>
+          <TabsTrigger value="pending" data-testid="tab-pending">
+            Pending
+            {pendingCount > 0 && (
+              <Badge variant="secondary" className="ml-1.5 h-5 px-1.5 text-xs">{pendingCount}</Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="events" data-testid="tab-events">
             Events
           </TabsTrigger>
+          <TabsTrigger value="balance-history" data-testid="tab-balance-history">
+            Balance History
+          </TabsTrigger>
           <TabsTrigger value="tokens" data-testid="tab-tokens">
             Token Transfers
           </TabsTrigger>
+          {(data?.deployedContractCount ?? 0) > 0 && (
+            <TabsTrigger value="deployed" data-testid="tab-deployed-contracts">
+              Deployed Contracts
+              <Badge variant="secondary" className="ml-1.5 h-5 px-1.5 text-xs">{formatNumber(data?.deployedContractCount ?? 0)}</Badge>
+            </TabsTrigger>
+          )}
           {isToken && (
             <TabsTrigger value="holders" data-testid="tab-holders">
               Holders
@@ -893,6 +1319,16 @@ export default function AddressPage() {
               </TabsTrigger>
             </>
           )}
+          {address.isContract && proxyData?.implementationVerified && (
+            <>
+              <TabsTrigger value="read-proxy" data-testid="tab-read-proxy">
+                Read as Proxy
+              </TabsTrigger>
+              <TabsTrigger value="write-proxy" data-testid="tab-write-proxy">
+                Write as Proxy
+              </TabsTrigger>
+            </>
+          )}
         </TabsList>
 
         <TabsContent value="transactions" className="mt-4 min-w-0 overflow-hidden">
@@ -924,7 +1360,7 @@ export default function AddressPage() {
                           {tx.status === true ? (
                             <div className="w-2.5 h-2.5 rounded-full bg-green-500" title="Success" />
                           ) : tx.status === false ? (
-                            <div className="w-2.5 h-2.5 rounded-full bg-red-500" title="Failed" />
+                            <div className="w-2.5 h-2.5 rounded-full bg-red-500" title={tx.revertReason ? `Failed: ${tx.revertReason}` : "Failed"} />
                           ) : (
                             <div className="w-2.5 h-2.5 rounded-full bg-muted-foreground" title="Pending" />
                           )}
@@ -955,6 +1391,12 @@ export default function AddressPage() {
                             </span>
                           </div>
 
+                          {tx.status === false && tx.revertReason && (
+                            <p className="text-xs text-destructive truncate" title={tx.revertReason}>
+                              {tx.revertReason}
+                            </p>
+                          )}
+
                           <div className="flex items-center justify-between gap-2">
                             <div className="flex items-center gap-1.5 flex-shrink-0">
                               {isSelf ? (
@@ -991,6 +1433,116 @@ export default function AddressPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="pending" className="mt-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
+              <CardTitle className="text-lg">
+                Pending Transactions
+                {pendingData && pendingData.total > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {formatNumber(pendingData.total)}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingPending ? (
+                <div className="space-y-3">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-16 w-full" />
+                  ))}
+                </div>
+              ) : !pendingData || pendingData.transactions.length === 0 ? (
+                <div className="text-center text-muted-foreground py-8 space-y-2">
+                  <Clock className="h-8 w-8 mx-auto mb-4 opacity-50" />
+                  <p>No pending transactions for this address.</p>
+                  <p className="text-sm">Transactions show up here while they wait in the mempool, and stay listed for a while if they are dropped or replaced.</p>
+                </div>
+              ) : (
+                <>
+                  <div className="divide-y overflow-hidden">
+                    {pendingData.transactions.map((tx) => (
+                      <div
+                        key={tx.hash}
+                        className="flex flex-col gap-1.5 px-4 py-3 hover:bg-muted/50 transition-colors overflow-hidden"
+                        data-testid={`row-pending-${tx.hash.slice(0, 10)}`}
+                      >
+                        <div className="flex items-center justify-between gap-2 min-w-0">
+                          <div className="flex items-center gap-2 min-w-0 truncate">
+                            <PendingStatusBadge status={tx.status} size="sm" />
+                            <HashLink hash={tx.hash} type="tx" showCopy={false} className="text-sm" />
+                          </div>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            {formatTimestamp(tx.firstSeenAt)}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1.5 text-xs overflow-hidden min-w-0">
+                          <span className="truncate min-w-0">
+                            <AddressLink address={tx.from} showCopy={false} className="text-xs" />
+                          </span>
+                          <ArrowRightIcon className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                          <span className="truncate min-w-0">
+                            {tx.to ? (
+                              <AddressLink address={tx.to} showCopy={false} className="text-xs" />
+                            ) : (
+                              <span className="text-muted-foreground">Contract Creation</span>
+                            )}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                          <span className="text-muted-foreground">
+                            Nonce {tx.nonce}
+                            {tx.status === "replaced" && tx.replacedBy && (
+                              <>
+                                {" · replaced by "}
+                                <HashLink hash={tx.replacedBy} type="tx" showCopy={false} className="text-xs" />
+                              </>
+                            )}
+                          </span>
+                          <span className="font-mono font-medium flex-shrink-0">
+                            {formatTBT(tx.value)} {nativeSymbol}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {pendingData.total > PAGE_SIZE && (
+                    <div className="mt-4">
+                      <Pagination
+                        currentPage={pendingPage}
+                        totalPages={Math.ceil(pendingData.total / PAGE_SIZE)}
+                        onPageChange={setPendingPage}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balance-history" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Balance History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BalanceHistoryChart address={normalizedAddress} nativeSymbol={nativeSymbol} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="deployed" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Contracts Deployed by This Address</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DeployedContracts address={normalizedAddress} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="events" className="mt-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
@@ -1034,6 +1586,11 @@ export default function AddressPage() {
                               <Badge variant="secondary" className="text-xs h-5 px-1.5">
                                 Log #{log.logIndex}
                               </Badge>
+                              {log.decoded && (
+                                <span className="text-sm font-mono font-medium" data-testid={`event-name-${index}`}>
+                                  {log.decoded.name}
+                                </span>
+                              )}
                               <Link href={`/tx/${log.transactionHash}`}>
                                 <span className="text-xs font-mono text-blue-500 hover:underline cursor-pointer">
                                   {log.transactionHash.slice(0, 10)}...{log.transactionHash.slice(-8)}
@@ -1044,30 +1601,36 @@ export default function AddressPage() {
                               Block #{formatNumber(log.blockNumber)}
                             </span>
                           </div>
-                          <div className="flex flex-col gap-1 text-xs">
-                            <div className="flex items-start gap-2">
-                              <span className="text-muted-foreground min-w-[60px]">Topic 0:</span>
-                              <span className="font-mono text-muted-foreground break-all">
-                                {eventSignature || "N/A"}
-                              </span>
+                          {log.decoded ? (
+                            <div className="rounded-md border bg-background overflow-x-auto">
+                              <DecodedEventParams event={log.decoded} compact />
                             </div>
-                            {log.topics && log.topics.length > 1 && (
-                              <div className="flex items-start gap-2">
-                                <span className="text-muted-foreground min-w-[60px]">Topics:</span>
-                                <span className="font-mono text-muted-foreground">
-                                  +{log.topics.length - 1} more
-                                </span>
-                              </div>
-                            )}
-                            {log.data && log.data !== "0x" && (
+                          ) : (
+                            <div className="flex flex-col gap-1 text-xs">
                               <div className="flex items-start gap-2">
-                                <span className="text-muted-foreground min-w-[60px]">Data:</span>
-                                <span className="font-mono text-muted-foreground truncate max-w-[400px]">
-                                  {log.data.slice(0, 66)}...
+                                <span className="text-muted-foreground min-w-[60px]">Topic 0:</span>
+                                <span className="font-mono text-muted-foreground break-all">
+                                  {eventSignature || "N/A"}
                                 </span>
                               </div>
-                            )}
-                          </div>
+                              {log.topics && log.topics.length > 1 && (
+                                <div className="flex items-start gap-2">
+                                  <span className="text-muted-foreground min-w-[60px]">Topics:</span>
+                                  <span className="font-mono text-muted-foreground">
+                                    +{log.topics.length - 1} more
+                                  </span>
+                                </div>
+                              )}
+                              {log.data && log.data !== "0x" && (
+                                <div className="flex items-start gap-2">
+                                  <span className="text-muted-foreground min-w-[60px]">Data:</span>
+                                  <span className="font-mono text-muted-foreground truncate max-w-[400px]">
+                                    {log.data.slice(0, 66)}...
+                                  </span>
+                                </div>
+                              )}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -1114,7 +1677,7 @@ export default function AddressPage() {
                 <div className="space-y-2">
                   {tokenTransfersData.transfers.map((transfer, index) => (
                     <div
-                      key={`${transfer.transactionHash}-${transfer.logIndex}`}
+                      key={`${transfer.transactionHash}-${transfer.logIndex}-${transfer.batchIndex}`}
                       className="flex flex-col p-3 rounded-md bg-muted/50 space-y-2"
                       data-testid={`token-transfer-${index}`}
                     >
@@ -1253,6 +1816,7 @@ export default function AddressPage() {
 
         {address.isContract && (
           <TabsContent value="code" className="mt-4 space-y-4">
+            {proxyData?.isProxy && renderProxyInfo()}
             {contractData?.isVerified ? (
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
@@ -1261,6 +1825,12 @@ export default function AddressPage() {
                     <CardTitle className="text-lg">Verified Contract: {contractData.name}</CardTitle>
                   </div>
                   <div className="flex items-center gap-2 flex-wrap">
+                    {contractData.verificationStatus === "full" && (
+                      <Badge variant="default" className="bg-green-600" data-testid="badge-full-match">Full Match</Badge>
+                    )}
+                    {contractData.verificationStatus === "partial" && (
+                      <Badge variant="secondary" data-testid="badge-partial-match">Partial Match</Badge>
+                    )}
                     <Badge variant="outline">v{contractData.compilerVersion}</Badge>
                     {contractData.optimization && (
                       <Badge variant="secondary">Optimized ({contractData.runs} runs)</Badge>
@@ -1271,11 +1841,10 @@ export default function AddressPage() {
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="bg-muted rounded-md p-4 overflow-x-auto max-h-96">
-                    <pre className="text-xs font-mono whitespace-pre-wrap break-all">
-                      {contractData.sourceCode}
-                    </pre>
-                  </div>
+                  <SourceFileTree
+                    files={contractData.sourceFiles || [{ path: contractData.mainFile || `${contractData.name}.sol`, content: contractData.sourceCode }]}
+                    mainFile={contractData.mainFile}
+                  />
                 </CardContent>
               </Card>
             ) : (
@@ -1303,12 +1872,27 @@ export default function AddressPage() {
                           <Label htmlFor="contractName">Contract Name</Label>
                           <Input
                             id="contractName"
-                            placeholder="e.g., MyToken"
+                            placeholder={verifyForm.sourceFormat === "solidity-standard-json-input" ? "e.g., contracts/MyToken.sol:MyToken" : "e.g., MyToken"}
                             value={verifyForm.name}
                             onChange={(e) => setVerifyForm({ ...verifyForm, name: e.target.value })}
                             data-testid="input-contract-name"
                           />
                         </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="sourceFormat">Source Format</Label>
+                          <Select
+                            value={verifyForm.sourceFormat}
+                            onValueChange={(v) => setVerifyForm({ ...verifyForm, sourceFormat: v })}
+                          >
+                            <SelectTrigger data-testid="select-source-format">
+                              <SelectValue placeholder="Select format" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="solidity-single-file">Solidity (Single file)</SelectItem>
+                              <SelectItem value="solidity-standard-json-input">Solidity (Standard JSON Input)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                         <div className="space-y-2">
                           <Label htmlFor="compilerVersion">Compiler Version</Label>
                           <Select
@@ -1319,7 +1903,7 @@ export default function AddressPage() {
                               <SelectValue placeholder="Select version" />
                             </SelectTrigger>
                             <SelectContent>
-                              {COMPILER_VERSIONS.map(v => (
+                              {compilerVersions.map(v => (
                                 <SelectItem key={v} value={v}>v{v}</SelectItem>
                               ))}
                             </SelectContent>
@@ -1376,30 +1960,36 @@ export default function AddressPage() {
                           </div>
                         )}
                       </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="sourceCode">Source Code (Solidity)</Label>
-                        <Textarea
-                          id="sourceCode"
-                          placeholder="// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract MyContract { ... }"
-                          rows={12}
-                          className="font-mono text-xs"
-                          value={verifyForm.sourceCode}
-                          onChange={(e) => setVerifyForm({ ...verifyForm, sourceCode: e.target.value })}
-                          data-testid="textarea-source-code"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="abi">Contract ABI (JSON)</Label>
-                        <Textarea
-                          id="abi"
-                          placeholder='[{"inputs":[],"name":"myFunction",...}]'
-                          rows={6}
-                          className="font-mono text-xs"
-                          value={verifyForm.abi}
-                          onChange={(e) => setVerifyForm({ ...verifyForm, abi: e.target.value })}
-                          data-testid="textarea-abi"
-                        />
-                      </div>
+                      {verifyForm.sourceFormat === "solidity-standard-json-input" ? (
+                        <div className="space-y-2">
+                          <Label htmlFor="standardJsonInput">Standard JSON Input</Label>
+                          <Textarea
+                            id="standardJsonInput"
+                            placeholder='{"language":"Solidity","sources":{"contracts/MyToken.sol":{"content":"..."}},"settings":{...}}'
+                            rows={12}
+                            className="font-mono text-xs"
+                            value={verifyForm.standardJsonInput}
+                            onChange={(e) => setVerifyForm({ ...verifyForm, standardJsonInput: e.target.value })}
+                            data-testid="textarea-standard-json"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Optimizer, EVM version, remappings and libraries are taken from the input settings.
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label htmlFor="sourceCode">Source Code (Solidity)</Label>
+                          <Textarea
+                            id="sourceCode"
+                            placeholder="// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract MyContract { ... }"
+                            rows={12}
+                            className="font-mono text-xs"
+                            value={verifyForm.sourceCode}
+                            onChange={(e) => setVerifyForm({ ...verifyForm, sourceCode: e.target.value })}
+                            data-testid="textarea-source-code"
+                          />
+                        </div>
+                      )}
                       <div className="space-y-2">
                         <Label htmlFor="constructorArgs">Constructor Arguments (hex, optional)</Label>
                         <Input
@@ -1413,7 +2003,7 @@ export default function AddressPage() {
                       <Button 
                         className="w-full" 
                         onClick={() => verifyMutation.mutate(verifyForm)}
-                        disabled={verifyMutation.isPending || !verifyForm.name || !verifyForm.sourceCode || !verifyForm.abi}
+                        disabled={verifyMutation.isPending || !verifyForm.name || (verifyForm.sourceFormat === "solidity-standard-json-input" ? !verifyForm.standardJsonInput : !verifyForm.sourceCode)}
                         data-testid="button-submit-verify"
                       >
                         {verifyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
@@ -1442,291 +2032,38 @@ export default function AddressPage() {
                   <CardTitle className="text-lg">Read Contract</CardTitle>
                 </div>
               </CardHeader>
-              <CardContent className="space-y-2">
-                {!methodsData?.readMethods?.length ? (
-                  <div className="text-center text-muted-foreground py-8">
-                    No read methods available
-                  </div>
-                ) : (
-                  methodsData.readMethods.map((method, idx) => (
-                    <Collapsible 
-                      key={method.name}
-                      open={expandedMethods.has(method.name)}
-                      onOpenChange={() => toggleMethodExpand(method.name)}
-                    >
-                      <div className="border rounded-md">
-                        <CollapsibleTrigger asChild>
-                          <button 
-                            className="w-full flex items-center justify-between p-3 text-left hover-elevate"
-                            data-testid={`button-expand-${method.name}`}
-                          >
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs text-muted-foreground font-mono">{idx + 1}.</span>
-                              <span className="font-mono text-sm">{method.name}</span>
-                              {method.inputs.length === 0 && (
-                                <Badge variant="secondary" className="text-xs">No inputs</Badge>
-                              )}
-                            </div>
-                            {expandedMethods.has(method.name) ? (
-                              <ChevronDown className="h-4 w-4" />
-                            ) : (
-                              <ChevronRight className="h-4 w-4" />
-                            )}
-                          </button>
-                        </CollapsibleTrigger>
-                        <CollapsibleContent>
-                          <div className="px-3 pb-3 space-y-3 border-t pt-3">
-                            {method.inputs.length > 0 && (
-                              <div className="space-y-2">
-                                {method.inputs.map((input) => (
-                                  <div key={input.name} className="space-y-1">
-                                    <Label className="text-xs">
-                                      {input.name || "_"} <span className="text-muted-foreground">({input.type})</span>
-                                    </Label>
-                                    <Input
-                                      placeholder={`Enter ${input.type}`}
-                                      className="font-mono text-sm"
-                                      value={methodInputs[method.name]?.[input.name] || ""}
-                                      onChange={(e) => setMethodInputs(prev => ({
-                                        ...prev,
-                                        [method.name]: {
-                                          ...prev[method.name],
-                                          [input.name]: e.target.value
-                                        }
-                                      }))}
-                                      data-testid={`input-${method.name}-${input.name}`}
-                                    />
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                            <Button
-                              size="sm"
-                              onClick={() => callReadMethod(method.name)}
-                              disabled={methodResults[method.name]?.loading}
-                              data-testid={`button-query-${method.name}`}
-                            >
-                              {methodResults[method.name]?.loading ? (
-                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                              ) : null}
-                              Query
-                            </Button>
-                            {methodResults[method.name] && (
-                              <div className="bg-muted rounded-md p-3">
-                                {methodResults[method.name].error ? (
-                                  <div className="flex items-center gap-2 text-destructive text-sm">
-                                    <AlertCircle className="h-4 w-4" />
-                                    {methodResults[method.name].error}
-                                  </div>
-                                ) : (
-                                  <div className="space-y-1">
-                                    <div className="text-xs text-muted-foreground flex items-center gap-1">
-                                      <span>Returns:</span>
-                                      {method.outputs.map((o, i) => (
-                                        <span key={i} className="font-mono">{o.type}</span>
-                                      ))}
-                                    </div>
-                                    <div className="font-mono text-sm break-all" data-testid={`result-${method.name}`}>
-                                      {JSON.stringify(methodResults[method.name].result)}
-                                    </div>
-                                  </div>
-                                )}
-                              </div>
-                            )}
-                          </div>
-                        </CollapsibleContent>
-                      </div>
-                    </Collapsible>
-                  ))
-                )}
-              </CardContent>
+              {renderReadMethods(methodsData?.readMethods)}
             </Card>
           </TabsContent>
         )}
 
         {address.isContract && contractData?.isVerified && (
           <TabsContent value="write" className="mt-4">
+            {renderWriteContract("Write Contract", methodsData?.writeMethods)}
+          </TabsContent>
+        )}
+
+        {address.isContract && proxyData?.implementationVerified && (
+          <TabsContent value="read-proxy" className="mt-4 space-y-4">
+            {renderProxyInfo()}
             <Card>
               <CardHeader>
-                <div className="flex items-center justify-between gap-2 flex-wrap">
-                  <div className="flex items-center gap-2">
-                    <Pencil className="h-5 w-5" />
-                    <CardTitle className="text-lg">Write Contract</CardTitle>
-                  </div>
-                  {walletAddress ? (
-                    <div className="flex items-center gap-2">
-                      <Badge variant="secondary" className="font-mono text-xs" data-testid="text-wallet-address">
-                        <Wallet className="h-3 w-3 mr-1" />
-                        {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
-                      </Badge>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={disconnectWallet}
-                        data-testid="button-disconnect-wallet"
-                      >
-                        Disconnect
-                      </Button>
-                    </div>
-                  ) : (
-                    <Button 
-                      onClick={connectWallet}
-                      disabled={isConnecting}
-                      data-testid="button-connect-wallet"
-                    >
-                      {isConnecting ? (
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <Wallet className="h-4 w-4 mr-2" />
-                      )}
-                      Connect Wallet
-                    </Button>
-                  )}
+                <div className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  <CardTitle className="text-lg">Read as Proxy</CardTitle>
                 </div>
               </CardHeader>
-              <CardContent className="space-y-4">
-                {!walletAddress && (
-                  <div className="bg-muted/50 rounded-md p-4 flex items-center gap-3">
-                    <AlertCircle className="h-5 w-5 text-muted-foreground flex-shrink-0" />
-                    <div className="text-sm">
-                      <p className="font-medium">Connect your wallet to interact</p>
-                      <p className="text-muted-foreground">
-                        Write methods require a connected wallet to sign transactions. 
-                        Use MetaMask or another Web3 wallet to interact with this contract.
-                      </p>
-                    </div>
-                  </div>
-                )}
-                {!methodsData?.writeMethods?.length ? (
-                  <div className="text-center text-muted-foreground py-8">
-                    No write methods available
-                  </div>
-                ) : (
-                  <div className="space-y-2">
-                    {methodsData.writeMethods.map((method, idx) => {
-                      const methodState = writeResults[method.name] ?? { loading: false, error: null, txHash: undefined };
-                      return (
-                        <Collapsible 
-                          key={method.name}
-                          open={expandedMethods.has(`write_${method.name}`)}
-                          onOpenChange={() => toggleMethodExpand(`write_${method.name}`)}
-                        >
-                          <div className="border rounded-md">
-                            <CollapsibleTrigger asChild>
-                              <button 
-                                className="w-full flex items-center justify-between p-3 text-left hover-elevate"
-                                data-testid={`button-expand-write-${method.name}`}
-                              >
-                                <div className="flex items-center gap-2">
-                                  <span className="text-xs text-muted-foreground font-mono">{idx + 1}.</span>
-                                  <span className="font-mono text-sm">{method.name}</span>
-                                  {method.stateMutability === "payable" && (
-                                    <Badge variant="default" className="text-xs">Payable</Badge>
-                                  )}
-                                </div>
-                                {expandedMethods.has(`write_${method.name}`) ? (
-                                  <ChevronDown className="h-4 w-4" />
-                                ) : (
-                                  <ChevronRight className="h-4 w-4" />
-                                )}
-                              </button>
-                            </CollapsibleTrigger>
-                            <CollapsibleContent>
-                              <div className="px-3 pb-3 space-y-3 border-t pt-3">
-                                {method.inputs.length > 0 && (
-                                  <div className="space-y-2">
-                                    {method.inputs.map((input) => (
-                                      <div key={input.name} className="space-y-1">
-                                        <Label className="text-xs">
-                                          {input.name || "_"} <span className="text-muted-foreground">({input.type})</span>
-                                        </Label>
-                                        <Input
-                                          placeholder={`Enter ${input.type}`}
-                                          className="font-mono text-sm"
-                                          value={methodInputs[`write_${method.name}`]?.[input.name] || ""}
-                                          onChange={(e) => setMethodInputs(prev => ({
-                                            ...prev,
-                                            [`write_${method.name}`]: {
-                                              ...prev[`write_${method.name}`],
-                                              [input.name]: e.target.value
-                                            }
-                                          }))}
-                                          data-testid={`input-write-${method.name}-${input.name}`}
-                                        />
-                                      </div>
-                                    ))}
-                                  </div>
-                                )}
-                                {method.stateMutability === "payable" && (
-                                  <div className="space-y-1">
-                                    <Label className="text-xs">
-                                      Value <span className="text-muted-foreground">({nativeSymbol})</span>
-                                    </Label>
-                                    <Input
-                                      placeholder="0.0"
-                                      className="font-mono text-sm"
-                                      value={methodInputs[`write_${method.name}`]?.["_value"] || ""}
-                                      onChange={(e) => setMethodInputs(prev => ({
-                                        ...prev,
-                                        [`write_${method.name}`]: {
-                                          ...prev[`write_${method.name}`],
-                                          ["_value"]: e.target.value
-                                        }
-                                      }))}
-                                      data-testid={`input-write-${method.name}-value`}
-                                    />
-                                  </div>
-                                )}
-                                <Button
-                                  size="sm"
-                                  onClick={() => callWriteMethod(method.name, method)}
-                                  disabled={!walletAddress || methodState.loading}
-                                  data-testid={`button-write-${method.name}`}
-                                >
-                                  {methodState.loading ? (
-                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                  ) : null}
-                                  {walletAddress ? "Write" : "Connect Wallet First"}
-                                </Button>
-                                <div className="bg-muted rounded-md p-3 min-h-[2.5rem]" data-testid={`status-write-${method.name}`}>
-                                  {methodState.loading ? (
-                                    <div className="flex items-center gap-2 text-muted-foreground text-sm">
-                                      <Loader2 className="h-4 w-4 animate-spin" />
-                                      Preparing transaction...
-                                    </div>
-                                  ) : methodState.error ? (
-                                    <div className="flex items-center gap-2 text-destructive text-sm" data-testid={`error-write-${method.name}`}>
-                                      <AlertCircle className="h-4 w-4" />
-                                      {methodState.error}
-                                    </div>
-                                  ) : methodState.txHash ? (
-                                    <div className="space-y-1">
-                                      <div className="text-xs text-muted-foreground">Transaction Hash:</div>
-                                      <div className="font-mono text-sm break-all flex items-center gap-2" data-testid={`result-write-${method.name}`}>
-                                        <Link href={`/tx/${methodState.txHash}`} className="text-primary hover:underline">
-                                          {methodState.txHash}
-                                        </Link>
-                                        <CopyButton text={methodState.txHash || ""} />
-                                      </div>
-                                    </div>
-                                  ) : (
-                                    <div className="text-muted-foreground text-sm" data-testid={`ready-write-${method.name}`}>
-                                      Ready to execute
-                                    </div>
-                                  )}
-                                </div>
-                              </div>
-                            </CollapsibleContent>
-                          </div>
-                        </Collapsible>
-                      );
-                    })}
-                  </div>
-                )}
-              </CardContent>
+              {renderReadMethods(proxyMethodsData?.readMethods, true)}
             </Card>
           </TabsContent>
         )}
+
+        {address.isContract && proxyData?.implementationVerified && (
+          <TabsContent value="write-proxy" className="mt-4 space-y-4">
+            {renderProxyInfo()}
+            {renderWriteContract("Write as Proxy", proxyMethodsData?.writeMethods, true)}
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
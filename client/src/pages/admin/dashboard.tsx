@@ -61,6 +61,9 @@ import {
   TrendingUp,
   BookOpen,
   Upload,
+  ShieldCheck,
+  Hash,
+  Check,
 } from "lucide-react";
 import { SiX, SiGithub, SiDiscord, SiTelegram, SiYoutube, SiMedium, SiLinkedin, SiFacebook, SiInstagram, SiReddit, SiTiktok } from "react-icons/si";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -81,6 +84,16 @@ interface AdminStats {
     currentBlock: number;
     targetBlock: number;
     syncProgress: number;
+    rpc: {
+      totalCalls: number;
+      httpRequests: number;
+      blocksIndexed: number;
+      callsPerBlock: number | null;
+      callsPerRequest: number | null;
+      blockReceipts: boolean | null;
+      blockTracing: boolean | null;
+      headFollowing: "subscription" | "polling";
+    } | null;
   };
   uptime: number;
 }
@@ -105,12 +118,28 @@ interface AdminApiKey {
   username?: string;
 }
 
+interface RpcEndpointHealth {
+  id: string | null;
+  url: string;
+  role: "general" | "archive" | "tracing";
+  primary: boolean;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  errors: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  downUntil: string | null;
+}
+
 interface Chain {
   id: string;
   chainId: number;
   name: string;
   shortName: string;
   rpcUrl: string;
+  wsUrl: string | null;
   nativeCurrency: string;
   nativeSymbol: string;
   nativeDecimals: number;
@@ -118,6 +147,7 @@ interface Chain {
   isDefault: boolean;
   bech32Prefix: string | null;
   addressDisplayFormat: string;
+  rpcEndpoints?: RpcEndpointHealth[];
 }
 
 interface ClaimStats {
@@ -164,6 +194,77 @@ interface Airdrop {
   updatedAt: string;
 }
 
+interface VerificationJob {
+  id: string;
+  guid: string;
+  contractAddress: string;
+  contractName: string;
+  compilerVersion: string;
+  sourceFormat: string;
+  status: "pending" | "compiling" | "pass" | "fail";
+  matchType: string | null;
+  failureReason: string | null;
+  attempts: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface SignatureEntry {
+  id: string;
+  selector: string;
+  kind: string;
+  name: string;
+  textSignature: string;
+  category: string | null;
+  source: string;
+  isPreferred: boolean;
+}
+
+interface SignatureStats {
+  total: number;
+  bySource: Record<string, number>;
+  collisions: number;
+}
+
+interface ClassifiedToken {
+  address: string;
+  name: string | null;
+  symbol: string | null;
+  tokenType: string;
+  detectedTokenType: string | null;
+  nonStandard: boolean;
+  nonStandardReason: string | null;
+  capabilities: Record<string, boolean> | null;
+  classificationNotes: string[] | null;
+  classificationOverride: boolean;
+  classifiedAt: string | null;
+  transferCount: number;
+}
+
+interface RepairRange {
+  fromBlock: number;
+  toBlock: number;
+  reason: "missing" | "tx_count_mismatch" | "unindexed_transfer_batch";
+  attempts: number;
+  lastError?: string;
+  updatedAt: string;
+}
+
+interface RepairStatus {
+  running: boolean;
+  lastScan: {
+    scannedAt: string;
+    gaps: { fromBlock: number; toBlock: number }[];
+    mismatches: { blockNumber: number; expected: number; stored: number }[];
+    unindexedBatchBlocks?: number[];
+    queuedRanges: number;
+  } | null;
+  pending: number;
+  failed: number;
+  queue: RepairRange[];
+  failedBackfill?: { fromBlock: number; toBlock: number; lastProcessedBlock: number; attempts?: number; lastError?: string; updatedAt: string }[];
+}
+
 const SOCIAL_ICONS: Record<string, { icon: any; label: string }> = {
   website: { icon: Globe, label: "Website" },
   twitter: { icon: SiX, label: "Twitter/X" },
@@ -196,6 +297,12 @@ export default function AdminDashboardPage() {
     refetchInterval: 10000,
   });
 
+  const { data: repairStatus, refetch: refetchRepairStatus } = useQuery<RepairStatus>({
+    queryKey: ["/api/admin/indexer/repair"],
+    enabled: !!adminAuth?.isAdmin,
+    refetchInterval: 10000,
+  });
+
   const { data: usersData, isLoading: isUsersLoading } = useQuery<{ users: AdminUser[]; total: number }>({
     queryKey: ["/api/admin/users"],
     enabled: !!adminAuth?.isAdmin,
@@ -221,6 +328,63 @@ export default function AdminDashboardPage() {
     enabled: !!adminAuth?.isAdmin,
   });
 
+  const [verificationFilter, setVerificationFilter] = useState("fail");
+  const { data: verificationJobsData, isLoading: isVerificationJobsLoading } = useQuery<{ jobs: VerificationJob[]; total: number }>({
+    queryKey: ["/api/admin/verification-jobs", verificationFilter],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/verification-jobs?status=${verificationFilter}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch verification jobs");
+      return res.json();
+    },
+    enabled: !!adminAuth?.isAdmin,
+  });
+
+  const { data: signatureStats } = useQuery<SignatureStats>({
+    queryKey: ["/api/admin/signatures/stats"],
+    enabled: !!adminAuth?.isAdmin,
+  });
+
+  const [collisionsPage, setCollisionsPage] = useState(1);
+  const { data: collisionsData, isLoading: isCollisionsLoading } = useQuery<{ collisions: { selector: string; signatures: SignatureEntry[] }[]; total: number }>({
+    queryKey: ["/api/admin/signatures/collisions", collisionsPage],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/signatures/collisions?page=${collisionsPage}&limit=20`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch signature collisions");
+      return res.json();
+    },
+    enabled: !!adminAuth?.isAdmin,
+  });
+
+  const [signatureImport, setSignatureImport] = useState({ content: "", kind: "auto" });
+
+  const [classificationPage, setClassificationPage] = useState(1);
+  const { data: classificationData, isLoading: isClassificationLoading } = useQuery<{ tokens: ClassifiedToken[]; total: number }>({
+    queryKey: ["/api/admin/tokens/classification", classificationPage],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/tokens/classification?page=${classificationPage}&limit=20`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch token classifications");
+      return res.json();
+    },
+    enabled: !!adminAuth?.isAdmin,
+  });
+
+  const [tokenLookup, setTokenLookup] = useState("");
+  const [classificationForm, setClassificationForm] = useState<{
+    token: ClassifiedToken | null;
+    tokenType: string;
+    nonStandard: boolean;
+    nonStandardReason: string;
+  }>({ token: null, tokenType: "ERC20", nonStandard: false, nonStandardReason: "" });
+
+  const editTokenClassification = (token: ClassifiedToken) => {
+    setClassificationForm({
+      token,
+      tokenType: token.tokenType,
+      nonStandard: token.nonStandard,
+      nonStandardReason: token.nonStandardReason || "",
+    });
+  };
+
   const { data: settingsData, isLoading: isSettingsLoading } = useQuery<{ settings: SiteSetting[] }>({
     queryKey: ["/api/admin/settings"],
     enabled: !!adminAuth?.isAdmin,
@@ -403,6 +567,7 @@ export default function AdminDashboardPage() {
     name: "",
     shortName: "",
     rpcUrl: "",
+    wsUrl: "",
     nativeCurrency: "",
     nativeSymbol: "",
     nativeDecimals: 18,
@@ -418,6 +583,7 @@ export default function AdminDashboardPage() {
       name: "",
       shortName: "",
       rpcUrl: "",
+      wsUrl: "",
       nativeCurrency: "",
       nativeSymbol: "",
       nativeDecimals: 18,
@@ -436,6 +602,7 @@ export default function AdminDashboardPage() {
       name: chain.name,
       shortName: chain.shortName,
       rpcUrl: chain.rpcUrl,
+      wsUrl: chain.wsUrl || "",
       nativeCurrency: chain.nativeCurrency,
       nativeSymbol: chain.nativeSymbol || chain.shortName,
       nativeDecimals: chain.nativeDecimals || 18,
@@ -447,7 +614,7 @@ export default function AdminDashboardPage() {
   };
 
   const updateChainMutation = useMutation({
-    mutationFn: async ({ chainId, data }: { chainId: number; data: typeof chainForm }) => {
+    mutationFn: async ({ chainId, data }: { chainId: number; data: Omit<typeof chainForm, "wsUrl"> & { wsUrl: string | null } }) => {
       return apiRequest("PATCH", `/api/chains/${chainId}`, data);
     },
     onSuccess: () => {
@@ -658,6 +825,179 @@ export default function AdminDashboardPage() {
     },
   });
 
+  const repairBlocksMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/indexer/repair");
+      return res.json();
+    },
+    onSuccess: (data: { scan: { queuedRanges: number }; indexerRunning: boolean }) => {
+      toast({
+        title: data.scan.queuedRanges > 0 ? `Queued ${data.scan.queuedRanges} ranges for repair` : "No missing blocks found",
+        description: data.scan.queuedRanges > 0 && !data.indexerRunning ? "Repairs will run when the indexer is started" : undefined,
+      });
+      refetchRepairStatus();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to scan for missing blocks", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const [endpointForms, setEndpointForms] = useState<Record<number, { url: string; role: RpcEndpointHealth["role"] }>>({});
+  const endpointFormFor = (chainId: number) => endpointForms[chainId] || { url: "", role: "general" as const };
+
+  const addRpcEndpointMutation = useMutation({
+    mutationFn: async ({ chainId, url, role }: { chainId: number; url: string; role: RpcEndpointHealth["role"] }) => {
+      const res = await apiRequest("POST", `/api/admin/chains/${chainId}/rpc-endpoints`, { url, role });
+      return res.json();
+    },
+    onSuccess: (_data, { chainId }) => {
+      toast({ title: "RPC endpoint added" });
+      setEndpointForms((forms) => ({ ...forms, [chainId]: { url: "", role: "general" } }));
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chains"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to add RPC endpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRpcEndpointMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/rpc-endpoints/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "RPC endpoint removed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chains"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to remove RPC endpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const retryVerificationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/verification-jobs/${id}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Verification job requeued" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/verification-jobs"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to retry job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importSignaturesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/signatures/import", {
+        content: signatureImport.content,
+        kind: signatureImport.kind === "auto" ? undefined : signatureImport.kind,
+      });
+      return res.json();
+    },
+    onSuccess: (result: { parsed: number; inserted: number; duplicates: number; invalid: number }) => {
+      toast({
+        title: "Signatures imported",
+        description: `${result.inserted} new, ${result.duplicates} already known, ${result.invalid} invalid`,
+      });
+      setSignatureImport({ content: "", kind: signatureImport.kind });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/signatures/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/signatures/collisions"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to import signatures", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const preferSignatureMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/signatures/${id}/prefer`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Preferred signature updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/signatures/collisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/signatures"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update signature", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const lookupTokenMutation = useMutation({
+    mutationFn: async (address: string) => {
+      const res = await apiRequest("GET", `/api/admin/tokens/${address}/classification`);
+      return res.json();
+    },
+    onSuccess: (result: { token: ClassifiedToken }) => editTokenClassification(result.token),
+    onError: (error: any) => {
+      toast({ title: "Token not found", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onTokenClassified = (title: string) => (result: { token: ClassifiedToken }) => {
+    toast({ title });
+    editTokenClassification(result.token);
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/tokens/classification"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+  };
+
+  const saveClassificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/admin/tokens/${classificationForm.token!.address}/classification`, {
+        tokenType: classificationForm.tokenType,
+        nonStandard: classificationForm.nonStandard,
+        nonStandardReason: classificationForm.nonStandardReason || null,
+      });
+      return res.json();
+    },
+    onSuccess: onTokenClassified("Classification overridden"),
+    onError: (error: any) => {
+      toast({ title: "Failed to save classification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetClassificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/admin/tokens/${classificationForm.token!.address}/classification`);
+      return res.json();
+    },
+    onSuccess: onTokenClassified("Override removed"),
+    onError: (error: any) => {
+      toast({ title: "Failed to remove override", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reclassifyTokenMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/tokens/${classificationForm.token!.address}/reclassify`);
+      return res.json();
+    },
+    onSuccess: onTokenClassified("Token reclassified"),
+    onError: (error: any) => {
+      toast({ title: "Failed to reclassify token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const classifyTokensMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/tokens/classify");
+      return res.json();
+    },
+    onSuccess: (result: { success: boolean; classified: number; reclassified: number; error?: string }) => {
+      toast({
+        title: result.success ? "Tokens classified" : "Classification stopped",
+        description: `${result.classified} classified, ${result.reclassified} changed standard${result.error ? ` (${result.error})` : ""}`,
+        variant: result.success ? undefined : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tokens/classification"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to classify tokens", description: error.message, variant: "destructive" });
+    },
+  });
+
   const stopIndexerMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", "/api/admin/indexer/stop");
@@ -793,6 +1133,18 @@ export default function AdminDashboardPage() {
               <Database className="h-4 w-4" />
               Indexer
             </TabsTrigger>
+            <TabsTrigger value="verification" className="gap-2" data-testid="tab-verification">
+              <ShieldCheck className="h-4 w-4" />
+              Verification
+            </TabsTrigger>
+            <TabsTrigger value="signatures" className="gap-2" data-testid="tab-signatures">
+              <Hash className="h-4 w-4" />
+              Signatures
+            </TabsTrigger>
+            <TabsTrigger value="tokens" className="gap-2" data-testid="tab-tokens">
+              <Coins className="h-4 w-4" />
+              Tokens
+            </TabsTrigger>
             <TabsTrigger value="settings" className="gap-2" data-testid="tab-settings">
               <Settings className="h-4 w-4" />
               Settings
@@ -955,6 +1307,16 @@ export default function AdminDashboardPage() {
                         data-testid="input-chain-rpc"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="chain-ws">WebSocket URL (optional)</Label>
+                      <Input
+                        id="chain-ws"
+                        value={chainForm.wsUrl}
+                        onChange={(e) => setChainForm({...chainForm, wsUrl: e.target.value})}
+                        placeholder="wss://ws.t369coin.org"
+                        data-testid="input-chain-ws"
+                      />
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="chain-symbol">Native Symbol</Label>
                       <Input
@@ -1022,7 +1384,7 @@ export default function AdminDashboardPage() {
                       onClick={() => {
                         updateChainMutation.mutate({
                           chainId: editingChain.chainId,
-                          data: chainForm,
+                          data: { ...chainForm, wsUrl: chainForm.wsUrl || null },
                         });
                       }}
                       disabled={updateChainMutation.isPending}
@@ -1052,32 +1414,119 @@ export default function AdminDashboardPage() {
                 ) : chainsData?.chains && chainsData.chains.length > 0 ? (
                   <div className="space-y-4">
                     {chainsData.chains.map((chain) => (
-                      <div key={chain.id} className="flex items-center justify-between p-4 border rounded-lg" data-testid={`chain-${chain.chainId}`}>
-                        <div>
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <span className="font-medium">{chain.name}</span>
-                            <Badge variant="outline">{chain.nativeSymbol || chain.shortName}</Badge>
-                            {chain.isDefault && <Badge>Default</Badge>}
-                          </div>
-                          <div className="text-sm text-muted-foreground mt-1">
-                            Chain ID: {chain.chainId} | RPC: {chain.rpcUrl}
+                      <div key={chain.id} className="p-4 border rounded-lg space-y-4" data-testid={`chain-${chain.chainId}`}>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="font-medium">{chain.name}</span>
+                              <Badge variant="outline">{chain.nativeSymbol || chain.shortName}</Badge>
+                              {chain.isDefault && <Badge>Default</Badge>}
+                            </div>
+                            <div className="text-sm text-muted-foreground mt-1">
+                              Chain ID: {chain.chainId} | RPC: {chain.rpcUrl}
+                              {chain.wsUrl && <> | WS: {chain.wsUrl}</>}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              Native: {chain.nativeCurrency} ({chain.nativeSymbol || chain.shortName})
+                            </div>
                           </div>
-                          <div className="text-sm text-muted-foreground">
-                            Native: {chain.nativeCurrency} ({chain.nativeSymbol || chain.shortName})
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleEditChain(chain)}
+                              data-testid={`button-edit-chain-${chain.chainId}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Badge variant={chain.isActive ? "default" : "secondary"}>
+                              {chain.isActive ? "Active" : "Inactive"}
+                            </Badge>
                           </div>
                         </div>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleEditChain(chain)}
-                            data-testid={`button-edit-chain-${chain.chainId}`}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Badge variant={chain.isActive ? "default" : "secondary"}>
-                            {chain.isActive ? "Active" : "Inactive"}
-                          </Badge>
+                        <div className="space-y-2">
+                          <div className="text-sm font-medium">RPC Endpoints</div>
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>URL</TableHead>
+                                <TableHead>Role</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Latency</TableHead>
+                                <TableHead>Error Rate</TableHead>
+                                <TableHead>Last Error</TableHead>
+                                <TableHead></TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {(chain.rpcEndpoints || []).map((endpoint) => (
+                                <TableRow key={`${endpoint.url}-${endpoint.role}`} data-testid={`row-rpc-endpoint-${chain.chainId}-${endpoint.id || "primary"}`}>
+                                  <TableCell className="font-mono text-xs break-all">
+                                    {endpoint.url}
+                                    {endpoint.primary && <Badge variant="outline" className="ml-2">Primary</Badge>}
+                                  </TableCell>
+                                  <TableCell><Badge variant="secondary">{endpoint.role}</Badge></TableCell>
+                                  <TableCell>
+                                    <Badge variant={endpoint.healthy ? "default" : "destructive"}>
+                                      {endpoint.healthy ? "Healthy" : "Down"}
+                                    </Badge>
+                                  </TableCell>
+                                  <TableCell className="text-sm">{endpoint.latencyMs !== null ? `${endpoint.latencyMs} ms` : "-"}</TableCell>
+                                  <TableCell className="text-sm">
+                                    {(endpoint.errorRate * 100).toFixed(1)}%
+                                    <span className="text-muted-foreground"> ({endpoint.errors}/{endpoint.requests})</span>
+                                  </TableCell>
+                                  <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate" title={endpoint.lastError || undefined}>
+                                    {endpoint.lastErrorAt ? `${formatDistanceToNow(new Date(endpoint.lastErrorAt), { addSuffix: true })}: ${endpoint.lastError}` : "-"}
+                                  </TableCell>
+                                  <TableCell>
+                                    {endpoint.id && (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => deleteRpcEndpointMutation.mutate(endpoint.id!)}
+                                        disabled={deleteRpcEndpointMutation.isPending}
+                                        data-testid={`button-delete-rpc-endpoint-${endpoint.id}`}
+                                      >
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              placeholder="https://rpc.example.org"
+                              value={endpointFormFor(chain.chainId).url}
+                              onChange={(e) => setEndpointForms({ ...endpointForms, [chain.chainId]: { ...endpointFormFor(chain.chainId), url: e.target.value } })}
+                              data-testid={`input-rpc-endpoint-url-${chain.chainId}`}
+                            />
+                            <Select
+                              value={endpointFormFor(chain.chainId).role}
+                              onValueChange={(role) => setEndpointForms({ ...endpointForms, [chain.chainId]: { ...endpointFormFor(chain.chainId), role: role as RpcEndpointHealth["role"] } })}
+                            >
+                              <SelectTrigger className="w-36" data-testid={`select-rpc-endpoint-role-${chain.chainId}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="general">General</SelectItem>
+                                <SelectItem value="archive">Archive</SelectItem>
+                                <SelectItem value="tracing">Tracing</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              size="sm"
+                              onClick={() => addRpcEndpointMutation.mutate({ chainId: chain.chainId, ...endpointFormFor(chain.chainId) })}
+                              disabled={!endpointFormFor(chain.chainId).url || addRpcEndpointMutation.isPending}
+                              className="gap-2"
+                              data-testid={`button-add-rpc-endpoint-${chain.chainId}`}
+                            >
+                              <Plus className="h-4 w-4" />
+                              Add
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     ))}
@@ -1425,6 +1874,28 @@ export default function AdminDashboardPage() {
                       <span className="text-muted-foreground">Sync Progress</span>
                       <span>{stats?.indexer?.syncProgress || 0}%</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">RPC Calls / Block</span>
+                      <span className="font-mono" data-testid="text-rpc-calls-per-block">{stats?.indexer?.rpc?.callsPerBlock ?? "-"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Calls / HTTP Request</span>
+                      <span className="font-mono">{stats?.indexer?.rpc?.callsPerRequest ?? "-"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Block Receipts / Block Tracing</span>
+                      <span>
+                        {[stats?.indexer?.rpc?.blockReceipts, stats?.indexer?.rpc?.blockTracing]
+                          .map((supported) => (supported === null || supported === undefined ? "Unknown" : supported ? "Yes" : "No"))
+                          .join(" / ")}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Head Following</span>
+                      <span data-testid="text-head-following">
+                        {stats?.indexer?.rpc?.headFollowing === "subscription" ? "WebSocket" : "Polling"}
+                      </span>
+                    </div>
                   </div>
                 </div>
                 <div className="p-4 border rounded-lg">
@@ -1494,6 +1965,552 @@ export default function AdminDashboardPage() {
                   </div>
                 </div>
               </div>
+              <div className="p-4 border rounded-lg space-y-4">
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <div>
+                    <span className="text-sm font-medium">Block Integrity</span>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {repairStatus?.lastScan
+                        ? `Last scan ${formatDistanceToNow(new Date(repairStatus.lastScan.scannedAt), { addSuffix: true })}: ${repairStatus.lastScan.gaps.length} gaps, ${repairStatus.lastScan.mismatches.length} transaction count mismatches, ${repairStatus.lastScan.unindexedBatchBlocks?.length ?? 0} blocks with unindexed transfer batches`
+                        : "No gap scan has run since the server started"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {repairStatus?.running && <Badge variant="secondary">Repairing</Badge>}
+                    <Button
+                      variant="outline"
+                      onClick={() => repairBlocksMutation.mutate()}
+                      disabled={repairBlocksMutation.isPending}
+                      className="gap-2"
+                      data-testid="button-repair-blocks"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${repairBlocksMutation.isPending ? "animate-spin" : ""}`} />
+                      Repair Now
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Queued Repairs</div>
+                    <div className="font-bold" data-testid="text-repair-pending">{repairStatus?.pending || 0}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Failed Repairs</div>
+                    <div className="font-bold" data-testid="text-repair-failed">{repairStatus?.failed || 0}</div>
+                  </div>
+                </div>
+                {repairStatus && repairStatus.queue.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Blocks</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Last Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {repairStatus.queue.map((range) => (
+                        <TableRow key={`${range.fromBlock}-${range.toBlock}`} data-testid={`row-repair-${range.fromBlock}`}>
+                          <TableCell className="font-mono text-xs">
+                            {range.fromBlock === range.toBlock
+                              ? range.fromBlock.toLocaleString()
+                              : `${range.fromBlock.toLocaleString()} - ${range.toBlock.toLocaleString()}`}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{range.reason === "missing" ? "Missing blocks" : range.reason === "unindexed_transfer_batch" ? "Unindexed batch transfers" : "Missing transactions"}</Badge>
+                          </TableCell>
+                          <TableCell>{range.attempts}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-[320px] truncate">{range.lastError || "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {repairStatus?.failedBackfill && repairStatus.failedBackfill.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Failed Backfill Range</TableHead>
+                        <TableHead>Stopped At</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Last Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {repairStatus.failedBackfill.map((range) => (
+                        <TableRow key={`${range.fromBlock}-${range.toBlock}`} data-testid={`row-failed-backfill-${range.fromBlock}`}>
+                          <TableCell className="font-mono text-xs">
+                            {`${range.fromBlock.toLocaleString()} - ${range.toBlock.toLocaleString()}`}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{(range.lastProcessedBlock + 1).toLocaleString()}</TableCell>
+                          <TableCell>{range.attempts ?? 0}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-[320px] truncate">{range.lastError || "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="verification">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
+              <div>
+                <CardTitle>Verification Jobs</CardTitle>
+                <CardDescription>Contract verification requests submitted through the Etherscan-compatible API</CardDescription>
+              </div>
+              <Select value={verificationFilter} onValueChange={setVerificationFilter}>
+                <SelectTrigger className="w-[160px]" data-testid="select-verification-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="compiling">Compiling</SelectItem>
+                  <SelectItem value="pass">Passed</SelectItem>
+                  <SelectItem value="fail">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {isVerificationJobsLoading ? (
+                <div className="space-y-2">
+                  {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-12" />)}
+                </div>
+              ) : verificationJobsData?.jobs && verificationJobsData.jobs.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Contract</TableHead>
+                        <TableHead>Compiler</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Submitted</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {verificationJobsData.jobs.map((job) => (
+                        <TableRow key={job.id} data-testid={`verification-job-row-${job.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{job.contractName}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{job.contractAddress}</div>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{job.compilerVersion}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={job.status === "pass" ? "default" : job.status === "fail" ? "destructive" : "secondary"}
+                            >
+                              {job.status}{job.matchType ? ` (${job.matchType})` : ""}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="max-w-md">
+                            <span className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-wrap">
+                              {job.failureReason || "-"}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                            {job.attempts > 1 && (
+                              <div className="text-xs text-muted-foreground">{job.attempts} attempts</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {job.status === "fail" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2"
+                                onClick={() => retryVerificationMutation.mutate(job.id)}
+                                disabled={retryVerificationMutation.isPending}
+                                data-testid={`button-retry-job-${job.id}`}
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                                Retry
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <ShieldCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No verification jobs found</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="signatures" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Signature Registry</CardTitle>
+              <CardDescription>Function selectors, event topics and error selectors used to label transactions and logs</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary" data-testid="badge-signature-total">{signatureStats?.total ?? 0} signatures</Badge>
+                {Object.entries(signatureStats?.bySource || {}).map(([source, total]) => (
+                  <Badge key={source} variant="outline">{source}: {total}</Badge>
+                ))}
+                <Badge variant={signatureStats?.collisions ? "destructive" : "outline"}>
+                  {signatureStats?.collisions ?? 0} collisions
+                </Badge>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <Label>Import signature file</Label>
+                  <div className="flex items-center gap-2">
+                    <Select value={signatureImport.kind} onValueChange={(kind) => setSignatureImport({ ...signatureImport, kind })}>
+                      <SelectTrigger className="w-[140px]" data-testid="select-signature-kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-detect</SelectItem>
+                        <SelectItem value="function">Functions</SelectItem>
+                        <SelectItem value="event">Events</SelectItem>
+                        <SelectItem value="error">Errors</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => document.getElementById('signatureFileUpload')?.click()}
+                      data-testid="button-upload-signatures"
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                    <input
+                      id="signatureFileUpload"
+                      type="file"
+                      accept=".json,.txt,.csv,.tsv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (!file) return;
+                        const reader = new FileReader();
+                        reader.onload = () => setSignatureImport({ ...signatureImport, content: reader.result as string });
+                        reader.readAsText(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  value={signatureImport.content}
+                  onChange={(e) => setSignatureImport({ ...signatureImport, content: e.target.value })}
+                  placeholder={'{"0xa9059cbb": "transfer(address,uint256)"}\nor one "0xa9059cbb,transfer(address,uint256)" per line'}
+                  className="font-mono text-xs min-h-[160px]"
+                  data-testid="textarea-signature-import"
+                />
+                <Button
+                  onClick={() => importSignaturesMutation.mutate()}
+                  disabled={!signatureImport.content.trim() || importSignaturesMutation.isPending}
+                  className="gap-2"
+                  data-testid="button-import-signatures"
+                >
+                  <Upload className="h-4 w-4" />
+                  {importSignaturesMutation.isPending ? "Importing..." : "Import"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Collisions</CardTitle>
+              <CardDescription>Selectors with more than one known signature. The preferred signature is used for labels.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isCollisionsLoading ? (
+                <div className="space-y-2">
+                  {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-16" />)}
+                </div>
+              ) : collisionsData?.collisions && collisionsData.collisions.length > 0 ? (
+                <div className="space-y-4">
+                  {collisionsData.collisions.map((collision) => (
+                    <div key={collision.selector} className="border rounded-md p-3 space-y-2" data-testid={`collision-${collision.selector}`}>
+                      <div className="font-mono text-sm">{collision.selector}</div>
+                      {collision.signatures.map((sig) => (
+                        <div key={sig.id} className="flex items-center justify-between gap-2 flex-wrap">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className="font-mono text-xs break-all">{sig.textSignature}</span>
+                            <Badge variant="outline" className="text-xs">{sig.kind}</Badge>
+                            <Badge variant="secondary" className="text-xs">{sig.source}</Badge>
+                          </div>
+                          {sig.isPreferred ? (
+                            <Badge className="gap-1"><Check className="h-3 w-3" />Preferred</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => preferSignatureMutation.mutate(sig.id)}
+                              disabled={preferSignatureMutation.isPending}
+                              data-testid={`button-prefer-signature-${sig.id}`}
+                            >
+                              Prefer
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                  {collisionsData.total > 20 && (
+                    <div className="flex items-center justify-end gap-2">
+                      <Button variant="outline" size="sm" disabled={collisionsPage <= 1} onClick={() => setCollisionsPage(collisionsPage - 1)}>
+                        Previous
+                      </Button>
+                      <span className="text-sm text-muted-foreground">
+                        Page {collisionsPage} of {Math.ceil(collisionsData.total / 20)}
+                      </span>
+                      <Button variant="outline" size="sm" disabled={collisionsPage * 20 >= collisionsData.total} onClick={() => setCollisionsPage(collisionsPage + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Hash className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No signature collisions</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="tokens" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Token Classification</CardTitle>
+              <CardDescription>
+                Tokens are classified from ERC-165, their functions and their events. Overrides are kept until removed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={tokenLookup}
+                  onChange={(e) => setTokenLookup(e.target.value.trim())}
+                  placeholder="Token contract address (0x...)"
+                  className="font-mono"
+                  data-testid="input-token-lookup"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => lookupTokenMutation.mutate(tokenLookup)}
+                  disabled={!/^0x[a-fA-F0-9]{40}$/.test(tokenLookup) || lookupTokenMutation.isPending}
+                  data-testid="button-token-lookup"
+                >
+                  Look up
+                </Button>
+              </div>
+
+              {classificationForm.token && (
+                <div className="border rounded-md p-4 space-y-4" data-testid="token-classification-form">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">
+                      {classificationForm.token.name || classificationForm.token.symbol || "Unnamed token"}
+                    </span>
+                    <span className="font-mono text-xs text-muted-foreground break-all">{classificationForm.token.address}</span>
+                    {classificationForm.token.classificationOverride && <Badge>Overridden</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Detected as {classificationForm.token.detectedTokenType || "unknown"}
+                    {classificationForm.token.classifiedAt &&
+                      ` ${formatDistanceToNow(new Date(classificationForm.token.classifiedAt), { addSuffix: true })}`}
+                  </div>
+                  {classificationForm.token.capabilities && (
+                    <div className="flex gap-1 flex-wrap">
+                      {Object.entries(classificationForm.token.capabilities)
+                        .filter(([, enabled]) => enabled)
+                        .map(([capability]) => (
+                          <Badge key={capability} variant="secondary" className="text-xs">{capability}</Badge>
+                        ))}
+                    </div>
+                  )}
+                  {classificationForm.token.classificationNotes && classificationForm.token.classificationNotes.length > 0 && (
+                    <ul className="text-sm text-amber-600 dark:text-amber-400 list-disc pl-5">
+                      {classificationForm.token.classificationNotes.map((note) => <li key={note}>{note}</li>)}
+                    </ul>
+                  )}
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>Standard</Label>
+                      <Select
+                        value={classificationForm.tokenType}
+                        onValueChange={(tokenType) => setClassificationForm({ ...classificationForm, tokenType })}
+                      >
+                        <SelectTrigger data-testid="select-token-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ERC20">ERC20</SelectItem>
+                          <SelectItem value="ERC721">ERC721</SelectItem>
+                          <SelectItem value="ERC1155">ERC1155</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Non-standard balances</Label>
+                      <div className="flex items-center gap-2 h-10">
+                        <Switch
+                          checked={classificationForm.nonStandard}
+                          onCheckedChange={(nonStandard) => setClassificationForm({ ...classificationForm, nonStandard })}
+                          data-testid="switch-token-non-standard"
+                        />
+                        <span className="text-sm text-muted-foreground">Read holder balances from chain</span>
+                      </div>
+                    </div>
+                  </div>
+                  {classificationForm.nonStandard && (
+                    <div className="space-y-2">
+                      <Label>Reason</Label>
+                      <Input
+                        value={classificationForm.nonStandardReason}
+                        onChange={(e) => setClassificationForm({ ...classificationForm, nonStandardReason: e.target.value })}
+                        placeholder="e.g. rebasing balances"
+                        data-testid="input-token-non-standard-reason"
+                      />
+                    </div>
+                  )}
+                  <div className="flex gap-2 flex-wrap">
+                    <Button
+                      className="gap-2"
+                      onClick={() => saveClassificationMutation.mutate()}
+                      disabled={saveClassificationMutation.isPending}
+                      data-testid="button-save-classification"
+                    >
+                      <Save className="h-4 w-4" />
+                      Save override
+                    </Button>
+                    {classificationForm.token.classificationOverride && (
+                      <Button
+                        variant="outline"
+                        onClick={() => resetClassificationMutation.mutate()}
+                        disabled={resetClassificationMutation.isPending}
+                        data-testid="button-reset-classification"
+                      >
+                        Remove override
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      onClick={() => reclassifyTokenMutation.mutate()}
+                      disabled={reclassifyTokenMutation.isPending}
+                      data-testid="button-reclassify-token"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${reclassifyTokenMutation.isPending ? "animate-spin" : ""}`} />
+                      Reclassify
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Needs Review</CardTitle>
+                <CardDescription>Overridden tokens, non-standard tokens and tokens the classifier flagged.</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => classifyTokensMutation.mutate()}
+                disabled={classifyTokensMutation.isPending}
+                data-testid="button-classify-tokens"
+              >
+                <RefreshCw className={`h-4 w-4 ${classifyTokensMutation.isPending ? "animate-spin" : ""}`} />
+                {classifyTokensMutation.isPending ? "Classifying..." : "Classify unclassified"}
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {isClassificationLoading ? (
+                <div className="space-y-2">
+                  {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-12" />)}
+                </div>
+              ) : classificationData?.tokens && classificationData.tokens.length > 0 ? (
+                <div className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Standard</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {classificationData.tokens.map((token) => (
+                        <TableRow key={token.address} data-testid={`row-classification-${token.address}`}>
+                          <TableCell>
+                            <div className="font-medium">{token.symbol || token.name || "Unnamed"}</div>
+                            <div className="font-mono text-xs text-muted-foreground">{token.address.slice(0, 10)}...{token.address.slice(-8)}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1 flex-wrap">
+                              <Badge variant="outline">{token.tokenType}</Badge>
+                              {token.detectedTokenType && token.detectedTokenType !== token.tokenType && (
+                                <span className="text-xs text-muted-foreground">detected {token.detectedTokenType}</span>
+                              )}
+                              {token.classificationOverride && <Badge className="text-xs">Overridden</Badge>}
+                              {token.nonStandard && (
+                                <Badge variant="outline" className="text-xs border-amber-500 text-amber-600 dark:text-amber-400">Non-standard</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-xs">
+                            {token.classificationNotes?.join("; ") || token.nonStandardReason || "-"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-1"
+                              onClick={() => editTokenClassification(token)}
+                              data-testid={`button-edit-classification-${token.address}`}
+                            >
+                              <Pencil className="h-3 w-3" />
+                              Edit
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {classificationData.total > 20 && (
+                    <div className="flex items-center justify-end gap-2">
+                      <Button variant="outline" size="sm" disabled={classificationPage <= 1} onClick={() => setClassificationPage(classificationPage - 1)}>
+                        Previous
+                      </Button>
+                      <span className="text-sm text-muted-foreground">
+                        Page {classificationPage} of {Math.ceil(classificationData.total / 20)}
+                      </span>
+                      <Button variant="outline" size="sm" disabled={classificationPage * 20 >= classificationData.total} onClick={() => setClassificationPage(classificationPage + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Coins className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No tokens need review</p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
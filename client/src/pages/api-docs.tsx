@@ -62,12 +62,30 @@ const coreEndpoints: Endpoint[] = [
   {
     method: "GET",
     path: "/api/transactions/:hash",
-    description: "Get transaction details by hash",
+    description: "Get transaction details by hash. Failed transactions carry revertReason (decoded Error(string), Panic(uint256) or custom error) and the raw revertData",
     params: [
       { name: "hash", type: "string", description: "Transaction hash (0x...)", required: true }
     ],
     response: `{ ...transaction, logs: [...] }`
   },
+  {
+    method: "GET",
+    path: "/api/transactions/:hash/trace",
+    description: "Full call tree of a transaction with decoded function calls; traced by the node on first request and cached",
+    params: [
+      { name: "hash", type: "string", description: "Transaction hash (0x...)", required: true }
+    ],
+    response: `{ transactionHash, cached, trace: { type, from, to, value, gas, gasUsed, input, output, error, revertReason, decoded, calls: [...] } }`
+  },
+  {
+    method: "GET",
+    path: "/api/transactions/:hash/state",
+    description: "Balance, nonce, code and storage changes of every account touched by a transaction (prestateTracer diff); slots are named from verified storage layouts",
+    params: [
+      { name: "hash", type: "string", description: "Transaction hash (0x...)", required: true }
+    ],
+    response: `{ transactionHash, cached, accounts: [{ address, contractName, created, destroyed, balance: { before, after }, nonce, code, storage: [{ slot, before, after, variables: [{ label, type, before, after }] }] }] }`
+  },
   {
     method: "GET",
     path: "/api/addresses/:address",
@@ -75,7 +93,57 @@ const coreEndpoints: Endpoint[] = [
     params: [
       { name: "address", type: "string", description: "Address (0x...)", required: true }
     ],
-    response: `{ address, balance, transactionCount, sentCount, receivedCount }`
+    response: `{ address, balance, transactionCount, sentCount, receivedCount, creation: { creatorAddress, factoryAddress, creationType, transactionHash, blockNumber }, deployedContractCount }`
+  },
+  {
+    method: "GET",
+    path: "/api/addresses/:address/contracts",
+    description: "Contracts deployed by an address, directly or as a factory through CREATE/CREATE2",
+    params: [
+      { name: "address", type: "string", description: "Deployer or factory address (0x...)", required: true },
+      { name: "page", type: "number", description: "Page number" },
+      { name: "limit", type: "number", description: "Items per page (max 100)" }
+    ],
+    response: `{ contracts: [{ contractAddress, contractName, creatorAddress, factoryAddress, creationType, transactionHash, blockNumber, timestamp }], total }`
+  },
+  {
+    method: "GET",
+    path: "/api/addresses/:address/balance-history",
+    description: "Native balance after every block that touched the address, or the balance at one block or time",
+    params: [
+      { name: "address", type: "string", description: "Address (0x...)", required: true },
+      { name: "block", type: "number", description: "Return the balance after this block" },
+      { name: "timestamp", type: "string", description: "Return the balance at this time (unix seconds or ISO date)" },
+      { name: "page", type: "number", description: "Page number" },
+      { name: "limit", type: "number", description: "Snapshots per page (max 1000)" }
+    ],
+    response: `{ address, snapshots: [{ blockNumber, balance, timestamp }], total } or { address, blockNumber, balance, lastChangeBlock, lastChangeTimestamp, source }`
+  },
+  {
+    method: "GET",
+    path: "/api/addresses/:address/token-balance-history",
+    description: "Token balance changes of a holder, or the token balance at one block or time",
+    params: [
+      { name: "address", type: "string", description: "Holder address (0x...)", required: true },
+      { name: "token", type: "string", description: "Token contract address (0x...)", required: true },
+      { name: "tokenId", type: "string", description: "Token ID for ERC-721 and ERC-1155 tokens" },
+      { name: "block", type: "number", description: "Return the balance after this block" },
+      { name: "timestamp", type: "string", description: "Return the balance at this time (unix seconds or ISO date)" },
+      { name: "page", type: "number", description: "Page number" },
+      { name: "limit", type: "number", description: "Changes per page (max 1000)" }
+    ],
+    response: `{ address, token, tokenId, nonStandard, changes: [{ blockNumber, delta, balance, timestamp }], total } or { address, token, tokenId, nonStandard, blockNumber, balance, lastChangeBlock }`
+  },
+  {
+    method: "GET",
+    path: "/api/addresses/:address/approvals",
+    description: "Active ERC-20 allowances and ERC-721/1155 operator approvals granted by an address, with revoke calldata",
+    params: [
+      { name: "address", type: "string", description: "Owner address (0x...)", required: true },
+      { name: "page", type: "number", description: "Page number" },
+      { name: "limit", type: "number", description: "Items per page (max 100)" }
+    ],
+    response: `{ approvals: [{ tokenAddress, spenderAddress, spenderLabel, approvalType, allowance, currentAllowance, transactionHash, blockNumber, revoke: { to, data, value } }], total }`
   },
 ];
 
@@ -97,7 +165,7 @@ const tokenEndpoints: Endpoint[] = [
     params: [
       { name: "address", type: "string", description: "Token contract address", required: true }
     ],
-    response: `{ address, name, symbol, decimals, totalSupply, tokenType }`
+    response: `{ address, name, symbol, decimals, totalSupply, tokenType, detectedTokenType, capabilities: { erc165, metadata, enumerable, mintable, burnable, pausable, permit, royalties }, classificationNotes, classificationOverride }`
   },
   {
     method: "GET",
@@ -110,6 +178,26 @@ const tokenEndpoints: Endpoint[] = [
     ],
     response: `{ holders: [...], total }`
   },
+  {
+    method: "GET",
+    path: "/api/nfts/:contractAddress/:tokenId",
+    description: "Get NFT metadata, image links and the state of its metadata fetch",
+    params: [
+      { name: "contractAddress", type: "string", description: "NFT contract address", required: true },
+      { name: "tokenId", type: "string", description: "Token ID (decimal)", required: true }
+    ],
+    response: `{ contractAddress, tokenId, owner, name, description, image, imageGateway, thumbnailUrl, metadataUri, attributes, metadataStatus: { status, attempts, lastError, nextAttemptAt } }`
+  },
+  {
+    method: "POST",
+    path: "/api/nfts/:contractAddress/:tokenId/refresh",
+    description: "Queue a refetch of the token URI, metadata and thumbnail. Only for tokens the indexer has seen; limited to once a minute per token and 10 requests per 15 minutes per client",
+    params: [
+      { name: "contractAddress", type: "string", description: "NFT contract address", required: true },
+      { name: "tokenId", type: "string", description: "Token ID (decimal)", required: true }
+    ],
+    response: `{ message, job: { status, attempts, nextAttemptAt } }`
+  },
   {
     method: "GET",
     path: "/api/token-transfers/:address",
@@ -134,6 +222,28 @@ const etherscanEndpoints: Endpoint[] = [
     ],
     response: `{ status: "1", message: "OK", result: "balance_in_wei" }`
   },
+  {
+    method: "GET",
+    path: "/api?module=account&action=balancehistory&address=...&blockno=...",
+    description: "Get account balance at a block (Etherscan-compatible)",
+    params: [
+      { name: "address", type: "string", description: "Account address", required: true },
+      { name: "blockno", type: "number", description: "Block number", required: true }
+    ],
+    response: `{ status: "1", message: "OK", result: "balance_in_wei" }`
+  },
+  {
+    method: "GET",
+    path: "/api?module=account&action=tokenbalancehistory&contractaddress=...&address=...&blockno=...",
+    description: "Get the token balance of an account at a block; ERC-721 balances without a tokenid count the tokens held (Etherscan-compatible)",
+    params: [
+      { name: "contractaddress", type: "string", description: "Token contract address", required: true },
+      { name: "address", type: "string", description: "Account address", required: true },
+      { name: "blockno", type: "number", description: "Block number", required: true },
+      { name: "tokenid", type: "string", description: "Token ID, required for ERC-1155 tokens" }
+    ],
+    response: `{ status: "1", message: "OK", result: "token_balance" }`
+  },
   {
     method: "GET",
     path: "/api?module=account&action=txlist&address=...",
@@ -192,6 +302,15 @@ const etherscanEndpoints: Endpoint[] = [
     ],
     response: `{ status: "1", message: "OK", result: "guid" }`
   },
+  {
+    method: "GET",
+    path: "/api?module=contract&action=getcontractcreation&contractaddresses=...",
+    description: "Creator and creation transaction of contracts, including factory deployments (Etherscan-compatible)",
+    params: [
+      { name: "contractaddresses", type: "string", description: "Up to 5 comma-separated contract addresses", required: true }
+    ],
+    response: `{ status: "1", message: "OK", result: [{ contractAddress, contractCreator, txHash, blockNumber, timestamp, contractFactory, creationBytecode }] }`
+  },
 ];
 
 const chainEndpoints: Endpoint[] = [
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
 import { TransactionsTable } from "@/components/transactions-table";
 import { AddressLink } from "@/components/address-link";
 import { HashLink } from "@/components/hash-link";
@@ -11,12 +12,15 @@ import { CopyButton } from "@/components/copy-button";
 import { formatNumber, formatFullTimestamp, formatTimestamp, formatGasPercentage, formatBytes, formatGwei } from "@/lib/formatters";
 import { formatBlockHash } from "@/lib/address-utils";
 import { useAddressFormat } from "@/contexts/address-format-context";
-import { Blocks, ChevronLeft, ChevronRight, Clock, Fuel, Hash, Database } from "lucide-react";
-import type { Block, Transaction } from "@shared/schema";
+import { Blocks, ChevronLeft, ChevronRight, Clock, Fuel, Hash, Database, GitBranch } from "lucide-react";
+import type { Block, OrphanedBlock, Transaction } from "@shared/schema";
 
 interface BlockDetailData {
-  block: Block;
+  block: Block | OrphanedBlock;
   transactions: Transaction[];
+  orphaned: boolean;
+  canonicalBlock?: { number: number; hash: string } | null;
+  orphanedBlocks?: { hash: string; orphanedAt: string }[];
 }
 
 export default function BlockDetail() {
@@ -35,6 +39,8 @@ export default function BlockDetail() {
 
   const block = data?.block;
   const transactions = data?.transactions || [];
+  const orphan = data?.orphaned ? (data.block as OrphanedBlock) : null;
+  const orphanedBlocks = data?.orphanedBlocks || [];
 
   if (isLoading) {
     return (
@@ -84,6 +90,9 @@ export default function BlockDetail() {
           <h1 className="text-2xl font-semibold flex items-center gap-2" data-testid="text-page-title">
             <Blocks className="h-6 w-6" />
             Block #{formatNumber(block.number)}
+            {orphan && (
+              <Badge variant="destructive" data-testid="badge-block-orphaned">Uncle/Reorged</Badge>
+            )}
           </h1>
           <p className="text-muted-foreground mt-1">
             {formatTimestamp(block.timestamp)}
@@ -103,6 +112,33 @@ export default function BlockDetail() {
         </div>
       </div>
 
+      {orphan && (
+        <Card className="border-destructive/50" data-testid="card-orphaned-block">
+          <CardContent className="p-4 flex items-start gap-3">
+            <GitBranch className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+            <div className="text-sm space-y-1">
+              <p>
+                This block was replaced by a chain reorganization {formatTimestamp(orphan.orphanedAt)} and is not part of the canonical chain.
+              </p>
+              {data?.canonicalBlock ? (
+                <p>
+                  Canonical block at this height:{" "}
+                  <Link
+                    href={`/block/${data.canonicalBlock.number}`}
+                    className="font-mono text-primary hover:underline break-all"
+                    data-testid="link-canonical-block"
+                  >
+                    {formatBlockHash(data.canonicalBlock.hash, addressFormat, bech32Prefix)}
+                  </Link>
+                </p>
+              ) : (
+                <p className="text-muted-foreground">The canonical block at this height has not been indexed yet.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Overview</CardTitle>
@@ -176,7 +212,20 @@ export default function BlockDetail() {
             )}
           </InfoRow>
 
-          {block.size && (
+          {orphanedBlocks.length > 0 && (
+            <InfoRow label="Reorged Blocks" icon={GitBranch}>
+              <div className="space-y-1">
+                {orphanedBlocks.map((o) => (
+                  <div key={o.hash} className="flex items-center gap-2" data-testid={`row-orphaned-${o.hash}`}>
+                    <HashLink hash={o.hash} type="block" />
+                    <Badge variant="outline" className="text-xs">Uncle/Reorged</Badge>
+                  </div>
+                ))}
+              </div>
+            </InfoRow>
+          )}
+
+          {"size" in block && block.size && (
             <InfoRow label="Size" icon={Database}>
               <span className="font-mono">{formatBytes(block.size)}</span>
             </InfoRow>
@@ -192,6 +241,21 @@ export default function BlockDetail() {
         </CardContent>
       </Card>
 
+      {orphan && orphan.transactionHashes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Transactions in Reorged Block ({orphan.transactionHashes.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {orphan.transactionHashes.map((hash) => (
+              <div key={hash} className="text-sm">
+                <HashLink hash={hash} type="tx" showFull />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {transactions.length > 0 && (
         <TransactionsTable
           transactions={transactions}
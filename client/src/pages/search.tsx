@@ -9,12 +9,13 @@ import { HashLink } from "@/components/hash-link";
 import { AddressLink } from "@/components/address-link";
 import { formatNumber, formatTimestamp } from "@/lib/formatters";
 import { Search, Blocks, ArrowRightLeft, User, AlertCircle } from "lucide-react";
-import type { Block, Transaction, Address } from "@shared/schema";
+import type { Block, Transaction, PendingTransaction, Address } from "@shared/schema";
 
 interface SearchResult {
-  type: "block" | "transaction" | "address";
+  type: "block" | "transaction" | "pending" | "address";
   block?: Block;
   transaction?: Transaction;
+  pendingTransaction?: PendingTransaction;
   address?: Address;
 }
 
@@ -39,6 +40,8 @@ export default function SearchPage() {
         setLocation(`/block/${data.block.number}`);
       } else if (data.type === "transaction" && data.transaction) {
         setLocation(`/tx/${data.transaction.hash}`);
+      } else if (data.type === "pending" && data.pendingTransaction) {
+        setLocation(`/tx/${data.pendingTransaction.hash}`);
       } else if (data.type === "address" && data.address) {
         setLocation(`/address/${data.address.address}`);
       }
@@ -116,9 +119,9 @@ export default function SearchPage() {
           <CardHeader>
             <CardTitle className="text-lg flex items-center gap-2">
               {data.type === "block" && <Blocks className="h-5 w-5" />}
-              {data.type === "transaction" && <ArrowRightLeft className="h-5 w-5" />}
+              {(data.type === "transaction" || data.type === "pending") && <ArrowRightLeft className="h-5 w-5" />}
               {data.type === "address" && <User className="h-5 w-5" />}
-              Found {data.type === "block" ? "Block" : data.type === "transaction" ? "Transaction" : "Address"}
+              Found {data.type === "block" ? "Block" : data.type === "transaction" ? "Transaction" : data.type === "pending" ? "Pending Transaction" : "Address"}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -143,6 +146,14 @@ export default function SearchPage() {
                 </p>
               </div>
             )}
+            {data.type === "pending" && data.pendingTransaction && (
+              <div className="space-y-2">
+                <HashLink hash={data.pendingTransaction.hash} type="tx" showFull />
+                <p className="text-sm text-muted-foreground">
+                  Not mined - first seen {formatTimestamp(data.pendingTransaction.firstSeenAt)}
+                </p>
+              </div>
+            )}
             {data.type === "address" && data.address && (
               <div className="space-y-2">
                 <AddressLink address={data.address.address} showFull />
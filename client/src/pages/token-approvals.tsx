@@ -0,0 +1,306 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AddressLink } from "@/components/address-link";
+import { HashLink } from "@/components/hash-link";
+import { Pagination } from "@/components/pagination";
+import { isBech32Address, bech32ToHex } from "@/lib/address-utils";
+import { formatNumber, formatTimestamp } from "@/lib/formatters";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { ShieldCheck, Search, Wallet, Loader2, Info } from "lucide-react";
+import type { TokenApproval } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+// Allowances at or above 2^255 are set by "approve max" in wallets and dapps
+const UNLIMITED_THRESHOLD = BigInt(1) << BigInt(255);
+
+interface ApprovalEntry extends TokenApproval {
+  tokenName: string | null;
+  tokenSymbol: string | null;
+  tokenDecimals: number | null;
+  tokenType: string | null;
+  spenderLabel: string | null;
+  currentAllowance: string | null;
+  revoke: { to: string; data: string; value: string };
+}
+
+interface ApprovalsData {
+  approvals: ApprovalEntry[];
+  total: number;
+}
+
+function toHexAddress(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^0x[a-fA-F0-9]{40}$/.test(trimmed)) return trimmed.toLowerCase();
+  if (isBech32Address(trimmed)) {
+    try {
+      return bech32ToHex(trimmed).toLowerCase();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function formatAllowance(value: string, decimals: number | null): string {
+  try {
+    const amount = BigInt(value);
+    if (amount >= UNLIMITED_THRESHOLD) return "Unlimited";
+    const scale = decimals ?? 18;
+    const divisor = BigInt("1" + "0".repeat(scale));
+    const intPart = amount / divisor;
+    const fracStr = (amount % divisor).toString().padStart(scale, "0").slice(0, 4).replace(/0+$/, "");
+    return fracStr ? `${formatNumber(intPart.toString())}.${fracStr}` : formatNumber(intPart.toString());
+  } catch {
+    return value;
+  }
+}
+
+export default function TokenApprovalsPage() {
+  const params = useParams<{ address?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { walletAddress, isConnecting, connectWallet, disconnectWallet, checkAndSwitchNetwork, sendTransaction } = useWallet();
+  const ownerAddress = params.address ? toHexAddress(params.address) : null;
+  const [addressInput, setAddressInput] = useState(params.address || "");
+  const [page, setPage] = useState(1);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [revokeTxs, setRevokeTxs] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setAddressInput(params.address || "");
+    setPage(1);
+  }, [params.address]);
+
+  const { data, isLoading, error } = useQuery<ApprovalsData>({
+    queryKey: ["/api/addresses", ownerAddress, "approvals", page],
+    queryFn: async () => {
+      const res = await fetch(`/api/addresses/${ownerAddress}/approvals?page=${page}&limit=${PAGE_SIZE}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || "Failed to fetch approvals");
+      return body;
+    },
+    enabled: !!ownerAddress,
+  });
+
+  const handleSearch = () => {
+    const address = toHexAddress(addressInput);
+    if (!address) {
+      toast({
+        title: "Invalid Address",
+        description: "Please enter a valid address (0x... or bech32)",
+        variant: "destructive",
+      });
+      return;
+    }
+    setLocation(`/approvals/${address}`);
+  };
+
+  const isOwnerConnected = !!walletAddress && !!ownerAddress && walletAddress.toLowerCase() === ownerAddress;
+
+  const handleRevoke = async (approval: ApprovalEntry) => {
+    if (!isOwnerConnected) return;
+    setRevoking(approval.id);
+    try {
+      const networkOk = await checkAndSwitchNetwork();
+      if (!networkOk) throw new Error("Please switch to Telebit network (Chain ID: 136919) to continue");
+
+      const txHash = await sendTransaction(approval.revoke);
+      setRevokeTxs((prev) => ({ ...prev, [approval.id]: txHash }));
+      toast({
+        title: "Revoke sent",
+        description: `The approval disappears from this list once the transaction is indexed (${txHash.slice(0, 10)}...)`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Revoke failed",
+        description: err.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const totalPages = data ? Math.ceil(data.total / PAGE_SIZE) : 0;
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2" data-testid="text-approvals-title">
+            <ShieldCheck className="w-6 h-6" />
+            Token Approvals
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Review the spenders allowed to move tokens on behalf of an address and revoke the ones you no longer use
+          </p>
+        </div>
+        {walletAddress ? (
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="font-mono" data-testid="badge-wallet-address">
+              <Wallet className="h-3 w-3 mr-1" />
+              {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
+            </Badge>
+            {!isOwnerConnected && (
+              <Button variant="outline" size="sm" onClick={() => setLocation(`/approvals/${walletAddress.toLowerCase()}`)} data-testid="button-my-approvals">
+                My Approvals
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={disconnectWallet} data-testid="button-disconnect-wallet">
+              Disconnect
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={connectWallet} disabled={isConnecting} className="gap-2" data-testid="button-connect-wallet">
+            {isConnecting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wallet className="h-4 w-4" />}
+            Connect Wallet
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Owner address (0x...)"
+          value={addressInput}
+          onChange={(e) => setAddressInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          className="font-mono"
+          data-testid="input-approvals-address"
+        />
+        <Button onClick={handleSearch} className="gap-2" data-testid="button-approvals-search">
+          <Search className="h-4 w-4" />
+          Check
+        </Button>
+      </div>
+
+      {ownerAddress && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2 flex-wrap">
+              Active approvals of
+              <AddressLink address={ownerAddress} />
+              {data && <Badge variant="secondary">{formatNumber(data.total)}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {walletAddress && !isOwnerConnected && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Info className="h-4 w-4" />
+                Connect the owner's wallet to revoke these approvals.
+              </p>
+            )}
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : !data || data.approvals.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                <ShieldCheck className="h-8 w-8 mx-auto mb-4 opacity-50" />
+                <p>No active token approvals found for this address.</p>
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Spender</TableHead>
+                        <TableHead>Approved Amount</TableHead>
+                        <TableHead>Last Updated</TableHead>
+                        <TableHead className="text-right">Action</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.approvals.map((approval) => {
+                        const revokeTx = revokeTxs[approval.id];
+                        return (
+                          <TableRow key={approval.id} data-testid={`row-approval-${approval.id}`}>
+                            <TableCell>
+                              <Link href={`/token/${approval.tokenAddress}`} className="text-primary hover:underline">
+                                {approval.tokenName || approval.tokenSymbol || `${approval.tokenAddress.slice(0, 10)}...`}
+                              </Link>
+                              {approval.tokenSymbol && approval.tokenName && (
+                                <span className="text-muted-foreground text-xs ml-1">({approval.tokenSymbol})</span>
+                              )}
+                              {approval.tokenType && (
+                                <Badge variant="outline" className="ml-2 text-xs">{approval.tokenType}</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-col gap-1">
+                                <AddressLink address={approval.spenderAddress} isContract />
+                                {approval.spenderLabel && (
+                                  <span className="text-xs text-muted-foreground">{approval.spenderLabel}</span>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {approval.approvalType === "operator" ? (
+                                <Badge variant="secondary">All tokens</Badge>
+                              ) : (
+                                <div className="flex flex-col">
+                                  <span>
+                                    {formatAllowance(approval.currentAllowance ?? approval.allowance ?? "0", approval.tokenDecimals)} {approval.tokenSymbol || ""}
+                                  </span>
+                                  {approval.currentAllowance !== null && approval.currentAllowance !== approval.allowance && (
+                                    <span className="text-xs text-muted-foreground font-sans">
+                                      Approved: {formatAllowance(approval.allowance ?? "0", approval.tokenDecimals)}
+                                    </span>
+                                  )}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-col gap-1">
+                                <HashLink hash={approval.transactionHash} type="tx" />
+                                <span className="text-xs text-muted-foreground">{formatTimestamp(approval.timestamp)}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {revokeTx ? (
+                                <Link href={`/tx/${revokeTx}`} className="text-sm text-primary hover:underline">
+                                  Revoke sent
+                                </Link>
+                              ) : (
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  disabled={!isOwnerConnected || revoking !== null}
+                                  onClick={() => handleRevoke(approval)}
+                                  data-testid={`button-revoke-${approval.id}`}
+                                >
+                                  {revoking === approval.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                  Revoke
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+                {totalPages > 1 && (
+                  <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,18 @@ import { Progress } from "@/components/ui/progress";
 import { Coins, Users, ArrowRightLeft, Clock, ExternalLink, TrendingUp, Layers } from "lucide-react";
 import { formatNumber, formatTimestamp, formatTBT } from "@/lib/formatters";
 import { useAddressFormat } from "@/contexts/address-format-context";
-import type { Token, TokenTransfer, TokenHolder } from "@shared/schema";
+import type { Token, TokenTransfer, TokenHolder, TokenCapabilities } from "@shared/schema";
+
+const CAPABILITY_LABELS: Record<keyof TokenCapabilities, string> = {
+  erc165: "ERC-165",
+  metadata: "Metadata",
+  enumerable: "Enumerable",
+  mintable: "Mintable",
+  burnable: "Burnable",
+  pausable: "Pausable",
+  permit: "Permit",
+  royalties: "Royalties",
+};
 
 const PAGE_SIZE = 25;
 
@@ -231,7 +242,7 @@ export default function TokenPage() {
                       </TableHeader>
                       <TableBody>
                         {transfersData.transfers.map((transfer, idx) => (
-                          <TableRow key={`${transfer.transactionHash}-${transfer.logIndex}`} data-testid={`row-transfer-${idx}`}>
+                          <TableRow key={`${transfer.transactionHash}-${transfer.logIndex}-${transfer.batchIndex}`} data-testid={`row-transfer-${idx}`}>
                             <TableCell>
                               <HashLink hash={transfer.transactionHash} type="tx" />
                             </TableCell>
@@ -375,12 +386,54 @@ export default function TokenPage() {
             <div className="space-y-3">
               <div className="flex justify-between py-2 border-b">
                 <span className="text-muted-foreground">Token Type</span>
-                <Badge variant="outline">{token.tokenType}</Badge>
+                <div className="flex items-center gap-1">
+                  {token.classificationOverride && (
+                    <Badge variant="secondary" title="Set by an administrator" data-testid="badge-token-override">
+                      Overridden
+                    </Badge>
+                  )}
+                  <Badge variant="outline">{token.tokenType}</Badge>
+                </div>
               </div>
+              {token.capabilities && (
+                <div className="flex justify-between gap-4 py-2 border-b">
+                  <span className="text-muted-foreground">Features</span>
+                  <div className="flex gap-1 flex-wrap justify-end" data-testid="token-capabilities">
+                    {(Object.keys(CAPABILITY_LABELS) as (keyof TokenCapabilities)[])
+                      .filter((capability) => token.capabilities?.[capability])
+                      .map((capability) => (
+                        <Badge key={capability} variant="secondary" className="text-xs">{CAPABILITY_LABELS[capability]}</Badge>
+                      ))}
+                  </div>
+                </div>
+              )}
+              {token.classificationNotes && token.classificationNotes.length > 0 && (
+                <div className="flex justify-between gap-4 py-2 border-b">
+                  <span className="text-muted-foreground">Notes</span>
+                  <div className="text-sm text-right text-amber-600 dark:text-amber-400" data-testid="token-classification-notes">
+                    {token.classificationNotes.map((note) => <div key={note}>{note}</div>)}
+                  </div>
+                </div>
+              )}
               <div className="flex justify-between py-2 border-b">
                 <span className="text-muted-foreground">Decimals</span>
                 <span className="font-medium">{token.decimals ?? 18}</span>
               </div>
+              <div className="flex justify-between py-2 border-b">
+                <span className="text-muted-foreground">Holder Balances</span>
+                {token.nonStandard ? (
+                  <Badge
+                    variant="outline"
+                    className="border-amber-500 text-amber-600 dark:text-amber-400"
+                    title={token.nonStandardReason || undefined}
+                    data-testid="badge-token-non-standard"
+                  >
+                    Non-standard, read from chain
+                  </Badge>
+                ) : (
+                  <span className="font-medium">From transfers</span>
+                )}
+              </div>
               <div className="flex justify-between py-2 border-b">
                 <span className="text-muted-foreground">Created</span>
                 <span className="font-medium">
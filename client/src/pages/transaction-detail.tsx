@@ -23,6 +23,7 @@ import {
 import { AddressLink } from "@/components/address-link";
 import { CopyButton } from "@/components/copy-button";
 import { StatusBadge } from "@/components/status-badge";
+import { PendingStatusBadge } from "@/components/pending-status-badge";
 import {
   formatNumber,
   formatFullTimestamp,
@@ -32,6 +33,7 @@ import {
   getMethodColor,
 } from "@/lib/formatters";
 import { formatTxHash } from "@/lib/address-utils";
+import { getSelector, type SignatureInfo } from "@/lib/method-decoder";
 import { useAddressFormat } from "@/contexts/address-format-context";
 import {
   ArrowRightLeft,
@@ -46,15 +48,31 @@ import {
   Code,
   ScrollText,
   Database,
-  ChevronRight,
   Zap,
+  GitBranch,
 } from "lucide-react";
-import type { Transaction, TransactionLog, TokenTransfer } from "@shared/schema";
+import { DecodedEventParams } from "@/components/decoded-event-params";
+import { CallTraceTree } from "@/components/call-trace-tree";
+import { StateDiffView } from "@/components/state-diff";
+import type { Transaction, DecodedTransactionLog, TokenTransfer, PendingTransaction } from "@shared/schema";
 
+// Transactions that are not mined come back as { pending } only
 interface TxDetailData {
-  transaction: Transaction;
-  logs: TransactionLog[];
-  tokenTransfers: TokenTransfer[];
+  transaction?: Transaction;
+  logs?: DecodedTransactionLog[];
+  tokenTransfers?: TokenTransfer[];
+  pending?: PendingTransaction;
+}
+
+// Rows of one ERC-1155 TransferBatch event share a log index and are shown as a single transfer
+function groupTokenTransfers(transfers: TokenTransfer[]): TokenTransfer[][] {
+  const groups: TokenTransfer[][] = [];
+  for (const transfer of transfers) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].logIndex === transfer.logIndex) last.push(transfer);
+    else groups.push([transfer]);
+  }
+  return groups;
 }
 
 function decodeInputData(input: string): { methodId: string; params: string[] } {
@@ -97,55 +115,6 @@ function hexToUtf8(hex: string): string {
   }
 }
 
-const EVENT_SIGNATURES: Record<string, string> = {
-  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef": "Transfer(address,address,uint256)",
-  "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925": "Approval(address,address,uint256)",
-  "0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822": "Swap(address,uint256,uint256,uint256,uint256,address)",
-  "0x1c411e9a96e071241c2f21f7726b17ae89e3cab4c78be50e062b03a9fffbbad1": "Sync(uint112,uint112)",
-  "0x4c209b5fc8ad50758f13e2e1088ba56a560dff690a1c6fef26394f4c03821c4f": "Mint(address,uint256,uint256)",
-  "0xdccd412f0b1252819cb1fd330b93224ca42612892bb3f4f789976e6d81936496": "Burn(address,uint256,uint256,address)",
-};
-
-const METHOD_SIGNATURES: Record<string, string> = {
-  "0xa9059cbb": "transfer(address to, uint256 amount)",
-  "0x23b872dd": "transferFrom(address from, address to, uint256 amount)",
-  "0x095ea7b3": "approve(address spender, uint256 amount)",
-  "0x70a08231": "balanceOf(address account)",
-  "0x18160ddd": "totalSupply()",
-  "0xdd62ed3e": "allowance(address owner, address spender)",
-  "0x313ce567": "decimals()",
-  "0x06fdde03": "name()",
-  "0x95d89b41": "symbol()",
-  "0xf1215d25": "deposit(uint256 amount, string destinationAddress)",
-  "0x2e1a7d4d": "withdraw(uint256 amount)",
-  "0xd0e30db0": "deposit()",
-  "0x3ccfd60b": "withdraw()",
-  "0x7ff36ab5": "swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
-  "0x38ed1739": "swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
-  "0x18cbafe5": "swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
-  "0xfb3bdb41": "swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)",
-  "0xe8e33700": "addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
-  "0xf305d719": "addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
-  "0xbaa2abde": "removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
-  "0x02751cec": "removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
-  "0xa22cb465": "setApprovalForAll(address operator, bool approved)",
-  "0x42842e0e": "safeTransferFrom(address from, address to, uint256 tokenId)",
-  "0xb88d4fde": "safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
-  "0x6352211e": "ownerOf(uint256 tokenId)",
-  "0xe985e9c5": "isApprovedForAll(address owner, address operator)",
-  "0x081812fc": "getApproved(uint256 tokenId)",
-  "0x1249c58b": "mint()",
-  "0x40c10f19": "mint(address to, uint256 amount)",
-  "0x42966c68": "burn(uint256 amount)",
-  "0x79cc6790": "burnFrom(address account, uint256 amount)",
-  "0x8456cb59": "pause()",
-  "0x3f4ba83a": "unpause()",
-  "0x715018a6": "renounceOwnership()",
-  "0xf2fde38b": "transferOwnership(address newOwner)",
-  "0x5c975abb": "paused()",
-  "0x8da5cb5b": "owner()",
-};
-
 export default function TransactionDetail() {
   const { hash } = useParams<{ hash: string }>();
   const [inputViewMode, setInputViewMode] = useState<"default" | "utf8" | "original">("default");
@@ -160,6 +129,21 @@ export default function TransactionDetail() {
       return res.json();
     },
     enabled: !!hash,
+    // Keep checking while the transaction waits in the mempool so the page switches over once it is mined
+    refetchInterval: (query) => (query.state.data?.pending?.status === "pending" ? 5000 : false),
+  });
+
+  const selector = getSelector(data?.transaction?.input);
+  const { data: methodSignature } = useQuery<SignatureInfo | null>({
+    queryKey: ["/api/signatures", selector],
+    queryFn: async () => {
+      const res = await fetch(`/api/signatures/${selector}`);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch signature");
+      return res.json();
+    },
+    enabled: !!selector,
+    staleTime: Infinity,
   });
 
   const tx = data?.transaction;
@@ -184,6 +168,10 @@ export default function TransactionDetail() {
     );
   }
 
+  if (data?.pending) {
+    return <PendingTransactionView pending={data.pending} nativeSymbol={nativeSymbol} />;
+  }
+
   if (error || !tx) {
     return (
       <div className="container mx-auto px-4 py-6">
@@ -214,10 +202,6 @@ export default function TransactionDetail() {
 
   const decodedInput = tx.input ? decodeInputData(tx.input) : { methodId: "", params: [] };
 
-  const getEventName = (topic0: string): string => {
-    return EVENT_SIGNATURES[topic0] || "Unknown Event";
-  };
-
   return (
     <div className="container mx-auto px-4 py-6 space-y-6">
       <div>
@@ -241,6 +225,9 @@ export default function TransactionDetail() {
           <TabsTrigger value="logs" data-testid="tab-logs">
             Logs ({logs.length})
           </TabsTrigger>
+          <TabsTrigger value="trace" data-testid="tab-trace">
+            Trace
+          </TabsTrigger>
           <TabsTrigger value="state" data-testid="tab-state">
             State
           </TabsTrigger>
@@ -271,6 +258,11 @@ export default function TransactionDetail() {
 
               <InfoRow label="Status">
                 <StatusBadge status={tx.status} />
+                {tx.status === false && tx.revertReason && (
+                  <span className="text-sm text-destructive ml-2 break-all" data-testid="text-revert-reason">
+                    {tx.revertReason}
+                  </span>
+                )}
               </InfoRow>
 
               <InfoRow label="Block" icon={Blocks}>
@@ -328,44 +320,62 @@ export default function TransactionDetail() {
                     <span className="text-sm text-muted-foreground min-w-[100px] sm:min-w-[140px]">Token Transfers:</span>
                   </div>
                   <div className="space-y-2 pl-0 sm:pl-[140px]">
-                    {tokenTransfers.map((transfer, index) => (
-                      <div
-                        key={`${transfer.transactionHash}-${transfer.logIndex}`}
-                        className="flex flex-col p-3 rounded-md bg-muted/50 space-y-2"
-                        data-testid={`token-transfer-${index}`}
-                      >
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <Badge variant={transfer.tokenType === "ERC20" ? "default" : transfer.tokenType === "ERC721" ? "secondary" : "outline"} className="text-xs">
-                            {transfer.tokenType === "ERC20" ? nativeSymbol : transfer.tokenType}
-                          </Badge>
-                          <span className="font-mono text-sm font-medium text-green-600 dark:text-green-400">
-                            {transfer.tokenType === "ERC721" ? (
-                              <>Token ID: {transfer.tokenId}</>
+                    {groupTokenTransfers(tokenTransfers).map((group, index) => {
+                      const transfer = group[0];
+                      return (
+                        <div
+                          key={`${transfer.transactionHash}-${transfer.logIndex}`}
+                          className="flex flex-col p-3 rounded-md bg-muted/50 space-y-2"
+                          data-testid={`token-transfer-${index}`}
+                        >
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <Badge variant={transfer.tokenType === "ERC20" ? "default" : transfer.tokenType === "ERC721" ? "secondary" : "outline"} className="text-xs">
+                              {transfer.tokenType === "ERC20" ? nativeSymbol : transfer.tokenType}
+                            </Badge>
+                            {group.length > 1 ? (
+                              <span className="text-sm font-medium">Batch transfer of {group.length} token IDs</span>
                             ) : (
-                              <>{formatTBT(transfer.value || "0")}</>
+                              <span className="font-mono text-sm font-medium text-green-600 dark:text-green-400">
+                                {transfer.tokenType === "ERC721" ? (
+                                  <>Token ID: {transfer.tokenId}</>
+                                ) : (
+                                  <>{formatTBT(transfer.value || "0")}</>
+                                )}
+                              </span>
                             )}
-                          </span>
-                        </div>
-                        <div className="flex items-center gap-2 text-sm flex-wrap">
-                          <span className="text-muted-foreground text-xs">From</span>
-                          <div className="overflow-hidden">
-                            <AddressLink address={transfer.from} />
                           </div>
-                        </div>
-                        <div className="flex items-center gap-2 text-sm flex-wrap">
-                          <span className="text-muted-foreground text-xs">To</span>
-                          <div className="overflow-hidden">
-                            <AddressLink address={transfer.to} />
+                          <div className="flex items-center gap-2 text-sm flex-wrap">
+                            <span className="text-muted-foreground text-xs">From</span>
+                            <div className="overflow-hidden">
+                              <AddressLink address={transfer.from} />
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex items-center gap-2 text-sm flex-wrap">
-                          <span className="text-muted-foreground text-xs">Token</span>
-                          <div className="overflow-hidden">
-                            <AddressLink address={transfer.tokenAddress} isContract />
+                          <div className="flex items-center gap-2 text-sm flex-wrap">
+                            <span className="text-muted-foreground text-xs">To</span>
+                            <div className="overflow-hidden">
+                              <AddressLink address={transfer.to} />
+                            </div>
                           </div>
+                          <div className="flex items-center gap-2 text-sm flex-wrap">
+                            <span className="text-muted-foreground text-xs">Token</span>
+                            <div className="overflow-hidden">
+                              <AddressLink address={transfer.tokenAddress} isContract />
+                            </div>
+                          </div>
+                          {group.length > 1 && (
+                            <div className="border-t pt-2 space-y-1" data-testid={`token-transfer-batch-${index}`}>
+                              {group.map((item) => (
+                                <div key={item.batchIndex} className="flex items-center gap-2 text-sm font-mono">
+                                  <span className="text-muted-foreground">ID {item.tokenId}</span>
+                                  <span className="text-muted-foreground">&times;</span>
+                                  <span className="font-medium text-green-600 dark:text-green-400">{item.value || "0"}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               )}
@@ -471,7 +481,7 @@ export default function TransactionDetail() {
                   <p>No event logs emitted by this transaction</p>
                 </div>
               ) : (
-                <Accordion type="multiple" className="space-y-4">
+                <Accordion type="multiple" defaultValue={logs.map((_, i) => `log-${i}`)} className="space-y-4">
                   {logs.map((log, index) => (
                     <AccordionItem 
                       key={index} 
@@ -485,8 +495,11 @@ export default function TransactionDetail() {
                             <div className="flex items-center gap-2 min-w-0">
                               <Zap className="h-4 w-4 text-yellow-500 flex-shrink-0" />
                               <span className="font-mono text-xs sm:text-sm text-primary truncate">
-                                {log.topics && log.topics[0] ? getEventName(log.topics[0]) : "Unknown"}
+                                {log.decoded ? log.decoded.signature : "Unknown Event"}
                               </span>
+                              {log.decoded?.source === "signature" && (
+                                <Badge variant="outline" className="text-xs flex-shrink-0">Guessed</Badge>
+                              )}
                             </div>
                             <div className="flex items-center gap-1 min-w-0 overflow-hidden">
                               <FileCode className="h-3 w-3 text-muted-foreground flex-shrink-0" />
@@ -508,6 +521,17 @@ export default function TransactionDetail() {
                             </div>
                           </div>
                           
+                          {log.decoded && (
+                            <div>
+                              <span className="text-xs text-muted-foreground uppercase tracking-wide block mb-2">
+                                {log.decoded.name}
+                              </span>
+                              <div className="rounded-md border overflow-x-auto">
+                                <DecodedEventParams event={log.decoded} />
+                              </div>
+                            </div>
+                          )}
+
                           {log.topics && log.topics.length > 0 && (
                             <div>
                               <span className="text-xs text-muted-foreground uppercase tracking-wide block mb-2">
@@ -520,9 +544,9 @@ export default function TransactionDetail() {
                                       {i}
                                     </Badge>
                                     <div className="flex-1 min-w-0">
-                                      {i === 0 && (
+                                      {i === 0 && log.decoded && (
                                         <span className="text-xs text-muted-foreground block mb-1">
-                                          {getEventName(topic)}
+                                          {log.decoded.signature}
                                         </span>
                                       )}
                                       <code className="text-xs font-mono break-all block">{topic}</code>
@@ -556,6 +580,20 @@ export default function TransactionDetail() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="trace" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <GitBranch className="h-5 w-5" />
+                Call Trace
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CallTraceTree txHash={tx.hash} nativeSymbol={nativeSymbol} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="state" className="mt-4">
           <Card>
             <CardHeader>
@@ -565,81 +603,7 @@ export default function TransactionDetail() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {tx.value && tx.value !== "0" ? (
-                <div className="space-y-4">
-                  <div className="p-4 bg-muted/50 rounded-lg space-y-3">
-                    <div className="flex items-center gap-2 text-sm font-medium">
-                      <Badge variant="outline">Balance Change</Badge>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2 min-w-0">
-                        <span className="text-xs text-muted-foreground uppercase tracking-wide">From</span>
-                        <div className="overflow-hidden">
-                          <AddressLink address={tx.from} />
-                        </div>
-                        <Badge variant="destructive" className="font-mono text-xs">
-                          -{formatTBT(tx.value)} {nativeSymbol}
-                        </Badge>
-                      </div>
-                      
-                      <div className="space-y-2 min-w-0">
-                        <span className="text-xs text-muted-foreground uppercase tracking-wide">To</span>
-                        <div className="overflow-hidden">
-                          <AddressLink address={tx.to || tx.contractAddress} />
-                        </div>
-                        <Badge className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20 font-mono text-xs">
-                          +{formatTBT(tx.value)} {nativeSymbol}
-                        </Badge>
-                      </div>
-                    </div>
-                  </div>
-
-                  {txFee && (
-                    <div className="p-4 bg-muted/50 rounded-lg space-y-3">
-                      <div className="flex items-center gap-2 text-sm font-medium">
-                        <Badge variant="outline">Gas Fee Deduction</Badge>
-                      </div>
-                      
-                      <div className="space-y-2 min-w-0">
-                        <span className="text-xs text-muted-foreground uppercase tracking-wide">From (Sender)</span>
-                        <div className="overflow-hidden">
-                          <AddressLink address={tx.from} />
-                        </div>
-                        <Badge variant="secondary" className="font-mono text-xs">
-                          -{formatTBT(txFee)} {nativeSymbol} (gas)
-                        </Badge>
-                      </div>
-                    </div>
-                  )}
-
-                  {tx.nonce === 0 && (
-                    <div className="p-4 bg-muted/50 rounded-lg space-y-3">
-                      <div className="flex items-center gap-2 text-sm font-medium">
-                        <Badge variant="outline">Nonce Update</Badge>
-                      </div>
-                      
-                      <div className="space-y-2 min-w-0">
-                        <div className="overflow-hidden">
-                          <AddressLink address={tx.from} />
-                        </div>
-                        <div className="flex items-center gap-2 text-sm flex-wrap">
-                          <span className="font-mono text-muted-foreground">nonce:</span>
-                          <Badge variant="secondary" className="font-mono">0</Badge>
-                          <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                          <Badge className="font-mono">1</Badge>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ) : (
-                <div className="text-center py-12 text-muted-foreground">
-                  <Database className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No significant state changes detected</p>
-                  <p className="text-sm mt-2">This transaction may only involve contract execution without value transfer</p>
-                </div>
-              )}
+              <StateDiffView txHash={tx.hash} nativeSymbol={nativeSymbol} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -658,7 +622,7 @@ export default function TransactionDetail() {
                   <div className="flex items-start gap-2">
                     <span className="text-sm text-muted-foreground min-w-20">Function:</span>
                     <code className="font-mono text-sm font-medium break-all">
-                      {METHOD_SIGNATURES[decodedInput.methodId] || (tx.methodName ? `${tx.methodName}(...)` : "Unknown")}
+                      {methodSignature?.textSignature || (tx.methodName ? `${tx.methodName}(...)` : "Unknown")}
                     </code>
                   </div>
 
@@ -743,6 +707,119 @@ export default function TransactionDetail() {
   );
 }
 
+function PendingTransactionView({ pending, nativeSymbol }: { pending: PendingTransaction; nativeSymbol: string }) {
+  const { addressFormat, bech32Prefix } = useAddressFormat();
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold flex items-center gap-2" data-testid="text-page-title">
+          <ArrowRightLeft className="h-6 w-6" />
+          Transaction Details
+        </h1>
+        <div className="flex items-center gap-2 mt-2">
+          <PendingStatusBadge status={pending.status} />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Transaction Information</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <InfoRow label="Transaction Hash" icon={Hash}>
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-xs sm:text-sm truncate">
+                {formatTxHash(pending.hash, addressFormat, bech32Prefix)}
+              </span>
+              <CopyButton text={formatTxHash(pending.hash, addressFormat, bech32Prefix)} />
+            </div>
+          </InfoRow>
+
+          <InfoRow label="Status">
+            <div className="space-y-1">
+              <PendingStatusBadge status={pending.status} />
+              {pending.status === "pending" && (
+                <p className="text-xs text-muted-foreground">
+                  This transaction is waiting in the mempool and has not been included in a block yet.
+                </p>
+              )}
+              {pending.status === "dropped" && (
+                <p className="text-xs text-muted-foreground" data-testid="text-dropped-note">
+                  This transaction left the mempool without being mined. It will not be executed unless it is broadcast again.
+                </p>
+              )}
+            </div>
+          </InfoRow>
+
+          {pending.status === "replaced" && pending.replacedBy && (
+            <InfoRow label="Replaced By" icon={Zap}>
+              <div className="space-y-1">
+                <Link href={`/tx/${pending.replacedBy}`} className="font-mono text-primary hover:underline break-all" data-testid="link-replaced-by">
+                  {formatTxHash(pending.replacedBy, addressFormat, bech32Prefix)}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  Another transaction with the same sender and nonce {pending.nonce} was mined
+                  {pending.blockNumber !== null && <> in block {formatNumber(pending.blockNumber)}</>}.
+                </p>
+              </div>
+            </InfoRow>
+          )}
+
+          <InfoRow label="First Seen" icon={Clock}>
+            <span>{formatFullTimestamp(pending.firstSeenAt)}</span>
+            <span className="text-muted-foreground ml-2">({formatTimestamp(pending.firstSeenAt)})</span>
+          </InfoRow>
+
+          <InfoRow label="Last Seen" icon={Clock}>
+            <span>{formatTimestamp(pending.lastSeenAt)}</span>
+          </InfoRow>
+
+          <Separator />
+
+          <InfoRow label="From">
+            <div className="overflow-hidden">
+              <AddressLink address={pending.from} />
+            </div>
+          </InfoRow>
+
+          <InfoRow label="To">
+            {pending.to ? (
+              <div className="overflow-hidden">
+                <AddressLink address={pending.to} />
+              </div>
+            ) : (
+              <span className="text-muted-foreground">Contract Creation</span>
+            )}
+          </InfoRow>
+
+          <Separator />
+
+          <InfoRow label="Value">
+            <span className="font-mono font-medium">{formatTBT(pending.value)} {nativeSymbol}</span>
+          </InfoRow>
+
+          <InfoRow label="Gas Limit" icon={Fuel}>
+            <span className="font-mono">{formatNumber(pending.gas)}</span>
+          </InfoRow>
+
+          <InfoRow label="Gas Price">
+            <span className="font-mono">
+              {pending.maxFeePerGas
+                ? `Max ${formatGwei(pending.maxFeePerGas)} Gwei (priority ${formatGwei(pending.maxPriorityFeePerGas || "0")} Gwei)`
+                : `${formatGwei(pending.gasPrice || "0")} Gwei`}
+            </span>
+          </InfoRow>
+
+          <InfoRow label="Nonce">
+            <span className="font-mono">{pending.nonce}</span>
+          </InfoRow>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 function InfoRow({
   label,
   icon: Icon,
@@ -72,7 +72,7 @@ export default function TransactionsPage() {
                     {tx.status === true ? (
                       <div className="w-2.5 h-2.5 rounded-full bg-green-500" title="Success" />
                     ) : tx.status === false ? (
-                      <div className="w-2.5 h-2.5 rounded-full bg-red-500" title="Failed" />
+                      <div className="w-2.5 h-2.5 rounded-full bg-red-500" title={tx.revertReason ? `Failed: ${tx.revertReason}` : "Failed"} />
                     ) : (
                       <div className="w-2.5 h-2.5 rounded-full bg-muted-foreground" title="Pending" />
                     )}
@@ -101,6 +101,12 @@ export default function TransactionsPage() {
                       </span>
                     </div>
 
+                    {tx.status === false && tx.revertReason && (
+                      <p className="text-xs text-destructive truncate" title={tx.revertReason}>
+                        {tx.revertReason}
+                      </p>
+                    )}
+
                     <div className="flex items-center justify-between gap-2">
                       <div className="flex items-center gap-1.5">
                         {tx.methodName ? (
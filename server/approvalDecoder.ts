@@ -0,0 +1,40 @@
+import type { InsertTokenApproval } from "@shared/schema";
+
+// Approval(owner, spender, value) with three topics is ERC-20; the ERC-721 variant indexes the token ID as a fourth
+export const APPROVAL_TOPIC = "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925";
+export const APPROVAL_FOR_ALL_TOPIC = "0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31";
+
+export interface ApprovalLog {
+  address: string;
+  topics: readonly string[] | null;
+  data: string | null;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+// Parses ERC-20 Approval and ERC-721/1155 ApprovalForAll events, for both the live indexer and the backfill.
+// Single-token ERC-721 approvals are cleared by every transfer of the token and are not tracked.
+export function parseTokenApproval(logEntry: ApprovalLog, timestamp: Date): InsertTokenApproval | null {
+  const topics = logEntry.topics || [];
+  if (topics.length !== 3 || (topics[0] !== APPROVAL_TOPIC && topics[0] !== APPROVAL_FOR_ALL_TOPIC)) return null;
+
+  try {
+    const value = logEntry.data && logEntry.data !== "0x" ? BigInt(logEntry.data) : BigInt(0);
+    const isAllowance = topics[0] === APPROVAL_TOPIC;
+    return {
+      ownerAddress: ("0x" + topics[1].slice(26)).toLowerCase(),
+      tokenAddress: logEntry.address.toLowerCase(),
+      spenderAddress: ("0x" + topics[2].slice(26)).toLowerCase(),
+      approvalType: isAllowance ? "allowance" : "operator",
+      allowance: isAllowance ? value.toString() : null,
+      approved: value !== BigInt(0),
+      transactionHash: logEntry.transactionHash,
+      blockNumber: logEntry.blockNumber,
+      logIndex: logEntry.logIndex,
+      timestamp,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -1,3 +1,5 @@
+import { currentChainId } from "./chainContext";
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -12,8 +14,13 @@ class InMemoryCache {
     this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
   }
 
+  // Entries are kept per chain so the same key never serves another chain's data
+  private scoped(key: string): string {
+    return `${currentChainId()}:${key}`;
+  }
+
   set<T>(key: string, data: T, ttlSeconds: number = 10): void {
-    this.cache.set(key, {
+    this.cache.set(this.scoped(key), {
       data,
       timestamp: Date.now(),
       ttl: ttlSeconds * 1000,
@@ -21,11 +28,11 @@ class InMemoryCache {
   }
 
   get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
+    const entry = this.cache.get(this.scoped(key));
     if (!entry) return null;
     
     if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
+      this.cache.delete(this.scoped(key));
       return null;
     }
     
@@ -33,8 +40,9 @@ class InMemoryCache {
   }
 
   invalidate(keyPattern: string): void {
+    const prefix = this.scoped(keyPattern);
     for (const key of Array.from(this.cache.keys())) {
-      if (key.startsWith(keyPattern)) {
+      if (key.startsWith(prefix)) {
         this.cache.delete(key);
       }
     }
@@ -66,6 +74,8 @@ export const CACHE_KEYS = {
   BLOCK: (id: string | number) => `block:${id}`,
   TX: (hash: string) => `tx:${hash}`,
   ADDRESS: (addr: string) => `address:${addr.toLowerCase()}`,
+  PROXY: (addr: string) => `proxy:${addr.toLowerCase()}`,
+  SIGNATURE: (selector: string) => `signature:${selector.toLowerCase()}`,
 };
 
 export const CACHE_TTL = {
@@ -75,4 +85,6 @@ export const CACHE_TTL = {
   BLOCK: 60,
   TX: 60,
   ADDRESS: 10,
+  PROXY: 60,
+  SIGNATURE: 60,
 };
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Chain, RpcEndpoint } from "@shared/schema";
+
+// Chain the current request or indexer loop operates on. Storage queries and cache keys
+// read it implicitly so route handlers and the indexer stay chain-agnostic.
+const chainScope = new AsyncLocalStorage<number>();
+
+let activeChains: Chain[] = [];
+let rpcEndpoints: RpcEndpoint[] = [];
+let defaultChainId = parseInt(process.env.CHAIN_ID || "136919", 10);
+
+export function setActiveChains(chains: Chain[], endpoints: RpcEndpoint[] = []): void {
+  activeChains = chains;
+  rpcEndpoints = endpoints;
+  const defaultChain = chains.find((c) => c.isDefault) || chains[0];
+  if (defaultChain) defaultChainId = defaultChain.chainId;
+}
+
+export function getActiveChains(): Chain[] {
+  return activeChains;
+}
+
+export function getChainConfig(chainId: number): Chain | undefined {
+  return activeChains.find((c) => c.chainId === chainId);
+}
+
+// Additional endpoints configured for a chain besides its primary rpcUrl
+export function getRpcEndpoints(chainId: number): RpcEndpoint[] {
+  return rpcEndpoints.filter((e) => e.chainId === chainId && e.isActive);
+}
+
+export function getDefaultChainId(): number {
+  return defaultChainId;
+}
+
+export function currentChainId(): number {
+  return chainScope.getStore() ?? defaultChainId;
+}
+
+export function runWithChain<T>(chainId: number, fn: () => T): T {
+  return chainScope.run(chainId, fn);
+}
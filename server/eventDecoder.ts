@@ -0,0 +1,172 @@
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { pickSignature } from "./signatureRegistry";
+import type { DecodedEvent, DecodedEventParam, DecodedTransactionLog, TransactionLog } from "@shared/schema";
+
+// Fallback signatures for logs emitted by contracts without a verified ABI.
+// Events sharing a topic0 (ERC-20 vs ERC-721 Transfer) are told apart by their indexed topic count.
+const KNOWN_EVENTS = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+  "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event URI(string value, uint256 indexed id)",
+  "event Deposit(address indexed dst, uint256 wad)",
+  "event Withdrawal(address indexed src, uint256 wad)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)",
+  "event Upgraded(address indexed implementation)",
+  "event BeaconUpgraded(address indexed beacon)",
+  "event AdminChanged(address previousAdmin, address newAdmin)",
+  "event Initialized(uint8 version)",
+  "event Initialized(uint64 version)",
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+];
+
+const knownEventsByTopic = new Map<string, ethers.Interface[]>();
+for (const signature of KNOWN_EVENTS) {
+  const iface = new ethers.Interface([signature]);
+  const topic = iface.getEvent(signature.slice("event ".length).split("(")[0])!.topicHash;
+  const list = knownEventsByTopic.get(topic) || [];
+  list.push(iface);
+  knownEventsByTopic.set(topic, list);
+}
+
+export function formatValue(value: any): any {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof ethers.Indexed) return value.hash;
+  if (Array.isArray(value)) return Array.from(value).map(formatValue);
+  if (typeof value === "string") return value.startsWith("0x") && value.length === 42 ? value.toLowerCase() : value;
+  return value;
+}
+
+function describe(parsed: ethers.LogDescription, source: DecodedEvent["source"]): DecodedEvent {
+  const params: DecodedEventParam[] = parsed.fragment.inputs.map((input, i) => ({
+    name: input.name || `arg${i}`,
+    type: input.type,
+    indexed: !!input.indexed,
+    value: formatValue(parsed.args[i]),
+  }));
+
+  return {
+    name: parsed.name,
+    signature: parsed.signature,
+    source,
+    params,
+  };
+}
+
+function tryParse(iface: ethers.Interface, log: TransactionLog): ethers.LogDescription | null {
+  try {
+    return iface.parseLog({ topics: log.topics || [], data: log.data || "0x" });
+  } catch {
+    return null;
+  }
+}
+
+export function decodeWithKnownEvents(log: TransactionLog): DecodedEvent | null {
+  const topic0 = log.topics?.[0];
+  if (!topic0) return null;
+
+  for (const iface of knownEventsByTopic.get(topic0.toLowerCase()) || []) {
+    const parsed = tryParse(iface, log);
+    if (parsed) return describe(parsed, "signature");
+  }
+  return null;
+}
+
+// Registry signatures carry no "indexed" flags; assume the leading parameters fill the extra topics
+function decodeWithRegistrySignature(textSignature: string, log: TransactionLog): DecodedEvent | null {
+  try {
+    const fragment = ethers.EventFragment.from(textSignature);
+    const indexedCount = (log.topics?.length || 1) - 1;
+    if (indexedCount > fragment.inputs.length) return null;
+
+    const params = fragment.inputs.map((input, i) => `${input.format("full")}${i < indexedCount ? " indexed" : ""}`);
+    const iface = new ethers.Interface([`event ${fragment.name}(${params.join(", ")})`]);
+    const parsed = tryParse(iface, log);
+    return parsed ? describe(parsed, "signature") : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadRegistryEvents(topics: string[]): Promise<Map<string, string>> {
+  const signatures = new Map<string, string>();
+  await Promise.all(topics.map(async (topic) => {
+    try {
+      const rows = await storage.getSignaturesBySelector(topic);
+      const preferred = pickSignature(rows.filter((r) => r.kind === "event"));
+      if (preferred) signatures.set(topic, preferred.textSignature);
+    } catch {
+      // Registry lookups are best-effort
+    }
+  }));
+  return signatures;
+}
+
+// Verified ABIs for the emitter and, for proxies, its implementation
+export async function loadContractInterfaces(address: string): Promise<ethers.Interface[]> {
+  const interfaces: ethers.Interface[] = [];
+  const [contract, addressInfo] = await Promise.all([
+    storage.getVerifiedContract(address),
+    storage.getAddressByAddress(address),
+  ]);
+
+  if (contract) interfaces.push(new ethers.Interface(contract.abi as ethers.InterfaceAbi));
+  if (addressInfo?.implementationAddress) {
+    const implementation = await storage.getVerifiedContract(addressInfo.implementationAddress);
+    if (implementation) interfaces.push(new ethers.Interface(implementation.abi as ethers.InterfaceAbi));
+  }
+  return interfaces;
+}
+
+// Decodes logs using the emitting contract's verified ABI first, then the known event table, then the signature registry
+export async function decodeLogs(logs: TransactionLog[]): Promise<DecodedTransactionLog[]> {
+  const emitters = Array.from(new Set(logs.map((l) => l.address.toLowerCase())));
+  const interfacesByAddress = new Map<string, ethers.Interface[]>();
+
+  await Promise.all(emitters.map(async (address) => {
+    try {
+      interfacesByAddress.set(address, await loadContractInterfaces(address));
+    } catch {
+      interfacesByAddress.set(address, []);
+    }
+  }));
+
+  const decoded: DecodedTransactionLog[] = logs.map((log) => {
+    if (!log.topics?.length) return { ...log, decoded: null };
+
+    for (const iface of interfacesByAddress.get(log.address.toLowerCase()) || []) {
+      const parsed = tryParse(iface, log);
+      if (parsed) return { ...log, decoded: describe(parsed, "abi") };
+    }
+
+    return { ...log, decoded: decodeWithKnownEvents(log) };
+  });
+
+  const unknownTopics = Array.from(new Set(
+    decoded.filter((l) => !l.decoded && l.topics?.length).map((l) => l.topics![0].toLowerCase())
+  ));
+  if (unknownTopics.length === 0) return decoded;
+
+  const registryEvents = await loadRegistryEvents(unknownTopics);
+  return decoded.map((log) => {
+    if (log.decoded || !log.topics?.length) return log;
+    const signature = registryEvents.get(log.topics[0].toLowerCase());
+    return signature ? { ...log, decoded: decodeWithRegistrySignature(signature, log) } : log;
+  });
+}
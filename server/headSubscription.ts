@@ -0,0 +1,202 @@
+import WebSocket from "ws";
+
+const PING_INTERVAL_MS = 20000;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Token transfer events; a "removed" notification for one of them means a block the indexer may
+// already have stored was reorged out
+const TRANSFER_TOPICS = [
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+  "0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62",
+  "0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb",
+];
+
+export interface HeadSubscriptionHandlers {
+  onHead: (blockNumber: number) => void;
+  onRemovedLog: (blockNumber: number) => void;
+  // Called after every successful (re)subscription; heads announced while disconnected were missed
+  onSubscribed: () => void;
+  onDisconnected: (reason: string) => void;
+}
+
+export interface HeadSubscriptionStatus {
+  url: string;
+  connected: boolean;
+  lastHead: number | null;
+  lastHeadAt: string | null;
+  reconnects: number;
+  lastError: string | null;
+}
+
+// Follows the chain head over eth_subscribe("newHeads"). Reconnects with exponential backoff when the
+// socket drops; the indexer keeps polling over HTTP until onSubscribed fires again.
+export class HeadSubscription {
+  private url: string;
+  private handlers: HeadSubscriptionHandlers;
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, "newHeads" | "logs">();
+  private pending = new Map<number, "newHeads" | "logs">();
+  private nextId = 1;
+  private stopped = false;
+  private connected = false;
+  private reconnectDelay = BASE_RECONNECT_DELAY_MS;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private awaitingPong = false;
+  private lastHead: number | null = null;
+  private lastHeadAt: Date | null = null;
+  private reconnects = 0;
+  private lastError: string | null = null;
+
+  constructor(url: string, handlers: HeadSubscriptionHandlers) {
+    this.url = url;
+    this.handlers = handlers;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.teardown();
+  }
+
+  getStatus(): HeadSubscriptionStatus {
+    return {
+      url: this.url,
+      connected: this.connected,
+      lastHead: this.lastHead,
+      lastHeadAt: this.lastHeadAt?.toISOString() || null,
+      reconnects: this.reconnects,
+      lastError: this.lastError,
+    };
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.subscribe("newHeads", ["newHeads"]);
+      this.subscribe("logs", ["logs", { topics: [TRANSFER_TOPICS] }]);
+      this.startPing();
+    });
+    socket.on("message", (data) => this.handleMessage(data.toString()));
+    socket.on("pong", () => {
+      this.awaitingPong = false;
+    });
+    socket.on("error", (error) => {
+      this.lastError = error.message;
+    });
+    socket.on("close", () => {
+      if (this.socket !== socket) return;
+      this.handleDrop(this.lastError || "connection closed");
+    });
+  }
+
+  private subscribe(kind: "newHeads" | "logs", params: unknown[]): void {
+    const id = this.nextId++;
+    this.pending.set(id, kind);
+    this.socket?.send(JSON.stringify({ jsonrpc: "2.0", id, method: "eth_subscribe", params }));
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.id !== undefined && this.pending.has(message.id)) {
+      const kind = this.pending.get(message.id)!;
+      this.pending.delete(message.id);
+      if (message.error) {
+        this.lastError = message.error.message;
+        // A node without newHeads support cannot push anything useful; logs are optional
+        if (kind === "newHeads") this.handleDrop(`newHeads subscription rejected: ${message.error.message}`);
+        return;
+      }
+      this.subscriptions.set(message.result, kind);
+      if (kind === "newHeads") {
+        this.connected = true;
+        this.reconnectDelay = BASE_RECONNECT_DELAY_MS;
+        this.lastError = null;
+        this.handlers.onSubscribed();
+      }
+      return;
+    }
+
+    if (message.method !== "eth_subscription") return;
+    const kind = this.subscriptions.get(message.params?.subscription);
+    const result = message.params?.result;
+    if (!kind || !result) return;
+
+    if (kind === "newHeads") {
+      const blockNumber = parseInt(result.number, 16);
+      if (isNaN(blockNumber)) return;
+      this.lastHead = blockNumber;
+      this.lastHeadAt = new Date();
+      this.handlers.onHead(blockNumber);
+    } else if (result.removed) {
+      const blockNumber = parseInt(result.blockNumber, 16);
+      if (!isNaN(blockNumber)) this.handlers.onRemovedLog(blockNumber);
+    }
+  }
+
+  // A missed pong means the connection is dead even if the socket has not noticed yet
+  private startPing(): void {
+    this.awaitingPong = false;
+    this.pingTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.handleDrop("keepalive ping timed out");
+        return;
+      }
+      this.awaitingPong = true;
+      this.socket?.ping();
+    }, PING_INTERVAL_MS);
+  }
+
+  private handleDrop(reason: string): void {
+    const wasConnected = this.connected;
+    this.teardown();
+    if (wasConnected) this.handlers.onDisconnected(reason);
+    if (this.stopped) return;
+
+    this.reconnects++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+
+  private teardown(): void {
+    this.connected = false;
+    this.subscriptions.clear();
+    this.pending.clear();
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.removeAllListeners();
+      // Errors raised while closing would otherwise crash the process without a listener
+      socket.on("error", () => {});
+      socket.terminate();
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { ethers } from "ethers";
+import { storage, type TokenHolderRef } from "./storage";
+import { log } from "./index";
+import type { TokenHolder } from "@shared/schema";
+
+const TOKENS_PER_RUN = 10;
+const HOLDERS_PER_TOKEN = 5;
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+const ERC721_OWNER_ABI = ["function ownerOf(uint256 tokenId) view returns (address)"];
+const ERC1155_BALANCE_ABI = ["function balanceOf(address account, uint256 id) view returns (uint256)"];
+
+export interface HolderCheckRange {
+  blockNumber: number;
+  historyStart: number;
+}
+
+export interface HolderReconcilerStatus {
+  lastRunAt: string | null;
+  lastBlock: number | null;
+  tokensChecked: number;
+  holdersChecked: number;
+  tokensFlagged: number;
+}
+
+// Holder balances are summed from transfer events. This job compares a sample of them with balanceOf and
+// flags tokens whose balances change without events (rebasing, fee-on-transfer, reflection tokens, ...);
+// the indexer reads balances of flagged tokens from the chain instead.
+export class HolderReconciler {
+  private getProvider: () => ethers.JsonRpcProvider;
+  private interval: number;
+  // Block to compare at and first indexed block, or null while the indexed history is incomplete and sums
+  // cannot match yet
+  private getCheckBlock: () => Promise<HolderCheckRange | null>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt: Date | null = null;
+  private lastBlock: number | null = null;
+  private tokensChecked = 0;
+  private holdersChecked = 0;
+  private tokensFlagged = 0;
+
+  constructor(getProvider: () => ethers.JsonRpcProvider, interval: number, getCheckBlock: () => Promise<HolderCheckRange | null>) {
+    this.getProvider = getProvider;
+    this.interval = interval;
+    this.getCheckBlock = getCheckBlock;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.run().catch((error) => log(`Holder reconciliation error: ${error.message}`, "indexer"));
+    }, this.interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): HolderReconcilerStatus {
+    return {
+      lastRunAt: this.lastRunAt?.toISOString() || null,
+      lastBlock: this.lastBlock,
+      tokensChecked: this.tokensChecked,
+      holdersChecked: this.holdersChecked,
+      tokensFlagged: this.tokensFlagged,
+    };
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const range = await this.getCheckBlock();
+      if (range === null) return;
+      const { blockNumber, historyStart } = range;
+      const block = await storage.getBlockByNumber(blockNumber);
+      if (!block) return;
+
+      const tokens = await storage.getTokensForReconciliation(TOKENS_PER_RUN, historyStart);
+      for (const token of tokens) {
+        await this.reconcileToken(token.address, blockNumber, block.timestamp);
+      }
+      this.lastRunAt = new Date();
+      this.lastBlock = blockNumber;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reconcileToken(tokenAddress: string, blockNumber: number, timestamp: Date): Promise<void> {
+    const sample = await storage.getTokenHolderSample(tokenAddress, HOLDERS_PER_TOKEN);
+    const mismatches: { ref: TokenHolderRef; expected: string; actual: string }[] = [];
+
+    for (const holder of sample) {
+      const ref = refOf(holder);
+      const [expected, actual] = await Promise.all([
+        storage.getTokenBalanceAt(ref.tokenAddress, ref.holderAddress, ref.tokenId, blockNumber),
+        this.readBalance(ref, blockNumber),
+      ]);
+      if (actual === null) continue;
+      this.holdersChecked++;
+      if (BigInt(expected.balance) !== BigInt(actual)) mismatches.push({ ref, expected: expected.balance, actual });
+    }
+    this.tokensChecked++;
+
+    if (mismatches.length === 0) {
+      await storage.markTokenHoldersReconciled(tokenAddress);
+      return;
+    }
+
+    const first = mismatches[0];
+    const reason = `balanceOf(${first.ref.holderAddress}) returned ${first.actual} at block ${blockNumber}, transfer events add up to ${first.expected}`;
+    await storage.markTokenNonStandard(tokenAddress, reason);
+    for (const mismatch of mismatches) {
+      await storage.addTokenBalanceCorrection(mismatch.ref, BigInt(mismatch.actual) - BigInt(mismatch.expected), blockNumber, timestamp);
+    }
+    this.tokensFlagged++;
+    log(`Token ${tokenAddress} flagged as non-standard: ${reason}`, "indexer");
+  }
+
+  // Null when the call fails for a reason that says nothing about the balance, e.g. a node error
+  private async readBalance(ref: TokenHolderRef, blockNumber: number): Promise<string | null> {
+    const provider = this.getProvider();
+    const overrides = { blockTag: blockNumber };
+    try {
+      if (ref.tokenType === "ERC721") {
+        if (!ref.tokenId) return null;
+        const contract = new ethers.Contract(ref.tokenAddress, ERC721_OWNER_ABI, provider);
+        try {
+          const owner: string = await contract.ownerOf(ref.tokenId, overrides);
+          return owner.toLowerCase() === ref.holderAddress ? "1" : "0";
+        } catch (error: any) {
+          // ownerOf reverts for burned tokens
+          if (error?.code === "CALL_EXCEPTION") return "0";
+          throw error;
+        }
+      }
+      if (ref.tokenType === "ERC1155") {
+        if (!ref.tokenId) return null;
+        const contract = new ethers.Contract(ref.tokenAddress, ERC1155_BALANCE_ABI, provider);
+        return (await contract.balanceOf(ref.holderAddress, ref.tokenId, overrides)).toString();
+      }
+      const contract = new ethers.Contract(ref.tokenAddress, ERC20_BALANCE_ABI, provider);
+      return (await contract.balanceOf(ref.holderAddress, overrides)).toString();
+    } catch {
+      return null;
+    }
+  }
+}
+
+function refOf(holder: TokenHolder): TokenHolderRef {
+  return {
+    tokenAddress: holder.tokenAddress.toLowerCase(),
+    holderAddress: holder.holderAddress.toLowerCase(),
+    tokenType: holder.tokenType,
+    tokenId: holder.tokenId,
+  };
+}
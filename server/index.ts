@@ -217,6 +217,7 @@ app.set('trust proxy', 1);
 const GLOBAL_RATE_LIMIT = parseInt(process.env.GLOBAL_RATE_LIMIT || "1000", 10);
 const AUTH_RATE_LIMIT = parseInt(process.env.AUTH_RATE_LIMIT || "50", 10);
 const API_RATE_LIMIT = parseInt(process.env.API_RATE_LIMIT || "100", 10);
+const NFT_REFRESH_RATE_LIMIT = parseInt(process.env.NFT_REFRESH_RATE_LIMIT || "10", 10);
 
 // Global rate limiter - default 1000 requests per 15 minutes
 const globalLimiter = rateLimit({
@@ -245,11 +246,21 @@ const apiLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-log(`Rate limits: Global=${GLOBAL_RATE_LIMIT}/15min, Auth=${AUTH_RATE_LIMIT}/15min, API=${API_RATE_LIMIT}/min`);
+// NFT metadata refresh limiter - default 10 requests per 15 minutes; each refresh makes RPC calls and outbound fetches
+const nftRefreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: NFT_REFRESH_RATE_LIMIT,
+  message: { message: "Too many metadata refresh requests, please try again later" },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+log(`Rate limits: Global=${GLOBAL_RATE_LIMIT}/15min, Auth=${AUTH_RATE_LIMIT}/15min, API=${API_RATE_LIMIT}/min, NFT refresh=${NFT_REFRESH_RATE_LIMIT}/15min`);
 
 app.use(globalLimiter);
 app.use('/api/auth', authLimiter);
 app.use('/api', apiLimiter);
+app.post('/api/nfts/:contractAddress/:tokenId/refresh', nftRefreshLimiter);
 
 app.use(
   express.json({
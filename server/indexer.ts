@@ -1,7 +1,17 @@
 import { ethers } from "ethers";
-import { storage } from "./storage";
+import { storage, type IndexedBlockData, type ReorgRollback } from "./storage";
 import { log } from "./index";
-import type { InsertBlock, InsertTransaction, InsertTransactionLog, InsertAddress, InsertTokenTransfer, InsertToken, InsertInternalTransaction, InsertTokenHolder, InsertNftToken } from "@shared/schema";
+import { detectProxy, resolveBeaconImplementation, UPGRADED_TOPIC, BEACON_UPGRADED_TOPIC } from "./proxyDetector";
+import { parseTokenApproval } from "./approvalDecoder";
+import { resolveMethodName } from "./signatureRegistry";
+import { RpcEndpointPool, PooledJsonRpcProvider, isMethodUnsupported, type RpcEndpointConfig } from "./rpcProvider";
+import { HeadSubscription } from "./headSubscription";
+import { MempoolTracker } from "./mempoolTracker";
+import { HolderReconciler, type HolderCheckRange } from "./holderReconciler";
+import { decodeRevertData, revertDataFromError, revertingContracts } from "./revertDecoder";
+import { classifyToken, conformTransfer } from "./tokenClassifier";
+import { currentChainId, getActiveChains, getChainConfig, getDefaultChainId, getRpcEndpoints, runWithChain } from "./chainContext";
+import type { IndexerCheckpoint, RpcEndpointHealth, RpcEndpointRole, InsertBlock, InsertTransaction, InsertTransactionLog, InsertAddress, InsertTokenTransfer, InsertToken, Token, InsertInternalTransaction, InsertTokenHolder, InsertProxyUpgrade, InsertBalanceSnapshot, InsertContractCreation, TransactionTracer } from "@shared/schema";
 
 const ERC20_ABI = [
   "function name() view returns (string)",
@@ -23,29 +33,6 @@ const ERC1155_ABI = [
   "function balanceOf(address account, uint256 id) view returns (uint256)",
 ];
 
-const METHOD_SIGNATURES: Record<string, string> = {
-  "0xa9059cbb": "transfer",
-  "0x23b872dd": "transferFrom",
-  "0x095ea7b3": "approve",
-  "0x40c10f19": "mint",
-  "0x42966c68": "burn",
-  "0xa0712d68": "mint",
-  "0x38ed1739": "swapExactTokensForTokens",
-  "0x7ff36ab5": "swapExactETHForTokens",
-  "0x18cbafe5": "swapExactTokensForETH",
-  "0x8803dbee": "swapTokensForExactTokens",
-  "0xfb3bdb41": "swapETHForExactTokens",
-  "0x4a25d94a": "swapTokensForExactETH",
-  "0xe8e33700": "addLiquidity",
-  "0xf305d719": "addLiquidityETH",
-  "0xbaa2abde": "removeLiquidity",
-  "0x02751cec": "removeLiquidityETH",
-  "0xd0e30db0": "deposit",
-  "0x2e1a7d4d": "withdraw",
-  "0x3593564c": "execute",
-  "0x5ae401dc": "multicall",
-};
-
 const ERC20_TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
 const ERC721_TRANSFER_TOPIC = ERC20_TRANSFER_TOPIC;
 const ERC1155_TRANSFER_SINGLE_TOPIC = "0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62";
@@ -60,7 +47,57 @@ interface IndexerConfig {
   errorRetryDelay: number;
   enableTracing: boolean;
   enableNftMetadata: boolean;
-  nftMetadataDelay: number;
+  enableBackfill: boolean;
+  backfillStartBlock: number;
+  backfillWorkers: number;
+  backfillRangeSize: number;
+  gapScanInterval: number;
+  gapScanLimit: number;
+  txCountScanRange: number;
+  rpcBatchSize: number;
+  wsUrl: string | null;
+  enableMempool: boolean;
+  mempoolPollInterval: number;
+  enableBalanceHistory: boolean;
+  enableHolderReconciliation: boolean;
+  holderReconcileInterval: number;
+}
+
+// While new heads are pushed over a WebSocket the loop only polls this often, to catch heads the socket missed
+const HEAD_SAFETY_POLL_INTERVAL = 60000;
+
+// Backfill ranges are persisted as indexer_checkpoints rows named "backfill:<from>-<to>"
+const BACKFILL_CHECKPOINT_PREFIX = "backfill:";
+
+interface BackfillRange {
+  fromBlock: number;
+  toBlock: number;
+  // Consecutive failed batches; a range is given up after MAX_BACKFILL_ATTEMPTS and listed as failed
+  attempts?: number;
+  lastError?: string;
+}
+
+const MAX_BACKFILL_ATTEMPTS = 5;
+
+// Ranges found by the gap scanner are queued as "repair:<from>-<to>" checkpoints until re-indexed
+const REPAIR_CHECKPOINT_PREFIX = "repair:";
+const MAX_REPAIR_ATTEMPTS = 5;
+
+// Transaction counts are checked one window of blocks per gap scan, resuming past this checkpoint
+const TX_COUNT_SCAN_CHECKPOINT = "tx_count_scan";
+
+interface RepairRange extends BackfillRange {
+  reason: "missing" | "tx_count_mismatch" | "unindexed_transfer_batch";
+  attempts: number;
+  lastError?: string;
+}
+
+export interface GapScanResult {
+  scannedAt: Date;
+  gaps: { fromBlock: number; toBlock: number }[];
+  mismatches: { blockNumber: number; expected: number; stored: number }[];
+  unindexedBatchBlocks: number[];
+  queuedRanges: number;
 }
 
 const DEFAULT_CONFIG: IndexerConfig = {
@@ -72,41 +109,192 @@ const DEFAULT_CONFIG: IndexerConfig = {
   errorRetryDelay: 10000,
   enableTracing: true,
   enableNftMetadata: true,
-  nftMetadataDelay: 100,
+  enableBackfill: true,
+  backfillStartBlock: 0,
+  backfillWorkers: 2,
+  backfillRangeSize: 10000,
+  gapScanInterval: 600000,
+  gapScanLimit: 100,
+  txCountScanRange: 100000,
+  rpcBatchSize: 100,
+  wsUrl: null,
+  enableMempool: true,
+  mempoolPollInterval: 5000,
+  enableBalanceHistory: true,
+  enableHolderReconciliation: true,
+  holderReconcileInterval: 600000,
 };
 
-// IPFS gateways for metadata resolution
-const IPFS_GATEWAYS = [
-  "https://ipfs.io/ipfs/",
-  "https://gateway.pinata.cloud/ipfs/",
-  "https://cloudflare-ipfs.com/ipfs/",
-];
+type LogEntry = Pick<ethers.Log, "address" | "topics" | "data" | "index" | "removed">;
+
+// Receipt fields the indexer stores, from either eth_getBlockReceipts or eth_getTransactionReceipt
+interface ReceiptData {
+  status: boolean;
+  gasUsed: number;
+  effectiveGasPrice: string | null;
+  cumulativeGasUsed: number;
+  contractAddress: string | null;
+  logs: LogEntry[];
+}
+
+interface FailedCall {
+  hash: string;
+  from: string;
+  to: string | null;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+  gasUsed: number;
+  blockNumber: number;
+}
+
+function receiptFromJson(raw: any): ReceiptData {
+  return {
+    status: raw.status === "0x1",
+    gasUsed: Number(BigInt(raw.gasUsed)),
+    effectiveGasPrice: raw.effectiveGasPrice ? BigInt(raw.effectiveGasPrice).toString() : null,
+    cumulativeGasUsed: Number(BigInt(raw.cumulativeGasUsed)),
+    contractAddress: raw.contractAddress ? ethers.getAddress(raw.contractAddress) : null,
+    logs: (raw.logs || []).map((l: any) => ({
+      address: ethers.getAddress(l.address),
+      topics: l.topics,
+      data: l.data,
+      index: Number(BigInt(l.logIndex)),
+      removed: !!l.removed,
+    })),
+  };
+}
+
+function receiptFromEthers(receipt: ethers.TransactionReceipt): ReceiptData {
+  return {
+    status: receipt.status === 1,
+    gasUsed: Number(receipt.gasUsed),
+    effectiveGasPrice: receipt.gasPrice?.toString() || null,
+    cumulativeGasUsed: Number(receipt.cumulativeGasUsed),
+    contractAddress: receipt.contractAddress || null,
+    logs: receipt.logs.map((l) => ({ address: l.address, topics: l.topics, data: l.data, index: l.index, removed: l.removed })),
+  };
+}
 
 export class BlockchainIndexer {
-  private provider: ethers.JsonRpcProvider;
-  private rpcUrl: string;
+  private provider: PooledJsonRpcProvider;
+  private rpcPool: RpcEndpointPool;
+  public readonly chainId: number;
   public isRunning = false;
   private config: IndexerConfig;
   private currentBatchSize: number;
   private consecutiveSuccesses = 0;
   private consecutiveFailures = 0;
-  private knownTokens: Set<string> = new Set();
+  // Token address -> classified type, for tokens whose row already exists
+  private knownTokens: Map<string, string> = new Map();
   private tracingSupported: boolean | null = null;
-  private nftMetadataQueue: { contractAddress: string; tokenId: string; tokenType: string }[] = [];
-  private processingNftQueue = false;
+  private blockReceiptsSupported: boolean | null = null;
+  private blockTracingSupported: boolean | null = null;
+  private rpcMetrics = { calls: 0, httpRequests: 0, blocksIndexed: 0, since: new Date() };
   private rpcDownSince: Date | null = null;
   private maxRetryDelay = 60000;
+  private backfillRunning = false;
+  private repairRunning = false;
+  private gapScanTimer: NodeJS.Timeout | null = null;
+  private lastGapScan: GapScanResult | null = null;
+  private headSubscription: HeadSubscription | null = null;
+  private pushedHead = 0;
+  private reorgHint: number | null = null;
+  private wakeLoop: (() => void) | null = null;
+  private mempoolTracker: MempoolTracker | null = null;
+  private holderReconciler: HolderReconciler | null = null;
+  private balanceHistoryWarned = false;
   
   public currentBlock = 0;
   public targetBlock = 0;
 
-  constructor(rpcUrl: string, config: Partial<IndexerConfig> = {}) {
-    this.rpcUrl = rpcUrl;
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  constructor(chainId: number, rpcUrl: string, endpoints: RpcEndpointConfig[], config: Partial<IndexerConfig> = {}) {
+    this.chainId = chainId;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.rpcPool = new RpcEndpointPool(rpcUrl, endpoints, (calls) => {
+      this.rpcMetrics.calls += calls;
+      this.rpcMetrics.httpRequests++;
+    });
+    this.provider = this.createProvider();
     this.currentBatchSize = this.config.minBatchSize;
   }
 
+  private createProvider(): PooledJsonRpcProvider {
+    return new PooledJsonRpcProvider(this.rpcPool, this.config.rpcBatchSize);
+  }
+
+  setRpcEndpoints(rpcUrl: string, endpoints: RpcEndpointConfig[]): void {
+    this.rpcPool.setEndpoints(rpcUrl, endpoints);
+  }
+
+  getRpcHealth(): RpcEndpointHealth[] {
+    return this.rpcPool.getHealth();
+  }
+
+  setWsUrl(wsUrl: string | null): void {
+    if (wsUrl === this.config.wsUrl) return;
+    this.config.wsUrl = wsUrl;
+    if (this.isRunning) {
+      this.stopHeadSubscription();
+      this.startHeadSubscription();
+    }
+  }
+
+  private startHeadSubscription(): void {
+    if (!this.config.wsUrl || this.headSubscription) return;
+    const url = this.config.wsUrl;
+    let subscribedBefore = false;
+
+    this.headSubscription = new HeadSubscription(url, {
+      onHead: (blockNumber) => {
+        this.pushedHead = blockNumber;
+        this.wakeLoop?.();
+      },
+      onRemovedLog: (blockNumber) => {
+        this.reorgHint = this.reorgHint === null ? blockNumber : Math.min(this.reorgHint, blockNumber);
+        this.wakeLoop?.();
+      },
+      onSubscribed: () => {
+        if (subscribedBefore) {
+          log(`Resubscribed to new heads on ${url}; catching up from block ${this.currentBlock + 1}`, "indexer");
+        } else {
+          log(`Subscribed to new heads on ${url}`, "indexer");
+        }
+        subscribedBefore = true;
+        this.wakeLoop?.();
+      },
+      onDisconnected: (reason) => {
+        log(`Head subscription on ${url} lost (${reason}); polling every ${this.config.pollInterval}ms until it reconnects`, "indexer");
+        this.wakeLoop?.();
+      },
+    });
+    this.headSubscription.start();
+  }
+
+  private stopHeadSubscription(): void {
+    this.headSubscription?.stop();
+    this.headSubscription = null;
+    this.pushedHead = 0;
+  }
+
+  // Sleeps until the next pushed head while subscribed, otherwise for one poll interval. Heads pushed by a
+  // node that is ahead of the HTTP endpoints, and removed logs, keep the loop on the short interval.
+  private waitForNextHead(latestBlock: number): Promise<void> {
+    const pushing = this.headSubscription?.isConnected && this.pushedHead <= latestBlock && this.reorgHint === null;
+    const delay = pushing ? HEAD_SAFETY_POLL_INTERVAL : this.config.pollInterval;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeLoop = null;
+        resolve();
+      }, delay);
+      this.wakeLoop = () => {
+        clearTimeout(timer);
+        this.wakeLoop = null;
+        resolve();
+      };
+    });
+  }
+
   private async checkRpcHealth(): Promise<boolean> {
     try {
       await this.provider.getBlockNumber();
@@ -118,14 +306,17 @@ export class BlockchainIndexer {
 
   private recreateProvider(): void {
     log("Recreating RPC provider connection...", "indexer");
-    this.provider = new ethers.JsonRpcProvider(this.rpcUrl);
+    this.provider = this.createProvider();
     this.tracingSupported = null;
+    this.blockReceiptsSupported = null;
+    this.blockTracingSupported = null;
   }
 
+  // Only reached when every endpoint in the pool failed; single endpoint outages are absorbed by failover
   private async waitForRpcRecovery(): Promise<void> {
     if (!this.rpcDownSince) {
       this.rpcDownSince = new Date();
-      log("RPC endpoint appears to be down. Waiting for recovery...", "indexer");
+      log(`All RPC endpoints for chain ${this.chainId} appear to be down. Waiting for recovery...`, "indexer");
     }
 
     let retryDelay = this.config.errorRetryDelay;
@@ -176,35 +367,84 @@ export class BlockchainIndexer {
     return this.tracingSupported;
   }
 
-  // Trace internal transactions for a transaction
-  private async traceInternalTransactions(txHash: string, blockNumber: number, timestamp: Date): Promise<void> {
-    if (!this.config.enableTracing) return;
+  // Receipts for every transaction in a block, keyed by lowercase hash
+  private async fetchBlockReceipts(blockNumber: number, txHashes: string[]): Promise<Map<string, ReceiptData>> {
+    const receipts = new Map<string, ReceiptData>();
+    if (txHashes.length === 0) return receipts;
+
+    if (this.blockReceiptsSupported !== false) {
+      try {
+        const raw = await this.provider.send("eth_getBlockReceipts", [ethers.toQuantity(blockNumber)]);
+        if (Array.isArray(raw)) {
+          this.blockReceiptsSupported = true;
+          for (const receipt of raw) receipts.set(receipt.transactionHash.toLowerCase(), receiptFromJson(receipt));
+          return receipts;
+        }
+      } catch (error: any) {
+        if (!isMethodUnsupported(error)) throw error;
+        this.blockReceiptsSupported = false;
+        log("eth_getBlockReceipts not supported by RPC, fetching receipts per transaction", "indexer");
+      }
+    }
+
+    // Concurrent calls are combined into JSON-RPC batches by the provider
+    const fetched = await Promise.all(txHashes.map((hash) => this.provider.getTransactionReceipt(hash)));
+    fetched.forEach((receipt, i) => {
+      if (receipt) receipts.set(txHashes[i].toLowerCase(), receiptFromEthers(receipt));
+    });
+    return receipts;
+  }
+
+  // callTracer frames for every transaction in a block, keyed by lowercase hash
+  private async fetchBlockTraces(blockNumber: number, txHashes: string[]): Promise<Map<string, any>> {
+    const traces = new Map<string, any>();
+    if (!this.config.enableTracing || txHashes.length === 0) return traces;
     
     const supported = await this.checkTracingSupport();
-    if (!supported) return;
+    if (!supported) return traces;
 
-    try {
-      const trace = await this.provider.send("debug_traceTransaction", [
-        txHash,
-        { tracer: "callTracer", tracerConfig: { onlyTopCall: false } }
-      ]);
+    const tracerOptions = { tracer: "callTracer", tracerConfig: { onlyTopCall: false } };
 
-      if (trace && trace.calls) {
-        await this.processTraceCalls(trace.calls, txHash, blockNumber, timestamp, []);
+    if (this.blockTracingSupported !== false) {
+      try {
+        const results = await this.provider.send("debug_traceBlockByNumber", [ethers.toQuantity(blockNumber), tracerOptions]);
+        if (Array.isArray(results)) {
+          this.blockTracingSupported = true;
+          // Results are in block order; older clients omit txHash
+          results.forEach((entry: any, i: number) => {
+            const hash = entry?.txHash || txHashes[i];
+            if (hash && entry?.result) traces.set(hash.toLowerCase(), entry.result);
+          });
+          return traces;
+        }
+      } catch (error: any) {
+        if (isMethodUnsupported(error)) {
+          this.blockTracingSupported = false;
+          log("debug_traceBlockByNumber not supported by RPC, tracing per transaction", "indexer");
+        }
       }
-    } catch (error: any) {
-      // Silently skip trace errors - not all txs can be traced
     }
+
+    await Promise.all(txHashes.map(async (hash) => {
+      try {
+        const trace = await this.provider.send("debug_traceTransaction", [hash, tracerOptions]);
+        if (trace) traces.set(hash.toLowerCase(), trace);
+      } catch (error: any) {
+        // Silently skip trace errors - not all txs can be traced
+      }
+    }));
+    return traces;
   }
 
-  // Recursively process trace calls
-  private async processTraceCalls(
+  // Recursively collect value transfers and contract creations from a call trace
+  private processTraceCalls(
     calls: any[],
     txHash: string,
     blockNumber: number,
     timestamp: Date,
-    parentTrace: string[]
-  ): Promise<void> {
+    parentTrace: string[],
+    internalTxs: InsertInternalTransaction[]
+  ): void {
     for (let i = 0; i < calls.length; i++) {
       const call = calls[i];
       const traceAddress = [...parentTrace, i.toString()];
@@ -214,7 +454,7 @@ export class BlockchainIndexer {
       const isCreate = call.type === "CREATE" || call.type === "CREATE2";
 
       if (hasValue || isCreate) {
-        const internalTx: InsertInternalTransaction = {
+        internalTxs.push({
           transactionHash: txHash,
           blockNumber,
           traceAddress,
@@ -230,29 +470,30 @@ export class BlockchainIndexer {
           callType: call.type?.toLowerCase() || null,
           rewardType: null,
           timestamp,
-        };
-
-        await storage.createInternalTransaction(internalTx);
+        });
       }
 
       // Process nested calls
       if (call.calls && call.calls.length > 0) {
-        await this.processTraceCalls(call.calls, txHash, blockNumber, timestamp, traceAddress);
+        this.processTraceCalls(call.calls, txHash, blockNumber, timestamp, traceAddress, internalTxs);
       }
     }
   }
 
-  // Update token holder balance from transfer event
-  private async updateTokenHolder(
+  // Read a holder's balance at the block of a transfer event, so backfilled and repaired blocks store the
+  // state of their own block; the row is written with the rest of the block
+  private async fetchTokenHolder(
     tokenAddress: string,
     holderAddress: string,
     tokenType: string,
-    tokenId: string | null
-  ): Promise<void> {
-    if (!holderAddress || holderAddress === "0x0000000000000000000000000000000000000000") return;
+    tokenId: string | null,
+    blockNumber: number
+  ): Promise<InsertTokenHolder | null> {
+    if (!holderAddress || holderAddress === "0x0000000000000000000000000000000000000000") return null;
     
     const normalizedToken = tokenAddress.toLowerCase();
     const normalizedHolder = holderAddress.toLowerCase();
+    const overrides = { blockTag: blockNumber };
 
     try {
       let balance = "0";
@@ -260,7 +501,7 @@ export class BlockchainIndexer {
       if (tokenType === "ERC20") {
         const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
         try {
-          const bal = await contract.balanceOf(holderAddress);
+          const bal = await contract.balanceOf(holderAddress, overrides);
           balance = bal.toString();
         } catch {}
       } else if (tokenType === "ERC721") {
@@ -268,7 +509,7 @@ export class BlockchainIndexer {
         const contract = new ethers.Contract(tokenAddress, ERC721_ABI, this.provider);
         try {
           if (tokenId) {
-            const owner = await contract.ownerOf(tokenId);
+            const owner = await contract.ownerOf(tokenId, overrides);
             balance = owner.toLowerCase() === normalizedHolder ? "1" : "0";
           }
         } catch {}
@@ -276,13 +517,13 @@ export class BlockchainIndexer {
         const contract = new ethers.Contract(tokenAddress, ERC1155_ABI, this.provider);
         try {
           if (tokenId) {
-            const bal = await contract.balanceOf(holderAddress, tokenId);
+            const bal = await contract.balanceOf(holderAddress, tokenId, overrides);
             balance = bal.toString();
           }
         } catch {}
       }
 
-      const holder: InsertTokenHolder = {
+      return {
         tokenAddress: normalizedToken,
         holderAddress: normalizedHolder,
         balance,
@@ -290,277 +531,132 @@ export class BlockchainIndexer {
         tokenType,
         lastUpdated: new Date(),
       };
-
-      await storage.createOrUpdateTokenHolder(holder);
-
-      // Update holder count on token
-      const holderCount = await storage.getTokenHolderCount(normalizedToken);
-      await storage.updateTokenHolderCount(normalizedToken, holderCount);
     } catch (error: any) {
       // Silently skip holder update errors
+      return null;
     }
   }
 
-  // Queue NFT for metadata fetching
-  private queueNftMetadata(contractAddress: string, tokenId: string, tokenType: string): void {
-    if (!this.config.enableNftMetadata) return;
-    
-    this.nftMetadataQueue.push({ contractAddress, tokenId, tokenType });
+  // Creates the token row on first sight, classified from the contract rather than the shape of its first Transfer
+  // event, and returns the token's type. Transfer counts are incremented when the block is saved.
+  private async fetchAndStoreTokenMetadata(tokenAddress: string, observedType: string): Promise<string> {
+    const normalizedAddress = tokenAddress.toLowerCase();
     
-    if (!this.processingNftQueue) {
-      this.processNftMetadataQueue();
-    }
-  }
-
-  // Process NFT metadata queue in background
-  private async processNftMetadataQueue(): Promise<void> {
-    if (this.processingNftQueue) return;
-    this.processingNftQueue = true;
-
-    while (this.nftMetadataQueue.length > 0) {
-      const item = this.nftMetadataQueue.shift();
-      if (!item) continue;
+    const known = this.knownTokens.get(normalizedAddress);
+    if (known) return known;
 
-      try {
-        await this.fetchNftMetadata(item.contractAddress, item.tokenId, item.tokenType);
-      } catch (error: any) {
-        // Silently skip metadata fetch errors
-      }
-
-      // Rate limit metadata fetching
-      await new Promise(resolve => setTimeout(resolve, this.config.nftMetadataDelay));
+    const existingToken = await storage.getTokenByAddress(normalizedAddress);
+    if (existingToken) {
+      this.knownTokens.set(normalizedAddress, existingToken.tokenType);
+      return existingToken.tokenType;
     }
 
-    this.processingNftQueue = false;
+    const classification = await classifyToken(this.provider, tokenAddress, observedType);
+    const token: InsertToken = {
+      address: normalizedAddress,
+      name: classification.name,
+      symbol: classification.symbol,
+      decimals: classification.decimals,
+      totalSupply: classification.totalSupply,
+      tokenType: classification.tokenType,
+      holderCount: 0,
+      transferCount: 0,
+      detectedTokenType: classification.tokenType,
+      capabilities: classification.capabilities,
+      classificationNotes: classification.notes,
+      classifiedAt: new Date(),
+    };
+
+    const stored = await storage.createOrUpdateToken(token);
+    this.knownTokens.set(normalizedAddress, stored.tokenType);
+    log(`Indexed token: ${classification.symbol || classification.name || tokenAddress} (${stored.tokenType})`, "indexer");
+    return stored.tokenType;
   }
 
-  // Fetch and store NFT metadata
-  private async fetchNftMetadata(contractAddress: string, tokenId: string, tokenType: string): Promise<void> {
-    const normalizedContract = contractAddress.toLowerCase();
-
-    // Check if already fetched
-    const existing = await storage.getNftToken(normalizedContract, tokenId);
-    if (existing && existing.name) return;
-
-    try {
-      let metadataUri: string | null = null;
-      let owner: string | null = null;
-
-      if (tokenType === "ERC721") {
-        const contract = new ethers.Contract(contractAddress, ERC721_ABI, this.provider);
-        try {
-          metadataUri = await contract.tokenURI(tokenId);
-        } catch {}
-        try {
-          owner = await contract.ownerOf(tokenId);
-        } catch {}
-      } else if (tokenType === "ERC1155") {
-        const contract = new ethers.Contract(contractAddress, ERC1155_ABI, this.provider);
-        try {
-          metadataUri = await contract.uri(tokenId);
-          // ERC1155 URIs often have {id} placeholder
-          if (metadataUri && metadataUri.includes("{id}")) {
-            metadataUri = metadataUri.replace("{id}", BigInt(tokenId).toString(16).padStart(64, "0"));
-          }
-        } catch {}
-      }
-
-      let name: string | null = null;
-      let description: string | null = null;
-      let image: string | null = null;
-      let imageGateway: string | null = null;
-      let attributes: any = null;
-
-      if (metadataUri) {
-        const metadata = await this.fetchMetadataFromUri(metadataUri);
-        if (metadata) {
-          name = metadata.name || null;
-          description = metadata.description || null;
-          image = metadata.image || null;
-          imageGateway = image ? this.resolveIpfsUrl(image) : null;
-          attributes = metadata.attributes || null;
-        }
-      }
-
-      const nft: InsertNftToken = {
-        contractAddress: normalizedContract,
-        tokenId,
-        owner: owner?.toLowerCase() || null,
-        name,
-        description,
-        image,
-        imageGateway,
-        metadataUri,
-        attributes,
-        tokenType,
-        lastUpdated: new Date(),
-      };
-
-      await storage.createOrUpdateNftToken(nft);
-      log(`Indexed NFT: ${normalizedContract}#${tokenId}`, "indexer");
-    } catch (error: any) {
-      // Create basic record even if metadata fetch fails
-      const nft: InsertNftToken = {
-        contractAddress: normalizedContract,
-        tokenId,
-        owner: null,
-        name: null,
-        description: null,
-        image: null,
-        imageGateway: null,
-        metadataUri: null,
-        attributes: null,
-        tokenType,
-        lastUpdated: new Date(),
-      };
-      await storage.createOrUpdateNftToken(nft);
+  // Re-runs classification for a stored token. Unless an admin has overridden it, a token found to be another
+  // standard gets its stored transfers converted and its holders rebuilt.
+  async classifyStoredToken(tokenAddress: string): Promise<Token | undefined> {
+    const normalizedAddress = tokenAddress.toLowerCase();
+    const existing = await storage.getTokenByAddress(normalizedAddress);
+    if (!existing) return undefined;
+
+    const classification = await classifyToken(this.provider, normalizedAddress, existing.tokenType);
+    await storage.createOrUpdateToken({
+      address: normalizedAddress,
+      name: classification.name ?? existing.name,
+      symbol: classification.symbol ?? existing.symbol,
+      decimals: classification.decimals ?? existing.decimals,
+      totalSupply: classification.totalSupply ?? existing.totalSupply,
+      tokenType: existing.tokenType,
+      detectedTokenType: classification.tokenType,
+      capabilities: classification.capabilities,
+      classificationNotes: classification.notes,
+      classifiedAt: new Date(),
+    });
+    if (!existing.classificationOverride && classification.tokenType !== existing.tokenType) {
+      const transfersConverted = await this.convertTokenType(normalizedAddress, classification.tokenType);
+      log(`Reclassified token ${normalizedAddress} from ${existing.tokenType} to ${classification.tokenType} (${transfersConverted} transfers converted)`, "indexer");
     }
-  }
-
-  // Fetch metadata from URI (IPFS, HTTP, data URI)
-  private async fetchMetadataFromUri(uri: string): Promise<any> {
-    try {
-      let resolvedUri = uri;
-
-      // Handle IPFS URIs
-      if (uri.startsWith("ipfs://")) {
-        resolvedUri = IPFS_GATEWAYS[0] + uri.slice(7);
-      }
-
-      // Handle data URIs
-      if (uri.startsWith("data:application/json")) {
-        const base64 = uri.split(",")[1];
-        if (base64) {
-          return JSON.parse(Buffer.from(base64, "base64").toString());
-        }
-        return null;
-      }
-
-      // Fetch HTTP/HTTPS URIs
-      if (resolvedUri.startsWith("http")) {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 10000);
-
-        try {
-          const response = await fetch(resolvedUri, {
-            signal: controller.signal,
-            headers: { "Accept": "application/json" },
-          });
-          clearTimeout(timeout);
-
-          if (response.ok) {
-            return await response.json();
-          }
-        } catch (e) {
-          clearTimeout(timeout);
-        }
-      }
 
-      return null;
-    } catch (error) {
-      return null;
-    }
+    this.knownTokens.delete(normalizedAddress);
+    return storage.getTokenByAddress(normalizedAddress);
   }
 
-  // Resolve IPFS URL to HTTP gateway URL
-  private resolveIpfsUrl(url: string): string | null {
-    if (!url) return null;
-
-    if (url.startsWith("ipfs://")) {
-      return IPFS_GATEWAYS[0] + url.slice(7);
-    }
-
-    if (url.startsWith("http")) {
-      return url;
-    }
-
-    // Handle raw CID
-    if (url.match(/^Qm[a-zA-Z0-9]+/) || url.match(/^bafy[a-zA-Z0-9]+/)) {
-      return IPFS_GATEWAYS[0] + url;
-    }
-
-    return url;
+  // Converts a token's stored transfers to another standard. The cached type is dropped first so new blocks
+  // classify the token afresh, and the conversion runs a second time to catch transfers saved under the old
+  // type by blocks that were already in flight.
+  private async convertTokenType(tokenAddress: string, tokenType: string): Promise<number> {
+    this.knownTokens.delete(tokenAddress.toLowerCase());
+    const first = await storage.changeTokenType(tokenAddress, tokenType);
+    const second = await storage.changeTokenType(tokenAddress, tokenType);
+    return first.transfersConverted + second.transfersConverted;
   }
 
-  private async fetchAndStoreTokenMetadata(tokenAddress: string, tokenType: string): Promise<void> {
-    const normalizedAddress = tokenAddress.toLowerCase();
-    
-    if (this.knownTokens.has(normalizedAddress)) {
-      await storage.incrementTokenTransferCount(normalizedAddress);
-      return;
-    }
+  // Drops the cached type of a token so the next block picks up a classification changed elsewhere
+  forgetToken(tokenAddress: string): void {
+    this.knownTokens.delete(tokenAddress.toLowerCase());
+  }
 
-    const existingToken = await storage.getTokenByAddress(normalizedAddress);
-    if (existingToken) {
-      this.knownTokens.add(normalizedAddress);
-      await storage.incrementTokenTransferCount(normalizedAddress);
-      return;
-    }
+  // Classifies tokens stored before classification existed, most active first
+  async classifyTokens(): Promise<{ success: boolean; classified: number; reclassified: number; error?: string }> {
+    log("Starting token classification...", "indexer");
+    let classified = 0;
+    let reclassified = 0;
 
     try {
-      const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
-      
-      let name: string | null = null;
-      let symbol: string | null = null;
-      let decimals: number | null = null;
-      let totalSupply: string | null = null;
-
-      try {
-        name = await contract.name();
-      } catch {}
-      
-      try {
-        symbol = await contract.symbol();
-      } catch {}
-      
-      try {
-        decimals = await contract.decimals();
-      } catch {}
-      
-      try {
-        const supply = await contract.totalSupply();
-        totalSupply = supply.toString();
-      } catch {}
-
-      const token: InsertToken = {
-        address: normalizedAddress,
-        name,
-        symbol,
-        decimals,
-        totalSupply,
-        tokenType,
-        holderCount: 0,
-        transferCount: 1,
-      };
+      while (true) {
+        const batch = await storage.getTokensToClassify(50);
+        if (batch.length === 0) break;
+
+        for (const token of batch) {
+          const updated = await this.classifyStoredToken(token.address);
+          classified++;
+          if (updated && updated.tokenType !== token.tokenType) reclassified++;
+        }
+      }
 
-      await storage.createOrUpdateToken(token);
-      this.knownTokens.add(normalizedAddress);
-      log(`Indexed token: ${symbol || name || tokenAddress} (${tokenType})`, "indexer");
+      log(`Token classification complete: ${classified} classified, ${reclassified} changed standard`, "indexer");
+      return { success: true, classified, reclassified };
     } catch (error: any) {
-      const token: InsertToken = {
-        address: normalizedAddress,
-        name: null,
-        symbol: null,
-        decimals: null,
-        totalSupply: null,
-        tokenType,
-        holderCount: 0,
-        transferCount: 1,
-      };
-      await storage.createOrUpdateToken(token);
-      this.knownTokens.add(normalizedAddress);
+      log(`Token classification error: ${error.message}`, "indexer");
+      return { success: false, classified, reclassified, error: error.message };
     }
   }
 
+  // Everything the indexer does, including timers and queued work, runs scoped to its chain
   async start(): Promise<void> {
+    return runWithChain(this.chainId, () => this.run());
+  }
+
+  private async run(): Promise<void> {
     if (this.isRunning) {
-      log("Indexer already running", "indexer");
+      log(`Indexer for chain ${this.chainId} already running`, "indexer");
       return;
     }
 
     this.isRunning = true;
-    log("Starting blockchain indexer with parallel fetching...", "indexer");
-    log(`Connecting to RPC: ${this.rpcUrl}`, "indexer");
+    log(`Starting blockchain indexer for chain ${this.chainId} with parallel fetching...`, "indexer");
+    log(`Connecting to RPC: ${this.rpcPool.getHealth().map((e) => `${e.url} (${e.role})`).join(", ")}`, "indexer");
 
     if (!(await this.checkRpcHealth())) {
       log("RPC endpoint not responding. Waiting for connection...", "indexer");
@@ -586,8 +682,18 @@ export class BlockchainIndexer {
 
   async stop(): Promise<void> {
     this.isRunning = false;
-    await storage.updateIndexerState(0, false);
-    log("Indexer stopped", "indexer");
+    if (this.gapScanTimer) {
+      clearInterval(this.gapScanTimer);
+      this.gapScanTimer = null;
+    }
+    this.stopHeadSubscription();
+    this.wakeLoop?.();
+    this.mempoolTracker?.stop();
+    this.mempoolTracker = null;
+    this.holderReconciler?.stop();
+    this.holderReconciler = null;
+    await runWithChain(this.chainId, () => storage.updateIndexerState(0, false));
+    log(`Indexer for chain ${this.chainId} stopped`, "indexer");
   }
 
   private adaptBatchSize(success: boolean): void {
@@ -608,8 +714,9 @@ export class BlockchainIndexer {
     }
   }
 
-  private async checkForReorg(lastIndexedBlock: number): Promise<number | null> {
-    const depth = Math.min(this.config.reorgDepth, lastIndexedBlock);
+  // minDepth extends the check below the configured depth, e.g. down to a block whose logs were reported as removed
+  private async checkForReorg(lastIndexedBlock: number, minDepth = 0): Promise<number | null> {
+    const depth = Math.min(Math.max(this.config.reorgDepth, minDepth), lastIndexedBlock);
     
     for (let i = 0; i < depth; i++) {
       const blockNum = lastIndexedBlock - i;
@@ -629,6 +736,11 @@ export class BlockchainIndexer {
   }
 
   private async syncBlocks(): Promise<void> {
+    const partialBlocks = await storage.deletePartialBlocks();
+    if (partialBlocks.length > 0) {
+      log(`Removed ${partialBlocks.length} partially written blocks; they will be re-indexed`, "indexer");
+    }
+
     const latestChainBlock = await this.provider.getBlockNumber();
     
     const { blocks: dbBlocks } = await storage.getBlocks(1, 1);
@@ -642,6 +754,26 @@ export class BlockchainIndexer {
     log(`Starting sync from block ${lastIndexed + 1} (chain at ${latestChainBlock}, db has up to ${highestDbBlock})`, "indexer");
     await storage.updateIndexerState(lastIndexed, true);
 
+    this.runBackfill(lastIndexed);
+    this.processRepairQueue();
+    if (partialBlocks.length > 0) {
+      this.scanForGaps().catch((error) => log(`Gap scan error: ${error.message}`, "indexer"));
+    }
+    if (!this.gapScanTimer) {
+      this.gapScanTimer = setInterval(() => {
+        this.scanForGaps().catch((error) => log(`Gap scan error: ${error.message}`, "indexer"));
+      }, this.config.gapScanInterval);
+    }
+    this.startHeadSubscription();
+    if (this.config.enableMempool && !this.mempoolTracker) {
+      this.mempoolTracker = new MempoolTracker(() => this.provider, this.config.mempoolPollInterval);
+      this.mempoolTracker.start();
+    }
+    if (this.config.enableHolderReconciliation && !this.holderReconciler) {
+      this.holderReconciler = new HolderReconciler(() => this.provider, this.config.holderReconcileInterval, () => this.holderCheckBlock());
+      this.holderReconciler.start();
+    }
+
     while (this.isRunning) {
       try {
         const latestBlock = await this.provider.getBlockNumber();
@@ -649,19 +781,21 @@ export class BlockchainIndexer {
         
         if (lastIndexed >= latestBlock) {
           if (lastIndexed > 0) {
-            const reorgPoint = await this.checkForReorg(lastIndexed);
+            const removedFrom = this.reorgHint;
+            this.reorgHint = null;
+            const reorgPoint = await this.checkForReorg(lastIndexed, removedFrom === null ? 0 : lastIndexed - removedFrom + 1);
             if (reorgPoint !== null) {
               const deleteFromBlock = reorgPoint + 1;
               log(`Rolling back to block ${reorgPoint} due to reorg - deleting blocks >= ${deleteFromBlock}`, "indexer");
-              const deleted = await storage.deleteBlocksFromHeight(deleteFromBlock);
-              log(`Reorg rollback complete: ${deleted.blocks} blocks, ${deleted.transactions} txs, ${deleted.logs} logs, ${deleted.transfers} transfers deleted`, "indexer");
+              const deleted = await this.rollbackReorg(deleteFromBlock);
+              log(`Reorg rollback complete: ${deleted.blocks} blocks, ${deleted.transactions} txs, ${deleted.logs} logs, ${deleted.transfers} transfers, ${deleted.internalTransactions} internal txs deleted`, "indexer");
               lastIndexed = reorgPoint;
               continue;
             }
           }
           
           await this.updateNetworkStats(latestBlock);
-          await new Promise((resolve) => setTimeout(resolve, this.config.pollInterval));
+          await this.waitForNextHead(latestBlock);
           continue;
         }
 
@@ -711,7 +845,7 @@ export class BlockchainIndexer {
             if (reorgPoint !== null && reorgPoint < lastIndexed) {
               const deleteFromBlock = reorgPoint + 1;
               log(`Post-recovery reorg check: rolling back to block ${reorgPoint}`, "indexer");
-              await storage.deleteBlocksFromHeight(deleteFromBlock);
+              await this.rollbackReorg(deleteFromBlock);
               lastIndexed = reorgPoint;
             }
           }
@@ -731,12 +865,341 @@ export class BlockchainIndexer {
     }
   }
 
+  // Removes blocks from the given height, then refreshes the address balances and counters they touched from the new chain
+  private async rollbackReorg(fromHeight: number): Promise<ReorgRollback> {
+    const rollback = await storage.deleteBlocksFromHeight(fromHeight);
+
+    for (let i = 0; i < rollback.affectedAddresses.length; i += this.config.parallelBlocks) {
+      await Promise.all(rollback.affectedAddresses.slice(i, i + this.config.parallelBlocks).map((addr) => this.updateAddress(addr)));
+    }
+
+    return rollback;
+  }
+
+  // Holder balances are sums of transfer events, so they can only be compared with balanceOf once no older
+  // range is waiting to be indexed. The block stays below the reorg depth so it is not replaced meanwhile.
+  // The first indexed block lets the reconciler skip tokens that were active before the indexed history.
+  private async holderCheckBlock(): Promise<HolderCheckRange | null> {
+    const [backfill, repairs] = await Promise.all([
+      storage.getIndexerCheckpoints(BACKFILL_CHECKPOINT_PREFIX),
+      storage.getIndexerCheckpoints(REPAIR_CHECKPOINT_PREFIX),
+    ]);
+    const backfillPending = backfill.some((c) => c.lastProcessedBlock < (c.metadata as BackfillRange).toBlock);
+    if (backfillPending || repairs.length > 0) return null;
+    const blockNumber = this.currentBlock - this.config.reorgDepth;
+    if (blockNumber <= 0) return null;
+    const historyStart = await storage.getLowestIndexedBlockNumber();
+    return historyStart === null ? null : { blockNumber, historyStart };
+  }
+
+  // Adds checkpointed ranges for history not yet covered: before the planned start and between the plan and the head
+  private async planBackfill(headStart: number): Promise<IndexerCheckpoint[]> {
+    const existing = await storage.getIndexerCheckpoints(BACKFILL_CHECKPOINT_PREFIX);
+    const planned = existing.map((c) => c.metadata as BackfillRange);
+    const startBlock = this.config.backfillStartBlock;
+
+    const missing: BackfillRange[] = [];
+    if (planned.length === 0) {
+      if (startBlock <= headStart) missing.push({ fromBlock: startBlock, toBlock: headStart });
+    } else {
+      const plannedFrom = Math.min(...planned.map((r) => r.fromBlock));
+      const plannedTo = Math.max(...planned.map((r) => r.toBlock));
+      if (startBlock < plannedFrom) missing.push({ fromBlock: startBlock, toBlock: plannedFrom - 1 });
+      if (headStart > plannedTo) missing.push({ fromBlock: plannedTo + 1, toBlock: headStart });
+    }
+
+    for (const { fromBlock, toBlock } of missing) {
+      for (let rangeStart = fromBlock; rangeStart <= toBlock; rangeStart += this.config.backfillRangeSize) {
+        const rangeEnd = Math.min(rangeStart + this.config.backfillRangeSize - 1, toBlock);
+        await storage.upsertIndexerCheckpoint({
+          checkpointType: `${BACKFILL_CHECKPOINT_PREFIX}${rangeStart}-${rangeEnd}`,
+          lastProcessedBlock: rangeStart - 1,
+          metadata: { fromBlock: rangeStart, toBlock: rangeEnd },
+        });
+      }
+    }
+
+    return missing.length > 0 ? storage.getIndexerCheckpoints(BACKFILL_CHECKPOINT_PREFIX) : existing;
+  }
+
+  // Indexes history below the head follower with parallel range workers, newest ranges first
+  private async runBackfill(headStart: number): Promise<void> {
+    if (!this.config.enableBackfill || this.backfillRunning) return;
+    this.backfillRunning = true;
+
+    try {
+      const queue = (await this.planBackfill(headStart))
+        .filter((c) => c.lastProcessedBlock < (c.metadata as BackfillRange).toBlock)
+        .filter((c) => ((c.metadata as BackfillRange).attempts ?? 0) < MAX_BACKFILL_ATTEMPTS)
+        .sort((a, b) => (b.metadata as BackfillRange).toBlock - (a.metadata as BackfillRange).toBlock);
+      if (queue.length === 0) return;
+
+      const workers = Math.min(this.config.backfillWorkers, queue.length);
+      log(`Backfilling ${queue.length} block ranges with ${workers} workers`, "indexer");
+
+      await Promise.all(Array.from({ length: workers }, async () => {
+        let checkpoint: IndexerCheckpoint | undefined;
+        while (this.isRunning && (checkpoint = queue.shift())) {
+          await this.backfillRange(checkpoint);
+        }
+      }));
+
+      if (this.isRunning) log("Historical backfill complete", "indexer");
+    } catch (error: any) {
+      log(`Backfill error: ${error.message}`, "indexer");
+    } finally {
+      this.backfillRunning = false;
+    }
+  }
+
+  private async backfillRange(checkpoint: IndexerCheckpoint): Promise<void> {
+    const { fromBlock, toBlock } = checkpoint.metadata as BackfillRange;
+    let lastProcessed = checkpoint.lastProcessedBlock;
+    let attempts = (checkpoint.metadata as BackfillRange).attempts ?? 0;
+
+    while (this.isRunning && lastProcessed < toBlock) {
+      const endBlock = Math.min(lastProcessed + this.config.maxBatchSize, toBlock);
+
+      try {
+        // Blocks indexed by the head follower or an earlier run are skipped
+        const indexed = new Set(await storage.getIndexedBlockNumbers(lastProcessed + 1, endBlock));
+        const blockNumbers = Array.from({ length: endBlock - lastProcessed }, (_, i) => lastProcessed + 1 + i)
+          .filter((n) => !indexed.has(n));
+
+        for (let i = 0; i < blockNumbers.length; i += this.config.parallelBlocks) {
+          await Promise.all(blockNumbers.slice(i, i + this.config.parallelBlocks).map((n) => this.indexBlock(n)));
+        }
+
+        lastProcessed = endBlock;
+        attempts = 0;
+        await storage.upsertIndexerCheckpoint({
+          checkpointType: checkpoint.checkpointType,
+          lastProcessedBlock: lastProcessed,
+          metadata: { fromBlock, toBlock },
+        });
+      } catch (error: any) {
+        attempts++;
+        log(`Backfill of ${fromBlock}-${toBlock} failed at block ${lastProcessed + 1} (attempt ${attempts}): ${error.message}`, "indexer");
+        await storage.upsertIndexerCheckpoint({
+          checkpointType: checkpoint.checkpointType,
+          lastProcessedBlock: lastProcessed,
+          metadata: { fromBlock, toBlock, attempts, lastError: error.message },
+        });
+        if (attempts >= MAX_BACKFILL_ATTEMPTS) {
+          log(`Giving up on backfill of ${fromBlock}-${toBlock} after ${attempts} failed attempts`, "indexer");
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.config.errorRetryDelay));
+      }
+    }
+  }
+
+  getRpcMetrics() {
+    const { calls, httpRequests, blocksIndexed, since } = this.rpcMetrics;
+    return {
+      since,
+      totalCalls: calls,
+      httpRequests,
+      blocksIndexed,
+      callsPerBlock: blocksIndexed > 0 ? Math.round((calls / blocksIndexed) * 100) / 100 : null,
+      callsPerRequest: httpRequests > 0 ? Math.round((calls / httpRequests) * 100) / 100 : null,
+      blockReceipts: this.blockReceiptsSupported,
+      blockTracing: this.blockTracingSupported,
+      headFollowing: this.headSubscription?.isConnected ? "subscription" : "polling",
+      headSubscription: this.headSubscription?.getStatus() || null,
+      mempool: this.mempoolTracker?.mempoolSource ?? null,
+      holderReconciliation: this.holderReconciler?.getStatus() ?? null,
+    };
+  }
+
+  async getBackfillProgress() {
+    const checkpoints = await storage.getIndexerCheckpoints(BACKFILL_CHECKPOINT_PREFIX);
+    const ranges = checkpoints
+      .map((c) => {
+        const { fromBlock, toBlock, attempts = 0 } = c.metadata as BackfillRange;
+        const totalBlocks = toBlock - fromBlock + 1;
+        const processedBlocks = Math.max(0, Math.min(c.lastProcessedBlock - fromBlock + 1, totalBlocks));
+        return {
+          fromBlock,
+          toBlock,
+          lastProcessedBlock: c.lastProcessedBlock,
+          processedBlocks,
+          totalBlocks,
+          complete: processedBlocks === totalBlocks,
+          failed: attempts >= MAX_BACKFILL_ATTEMPTS,
+          updatedAt: c.updatedAt,
+        };
+      })
+      .sort((a, b) => b.fromBlock - a.fromBlock);
+
+    const totalBlocks = ranges.reduce((sum, r) => sum + r.totalBlocks, 0);
+    const processedBlocks = ranges.reduce((sum, r) => sum + r.processedBlocks, 0);
+
+    return {
+      enabled: this.config.enableBackfill,
+      running: this.backfillRunning,
+      startBlock: ranges.length > 0 ? Math.min(...ranges.map((r) => r.fromBlock)) : this.config.backfillStartBlock,
+      endBlock: ranges.length > 0 ? Math.max(...ranges.map((r) => r.toBlock)) : null,
+      totalBlocks,
+      processedBlocks,
+      percentComplete: totalBlocks > 0 ? Math.floor((processedBlocks / totalBlocks) * 10000) / 100 : 100,
+      totalRanges: ranges.length,
+      completedRanges: ranges.filter((r) => r.complete).length,
+      failedRanges: ranges.filter((r) => r.failed).length,
+      // Only unfinished ranges are listed; a genesis backfill can have thousands of completed ones
+      pendingRanges: ranges.filter((r) => !r.complete).slice(0, 50),
+    };
+  }
+
+  // Compares stored and expected transaction counts for the next window of blocks. Blocks below the checkpoint
+  // were either checked already or saved whole by backfill, so a scan never has to walk the full history.
+  private async findTransactionCountMismatches(): Promise<{ blockNumber: number; expected: number; stored: number }[]> {
+    const [[checkpoint], latest] = await Promise.all([
+      storage.getIndexerCheckpoints(TX_COUNT_SCAN_CHECKPOINT),
+      storage.getLatestBlock(),
+    ]);
+    if (!latest) return [];
+
+    const fromBlock = checkpoint ? checkpoint.lastProcessedBlock + 1 : 0;
+    if (fromBlock > latest.number) return [];
+    const toBlock = Math.min(fromBlock + this.config.txCountScanRange - 1, latest.number);
+
+    const mismatches = await storage.findTransactionCountMismatches(fromBlock, toBlock, this.config.gapScanLimit);
+    // A full page may stop short of the window, so the next scan resumes after the last mismatch returned
+    const scannedTo = mismatches.length === this.config.gapScanLimit ? mismatches[mismatches.length - 1].blockNumber : toBlock;
+    await storage.upsertIndexerCheckpoint({ checkpointType: TX_COUNT_SCAN_CHECKPOINT, lastProcessedBlock: scannedTo });
+    return mismatches;
+  }
+
+  // Finds missing block numbers and blocks with missing transactions, then queues them for re-indexing
+  async scanForGaps(): Promise<GapScanResult> {
+    const [gaps, mismatches, unindexedBatches, backfill] = await Promise.all([
+      storage.findBlockGaps(this.config.gapScanLimit),
+      this.findTransactionCountMismatches(),
+      storage.findBlocksWithUnindexedTransferBatches(ERC1155_TRANSFER_BATCH_TOPIC, this.config.gapScanLimit),
+      storage.getIndexerCheckpoints(BACKFILL_CHECKPOINT_PREFIX),
+    ]);
+
+    // Holes inside unfinished backfill ranges are expected and will be filled by the backfill workers
+    const pendingBackfill = backfill
+      .map((c) => ({ fromBlock: c.lastProcessedBlock + 1, toBlock: (c.metadata as BackfillRange).toBlock }))
+      .filter((r) => r.fromBlock <= r.toBlock);
+    const unexpectedGaps = gaps.filter((gap) =>
+      !pendingBackfill.some((r) => gap.fromBlock <= r.toBlock && gap.toBlock >= r.fromBlock)
+    );
+
+    const ranges: RepairRange[] = [];
+    for (const gap of unexpectedGaps) {
+      for (let rangeStart = gap.fromBlock; rangeStart <= gap.toBlock; rangeStart += this.config.backfillRangeSize) {
+        const rangeEnd = Math.min(rangeStart + this.config.backfillRangeSize - 1, gap.toBlock);
+        ranges.push({ fromBlock: rangeStart, toBlock: rangeEnd, reason: "missing", attempts: 0 });
+      }
+    }
+    for (const mismatch of mismatches) {
+      ranges.push({ fromBlock: mismatch.blockNumber, toBlock: mismatch.blockNumber, reason: "tx_count_mismatch", attempts: 0 });
+    }
+    for (const blockNumber of unindexedBatches) {
+      ranges.push({ fromBlock: blockNumber, toBlock: blockNumber, reason: "unindexed_transfer_batch", attempts: 0 });
+    }
+
+    for (const range of ranges) {
+      await storage.upsertIndexerCheckpoint({
+        checkpointType: `${REPAIR_CHECKPOINT_PREFIX}${range.fromBlock}-${range.toBlock}`,
+        lastProcessedBlock: range.fromBlock - 1,
+        metadata: range,
+      });
+    }
+
+    this.lastGapScan = { scannedAt: new Date(), gaps: unexpectedGaps, mismatches, unindexedBatchBlocks: unindexedBatches, queuedRanges: ranges.length };
+    if (ranges.length > 0) {
+      log(`Gap scan queued ${ranges.length} ranges for repair (${unexpectedGaps.length} gaps, ${mismatches.length} tx count mismatches, ${unindexedBatches.length} blocks with unindexed transfer batches)`, "indexer");
+      this.processRepairQueue();
+    }
+    return this.lastGapScan;
+  }
+
+  private async processRepairQueue(): Promise<void> {
+    if (this.repairRunning) return;
+    this.repairRunning = true;
+
+    try {
+      while (this.isRunning) {
+        const queue = (await storage.getIndexerCheckpoints(REPAIR_CHECKPOINT_PREFIX))
+          .filter((c) => (c.metadata as RepairRange).attempts < MAX_REPAIR_ATTEMPTS);
+        if (queue.length === 0) break;
+
+        for (const checkpoint of queue) {
+          if (!this.isRunning) break;
+          await this.repairRange(checkpoint);
+        }
+      }
+    } catch (error: any) {
+      log(`Repair queue error: ${error.message}`, "indexer");
+    } finally {
+      this.repairRunning = false;
+    }
+  }
+
+  private async repairRange(checkpoint: IndexerCheckpoint): Promise<void> {
+    const range = checkpoint.metadata as RepairRange;
+
+    try {
+      if (range.reason === "tx_count_mismatch") {
+        // saveIndexedBlock replaces the block's stored rows, so the block is simply indexed again
+        await this.indexBlock(range.fromBlock);
+      } else {
+        const indexed = new Set(await storage.getIndexedBlockNumbers(range.fromBlock, range.toBlock));
+        const blockNumbers = Array.from({ length: range.toBlock - range.fromBlock + 1 }, (_, i) => range.fromBlock + i)
+          .filter((n) => !indexed.has(n));
+
+        for (let i = 0; i < blockNumbers.length; i += this.config.parallelBlocks) {
+          await Promise.all(blockNumbers.slice(i, i + this.config.parallelBlocks).map((n) => this.indexBlock(n)));
+        }
+      }
+
+      await storage.deleteIndexerCheckpoint(checkpoint.checkpointType);
+      log(`Repaired blocks ${range.fromBlock}-${range.toBlock} (${range.reason})`, "indexer");
+    } catch (error: any) {
+      log(`Repair of blocks ${range.fromBlock}-${range.toBlock} failed: ${error.message}`, "indexer");
+      await storage.upsertIndexerCheckpoint({
+        checkpointType: checkpoint.checkpointType,
+        lastProcessedBlock: checkpoint.lastProcessedBlock,
+        metadata: { ...range, attempts: range.attempts + 1, lastError: error.message },
+      });
+      await new Promise((resolve) => setTimeout(resolve, this.config.errorRetryDelay));
+    }
+  }
+
+  async getRepairStatus() {
+    const [checkpoints, backfill] = await Promise.all([
+      storage.getIndexerCheckpoints(REPAIR_CHECKPOINT_PREFIX),
+      storage.getIndexerCheckpoints(BACKFILL_CHECKPOINT_PREFIX),
+    ]);
+    const queue = checkpoints
+      .map((c) => ({ ...(c.metadata as RepairRange), updatedAt: c.updatedAt }))
+      .sort((a, b) => b.fromBlock - a.fromBlock);
+    // Backfill ranges that were given up on, with the block they stopped at
+    const failedBackfill = backfill
+      .filter((c) => ((c.metadata as BackfillRange).attempts ?? 0) >= MAX_BACKFILL_ATTEMPTS)
+      .map((c) => ({ ...(c.metadata as BackfillRange), lastProcessedBlock: c.lastProcessedBlock, updatedAt: c.updatedAt }))
+      .sort((a, b) => b.fromBlock - a.fromBlock);
+
+    return {
+      running: this.repairRunning,
+      lastScan: this.lastGapScan,
+      pending: queue.filter((r) => r.attempts < MAX_REPAIR_ATTEMPTS).length,
+      failed: queue.filter((r) => r.attempts >= MAX_REPAIR_ATTEMPTS).length,
+      queue: queue.slice(0, 100),
+      failedBackfill,
+    };
+  }
+
   private async indexBlock(blockNumber: number): Promise<void> {
     try {
       const block = await this.provider.getBlock(blockNumber, true);
+      // Thrown rather than skipped, so callers keep their checkpoint (or batch) and retry the block
       if (!block) {
-        log(`Block ${blockNumber} not found`, "indexer");
-        return;
+        throw new Error(`Block ${blockNumber} not found`);
       }
 
       const insertBlock: InsertBlock = {
@@ -761,18 +1224,75 @@ export class BlockchainIndexer {
         logsBloom: null,
       };
 
-      await storage.createBlock(insertBlock);
+      const data: IndexedBlockData = {
+        block: insertBlock,
+        transactions: [],
+        logs: [],
+        tokenTransfers: [],
+        internalTransactions: [],
+        proxyUpgrades: [],
+        tokenHolders: [],
+        balanceSnapshots: [],
+        tokenApprovals: [],
+        contractCreations: [],
+        nftMetadataJobs: [],
+      };
 
       const addressesToUpdate = new Set<string>();
       addressesToUpdate.add(block.miner.toLowerCase());
 
-      const txPromises = block.transactions.map(async (txHash) => {
-        const hash = typeof txHash === 'string' ? txHash : (txHash as any).hash;
-        return this.indexTransaction(hash, block.timestamp, addressesToUpdate);
+      // Everything is fetched first so a failure anywhere leaves nothing behind for this block
+      const blockTxs = block.prefetchedTransactions;
+      const txHashes = blockTxs.map((tx) => tx.hash);
+      const [receipts, traces] = await Promise.all([
+        this.fetchBlockReceipts(block.number, txHashes),
+        this.fetchBlockTraces(block.number, txHashes),
+      ]);
+
+      const txPromises = blockTxs.map(async (tx) => {
+        const receipt = receipts.get(tx.hash.toLowerCase());
+        if (!receipt) throw new Error(`Receipt for transaction ${tx.hash} is not available`);
+        return this.indexTransaction(tx, receipt, traces.get(tx.hash.toLowerCase()), block.timestamp, data, addressesToUpdate);
       });
 
       await Promise.all(txPromises);
 
+      // Token rows must exist before the block transaction updates their counters. Transfers are then
+      // re-shaped to the classified standard, which the Transfer event's topic count alone cannot tell.
+      const tokenTypes = new Map(data.tokenTransfers.map((t) => [t.tokenAddress.toLowerCase(), t.tokenType]));
+      for (const [tokenAddress, observedType] of Array.from(tokenTypes)) {
+        tokenTypes.set(tokenAddress, await this.fetchAndStoreTokenMetadata(tokenAddress, observedType));
+      }
+      data.tokenTransfers = data.tokenTransfers.map((t) => conformTransfer(t, tokenTypes.get(t.tokenAddress.toLowerCase()) ?? t.tokenType));
+      if (this.config.enableNftMetadata) {
+        const nfts = new Map(data.tokenTransfers
+          .filter((t) => t.tokenId && t.tokenType !== "ERC20")
+          .map((t) => [`${t.tokenAddress.toLowerCase()}:${t.tokenId}`, t]));
+        data.nftMetadataJobs = Array.from(nfts.values()).map((t) => ({
+          contractAddress: t.tokenAddress.toLowerCase(),
+          tokenId: t.tokenId!,
+          tokenType: t.tokenType,
+        }));
+      }
+      const nonStandardTokens = new Set(await storage.getNonStandardTokens(Array.from(tokenTypes.keys())));
+      data.tokenHolders = await this.fetchTokenHolders(data.tokenTransfers.filter((t) => nonStandardTokens.has(t.tokenAddress.toLowerCase())), block.number);
+      if (this.config.enableBalanceHistory) {
+        // Internal value transfers change balances too, even though the address row is not refreshed for them
+        const touched = new Set(addressesToUpdate);
+        for (const internal of data.internalTransactions) {
+          if (internal.from) touched.add(internal.from.toLowerCase());
+          if (internal.to) touched.add(internal.to.toLowerCase());
+        }
+        data.balanceSnapshots = await this.fetchBalanceSnapshots(Array.from(touched), block.number, insertBlock.timestamp);
+      }
+
+      await storage.saveIndexedBlock(data);
+      this.rpcMetrics.blocksIndexed++;
+
+      for (const upgrade of data.proxyUpgrades) {
+        await this.refreshUpgradedProxy(upgrade);
+      }
+
       const addrUpdatePromises = Array.from(addressesToUpdate).map(addr => 
         this.updateAddress(addr)
       );
@@ -784,170 +1304,347 @@ export class BlockchainIndexer {
     }
   }
 
-  private async indexTransaction(txHash: string, blockTimestamp: number, addressesToUpdate: Set<string>): Promise<void> {
-    try {
-      const [tx, receipt] = await Promise.all([
-        this.provider.getTransaction(txHash),
-        this.provider.getTransactionReceipt(txHash),
-      ]);
-
-      if (!tx || !receipt) return;
-
-      const methodId = tx.data && tx.data.length >= 10 ? tx.data.slice(0, 10) : null;
-      const methodName = methodId ? METHOD_SIGNATURES[methodId] || null : null;
+  private async indexTransaction(
+    tx: ethers.TransactionResponse,
+    receipt: ReceiptData,
+    trace: any,
+    blockTimestamp: number,
+    data: IndexedBlockData,
+    addressesToUpdate: Set<string>
+  ): Promise<void> {
+    const methodId = tx.data && tx.data.length >= 10 ? tx.data.slice(0, 10) : null;
+    const methodName = methodId ? await resolveMethodName(methodId) : null;
+    const timestamp = new Date(blockTimestamp * 1000);
+    const revert = receipt.status ? null : await this.resolveRevert({
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      gasUsed: receipt.gasUsed,
+      blockNumber: tx.blockNumber!,
+    }, trace);
+
+    data.transactions.push({
+      hash: tx.hash,
+      blockNumber: tx.blockNumber!,
+      blockHash: tx.blockHash!,
+      transactionIndex: tx.index!,
+      from: tx.from,
+      to: tx.to || null,
+      value: tx.value.toString(),
+      gas: Number(tx.gasLimit),
+      gasPrice: tx.gasPrice?.toString() || null,
+      maxFeePerGas: tx.maxFeePerGas?.toString() || null,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() || null,
+      input: tx.data || null,
+      nonce: tx.nonce,
+      type: tx.type || 0,
+      status: receipt.status,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      cumulativeGasUsed: receipt.cumulativeGasUsed,
+      contractAddress: receipt.contractAddress,
+      timestamp,
+      methodId,
+      methodName,
+      revertReason: revert?.reason ?? null,
+      revertData: revert?.data ?? null,
+    });
 
-      const insertTx: InsertTransaction = {
-        hash: tx.hash,
+    addressesToUpdate.add(tx.from.toLowerCase());
+    if (tx.to) addressesToUpdate.add(tx.to.toLowerCase());
+    if (receipt.contractAddress) addressesToUpdate.add(receipt.contractAddress.toLowerCase());
+
+    for (const logEntry of receipt.logs) {
+      const transfers = this.parseTokenTransfers(logEntry, tx.hash, tx.blockNumber!, timestamp);
+      data.logs.push({
+        transactionHash: tx.hash,
+        logIndex: logEntry.index,
+        address: logEntry.address,
+        topics: logEntry.topics as string[],
+        data: logEntry.data,
         blockNumber: tx.blockNumber!,
         blockHash: tx.blockHash!,
-        transactionIndex: tx.index!,
-        from: tx.from,
-        to: tx.to || null,
-        value: tx.value.toString(),
-        gas: Number(tx.gasLimit),
-        gasPrice: tx.gasPrice?.toString() || null,
-        maxFeePerGas: tx.maxFeePerGas?.toString() || null,
-        maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() || null,
-        input: tx.data || null,
-        nonce: tx.nonce,
-        type: tx.type || 0,
-        status: receipt.status === 1,
-        gasUsed: Number(receipt.gasUsed),
-        effectiveGasPrice: receipt.gasPrice?.toString() || null,
-        cumulativeGasUsed: Number(receipt.cumulativeGasUsed),
-        contractAddress: receipt.contractAddress || null,
-        timestamp: new Date(blockTimestamp * 1000),
-        methodId,
-        methodName,
-      };
+        removed: logEntry.removed || false,
+        topic0: logEntry.topics[0] || null,
+        transferDecodeFailed: logEntry.topics[0] === ERC1155_TRANSFER_BATCH_TOPIC && logEntry.data.length > 258 && transfers.length === 0,
+      });
+      addressesToUpdate.add(logEntry.address.toLowerCase());
 
-      await storage.createTransaction(insertTx);
+      data.tokenTransfers.push(...transfers);
+      const upgrade = this.parseProxyUpgrade(logEntry, tx.hash, tx.blockNumber!, timestamp);
+      if (upgrade) data.proxyUpgrades.push(upgrade);
+      const approval = parseTokenApproval({ ...logEntry, transactionHash: tx.hash, blockNumber: tx.blockNumber!, logIndex: logEntry.index }, timestamp);
+      if (approval) data.tokenApprovals.push(approval);
+    }
 
-      addressesToUpdate.add(tx.from.toLowerCase());
-      if (tx.to) addressesToUpdate.add(tx.to.toLowerCase());
-      if (receipt.contractAddress) addressesToUpdate.add(receipt.contractAddress.toLowerCase());
+    // Internal transactions (if tracing is supported by RPC)
+    if (trace?.calls) {
+      this.processTraceCalls(trace.calls, tx.hash, tx.blockNumber!, timestamp, [], data.internalTransactions);
+    }
 
-      const logPromises = receipt.logs.map(async (logEntry, index) => {
-        const insertLog: InsertTransactionLog = {
+    if (receipt.status) {
+      if (receipt.contractAddress) {
+        data.contractCreations.push({
+          contractAddress: receipt.contractAddress.toLowerCase(),
+          creatorAddress: tx.from.toLowerCase(),
+          factoryAddress: null,
+          creationType: "CREATE",
           transactionHash: tx.hash,
-          logIndex: logEntry.index,
-          address: logEntry.address,
-          topics: logEntry.topics as string[],
-          data: logEntry.data,
           blockNumber: tx.blockNumber!,
-          blockHash: tx.blockHash!,
-          removed: logEntry.removed || false,
-          topic0: logEntry.topics[0] || null,
-        };
-        await storage.createTransactionLog(insertLog);
-        addressesToUpdate.add(logEntry.address.toLowerCase());
+          timestamp,
+        });
+      }
+      if (trace?.calls) {
+        this.collectFactoryCreations(trace.calls, tx.from.toLowerCase(), tx.hash, tx.blockNumber!, timestamp, data.contractCreations);
+      }
+    }
+  }
 
-        await this.extractTokenTransfer(logEntry, tx.hash, tx.blockNumber!, new Date(blockTimestamp * 1000));
-      });
+  // CREATE/CREATE2 frames below the top-level call. A failed frame undoes everything beneath it, so its subtree is skipped.
+  private collectFactoryCreations(
+    calls: any[],
+    creatorAddress: string,
+    txHash: string,
+    blockNumber: number,
+    timestamp: Date,
+    creations: InsertContractCreation[]
+  ): void {
+    for (const call of calls) {
+      if (call.error) continue;
+      if ((call.type === "CREATE" || call.type === "CREATE2") && call.to) {
+        creations.push({
+          contractAddress: call.to.toLowerCase(),
+          creatorAddress,
+          factoryAddress: call.from?.toLowerCase() || null,
+          creationType: call.type,
+          transactionHash: txHash,
+          blockNumber,
+          timestamp,
+        });
+      }
+      if (call.calls?.length) {
+        this.collectFactoryCreations(call.calls, creatorAddress, txHash, blockNumber, timestamp, creations);
+      }
+    }
+  }
+
+  // Revert data of a failed transaction comes from its trace when the block was traced, otherwise from replaying
+  // the call on top of the parent block. The replay runs before the other transactions of the block, so a
+  // failure that depended on them may not reproduce; those keep no reason rather than a wrong one.
+  private async resolveRevert(tx: FailedCall, trace: any): Promise<{ reason: string; data: string | null } | null> {
+    let revertData: string | null = null;
+    let contracts: string[] = tx.to ? [tx.to] : [];
+    let fallback: string | null = null;
+
+    if (trace) {
+      revertData = trace.output && trace.output !== "0x" ? trace.output : null;
+      contracts = revertingContracts(trace);
+      fallback = trace.revertReason || trace.error || null;
+    } else {
+      try {
+        await this.provider.send("eth_call", [{
+          from: tx.from,
+          to: tx.to,
+          data: tx.data,
+          value: ethers.toQuantity(tx.value),
+          gas: ethers.toQuantity(tx.gasLimit),
+        }, ethers.toQuantity(tx.blockNumber - 1)]);
+      } catch (error: any) {
+        revertData = revertDataFromError(error);
+        if (revertData === "0x") revertData = null;
+        // Nodes also answer with call errors when the parent state is pruned; only real reverts get a reason
+        const message = error.info?.error?.message || error.message || "";
+        if (revertData || /revert/i.test(message)) fallback = "execution reverted";
+      }
+    }
 
-      await Promise.all(logPromises);
+    try {
+      const decoded = await decodeRevertData(revertData, contracts);
+      if (decoded) return { reason: decoded.reason, data: revertData };
+    } catch (error: any) {
+      log(`Failed to decode revert data of ${tx.hash}: ${error.message}`, "indexer");
+    }
+    if (!fallback && tx.gasUsed === Number(tx.gasLimit)) fallback = "out of gas";
+    return fallback ? { reason: fallback, data: revertData } : null;
+  }
 
-      // Trace internal transactions (if supported by RPC)
-      await this.traceInternalTransactions(tx.hash, tx.blockNumber!, new Date(blockTimestamp * 1000));
+  // Native balances right after the block. Reading past state needs an archive endpoint once the block falls out of
+  // the node's recent state window; addresses whose balance cannot be read get no snapshot instead of failing the block.
+  // A balance the node cannot return is recorded as a gap (null balance), so lookups after it go to the node
+  // instead of reading an older snapshot as if nothing had changed
+  private async fetchBalanceSnapshots(addresses: string[], blockNumber: number, timestamp: Date): Promise<InsertBalanceSnapshot[]> {
+    return Promise.all(addresses.map(async (address): Promise<InsertBalanceSnapshot> => {
+      try {
+        const balance = await this.provider.getBalance(address, blockNumber);
+        return { address, blockNumber, balance: balance.toString(), timestamp };
+      } catch (error: any) {
+        if (!this.balanceHistoryWarned) {
+          this.balanceHistoryWarned = true;
+          log(`Balance at block ${blockNumber} unavailable (${error.message}); add an archive RPC endpoint to record history for older blocks`, "indexer");
+        }
+        return { address, blockNumber, balance: null, timestamp };
+      }
+    }));
+  }
 
+  // Only for non-standard tokens, whose balances do not follow from their transfers. Balances are read once
+  // per (token, holder, tokenId) touched in the block, as of that block.
+  private async fetchTokenHolders(transfers: InsertTokenTransfer[], blockNumber: number): Promise<InsertTokenHolder[]> {
+    const touched = new Map<string, { tokenAddress: string; holder: string; tokenType: string; tokenId: string | null }>();
+    for (const transfer of transfers) {
+      for (const holder of [transfer.from, transfer.to]) {
+        const key = `${transfer.tokenAddress.toLowerCase()}:${holder.toLowerCase()}:${transfer.tokenId ?? ""}`;
+        touched.set(key, { tokenAddress: transfer.tokenAddress, holder, tokenType: transfer.tokenType, tokenId: transfer.tokenId ?? null });
+      }
+    }
+
+    const holders = await Promise.all(Array.from(touched.values()).map((t) =>
+      this.fetchTokenHolder(t.tokenAddress, t.holder, t.tokenType, t.tokenId, blockNumber)
+    ));
+    return holders.filter((h): h is InsertTokenHolder => h !== null);
+  }
+
+  // Parses Upgraded / BeaconUpgraded events into proxy upgrade rows
+  private parseProxyUpgrade(
+    logEntry: LogEntry,
+    txHash: string,
+    blockNumber: number,
+    timestamp: Date
+  ): InsertProxyUpgrade | null {
+    const topic0 = logEntry.topics[0];
+    if ((topic0 !== UPGRADED_TOPIC && topic0 !== BEACON_UPGRADED_TOPIC) || logEntry.topics.length !== 2) return null;
+
+    const target = ("0x" + logEntry.topics[1].slice(26)).toLowerCase();
+    const isBeaconUpgrade = topic0 === BEACON_UPGRADED_TOPIC;
+
+    return {
+      proxyAddress: logEntry.address.toLowerCase(),
+      implementationAddress: isBeaconUpgrade ? null : target,
+      beaconAddress: isBeaconUpgrade ? target : null,
+      eventType: isBeaconUpgrade ? "BeaconUpgraded" : "Upgraded",
+      transactionHash: txHash,
+      logIndex: logEntry.index,
+      blockNumber,
+      timestamp,
+    };
+  }
+
+  // Refreshes the emitter's current implementation after an upgrade event has been stored
+  private async refreshUpgradedProxy(upgrade: InsertProxyUpgrade): Promise<void> {
+    const emitter = upgrade.proxyAddress;
+
+    try {
+      const proxy = await detectProxy(this.provider, emitter);
+      if (proxy) {
+        await storage.updateAddressProxy(emitter, proxy);
+      } else if (upgrade.eventType === "Upgraded") {
+        // UpgradeableBeacon emits Upgraded too; point every proxy behind it at the beacon's current implementation
+        const implementation = await resolveBeaconImplementation(this.provider, emitter);
+        if (implementation) await storage.updateBeaconProxies(emitter, implementation);
+      }
     } catch (error: any) {
-      log(`Error indexing transaction ${txHash}: ${error.message}`, "indexer");
+      log(`Error recording proxy upgrade in ${upgrade.transactionHash}: ${error.message}`, "indexer");
     }
   }
 
-  private async extractTokenTransfer(
-    logEntry: ethers.Log,
+  // Parses ERC-20/721 Transfer and ERC-1155 TransferSingle/TransferBatch events; a batch yields one transfer
+  // per (id, value) pair and other logs yield none
+  private parseTokenTransfers(
+    logEntry: LogEntry,
     txHash: string,
     blockNumber: number,
     timestamp: Date
-  ): Promise<void> {
+  ): InsertTokenTransfer[] {
     try {
       const topic0 = logEntry.topics[0];
       
       if (topic0 === ERC20_TRANSFER_TOPIC && logEntry.topics.length === 3) {
-        const from = "0x" + logEntry.topics[1].slice(26);
-        const to = "0x" + logEntry.topics[2].slice(26);
-        const value = logEntry.data !== "0x" ? BigInt(logEntry.data).toString() : "0";
-        
-        const transfer: InsertTokenTransfer = {
+        return [{
           transactionHash: txHash,
           logIndex: logEntry.index,
           blockNumber,
           timestamp,
           tokenAddress: logEntry.address,
-          from,
-          to,
-          value,
+          from: "0x" + logEntry.topics[1].slice(26),
+          to: "0x" + logEntry.topics[2].slice(26),
+          value: logEntry.data !== "0x" ? BigInt(logEntry.data).toString() : "0",
           tokenId: null,
           tokenType: "ERC20",
-        };
-        await storage.createTokenTransfer(transfer);
-        await this.fetchAndStoreTokenMetadata(logEntry.address, "ERC20");
-        
-        // Update token holder balances
-        await this.updateTokenHolder(logEntry.address, from, "ERC20", null);
-        await this.updateTokenHolder(logEntry.address, to, "ERC20", null);
+        }];
       }
       else if (topic0 === ERC721_TRANSFER_TOPIC && logEntry.topics.length === 4) {
-        const from = "0x" + logEntry.topics[1].slice(26);
-        const to = "0x" + logEntry.topics[2].slice(26);
-        const tokenId = BigInt(logEntry.topics[3]).toString();
-        
-        const transfer: InsertTokenTransfer = {
+        return [{
           transactionHash: txHash,
           logIndex: logEntry.index,
           blockNumber,
           timestamp,
           tokenAddress: logEntry.address,
-          from,
-          to,
+          from: "0x" + logEntry.topics[1].slice(26),
+          to: "0x" + logEntry.topics[2].slice(26),
           value: null,
-          tokenId,
+          tokenId: BigInt(logEntry.topics[3]).toString(),
           tokenType: "ERC721",
-        };
-        await storage.createTokenTransfer(transfer);
-        await this.fetchAndStoreTokenMetadata(logEntry.address, "ERC721");
-        
-        // Update token holder balances
-        await this.updateTokenHolder(logEntry.address, from, "ERC721", tokenId);
-        await this.updateTokenHolder(logEntry.address, to, "ERC721", tokenId);
-        
-        // Queue NFT metadata fetch
-        this.queueNftMetadata(logEntry.address, tokenId, "ERC721");
+        }];
+      }
+      // Pre-standard tokens (CryptoKitties, some early ERC-20s) index none of the Transfer parameters; the
+      // amount or token id is told apart once the token is classified
+      else if (topic0 === ERC20_TRANSFER_TOPIC && logEntry.topics.length === 1 && logEntry.data.length === 2 + 64 * 3) {
+        const [from, to, value] = new ethers.AbiCoder().decode(["address", "address", "uint256"], logEntry.data);
+        return [{
+          transactionHash: txHash,
+          logIndex: logEntry.index,
+          blockNumber,
+          timestamp,
+          tokenAddress: logEntry.address,
+          from: from.toLowerCase(),
+          to: to.toLowerCase(),
+          value: value.toString(),
+          tokenId: null,
+          tokenType: "ERC20",
+        }];
       }
       else if (topic0 === ERC1155_TRANSFER_SINGLE_TOPIC && logEntry.topics.length === 4) {
-        const from = "0x" + logEntry.topics[2].slice(26);
-        const to = "0x" + logEntry.topics[3].slice(26);
-        
         const abiCoder = new ethers.AbiCoder();
         const decoded = abiCoder.decode(["uint256", "uint256"], logEntry.data);
-        const tokenId = decoded[0].toString();
-        const value = decoded[1].toString();
         
-        const transfer: InsertTokenTransfer = {
+        return [{
           transactionHash: txHash,
           logIndex: logEntry.index,
           blockNumber,
           timestamp,
           tokenAddress: logEntry.address,
-          from,
-          to,
-          value,
-          tokenId,
+          from: "0x" + logEntry.topics[2].slice(26),
+          to: "0x" + logEntry.topics[3].slice(26),
+          value: decoded[1].toString(),
+          tokenId: decoded[0].toString(),
           tokenType: "ERC1155",
-        };
-        await storage.createTokenTransfer(transfer);
-        await this.fetchAndStoreTokenMetadata(logEntry.address, "ERC1155");
-        
-        // Update token holder balances
-        await this.updateTokenHolder(logEntry.address, from, "ERC1155", tokenId);
-        await this.updateTokenHolder(logEntry.address, to, "ERC1155", tokenId);
-        
-        // Queue NFT metadata fetch
-        this.queueNftMetadata(logEntry.address, tokenId, "ERC1155");
+        }];
+      }
+      else if (topic0 === ERC1155_TRANSFER_BATCH_TOPIC && logEntry.topics.length === 4) {
+        const abiCoder = new ethers.AbiCoder();
+        const [ids, values] = abiCoder.decode(["uint256[]", "uint256[]"], logEntry.data);
+        if (ids.length !== values.length) return [];
+
+        return Array.from(ids as bigint[], (id, i) => ({
+          transactionHash: txHash,
+          logIndex: logEntry.index,
+          batchIndex: i,
+          blockNumber,
+          timestamp,
+          tokenAddress: logEntry.address,
+          from: "0x" + logEntry.topics[2].slice(26),
+          to: "0x" + logEntry.topics[3].slice(26),
+          value: values[i].toString(),
+          tokenId: id.toString(),
+          tokenType: "ERC1155",
+        }));
       }
     } catch (error: any) {
     }
+    return [];
   }
 
   private async updateAddress(address: string): Promise<void> {
@@ -961,6 +1658,17 @@ export class BlockchainIndexer {
 
       const isContract = code !== "0x";
 
+      // Proxy slots only need checking when code first appears or changes; upgrades are tracked via events
+      let proxyFields: Pick<InsertAddress, "proxyType" | "implementationAddress" | "beaconAddress"> = {};
+      if (isContract && existing?.contractCode !== code) {
+        const proxy = await detectProxy(this.provider, address, code);
+        proxyFields = {
+          proxyType: proxy?.proxyType ?? null,
+          implementationAddress: proxy?.implementationAddress ?? null,
+          beaconAddress: proxy?.beaconAddress ?? null,
+        };
+      }
+
       const insertAddr: InsertAddress = {
         address: address,
         balance: balance.toString(),
@@ -970,6 +1678,7 @@ export class BlockchainIndexer {
         isContract,
         contractCode: isContract ? code : null,
         contractName: null,
+        ...proxyFields,
         lastSeen: new Date(),
         firstSeen: existing?.firstSeen || new Date(),
       };
@@ -1012,6 +1721,87 @@ export class BlockchainIndexer {
     return this.provider;
   }
 
+  // Full callTracer tree or prestateTracer diff of one transaction, or null when the RPC has no debug
+  // namespace. Nodes without historical state can only trace recent blocks and reject the rest with an error.
+  async traceTransaction(txHash: string, tracer: TransactionTracer = "callTracer"): Promise<any | null> {
+    const supported = await this.checkTracingSupport();
+    if (!supported) return null;
+    const tracerConfig = tracer === "prestateTracer" ? { diffMode: true } : { onlyTopCall: false };
+    return await this.provider.send("debug_traceTransaction", [txHash, { tracer, tracerConfig }]);
+  }
+
+  // Revert reasons for failed transactions indexed before they were recorded. Transactions whose failure
+  // cannot be reproduced keep no reason, so the scan walks forward by position instead of re-querying.
+  // Custom errors stored by selector alone are then decoded again against contracts verified since.
+  async backfillRevertReasons(): Promise<{ success: boolean; processed: number; resolved: number; error?: string }> {
+    log("Starting revert reason backfill...", "indexer");
+    let processed = 0;
+    let resolved = 0;
+    let cursor: { blockNumber: number; txIndex: number } | null = null;
+
+    try {
+      const tracing = await this.checkTracingSupport();
+      while (true) {
+        const batch = await storage.getFailedTransactionsWithoutRevertReason(cursor, 100);
+        if (batch.length === 0) break;
+
+        for (const tx of batch) {
+          let trace: any = null;
+          if (tracing) {
+            try {
+              trace = await this.traceTransaction(tx.hash, "callTracer");
+            } catch {
+              trace = null;
+            }
+          }
+
+          const revert = await this.resolveRevert({
+            hash: tx.hash,
+            from: tx.from,
+            to: tx.to,
+            data: tx.input || "0x",
+            value: BigInt(tx.value),
+            gasLimit: BigInt(tx.gas),
+            gasUsed: tx.gasUsed ?? 0,
+            blockNumber: tx.blockNumber,
+          }, trace);
+          if (revert) {
+            await storage.updateTransactionRevert(tx.hash, revert.reason, revert.data);
+            resolved++;
+          }
+          processed++;
+        }
+
+        const last = batch[batch.length - 1];
+        cursor = { blockNumber: last.blockNumber, txIndex: last.transactionIndex };
+      }
+
+      cursor = null;
+      while (true) {
+        const batch = await storage.getTransactionsWithUnnamedCustomErrors(cursor, 100);
+        if (batch.length === 0) break;
+
+        for (const tx of batch) {
+          const revert = tx.to ? await decodeRevertData(tx.revertData, [tx.to]) : null;
+          if (revert && revert.reason !== tx.revertReason) {
+            await storage.updateTransactionRevert(tx.hash, revert.reason, tx.revertData);
+            resolved++;
+          }
+          processed++;
+        }
+
+        const last = batch[batch.length - 1];
+        cursor = { blockNumber: last.blockNumber, txIndex: last.transactionIndex };
+      }
+
+      log(`Revert reason backfill complete: ${resolved} of ${processed} failed transactions resolved`, "indexer");
+      return { success: true, processed, resolved };
+    } catch (error: any) {
+      log(`Revert reason backfill error: ${error.message}`, "indexer");
+      return { success: false, processed, resolved, error: error.message };
+    }
+  }
+
   async backfillTokenMetadata(): Promise<{ success: boolean; tokensIndexed: number; errors: number }> {
     log("Starting token metadata backfill...", "indexer");
     let tokensIndexed = 0;
@@ -1025,42 +1815,35 @@ export class BlockchainIndexer {
         try {
           const existingToken = await storage.getTokenByAddress(tokenAddress);
           if (existingToken && existingToken.name) {
-            this.knownTokens.add(tokenAddress.toLowerCase());
+            this.knownTokens.set(tokenAddress.toLowerCase(), existingToken.tokenType);
             continue;
           }
 
-          const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
-          
-          let name: string | null = null;
-          let symbol: string | null = null;
-          let decimals: number | null = null;
-          let totalSupply: string | null = null;
-
-          try { name = await contract.name(); } catch {}
-          try { symbol = await contract.symbol(); } catch {}
-          try { decimals = await contract.decimals(); } catch {}
-          try { 
-            const supply = await contract.totalSupply();
-            totalSupply = supply.toString();
-          } catch {}
-
+          const classification = await classifyToken(this.provider, tokenAddress, tokenType);
           const transferCount = await storage.getTokenTransferCountByAddress(tokenAddress);
 
           const token: InsertToken = {
             address: tokenAddress.toLowerCase(),
-            name,
-            symbol,
-            decimals,
-            totalSupply,
-            tokenType,
+            name: classification.name,
+            symbol: classification.symbol,
+            decimals: classification.decimals ?? existingToken?.decimals,
+            totalSupply: classification.totalSupply,
+            tokenType: existingToken?.tokenType ?? tokenType,
             holderCount: 0,
             transferCount,
+            detectedTokenType: classification.tokenType,
+            capabilities: classification.capabilities,
+            classificationNotes: classification.notes,
+            classifiedAt: new Date(),
           };
 
-          await storage.createOrUpdateToken(token);
-          this.knownTokens.add(tokenAddress.toLowerCase());
+          const stored = await storage.createOrUpdateToken(token);
+          if (!stored.classificationOverride && stored.tokenType !== classification.tokenType) {
+            await this.convertTokenType(stored.address, classification.tokenType);
+          }
+          this.knownTokens.delete(tokenAddress.toLowerCase());
           tokensIndexed++;
-          log(`Backfilled token: ${symbol || name || tokenAddress}`, "indexer");
+          log(`Backfilled token: ${classification.symbol || classification.name || tokenAddress} (${classification.tokenType})`, "indexer");
         } catch (error: any) {
           errors++;
           log(`Error backfilling token ${tokenAddress}: ${error.message}`, "indexer");
@@ -1131,27 +1914,82 @@ export class BlockchainIndexer {
   }
 }
 
-let indexerInstance: BlockchainIndexer | null = null;
+// One indexer per chain, keyed by chain ID
+const indexers = new Map<number, BlockchainIndexer>();
+let indexingEnabled = false;
 
-export function getIndexer(): BlockchainIndexer {
-  if (!indexerInstance) {
-    const rpcUrl = process.env.EVM_RPC_URL || "https://rpc.telemeet.space";
-    indexerInstance = new BlockchainIndexer(rpcUrl, {
-      parallelBlocks: 5,
-      minBatchSize: 5,
-      maxBatchSize: 30,
-      reorgDepth: 12,
-    });
+function primaryRpcUrl(chainId: number): string {
+  return getChainConfig(chainId)?.rpcUrl || process.env.EVM_RPC_URL || "https://rpc.telemeet.space";
+}
+
+// Optional WebSocket endpoint used to follow new heads; without one the indexer polls
+function wsRpcUrl(chainId: number): string | null {
+  return getChainConfig(chainId)?.wsUrl || process.env.EVM_WS_URL || null;
+}
+
+function extraRpcEndpoints(chainId: number): RpcEndpointConfig[] {
+  return getRpcEndpoints(chainId).map((e) => ({ id: e.id, url: e.url, role: e.role as RpcEndpointRole }));
+}
+
+function createIndexer(chainId: number): BlockchainIndexer {
+  return new BlockchainIndexer(chainId, primaryRpcUrl(chainId), extraRpcEndpoints(chainId), {
+    parallelBlocks: 5,
+    minBatchSize: 5,
+    maxBatchSize: 30,
+    reorgDepth: 12,
+    enableBackfill: process.env.INDEXER_BACKFILL !== "false",
+    backfillStartBlock: parseInt(process.env.INDEXER_BACKFILL_START_BLOCK || "0", 10),
+    backfillWorkers: parseInt(process.env.INDEXER_BACKFILL_WORKERS || "2", 10),
+    rpcBatchSize: parseInt(process.env.INDEXER_RPC_BATCH_SIZE || "100", 10),
+    wsUrl: wsRpcUrl(chainId),
+    enableMempool: process.env.INDEXER_MEMPOOL !== "false",
+    enableBalanceHistory: process.env.INDEXER_BALANCE_HISTORY !== "false",
+    enableHolderReconciliation: process.env.INDEXER_HOLDER_RECONCILIATION !== "false",
+  });
+}
+
+// Indexer of the chain selected for the current request, or of the given chain
+export function getIndexer(chainId: number = currentChainId()): BlockchainIndexer {
+  let indexer = indexers.get(chainId);
+  if (!indexer) {
+    indexer = createIndexer(chainId);
+    indexers.set(chainId, indexer);
   }
-  return indexerInstance;
+  return indexer;
+}
+
+function activeChainIds(): number[] {
+  const chainIds = getActiveChains().map((c) => c.chainId);
+  return chainIds.length > 0 ? chainIds : [getDefaultChainId()];
 }
 
 export async function startIndexer(): Promise<void> {
-  const indexer = getIndexer();
-  await indexer.start();
+  indexingEnabled = true;
+  await Promise.all(activeChainIds().map((chainId) => getIndexer(chainId).start()));
 }
 
 export async function stopIndexer(): Promise<void> {
-  const indexer = getIndexer();
-  await indexer.stop();
+  indexingEnabled = false;
+  await Promise.all(Array.from(indexers.values()).map((indexer) => indexer.stop()));
+}
+
+// Applies chain configuration changes: indexers of deactivated chains are stopped, running indexers
+// pick up endpoint changes in place, and newly activated chains start indexing if indexing is enabled
+export async function syncIndexers(): Promise<void> {
+  const chainIds = activeChainIds();
+  for (const [chainId, indexer] of Array.from(indexers)) {
+    if (chainIds.includes(chainId)) {
+      indexer.setRpcEndpoints(primaryRpcUrl(chainId), extraRpcEndpoints(chainId));
+      indexer.setWsUrl(wsRpcUrl(chainId));
+      continue;
+    }
+    indexers.delete(chainId);
+    if (indexer.isRunning) await indexer.stop();
+  }
+
+  if (!indexingEnabled) return;
+  for (const chainId of chainIds) {
+    const indexer = getIndexer(chainId);
+    if (!indexer.isRunning) indexer.start().catch((error) => log(`Indexer error on chain ${chainId}: ${error.message}`, "indexer"));
+  }
 }
@@ -0,0 +1,178 @@
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { log } from "./index";
+import { isMethodUnsupported } from "./rpcProvider";
+import type { InsertPendingTransaction } from "@shared/schema";
+
+// New pending hashes fetched per poll; on a busy chain the rest are picked up by later polls or never tracked
+const MAX_NEW_TRANSACTIONS_PER_POLL = 500;
+// A pending transaction not seen in the pool for this long is looked up again to find out whether it was dropped
+const STALE_AFTER_MS = 120000;
+const STALE_CHECKS_PER_POLL = 100;
+// Dropped, replaced and mined rows are kept this long so senders can still look them up
+const RESOLVED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export type MempoolSource = "filter" | "txpool" | "unsupported";
+
+function toQuantity(value: string | null | undefined): string | null {
+  return value ? BigInt(value).toString() : null;
+}
+
+function pendingFromJson(raw: any): InsertPendingTransaction {
+  return {
+    hash: raw.hash.toLowerCase(),
+    from: raw.from.toLowerCase(),
+    to: raw.to ? raw.to.toLowerCase() : null,
+    value: toQuantity(raw.value) || "0",
+    gas: Number(BigInt(raw.gas)),
+    gasPrice: toQuantity(raw.gasPrice),
+    maxFeePerGas: toQuantity(raw.maxFeePerGas),
+    maxPriorityFeePerGas: toQuantity(raw.maxPriorityFeePerGas),
+    input: raw.input || raw.data || null,
+    nonce: Number(BigInt(raw.nonce)),
+    type: raw.type ? Number(BigInt(raw.type)) : null,
+  };
+}
+
+// Follows the node's transaction pool: a pending transaction filter where available, txpool_content otherwise.
+// Transactions are marked mined or replaced when their block is saved (see saveIndexedBlock); this tracker
+// only notices the ones that leave the pool without being mined.
+export class MempoolTracker {
+  private getProvider: () => ethers.JsonRpcProvider;
+  private pollInterval: number;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private source: MempoolSource | null = null;
+  private filterId: string | null = null;
+  private lastPrune = 0;
+
+  constructor(getProvider: () => ethers.JsonRpcProvider, pollInterval: number) {
+    this.getProvider = getProvider;
+    this.pollInterval = pollInterval;
+  }
+
+  get mempoolSource(): MempoolSource | null {
+    return this.source;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => log(`Mempool poll error: ${error.message}`, "indexer"));
+    }, this.pollInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.filterId = null;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      if (this.source === null) this.source = await this.detectSource();
+      if (this.source === "unsupported") {
+        this.stop();
+        return;
+      }
+
+      if (this.source === "filter") await this.pollFilter();
+      else await this.pollTxpool();
+
+      await this.checkStaleTransactions();
+
+      if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) {
+        this.lastPrune = Date.now();
+        const pruned = await storage.pruneResolvedPendingTransactions(new Date(Date.now() - RESOLVED_RETENTION_MS));
+        if (pruned > 0) log(`Pruned ${pruned} resolved pending transactions`, "indexer");
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async detectSource(): Promise<MempoolSource> {
+    const provider = this.getProvider();
+    try {
+      this.filterId = await provider.send("eth_newPendingTransactionFilter", []);
+      log("Tracking pending transactions with eth_newPendingTransactionFilter", "indexer");
+      return "filter";
+    } catch (error: any) {
+      if (!isMethodUnsupported(error)) throw error;
+    }
+    try {
+      await provider.send("txpool_content", []);
+      log("Tracking pending transactions with txpool_content", "indexer");
+      return "txpool";
+    } catch (error: any) {
+      if (!isMethodUnsupported(error)) throw error;
+    }
+    log("RPC exposes neither pending transaction filters nor txpool_content, pending transactions disabled", "indexer");
+    return "unsupported";
+  }
+
+  private async pollFilter(): Promise<void> {
+    const provider = this.getProvider();
+    if (!this.filterId) this.filterId = await provider.send("eth_newPendingTransactionFilter", []);
+
+    let changes: any[];
+    try {
+      changes = await provider.send("eth_getFilterChanges", [this.filterId]);
+    } catch (error: any) {
+      // Nodes drop filters that are not polled for a while, or when they restart
+      if (error?.message?.toLowerCase().includes("filter not found")) {
+        this.filterId = null;
+        return;
+      }
+      throw error;
+    }
+
+    // Some nodes return full transaction objects instead of hashes
+    const hashes = Array.from(new Set(changes.map((c) => (typeof c === "string" ? c : c.hash).toLowerCase())))
+      .slice(0, MAX_NEW_TRANSACTIONS_PER_POLL);
+    const fetched = await Promise.all(hashes.map((hash) => provider.send("eth_getTransactionByHash", [hash]).catch(() => null)));
+    const pending = fetched.filter((raw) => raw && raw.blockNumber === null).map(pendingFromJson);
+    await storage.upsertPendingTransactions(pending);
+  }
+
+  private async pollTxpool(): Promise<void> {
+    const content = await this.getProvider().send("txpool_content", []);
+    const pending = new Map<string, InsertPendingTransaction>();
+    for (const group of [content?.pending, content?.queued]) {
+      for (const byNonce of Object.values<Record<string, any>>(group || {})) {
+        for (const raw of Object.values(byNonce)) {
+          const tx = pendingFromJson(raw);
+          pending.set(tx.hash, tx);
+        }
+      }
+    }
+    await storage.upsertPendingTransactions(Array.from(pending.values()));
+  }
+
+  // A stale transaction is either still waiting (the filter only reports new hashes), mined in a block the
+  // indexer has not reached yet, or gone from the pool
+  private async checkStaleTransactions(): Promise<void> {
+    const stale = await storage.getStalePendingTransactions(new Date(Date.now() - STALE_AFTER_MS), STALE_CHECKS_PER_POLL);
+    if (stale.length === 0) return;
+
+    const provider = this.getProvider();
+    const lookups = await Promise.all(stale.map((p) => provider.send("eth_getTransactionByHash", [p.hash]).catch(() => undefined)));
+    const stillPending: string[] = [];
+    for (let i = 0; i < stale.length; i++) {
+      const raw = lookups[i];
+      if (raw === undefined) continue;
+      if (raw && raw.blockNumber === null) {
+        stillPending.push(stale[i].hash);
+      } else if (!(await storage.resolvePendingTransaction(stale[i], !raw))) {
+        // Mined in a block that is not indexed yet; saving the block resolves it
+        stillPending.push(stale[i].hash);
+      }
+    }
+    await storage.touchPendingTransactions(stillPending);
+  }
+}
@@ -0,0 +1,359 @@
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { getIndexer } from "./indexer";
+import { log } from "./index";
+import { ObjectStorageService } from "./objectStorage";
+import { runWithChain } from "./chainContext";
+import type { NftMetadataJob } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 5000;
+// Pause between jobs so metadata hosts and IPFS gateways are not hammered
+const JOB_DELAY_MS = 100;
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_METADATA_BYTES = 1024 * 1024;
+const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+const THUMBNAIL_SIZE = 256;
+
+// A token is not fetched again on request this soon after its last fetch
+export const REFRESH_COOLDOWN_MS = 60000;
+
+// Tried in order; the first one is also used for the image links stored with the token
+const IPFS_GATEWAYS = [
+  "https://ipfs.io/ipfs/",
+  "https://gateway.pinata.cloud/ipfs/",
+  "https://cloudflare-ipfs.com/ipfs/",
+];
+const ARWEAVE_GATEWAY = "https://arweave.net/";
+
+const NFT_ABI = [
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function uri(uint256 id) view returns (string)",
+];
+
+// Problems that retrying will not fix, such as an unsupported URI scheme or an image that cannot be decoded
+export class UnrecoverableMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnrecoverableMetadataError";
+    Object.setPrototypeOf(this, UnrecoverableMetadataError.prototype);
+  }
+}
+
+// ERC-1155 clients replace {id} with the token id as 64 lowercase hex characters, in the URI and in the metadata
+export function expandTokenId(value: string, tokenId: string): string {
+  if (!value.includes("{id}")) return value;
+  return value.split("{id}").join(BigInt(tokenId).toString(16).padStart(64, "0"));
+}
+
+// HTTP locations of an ipfs://, ar://, raw CID or http(s) URI, best first
+export function mediaUrls(uri: string): string[] {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith("ipfs://")) {
+    const cidPath = trimmed.slice(7).replace(/^ipfs\//, "");
+    return IPFS_GATEWAYS.map((gateway) => gateway + cidPath);
+  }
+  if (trimmed.startsWith("ar://")) {
+    return [ARWEAVE_GATEWAY + trimmed.slice(5)];
+  }
+  if (/^https?:\/\//i.test(trimmed)) {
+    return [trimmed];
+  }
+  if (/^(Qm[1-9A-HJ-NP-Za-km-z]{44}|bafy[a-z2-7]+)(\/.*)?$/.test(trimmed)) {
+    return IPFS_GATEWAYS.map((gateway) => gateway + trimmed);
+  }
+  return [];
+}
+
+export function resolveMediaUrl(uri: string | null): string | null {
+  if (!uri) return null;
+  return mediaUrls(uri)[0] ?? null;
+}
+
+// data:[<mime type>][;charset=...][;base64],<data>
+export function parseDataUri(uri: string): { mimeType: string; body: Buffer } | null {
+  if (!uri.startsWith("data:")) return null;
+  const comma = uri.indexOf(",");
+  if (comma === -1) return null;
+
+  const header = uri.slice(5, comma);
+  const data = uri.slice(comma + 1);
+  const mimeType = header.split(";")[0] || "text/plain";
+  if (/;base64$/i.test(header)) {
+    return { mimeType, body: Buffer.from(data, "base64") };
+  }
+  // Percent-encoding is optional in practice; plenty of on-chain JSON contains a literal "%"
+  let text = data;
+  try {
+    text = decodeURIComponent(data);
+  } catch {}
+  return { mimeType, body: Buffer.from(text, "utf-8") };
+}
+
+// Reads the body as a stream and aborts the request once it passes maxBytes, since chunked responses
+// carry no content-length to check up front. Null when the body is too large.
+async function readLimited(response: Response, maxBytes: number, controller: AbortController): Promise<Buffer | null> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      controller.abort();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchBytes(uri: string, maxBytes: number): Promise<{ mimeType: string; body: Buffer }> {
+  const inline = parseDataUri(uri);
+  if (inline) return inline;
+
+  const urls = mediaUrls(uri);
+  if (urls.length === 0) {
+    throw new UnrecoverableMetadataError(`Unsupported URI: ${uri.slice(0, 100)}`);
+  }
+
+  let lastError: Error = new Error("No gateway responded");
+  for (const url of urls) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`);
+
+      const declared = parseInt(response.headers.get("content-length") || "0");
+      if (declared > maxBytes) throw new UnrecoverableMetadataError(`${url} is larger than ${maxBytes} bytes`);
+      const body = await readLimited(response, maxBytes, controller);
+      if (!body) throw new UnrecoverableMetadataError(`${url} is larger than ${maxBytes} bytes`);
+
+      return { mimeType: (response.headers.get("content-type") || "").split(";")[0].trim(), body };
+    } catch (error: any) {
+      if (error instanceof UnrecoverableMetadataError) throw error;
+      lastError = error.name === "AbortError" ? new Error(`${url} timed out`) : error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  throw lastError;
+}
+
+export async function fetchMetadataDocument(uri: string): Promise<any> {
+  const { body } = await fetchBytes(uri, MAX_METADATA_BYTES);
+  try {
+    return JSON.parse(body.toString("utf-8"));
+  } catch {
+    throw new Error("Metadata is not valid JSON");
+  }
+}
+
+function isSvg(mimeType: string, body: Buffer): boolean {
+  if (mimeType.includes("svg")) return true;
+  const head = body.subarray(0, 256).toString("utf-8").trimStart();
+  return head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"));
+}
+
+// Rasterises SVGs and scales everything else down to a WebP, taking the first frame of animations
+async function makeThumbnail(mimeType: string, body: Buffer): Promise<Buffer> {
+  const svg = isSvg(mimeType, body);
+  try {
+    return await sharp(body, svg ? { density: 300 } : { animated: false })
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: !svg })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch (error: any) {
+    throw new UnrecoverableMetadataError(`Unable to create thumbnail from ${mimeType || "image"}: ${error.message}`);
+  }
+}
+
+// Stored like branding uploads: in object storage when configured, otherwise next to the built client
+async function storeThumbnail(job: NftMetadataJob, content: Buffer): Promise<string> {
+  const filePath = `nft-thumbnails/${job.chainId}/${job.contractAddress}/${job.tokenId}.webp`;
+  // Refreshed thumbnails keep their path, so the URL changes to get past browser caches
+  const version = `?v=${Date.now()}`;
+
+  if (process.env.PUBLIC_OBJECT_SEARCH_PATHS) {
+    const objectStorage = new ObjectStorageService();
+    const publicPaths = objectStorage.getPublicObjectSearchPaths();
+    await objectStorage.uploadBuffer(`${publicPaths[0]}/${filePath}`, content, "image/webp");
+    return objectStorage.getPublicUrl(filePath) + version;
+  }
+
+  const localPath = path.join(process.cwd(), "dist", "public", "uploads", filePath);
+  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+  await fs.promises.writeFile(localPath, content);
+  return `/uploads/${filePath}${version}`;
+}
+
+async function readTokenUri(job: NftMetadataJob): Promise<{ uri: string | null; owner: string | null }> {
+  const provider = await getIndexer(job.chainId).getProvider();
+  const contract = new ethers.Contract(job.contractAddress, NFT_ABI, provider);
+  let uri: string | null = null;
+  let owner: string | null = null;
+
+  try {
+    uri = job.tokenType === "ERC1155" ? await contract.uri(job.tokenId) : await contract.tokenURI(job.tokenId);
+  } catch (error: any) {
+    // A revert means the contract has no URI for the token (burned, not revealed, no metadata extension)
+    if (!ethers.isCallException(error)) throw error;
+  }
+  if (job.tokenType === "ERC721") {
+    try {
+      owner = await contract.ownerOf(job.tokenId);
+    } catch (error: any) {
+      if (!ethers.isCallException(error)) throw error;
+    }
+  }
+
+  return {
+    uri: uri ? (job.tokenType === "ERC1155" ? expandTokenId(uri, job.tokenId) : uri) : null,
+    owner: owner ? owner.toLowerCase() : null,
+  };
+}
+
+const textField = (value: unknown): string | null =>
+  value === undefined || value === null || value === "" ? null : typeof value === "string" ? value : JSON.stringify(value);
+
+class NftMetadataQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    const reset = await storage.resetStaleNftMetadataJobs();
+    if (reset > 0) {
+      log(`Requeued ${reset} interrupted NFT metadata jobs`, "nft");
+    }
+
+    this.timer = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queues a fresh fetch of the token's metadata and thumbnail; the caller runs in the token's chain
+  async refresh(contractAddress: string, tokenId: string, tokenType: string): Promise<NftMetadataJob> {
+    const job = await storage.requeueNftMetadataJob({ contractAddress, tokenId, tokenType });
+    this.drain();
+    return job;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let job: NftMetadataJob | undefined;
+      while ((job = await storage.claimNextNftMetadataJob())) {
+        const claimed = job;
+        await runWithChain(claimed.chainId, () => this.process(claimed));
+        await new Promise((resolve) => setTimeout(resolve, JOB_DELAY_MS));
+      }
+    } catch (error: any) {
+      log(`NFT metadata queue error: ${error.message}`, "nft");
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async process(job: NftMetadataJob): Promise<void> {
+    try {
+      const note = await this.fetchToken(job);
+      await storage.updateNftMetadataJob(job.id, { status: "done", lastError: note, completedAt: new Date() });
+    } catch (error: any) {
+      const unrecoverable = error instanceof UnrecoverableMetadataError;
+      if (unrecoverable || job.attempts >= MAX_ATTEMPTS) {
+        await storage.updateNftMetadataJob(job.id, {
+          status: unrecoverable ? "done" : "failed",
+          lastError: error.message,
+          completedAt: new Date(),
+        });
+        if (!unrecoverable) {
+          log(`Giving up on metadata of ${job.contractAddress}#${job.tokenId} after ${job.attempts} attempts: ${error.message}`, "nft");
+        }
+        return;
+      }
+
+      // Exponential backoff: 1, 2, 4, 8... minutes, capped
+      const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY_MS);
+      await storage.updateNftMetadataJob(job.id, {
+        status: "pending",
+        lastError: error.message,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+    }
+  }
+
+  // Stores what could be fetched, and returns a note when the token has nothing more to fetch
+  private async fetchToken(job: NftMetadataJob): Promise<string | null> {
+    const { uri, owner } = await readTokenUri(job);
+    const base = {
+      contractAddress: job.contractAddress,
+      tokenId: job.tokenId,
+      tokenType: job.tokenType,
+      owner,
+      metadataUri: uri,
+    };
+
+    if (!uri) {
+      await storage.createOrUpdateNftToken({
+        ...base,
+        name: null,
+        description: null,
+        image: null,
+        imageGateway: null,
+        thumbnailUrl: null,
+        attributes: null,
+      });
+      return "Token has no metadata URI";
+    }
+
+    const metadata = await fetchMetadataDocument(uri);
+    if (!metadata || typeof metadata !== "object") {
+      throw new UnrecoverableMetadataError("Metadata is not a JSON object");
+    }
+
+    // OpenSea's image_data holds raw SVG markup for fully on-chain art
+    const expand = (value: string | null) => (value && job.tokenType === "ERC1155" ? expandTokenId(value, job.tokenId) : value);
+    const image = expand(textField(metadata.image ?? metadata.image_url));
+    const imageData = textField(metadata.image_data);
+
+    await storage.createOrUpdateNftToken({
+      ...base,
+      name: textField(metadata.name),
+      description: textField(metadata.description),
+      image: image ?? (imageData ? `data:image/svg+xml;base64,${Buffer.from(imageData, "utf-8").toString("base64")}` : null),
+      imageGateway: resolveMediaUrl(image),
+      thumbnailUrl: image || imageData ? undefined : null,
+      attributes: metadata.attributes ?? metadata.properties ?? null,
+    });
+    if (!image && !imageData) return "Metadata has no image";
+
+    const media = image
+      ? await fetchBytes(image, MAX_MEDIA_BYTES)
+      : { mimeType: "image/svg+xml", body: Buffer.from(imageData!, "utf-8") };
+    const thumbnailUrl = await storeThumbnail(job, await makeThumbnail(media.mimeType, media.body));
+    await storage.createOrUpdateNftToken({ ...base, thumbnailUrl });
+    log(`Indexed NFT: ${job.contractAddress}#${job.tokenId}`, "nft");
+    return null;
+  }
+}
+
+export const nftMetadataQueue = new NftMetadataQueue();
@@ -0,0 +1,80 @@
+import { ethers } from "ethers";
+
+// keccak256("eip1967.proxy.implementation") - 1
+export const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+// keccak256("eip1967.proxy.admin") - 1
+export const EIP1967_ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+// keccak256("eip1967.proxy.beacon") - 1
+export const EIP1967_BEACON_SLOT = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+// keccak256("PROXIABLE")
+export const EIP1822_PROXIABLE_SLOT = "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7";
+
+export const UPGRADED_TOPIC = "0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b";
+export const BEACON_UPGRADED_TOPIC = "0x1cf3b03a6cf19fa2baba4df148e9dcabedea7f8a5c07840e207e5c089be95d3e";
+
+// EIP-1167 runtime code: 363d3d373d3d3d363d73 <address> 5af43d82803e903d91602b57fd5bf3
+const EIP1167_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i;
+
+const BEACON_ABI = ["function implementation() view returns (address)"];
+
+export type ProxyType = "eip1167" | "eip1967" | "eip1822" | "beacon";
+
+export interface ProxyInfo {
+  proxyType: ProxyType;
+  implementationAddress: string;
+  beaconAddress: string | null;
+}
+
+function slotToAddress(value: string): string | null {
+  if (!value || BigInt(value) === BigInt(0)) return null;
+  return ethers.getAddress("0x" + value.slice(-40)).toLowerCase();
+}
+
+async function readSlot(provider: ethers.Provider, address: string, slot: string): Promise<string | null> {
+  try {
+    return slotToAddress(await provider.getStorage(address, slot));
+  } catch {
+    return null;
+  }
+}
+
+// Detects the proxy pattern of a deployed contract and resolves its current implementation
+export async function detectProxy(provider: ethers.Provider, address: string, code?: string): Promise<ProxyInfo | null> {
+  const runtimeCode = code ?? await provider.getCode(address);
+  if (!runtimeCode || runtimeCode === "0x") return null;
+
+  const clone = runtimeCode.match(EIP1167_PATTERN);
+  if (clone) {
+    return { proxyType: "eip1167", implementationAddress: ("0x" + clone[1]).toLowerCase(), beaconAddress: null };
+  }
+
+  const implementation = await readSlot(provider, address, EIP1967_IMPLEMENTATION_SLOT);
+  if (implementation) {
+    return { proxyType: "eip1967", implementationAddress: implementation, beaconAddress: null };
+  }
+
+  const beacon = await readSlot(provider, address, EIP1967_BEACON_SLOT);
+  if (beacon) {
+    const beaconImplementation = await resolveBeaconImplementation(provider, beacon);
+    if (beaconImplementation) {
+      return { proxyType: "beacon", implementationAddress: beaconImplementation, beaconAddress: beacon };
+    }
+  }
+
+  const proxiable = await readSlot(provider, address, EIP1822_PROXIABLE_SLOT);
+  if (proxiable) {
+    return { proxyType: "eip1822", implementationAddress: proxiable, beaconAddress: null };
+  }
+
+  return null;
+}
+
+export async function resolveBeaconImplementation(provider: ethers.Provider, beacon: string): Promise<string | null> {
+  try {
+    const contract = new ethers.Contract(beacon, BEACON_ABI, provider);
+    const implementation: string = await contract.implementation();
+    return implementation && implementation !== ethers.ZeroAddress ? implementation.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { pickSignature } from "./signatureRegistry";
+import { formatValue, loadContractInterfaces } from "./eventDecoder";
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// Solidity panic codes (docs.soliditylang.org, "Panic via assert and Error via require")
+const PANIC_REASONS: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic underflow or overflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "incorrectly encoded storage byte array",
+  0x31: "pop() on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function pointer",
+};
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+export interface DecodedRevert {
+  reason: string;
+  kind: "error" | "panic" | "custom";
+}
+
+function formatCustomError(fragment: ethers.ErrorFragment, args: ethers.Result): string {
+  const params = fragment.inputs.map((input, i) => {
+    const value = formatValue(args[i]);
+    return `${input.name || `arg${i}`}: ${typeof value === "string" ? value : JSON.stringify(value)}`;
+  });
+  return `${fragment.name}(${params.join(", ")})`;
+}
+
+function decodeWithInterface(iface: ethers.Interface, data: string): string | null {
+  try {
+    const parsed = iface.parseError(data);
+    return parsed ? formatCustomError(parsed.fragment, parsed.args) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function decodeWithRegistry(data: string): Promise<string | null> {
+  try {
+    const rows = await storage.getSignaturesBySelector(data.slice(0, 10));
+    const preferred = pickSignature(rows.filter((r) => r.kind === "error"));
+    if (!preferred) return null;
+    return decodeWithInterface(new ethers.Interface([`error ${preferred.textSignature}`]), data);
+  } catch {
+    return null;
+  }
+}
+
+// Decodes revert data into a readable reason: Error(string) and Panic(uint256) are built into Solidity,
+// custom errors are matched against the verified ABIs of the contracts that may have raised them (the
+// callee and, with a trace, the contracts in its failing frames), then the signature registry.
+export async function decodeRevertData(data: string | null | undefined, contracts: string[]): Promise<DecodedRevert | null> {
+  if (!data || data === "0x" || !ethers.isHexString(data) || data.length < 10) return null;
+  const selector = data.slice(0, 10).toLowerCase();
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    try {
+      const [message] = coder.decode(["string"], "0x" + data.slice(10));
+      return { reason: message, kind: "error" };
+    } catch {
+      return null;
+    }
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    try {
+      const [code] = coder.decode(["uint256"], "0x" + data.slice(10));
+      const description = PANIC_REASONS[Number(code)] || "unknown panic code";
+      return { reason: `Panic(0x${code.toString(16).padStart(2, "0")}): ${description}`, kind: "panic" };
+    } catch {
+      return null;
+    }
+  }
+
+  for (const contract of Array.from(new Set(contracts.map((c) => c.toLowerCase())))) {
+    let interfaces: ethers.Interface[] = [];
+    try {
+      interfaces = await loadContractInterfaces(contract);
+    } catch {
+      interfaces = [];
+    }
+    for (const iface of interfaces) {
+      const reason = decodeWithInterface(iface, data);
+      if (reason) return { reason, kind: "custom" };
+    }
+  }
+
+  const registryReason = await decodeWithRegistry(data);
+  if (registryReason) return { reason: registryReason, kind: "custom" };
+
+  return { reason: `Custom error ${selector}`, kind: "custom" };
+}
+
+// Contracts whose frames failed with the top-level revert data, innermost first: a revert bubbled up
+// unchanged through several calls was raised by the deepest of them.
+export function revertingContracts(trace: any): string[] {
+  const contracts: string[] = [];
+  const visit = (frame: any) => {
+    for (const call of frame.calls || []) {
+      if (call.error && call.output && call.output === trace.output) visit(call);
+    }
+    if (frame.to) contracts.push(frame.to);
+  };
+  visit(trace);
+  return contracts;
+}
+
+// Nodes report eth_call reverts in slightly different shapes; ethers keeps the raw payload under info
+export function revertDataFromError(error: any): string | null {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.info?.error?.data?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && ethers.isHexString(candidate)) return candidate;
+  }
+  return null;
+}
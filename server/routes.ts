@@ -1,16 +1,26 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { startIndexer, stopIndexer, getIndexer } from "./indexer";
+import { startIndexer, stopIndexer, getIndexer, syncIndexers } from "./indexer";
+import { currentChainId, getActiveChains, getDefaultChainId, runWithChain, setActiveChains } from "./chainContext";
 import { z } from "zod";
 import { cache, CACHE_KEYS, CACHE_TTL } from "./cache";
 import { ethers } from "ethers";
-import { loginSchema, signupSchema, adminLoginSchema } from "@shared/schema";
+import { loginSchema, signupSchema, adminLoginSchema, type TransactionTracer } from "@shared/schema";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 import { ObjectStorageService } from "./objectStorage";
 import fs from "fs";
 import path from "path";
+import { verifySource, verifyStandardJson, listAvailableCompilers, VerificationError } from "./verifier";
+import { verificationQueue, saveVerificationResult } from "./verificationQueue";
+import { nftMetadataQueue, REFRESH_COOLDOWN_MS } from "./nftMetadata";
+import { detectProxy, type ProxyInfo } from "./proxyDetector";
+import { decodeLogs } from "./eventDecoder";
+import { decodeCallTrace } from "./traceDecoder";
+import { decodeRevertData } from "./revertDecoder";
+import { buildStateDiff } from "./stateDiff";
+import { seedSignatureRegistry, resolveSignature, resolveSignatures, parseSignatureFile, importSignatures, setPreferredSignature } from "./signatureRegistry";
 
 const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "admin";
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "telebit2024";
@@ -82,6 +92,23 @@ async function bootstrapConfiguration() {
   }
 }
 
+async function refreshActiveChains(): Promise<void> {
+  const [chains, endpoints] = await Promise.all([storage.getActiveChains(), storage.getRpcEndpoints()]);
+  setActiveChains(chains, endpoints);
+  await syncIndexers();
+}
+
+function readChainCookie(cookieHeader: string | undefined): string | undefined {
+  const match = cookieHeader?.match(/(?:^|;\s*)chain=(\d+)/);
+  return match?.[1];
+}
+
+const APPROVAL_INTERFACE = new ethers.Interface([
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+]);
+
 const paginationSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().min(1).max(100).default(25),
@@ -113,29 +140,161 @@ const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, {
   message: "Address must be a valid 42-character hex address",
 });
 
+const selectorSchema = z.string().regex(/^0x([a-fA-F0-9]{8}|[a-fA-F0-9]{64})$/, {
+  message: "Selector must be a 4-byte function selector or a 32-byte event topic",
+});
+
+// Comma-separated selectors, as sent by transaction lists labelling a whole page at once
+const selectorListSchema = z.string()
+  .transform((value) => Array.from(new Set(value.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean))))
+  .pipe(z.array(selectorSchema).min(1).max(100));
+
+const importSignaturesSchema = z.object({
+  content: z.string().min(1),
+  kind: z.enum(["function", "event", "error"]).optional(),
+});
+
+const tokenClassificationSchema = z.object({
+  tokenType: z.enum(["ERC20", "ERC721", "ERC1155"]),
+  nonStandard: z.boolean().default(false),
+  nonStandardReason: z.string().max(500).nullable().optional(),
+});
+
 const verifyContractSchema = z.object({
   name: z.string().min(1).max(255),
-  sourceCode: z.string().min(1),
+  sourceCode: z.string().min(1).optional(),
+  standardJsonInput: z.object({
+    language: z.string().optional(),
+    sources: z.record(z.object({ content: z.string() })),
+    settings: z.record(z.any()).optional(),
+  }).optional(),
   compilerVersion: z.string().min(1),
   evmVersion: z.string().optional(),
   optimization: z.boolean().default(false),
   runs: z.number().int().min(1).max(10000).default(200),
   constructorArgs: z.string().optional(),
-  abi: z.array(z.any()),
+  libraries: z.record(z.string().regex(/^0x[a-fA-F0-9]{40}$/, { message: "Library address must be a valid 42-character hex address" })).optional(),
   license: z.string().optional(),
+}).refine((data) => !!data.sourceCode || !!data.standardJsonInput, {
+  message: "Either sourceCode or standardJsonInput is required",
 });
 
 const readContractSchema = z.object({
   functionName: z.string().min(1),
   args: z.array(z.any()).default([]),
+  asProxy: z.boolean().default(false),
 });
 
 const prepareWriteSchema = z.object({
   functionName: z.string().min(1),
   args: z.array(z.any()).default([]),
   value: z.string().optional(),
+  asProxy: z.boolean().default(false),
 });
 
+// ?block= or ?timestamp= (unix seconds or an ISO date) ask for the balance at one point instead of the history
+const balanceHistorySchema = z.object({
+  block: z.coerce.number().int().nonnegative().optional(),
+  timestamp: z.string().optional().transform((val, ctx) => {
+    if (val === undefined) return undefined;
+    const date = /^\d+$/.test(val) ? new Date(parseInt(val, 10) * 1000) : new Date(val);
+    if (isNaN(date.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Timestamp must be unix seconds or an ISO date" });
+      return z.NEVER;
+    }
+    return date;
+  }),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+const tokenIdSchema = z.string().regex(/^\d{1,78}$/, "Token ID must be a decimal number");
+
+const tokenBalanceHistorySchema = balanceHistorySchema.extend({
+  token: addressSchema,
+  tokenId: z.string().regex(/^\d+$/, "Token ID must be a decimal number").optional(),
+});
+
+// Native balance after the given block, from the recorded snapshots or, for blocks before the first snapshot or
+// after a gap the indexer could not read, from the node (which needs archive state for old blocks). Returns null
+// when neither has it.
+async function getBalanceAtBlock(address: string, blockNumber: number): Promise<{
+  balance: string;
+  lastChangeBlock: number | null;
+  lastChangeTimestamp: Date | null;
+  source: "snapshot" | "node";
+} | null> {
+  const snapshot = await storage.getBalanceSnapshotAt(address, blockNumber);
+  if (snapshot?.balance) {
+    return { balance: snapshot.balance, lastChangeBlock: snapshot.blockNumber, lastChangeTimestamp: snapshot.timestamp, source: "snapshot" };
+  }
+  try {
+    const provider = await getIndexer().getProvider();
+    const balance = await provider.getBalance(address, blockNumber);
+    return { balance: balance.toString(), lastChangeBlock: null, lastChangeTimestamp: null, source: "node" };
+  } catch {
+    return null;
+  }
+}
+
+// Returns stored proxy info, detecting it on demand for contracts indexed before proxy tracking existed
+async function getProxyInfo(address: string): Promise<ProxyInfo | null> {
+  const cacheKey = CACHE_KEYS.PROXY(address);
+  const cached = cache.get<ProxyInfo | { none: true }>(cacheKey);
+  if (cached) return "none" in cached ? null : cached;
+
+  const stored = await storage.getAddressByAddress(address);
+  let proxy: ProxyInfo | null = null;
+  if (stored?.proxyType && stored.implementationAddress) {
+    proxy = {
+      proxyType: stored.proxyType as ProxyInfo["proxyType"],
+      implementationAddress: stored.implementationAddress,
+      beaconAddress: stored.beaconAddress,
+    };
+  } else {
+    const provider = await getIndexer().getProvider();
+    proxy = await detectProxy(provider, address);
+    if (proxy && stored) await storage.updateAddressProxy(address, proxy);
+  }
+
+  cache.set(cacheKey, proxy ?? { none: true }, CACHE_TTL.PROXY);
+  return proxy;
+}
+
+// Tracer output for a mined transaction, from the cache or traced by the node and cached
+async function getCachedTrace(
+  hash: string,
+  blockNumber: number,
+  tracer: TransactionTracer
+): Promise<{ trace: any; cached: boolean } | { status: number; message: string }> {
+  const cached = await storage.getTransactionTrace(hash, tracer);
+  if (cached) return { trace: cached.trace, cached: true };
+
+  let trace: any;
+  try {
+    trace = await getIndexer().traceTransaction(hash, tracer);
+  } catch (error: any) {
+    return { status: 502, message: `The node could not trace this transaction: ${error.message}` };
+  }
+  if (!trace) return { status: 501, message: "Tracing is not supported by the RPC node" };
+
+  await storage.saveTransactionTrace({ transactionHash: hash, tracer, blockNumber, trace });
+  return { trace, cached: false };
+}
+
+// ABI used for read/write calls; asProxy swaps in the implementation's verified ABI
+async function getCallableAbi(address: string, asProxy: boolean): Promise<ethers.InterfaceAbi | null> {
+  if (!asProxy) {
+    const contract = await storage.getVerifiedContract(address);
+    return contract ? (contract.abi as ethers.InterfaceAbi) : null;
+  }
+
+  const proxy = await getProxyInfo(address);
+  if (!proxy) return null;
+  const implementation = await storage.getVerifiedContract(proxy.implementationAddress);
+  return implementation ? (implementation.abi as ethers.InterfaceAbi) : null;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -143,11 +302,42 @@ export async function registerRoutes(
   
   // Bootstrap configuration from environment variables on startup
   await bootstrapConfiguration();
-  
-  setTimeout(() => {
+  setActiveChains(await storage.getActiveChains(), await storage.getRpcEndpoints());
+
+  setTimeout(async () => {
+    try {
+      await refreshActiveChains();
+      const assigned = await storage.assignUnscopedRowsToChain(getDefaultChainId());
+      if (assigned > 0) {
+        console.log(`[bootstrap] Assigned ${assigned} previously indexed rows to chain ${getDefaultChainId()}`);
+      }
+    } catch (error) {
+      console.error("[bootstrap] Error assigning indexed data to the default chain:", error);
+    }
     startIndexer().catch(console.error);
   }, 3000);
 
+  // Every API request reads and writes one chain: ?chain= (or ?chainid=), the X-Chain-Id header,
+  // or the "chain" cookie set by the chain selector, falling back to the default chain
+  app.use("/api", (req, res, next) => {
+    const explicit = req.query.chain ?? req.query.chainid ?? req.header("x-chain-id");
+    const requested = explicit ?? readChainCookie(req.headers.cookie);
+    const chainId = typeof requested === "string" ? parseInt(requested, 10) : NaN;
+    const activeChains = getActiveChains();
+
+    if (isNaN(chainId) || (activeChains.length > 0 && !activeChains.some((c) => c.chainId === chainId))) {
+      if (explicit !== undefined) {
+        return res.status(400).json({ message: `Unknown or inactive chain: ${explicit}` });
+      }
+      return runWithChain(getDefaultChainId(), next);
+    }
+    runWithChain(chainId, next);
+  });
+
+  verificationQueue.start().catch(console.error);
+  nftMetadataQueue.start().catch(console.error);
+  seedSignatureRegistry().catch(console.error);
+
   // Dedicated endpoint for deployment tarball
   app.get("/api/download/source.tar.gz", (_req, res) => {
     const tarballPath = path.resolve(process.cwd(), "public-objects", "source-minimal.tar.gz");
@@ -210,8 +400,10 @@ export async function registerRoutes(
   // Bootstrap endpoint - combines initial page data into single request
   app.get("/api/bootstrap", async (_req, res) => {
     try {
-      // Set cache headers - 3 seconds for dynamic data
+      // Set cache headers - 3 seconds for dynamic data, kept apart per selected chain
       res.set('Cache-Control', 'public, max-age=3');
+      res.vary('Cookie');
+      res.vary('X-Chain-Id');
       
       // Fetch stats, blocks, and transactions in parallel
       const [stats, blocksResult, txsResult, allSettings] = await Promise.all([
@@ -366,11 +558,30 @@ export async function registerRoutes(
       }
 
       if (!block) {
-        return res.status(404).json({ message: "Block not found" });
+        // Blocks replaced by a reorg are still reachable by hash
+        const orphan = /^\d+$/.test(id) ? undefined : await storage.getOrphanedBlockByHash(id);
+        if (!orphan) {
+          return res.status(404).json({ message: "Block not found" });
+        }
+        const canonical = await storage.getBlockByNumber(orphan.number);
+        return res.json({
+          block: orphan,
+          transactions: [],
+          orphaned: true,
+          canonicalBlock: canonical ? { number: canonical.number, hash: canonical.hash } : null,
+        });
       }
 
-      const transactions = await storage.getTransactionsByBlockNumber(block.number);
-      res.json({ block, transactions });
+      const [transactions, orphans] = await Promise.all([
+        storage.getTransactionsByBlockNumber(block.number),
+        storage.getOrphanedBlocksByNumber(block.number),
+      ]);
+      res.json({
+        block,
+        transactions,
+        orphaned: false,
+        orphanedBlocks: orphans.map((o) => ({ hash: o.hash, orphanedAt: o.orphanedAt })),
+      });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
@@ -430,13 +641,26 @@ export async function registerRoutes(
       const transaction = await storage.getTransactionByHash(hash);
       
       if (!transaction) {
+        // Not mined (yet): answer with what the mempool tracker saw, including where a dropped or replaced transaction went
+        const pending = await storage.getPendingTransaction(hash.toLowerCase());
+        if (pending) {
+          return res.json({ pending });
+        }
         return res.status(404).json({ message: "Transaction not found" });
       }
 
-      const [logs, tokenTransfers] = await Promise.all([
+      // Custom errors of contracts verified after the transaction was indexed can be named now; the stored
+      // reason is only rewritten by the revert reason backfill
+      if (transaction.revertData && transaction.revertReason?.startsWith("Custom error") && transaction.to) {
+        const revert = await decodeRevertData(transaction.revertData, [transaction.to]);
+        if (revert) transaction.revertReason = revert.reason;
+      }
+
+      const [rawLogs, tokenTransfers] = await Promise.all([
         storage.getTransactionLogs(hash),
         storage.getTokenTransfersByTxHash(hash),
       ]);
+      const logs = await decodeLogs(rawLogs);
       res.json({ transaction, logs, tokenTransfers });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -446,6 +670,63 @@ export async function registerRoutes(
     }
   });
 
+  // Call tree of a mined transaction; traced on first request and cached until its block is reorged out
+  app.get("/api/transactions/:hash/trace", async (req, res) => {
+    try {
+      const hash = txHashSchema.parse(req.params.hash).toLowerCase();
+      const transaction = await storage.getTransactionByHash(hash);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const result = await getCachedTrace(hash, transaction.blockNumber, "callTracer");
+      if ("status" in result) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      res.json({ transactionHash: hash, cached: result.cached, trace: await decodeCallTrace(result.trace) });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Balances, nonces, code and storage of every account the transaction changed, from prestateTracer in diff mode
+  app.get("/api/transactions/:hash/state", async (req, res) => {
+    try {
+      const hash = txHashSchema.parse(req.params.hash).toLowerCase();
+      const transaction = await storage.getTransactionByHash(hash);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const result = await getCachedTrace(hash, transaction.blockNumber, "prestateTracer");
+      if ("status" in result) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      // Words the transaction touched are the likely mapping keys of the changed slots
+      const logs = await storage.getTransactionLogs(hash);
+      const input = transaction.input && transaction.input.length > 10 ? transaction.input.slice(10) : "";
+      const words = [
+        transaction.from,
+        ...(transaction.to ? [transaction.to] : []),
+        ...logs.flatMap((l) => (l.topics || []).slice(1)),
+        ...(input.match(/.{64}/g) || []).map((w) => "0x" + w),
+      ];
+
+      const accounts = await buildStateDiff(result.trace, words);
+      res.json({ transactionHash: hash, cached: result.cached, accounts });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/addresses", async (req, res) => {
     try {
       const { page, limit } = paginationSchema.parse(req.query);
@@ -477,6 +758,7 @@ export async function registerRoutes(
           
           address = {
             id: "",
+            chainId: currentChainId(),
             address: addressParam,
             balance: balance.toString(),
             transactionCount: 0,
@@ -485,12 +767,16 @@ export async function registerRoutes(
             isContract: code !== "0x",
             contractCode: code !== "0x" ? code : null,
             contractName: null,
+            proxyType: null,
+            implementationAddress: null,
+            beaconAddress: null,
             lastSeen: null,
             firstSeen: null,
           };
         } catch {
           address = {
             id: "",
+            chainId: currentChainId(),
             address: addressParam,
             balance: "0",
             transactionCount: 0,
@@ -499,18 +785,27 @@ export async function registerRoutes(
             isContract: false,
             contractCode: null,
             contractName: null,
+            proxyType: null,
+            implementationAddress: null,
+            beaconAddress: null,
             lastSeen: null,
             firstSeen: null,
           };
         }
       }
 
-      const txResult = await storage.getTransactionsByAddress(addressParam, page, limit);
+      const [txResult, creation, deployed] = await Promise.all([
+        storage.getTransactionsByAddress(addressParam, page, limit),
+        storage.getContractCreation(addressParam),
+        storage.getContractsDeployedBy(addressParam, 1, 1),
+      ]);
       
       res.json({
         address,
         transactions: txResult.transactions,
         totalTransactions: txResult.total,
+        creation: creation || null,
+        deployedContractCount: deployed.total,
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -520,6 +815,21 @@ export async function registerRoutes(
     }
   });
 
+  // Contracts deployed by the address directly or, for factories, through CREATE/CREATE2
+  app.get("/api/addresses/:address/contracts", async (req, res) => {
+    try {
+      const addressParam = addressSchema.parse(req.params.address);
+      const { page, limit } = paginationSchema.parse(req.query);
+      const result = await storage.getContractsDeployedBy(addressParam, page, limit);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/addresses/:address/transactions/cursor", async (req, res) => {
     try {
       const addressParam = addressSchema.parse(req.params.address);
@@ -662,8 +972,11 @@ export async function registerRoutes(
 
   app.get("/api/indexer/status", async (_req, res) => {
     try {
-      const state = await storage.getIndexerState();
-      res.json(state || { lastIndexedBlock: 0, isRunning: false });
+      const [state, backfill] = await Promise.all([
+        storage.getIndexerState(),
+        getIndexer().getBackfillProgress(),
+      ]);
+      res.json({ ...(state || { lastIndexedBlock: 0, isRunning: false }), backfill, rpc: getIndexer().getRpcMetrics() });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -791,6 +1104,7 @@ export async function registerRoutes(
     name: z.string().min(1).max(100),
     shortName: z.string().min(1).max(20),
     rpcUrl: z.string().url(),
+    wsUrl: z.string().regex(/^wss?:\/\/\S+$/, "WebSocket URL must start with ws:// or wss://").optional().nullable(),
     explorerUrl: z.string().url().optional().nullable(),
     nativeCurrency: z.string().min(1).max(20).default("ETH"),
     nativeDecimals: z.number().int().min(0).max(18).default(18),
@@ -858,6 +1172,7 @@ export async function registerRoutes(
         await storage.clearDefaultChains();
       }
       const chain = await storage.createChain(validated);
+      await refreshActiveChains();
       res.status(201).json(chain);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -881,6 +1196,7 @@ export async function registerRoutes(
       if (!chain) {
         return res.status(404).json({ message: "Chain not found" });
       }
+      await refreshActiveChains();
       res.json(chain);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -901,6 +1217,7 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Chain not found" });
       }
       const chain = await storage.setDefaultChain(chainId);
+      await refreshActiveChains();
       res.json(chain);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -921,6 +1238,7 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Cannot delete default chain. Set another chain as default first." });
       }
       await storage.deleteChain(chainId);
+      await refreshActiveChains();
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -940,6 +1258,68 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/compilers", async (req, res) => {
+    try {
+      res.json({ versions: listAvailableCompilers() });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/signatures", async (req, res) => {
+    try {
+      const selectors = selectorListSchema.parse(req.query.selectors ?? "");
+      const resolved = await resolveSignatures(selectors);
+
+      const result: Record<string, { kind: string; name: string; textSignature: string; category: string | null }> = {};
+      for (const [selector, preferred] of Array.from(resolved)) {
+        result[selector] = {
+          kind: preferred.kind,
+          name: preferred.name,
+          textSignature: preferred.textSignature,
+          category: preferred.category,
+        };
+      }
+      res.json({ signatures: result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/signatures/:selector", async (req, res) => {
+    try {
+      const selector = selectorSchema.parse(req.params.selector).toLowerCase();
+      const cacheKey = CACHE_KEYS.SIGNATURE(selector);
+      const cached = cache.get<any>(cacheKey);
+      if (cached) return res.json(cached);
+
+      const { preferred, signatures } = await resolveSignature(selector);
+      if (!preferred) {
+        return res.status(404).json({ message: "Signature not found" });
+      }
+
+      const result = {
+        selector,
+        kind: preferred.kind,
+        name: preferred.name,
+        textSignature: preferred.textSignature,
+        category: preferred.category,
+        source: preferred.source,
+        signatures,
+      };
+      cache.set(cacheKey, result, CACHE_TTL.SIGNATURE);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/contracts/:address", async (req, res) => {
     try {
       const addressParam = addressSchema.parse(req.params.address);
@@ -949,7 +1329,12 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Contract not verified", isVerified: false });
       }
 
-      res.json({ ...contract, isVerified: true });
+      const files = await storage.getContractSourceFiles(addressParam);
+      const sourceFiles = files.length > 0
+        ? files.map((f) => ({ path: f.path, content: f.content }))
+        : [{ path: contract.mainFile || `${contract.name}.sol`, content: contract.sourceCode }];
+
+      res.json({ ...contract, sourceFiles, isVerified: true });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
@@ -989,24 +1374,62 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Address is not a contract" });
       }
       
-      const bytecodeHash = ethers.keccak256(code);
-      
-      const contract = await storage.createVerifiedContract({
-        address: addressParam.toLowerCase(),
-        name: verifyData.name,
-        compilerVersion: verifyData.compilerVersion,
-        evmVersion: verifyData.evmVersion || null,
-        optimization: verifyData.optimization,
-        runs: verifyData.runs,
-        constructorArgs: verifyData.constructorArgs || null,
-        sourceCode: verifyData.sourceCode,
-        abi: verifyData.abi,
-        bytecodeHash,
-        verificationStatus: "verified",
-        license: verifyData.license || null,
+      const result = verifyData.standardJsonInput
+        ? verifyStandardJson({
+            contractName: verifyData.name,
+            compilerVersion: verifyData.compilerVersion,
+            input: verifyData.standardJsonInput,
+          }, code)
+        : verifySource({
+            contractName: verifyData.name,
+            sourceCode: verifyData.sourceCode!,
+            compilerVersion: verifyData.compilerVersion,
+            evmVersion: verifyData.evmVersion,
+            optimization: verifyData.optimization,
+            runs: verifyData.runs,
+            libraries: verifyData.libraries,
+          }, code);
+
+      const contract = await saveVerificationResult(addressParam, code, result, {
+        sourceFormat: verifyData.standardJsonInput ? "solidity-standard-json-input" : "solidity-single-file",
+        constructorArgs: verifyData.constructorArgs,
+        license: verifyData.license,
       });
 
-      res.json({ success: true, contract });
+      res.json({ success: true, matchType: result.matchType, contract });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof VerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/contracts/:address/proxy", async (req, res) => {
+    try {
+      const addressParam = addressSchema.parse(req.params.address);
+      const proxy = await getProxyInfo(addressParam);
+
+      if (!proxy) {
+        return res.json({ isProxy: false });
+      }
+
+      const [implementation, ownUpgrades, beaconUpgrades] = await Promise.all([
+        storage.getVerifiedContract(proxy.implementationAddress),
+        storage.getProxyUpgrades(addressParam),
+        proxy.beaconAddress ? storage.getProxyUpgrades(proxy.beaconAddress) : Promise.resolve([]),
+      ]);
+
+      res.json({
+        isProxy: true,
+        ...proxy,
+        implementationVerified: !!implementation,
+        implementationName: implementation?.name || null,
+        upgrades: [...ownUpgrades, ...beaconUpgrades].sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex),
+      });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
@@ -1018,21 +1441,17 @@ export async function registerRoutes(
   app.post("/api/contracts/:address/read", async (req, res) => {
     try {
       const addressParam = addressSchema.parse(req.params.address);
-      const { functionName, args } = readContractSchema.parse(req.body);
+      const { functionName, args, asProxy } = readContractSchema.parse(req.body);
       
-      const verifiedContract = await storage.getVerifiedContract(addressParam);
-      if (!verifiedContract) {
-        return res.status(404).json({ message: "Contract not verified" });
+      const abi = await getCallableAbi(addressParam, asProxy);
+      if (!abi) {
+        return res.status(404).json({ message: asProxy ? "Implementation contract not verified" : "Contract not verified" });
       }
 
       const indexer = getIndexer();
       const provider = await indexer.getProvider();
       
-      const contract = new ethers.Contract(
-        addressParam, 
-        verifiedContract.abi as ethers.InterfaceAbi, 
-        provider
-      );
+      const contract = new ethers.Contract(addressParam, abi, provider);
       
       const func = contract.getFunction(functionName);
       if (!func) {
@@ -1070,14 +1489,14 @@ export async function registerRoutes(
   app.post("/api/contracts/:address/write/prepare", async (req, res) => {
     try {
       const addressParam = addressSchema.parse(req.params.address);
-      const { functionName, args, value } = prepareWriteSchema.parse(req.body);
+      const { functionName, args, value, asProxy } = prepareWriteSchema.parse(req.body);
       
-      const verifiedContract = await storage.getVerifiedContract(addressParam);
-      if (!verifiedContract) {
-        return res.status(404).json({ message: "Contract not verified" });
+      const abi = await getCallableAbi(addressParam, asProxy);
+      if (!abi) {
+        return res.status(404).json({ message: asProxy ? "Implementation contract not verified" : "Contract not verified" });
       }
 
-      const iface = new ethers.Interface(verifiedContract.abi as ethers.InterfaceAbi);
+      const iface = new ethers.Interface(abi);
       const data = iface.encodeFunctionData(functionName, args);
 
       res.json({
@@ -1096,13 +1515,14 @@ export async function registerRoutes(
   app.get("/api/contracts/:address/methods", async (req, res) => {
     try {
       const addressParam = addressSchema.parse(req.params.address);
-      const verifiedContract = await storage.getVerifiedContract(addressParam);
+      const asProxy = req.query.asProxy === "true";
+      const callableAbi = await getCallableAbi(addressParam, asProxy);
       
-      if (!verifiedContract) {
-        return res.status(404).json({ message: "Contract not verified" });
+      if (!callableAbi) {
+        return res.status(404).json({ message: asProxy ? "Implementation contract not verified" : "Contract not verified" });
       }
 
-      const abi = verifiedContract.abi as any[];
+      const abi = callableAbi as any[];
       const readMethods: any[] = [];
       const writeMethods: any[] = [];
 
@@ -1346,7 +1766,8 @@ export async function registerRoutes(
         currentBlock: indexer.currentBlock || 0,
         targetBlock: indexer.targetBlock || 0,
         syncProgress: indexer.targetBlock ? Math.round((indexer.currentBlock || 0) / indexer.targetBlock * 100) : 0,
-      } : { isRunning: false, currentBlock: 0, targetBlock: 0, syncProgress: 0 };
+        rpc: indexer.getRpcMetrics(),
+      } : { isRunning: false, currentBlock: 0, targetBlock: 0, syncProgress: 0, rpc: null };
 
       res.json({
         network: stats,
@@ -1383,7 +1804,42 @@ export async function registerRoutes(
   app.get("/api/admin/chains", requireAdmin, async (_req, res) => {
     try {
       const chains = await storage.getActiveChains();
-      res.json({ chains });
+      res.json({
+        chains: chains.map((chain) => ({ ...chain, rpcEndpoints: getIndexer(chain.chainId).getRpcHealth() })),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const rpcEndpointSchema = z.object({
+    url: z.string().url(),
+    role: z.enum(["general", "archive", "tracing"]).default("general"),
+  });
+
+  app.post("/api/admin/chains/:chainId/rpc-endpoints", requireAdmin, async (req, res) => {
+    try {
+      const chainId = parseInt(req.params.chainId);
+      if (isNaN(chainId) || !(await storage.getChainById(chainId))) {
+        return res.status(404).json({ message: "Chain not found" });
+      }
+      const { url, role } = rpcEndpointSchema.parse(req.body);
+      const endpoint = await storage.createRpcEndpoint({ chainId, url, role });
+      await refreshActiveChains();
+      res.status(201).json(endpoint);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/admin/rpc-endpoints/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteRpcEndpoint(req.params.id);
+      await refreshActiveChains();
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -1407,6 +1863,240 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/admin/indexer/repair", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await getIndexer().getRepairStatus());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/indexer/repair", requireAdmin, async (_req, res) => {
+    try {
+      const indexer = getIndexer();
+      const scan = await indexer.scanForGaps();
+      res.json({ scan, indexerRunning: indexer.isRunning });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin Verification Job Management
+  app.get("/api/admin/verification-jobs", requireAdmin, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+      const status = req.query.status as string | undefined;
+      const result = await storage.getVerificationJobs(page, limit, status && status !== "all" ? status : undefined);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/verification-jobs/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      const job = await verificationQueue.retry(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Failed verification job not found" });
+      }
+      res.json({ message: "Verification job requeued", job });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin Signature Registry
+  app.get("/api/admin/signatures/stats", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getSignatureStats());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/signatures/collisions", requireAdmin, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+      res.json(await storage.getSignatureCollisions(page, limit));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/signatures/import", requireAdmin, async (req, res) => {
+    try {
+      const { content, kind } = importSignaturesSchema.parse(req.body);
+      let parsed;
+      try {
+        parsed = parseSignatureFile(content, "import", kind);
+      } catch (error: any) {
+        return res.status(400).json({ message: `Unable to parse signature file: ${error.message}` });
+      }
+
+      const inserted = await importSignatures(parsed.entries);
+      res.json({
+        parsed: parsed.entries.length,
+        inserted,
+        duplicates: parsed.entries.length - inserted,
+        invalid: parsed.invalid,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/signatures/:id/prefer", requireAdmin, async (req, res) => {
+    try {
+      const signature = await setPreferredSignature(req.params.id);
+      if (!signature) {
+        return res.status(404).json({ message: "Signature not found" });
+      }
+      cache.invalidate(CACHE_KEYS.SIGNATURE(signature.selector));
+      res.json({ signature });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin Token Classification
+  app.get("/api/admin/tokens/classification", requireAdmin, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+      res.json(await storage.getTokensWithClassificationIssues(page, limit));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/tokens/classify", requireAdmin, async (_req, res) => {
+    try {
+      const indexer = getIndexer();
+      if (!indexer) {
+        return res.status(500).json({ message: "Indexer not available" });
+      }
+      res.json(await indexer.classifyTokens());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/transactions/revert-reasons/backfill", requireAdmin, async (_req, res) => {
+    try {
+      const indexer = getIndexer();
+      if (!indexer) {
+        return res.status(500).json({ message: "Indexer not available" });
+      }
+
+      const result = await indexer.backfillRevertReasons();
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/contracts/creations/backfill", requireAdmin, async (_req, res) => {
+    try {
+      const result = await storage.backfillContractCreations();
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/tokens/approvals/backfill", requireAdmin, async (_req, res) => {
+    try {
+      const result = await storage.backfillTokenApprovals();
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/tokens/:address/classification", requireAdmin, async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address);
+      const token = await storage.getTokenByAddress(address);
+      if (!token) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+      res.json({ token });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/admin/tokens/:address/classification", requireAdmin, async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address);
+      const { tokenType, nonStandard, nonStandardReason } = tokenClassificationSchema.parse(req.body);
+      const previous = await storage.getTokenByAddress(address);
+      getIndexer().forgetToken(address);
+      const token = await storage.setTokenClassificationOverride(address, {
+        tokenType,
+        nonStandard,
+        nonStandardReason: nonStandardReason || null,
+      });
+      if (!token) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+      // Convert again to catch transfers saved under the old type by blocks already in flight
+      if (previous && previous.tokenType !== tokenType) await storage.changeTokenType(address, tokenType);
+      res.json({ token });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Removes the override and reclassifies the token straight away
+  app.delete("/api/admin/tokens/:address/classification", requireAdmin, async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address);
+      const cleared = await storage.clearTokenClassificationOverride(address);
+      if (!cleared) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+      const token = await getIndexer().classifyStoredToken(address);
+      res.json({ token: token || cleared });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/tokens/:address/reclassify", requireAdmin, async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address);
+      const indexer = getIndexer();
+      if (!indexer) {
+        return res.status(500).json({ message: "Indexer not available" });
+      }
+      const token = await indexer.classifyStoredToken(address);
+      if (!token) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+      res.json({ token });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Admin Airdrop Campaign Management
   app.get("/api/admin/airdrops", requireAdmin, async (req, res) => {
     try {
@@ -1502,20 +2192,20 @@ export async function registerRoutes(
         delete settingsMap.navigation.nav_menu_items;
       }
       
-      const defaultChain = await storage.getDefaultChain();
-      const chainData = defaultChain ? {
-        chainId: defaultChain.chainId,
-        name: defaultChain.name,
-        shortName: defaultChain.shortName,
-        rpcUrl: defaultChain.rpcUrl,
-        nativeCurrency: defaultChain.nativeCurrency,
-        nativeSymbol: defaultChain.nativeSymbol,
-        nativeDecimals: defaultChain.nativeDecimals,
-        bech32Prefix: defaultChain.bech32Prefix,
+      const selectedChain = (await storage.getChainById(currentChainId())) || (await storage.getDefaultChain());
+      const chainData = selectedChain ? {
+        chainId: selectedChain.chainId,
+        name: selectedChain.name,
+        shortName: selectedChain.shortName,
+        rpcUrl: selectedChain.rpcUrl,
+        nativeCurrency: selectedChain.nativeCurrency,
+        nativeSymbol: selectedChain.nativeSymbol,
+        nativeDecimals: selectedChain.nativeDecimals,
+        bech32Prefix: selectedChain.bech32Prefix,
       } : null;
       
-      // Merge site_settings chain category with chains table data
-      const chainSettings = settingsMap.chain || {};
+      // Merge site_settings chain category with chains table data; those settings describe the default chain
+      const chainSettings = !selectedChain || selectedChain.isDefault ? settingsMap.chain || {} : {};
       const mergedChain = chainData ? { ...chainData, ...chainSettings } : chainSettings;
       
       res.json({ ...settingsMap, chain: mergedChain });
@@ -1675,6 +2365,116 @@ export async function registerRoutes(
       const page = parseInt(req.query.page as string) || 1;
       const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
       const result = await storage.getLogsByAddress(address, page, limit);
+      res.json({ ...result, logs: await decodeLogs(result.logs) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/addresses/:address/balance-history", async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address).toLowerCase();
+      const { block, timestamp, page, limit } = balanceHistorySchema.parse(req.query);
+
+      if (block === undefined && timestamp === undefined) {
+        const result = await storage.getBalanceSnapshots(address, page, limit);
+        return res.json({ address, ...result });
+      }
+
+      const blockNumber = block ?? (await storage.getBlockAtTimestamp(timestamp!))?.number;
+      if (blockNumber === undefined) {
+        return res.status(404).json({ message: "No indexed block at or before this timestamp" });
+      }
+
+      const result = await getBalanceAtBlock(address, blockNumber);
+      if (!result) {
+        return res.status(404).json({ message: `No balance recorded at or before block ${blockNumber}` });
+      }
+      res.json({ address, blockNumber, ...result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Token balance changes of a holder, or the balance after a given block when block or timestamp is set.
+  // Balances of non-standard tokens are partly read from the chain and only approximate at past blocks.
+  app.get("/api/addresses/:address/token-balance-history", async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address).toLowerCase();
+      const { token, tokenId, block, timestamp, page, limit } = tokenBalanceHistorySchema.parse(req.query);
+      const tokenAddress = token.toLowerCase();
+      const tokenRow = await storage.getTokenByAddress(tokenAddress);
+      const context = { address, token: tokenAddress, tokenId: tokenId ?? null, nonStandard: tokenRow?.nonStandard ?? false };
+
+      if (block === undefined && timestamp === undefined) {
+        const result = await storage.getTokenBalanceChanges(tokenAddress, address, tokenId ?? null, page, limit);
+        return res.json({ ...context, ...result });
+      }
+
+      const blockNumber = block ?? (await storage.getBlockAtTimestamp(timestamp!))?.number;
+      if (blockNumber === undefined) {
+        return res.status(404).json({ message: "No indexed block at or before this timestamp" });
+      }
+
+      const result = await storage.getTokenBalanceAt(tokenAddress, address, tokenId ?? null, blockNumber);
+      res.json({ ...context, blockNumber, ...result });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/addresses/:address/approvals", async (req, res) => {
+    try {
+      const address = addressSchema.parse(req.params.address).toLowerCase();
+      const { page, limit } = paginationSchema.parse(req.query);
+      const result = await storage.getTokenApprovals(address, page, limit);
+      const provider = await getIndexer().getProvider().catch(() => null);
+
+      const approvals = await Promise.all(result.approvals.map(async (approval) => {
+        const isAllowance = approval.approvalType === "allowance";
+        const revoke = {
+          to: approval.tokenAddress,
+          data: isAllowance
+            ? APPROVAL_INTERFACE.encodeFunctionData("approve", [approval.spenderAddress, 0])
+            : APPROVAL_INTERFACE.encodeFunctionData("setApprovalForAll", [approval.spenderAddress, false]),
+          // Sent as-is through eth_sendTransaction, which takes hex quantities
+          value: "0x0",
+        };
+        // transferFrom spends allowances without an Approval event in many ERC-20s, so the indexed value
+        // is an upper bound; the live value is read from the token when the node is reachable
+        let currentAllowance: string | null = null;
+        if (isAllowance && provider) {
+          try {
+            const contract = new ethers.Contract(approval.tokenAddress, APPROVAL_INTERFACE, provider);
+            currentAllowance = (await contract.allowance(address, approval.spenderAddress)).toString();
+          } catch {
+            currentAllowance = null;
+          }
+        }
+        return { ...approval, currentAllowance, revoke };
+      }));
+
+      res.json({ approvals, total: result.total });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/addresses/:address/pending", async (req, res) => {
+    try {
+      const { address } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+      const result = await storage.getPendingTransactionsByAddress(address, page, limit);
       res.json(result);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -1718,59 +2518,21 @@ export async function registerRoutes(
     }
   });
 
-  // Backfill token holders from token transfers
+  // Rebuild token holders and their balance history from the indexed token transfers
   app.post("/api/tokens/:address/holders/backfill", async (req, res) => {
     try {
       const { address } = req.params;
       const tokenAddress = address.toLowerCase();
-      
-      // Get all transfers for this token
-      const transfers = await storage.getAllTokenTransfersForToken(tokenAddress);
-      
-      // Calculate balances for each holder
-      const balances: Record<string, bigint> = {};
-      const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
-      
-      for (const transfer of transfers) {
-        const from = transfer.from.toLowerCase();
-        const to = transfer.to.toLowerCase();
-        const value = BigInt(transfer.value?.toString() || "0");
-        
-        // Subtract from sender (if not zero address - mint)
-        if (from !== ZERO_ADDRESS) {
-          balances[from] = (balances[from] || BigInt(0)) - value;
-        }
-        
-        // Add to receiver (if not zero address - burn)
-        if (to !== ZERO_ADDRESS) {
-          balances[to] = (balances[to] || BigInt(0)) + value;
-        }
-      }
-      
-      // Get token info
+
       const token = await storage.getTokenByAddress(tokenAddress);
-      const tokenType = token?.tokenType || "ERC20";
-      
-      // Update holders with positive balances
-      let holdersUpdated = 0;
-      for (const [holderAddress, balance] of Object.entries(balances)) {
-        if (balance > BigInt(0)) {
-          await storage.createOrUpdateTokenHolder({
-            tokenAddress,
-            holderAddress,
-            balance: balance.toString(),
-            tokenType,
-          });
-          holdersUpdated++;
-        }
+      if (token?.nonStandard) {
+        return res.status(409).json({ message: "Balances of this token do not follow from its transfers and are read from the chain instead" });
       }
-      
-      // Update holder count on token
-      await storage.updateTokenHolderCount(tokenAddress, holdersUpdated);
-      
+
+      const { transfersProcessed, holdersUpdated } = await storage.rebuildTokenHolders(tokenAddress);
       res.json({ 
         message: "Token holders backfilled successfully",
-        transfersProcessed: transfers.length,
+        transfersProcessed,
         holdersUpdated
       });
     } catch (error: any) {
@@ -1782,16 +2544,56 @@ export async function registerRoutes(
   app.get("/api/nfts/:contractAddress/:tokenId", async (req, res) => {
     try {
       const { contractAddress, tokenId } = req.params;
-      const nft = await storage.getNftToken(contractAddress, tokenId);
+      const [nft, job] = await Promise.all([
+        storage.getNftToken(contractAddress, tokenId),
+        storage.getNftMetadataJob(contractAddress, tokenId),
+      ]);
       if (!nft) {
         return res.status(404).json({ message: "NFT not found" });
       }
-      res.json(nft);
+      res.json({
+        ...nft,
+        metadataStatus: job
+          ? { status: job.status, attempts: job.attempts, lastError: job.lastError, nextAttemptAt: job.nextAttemptAt, completedAt: job.completedAt }
+          : null,
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Re-reads the token URI and refetches the metadata and thumbnail in the background
+  app.post("/api/nfts/:contractAddress/:tokenId/refresh", async (req, res) => {
+    try {
+      const contractAddress = addressSchema.parse(req.params.contractAddress).toLowerCase();
+      const tokenId = tokenIdSchema.parse(req.params.tokenId);
+
+      const existingJob = await storage.getNftMetadataJob(contractAddress, tokenId);
+      // A job waiting out a retry delay is brought forward; one that is queued or running is left alone
+      if (existingJob && (existingJob.status === "processing" || (existingJob.status === "pending" && existingJob.attempts === 0))) {
+        return res.status(202).json({ message: "Metadata refresh already queued", job: existingJob });
+      }
+      if (existingJob?.completedAt && Date.now() - new Date(existingJob.completedAt).getTime() < REFRESH_COOLDOWN_MS) {
+        return res.status(429).json({ message: "Metadata was refreshed less than a minute ago" });
+      }
+
+      // Only tokens the indexer has seen, so arbitrary ids cannot be used to queue outbound fetches
+      const nft = await storage.getNftToken(contractAddress, tokenId);
+      const tokenType = nft?.tokenType ?? await storage.getNftTransferTokenType(contractAddress, tokenId);
+      if (!tokenType) {
+        return res.status(404).json({ message: "NFT not found" });
+      }
+
+      const job = await nftMetadataQueue.refresh(contractAddress, tokenId, tokenType);
+      res.status(202).json({ message: "Metadata refresh queued", job });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/addresses/:address/nfts", async (req, res) => {
     try {
       const { address } = req.params;
@@ -2064,8 +2866,19 @@ export async function registerRoutes(
             return res.json(etherscanResponse("0", "NOTOK", "Contract source code not verified"));
           }
           
+          // Etherscan wraps standard-JSON input in double braces
+          let sourceCode = contract.sourceCode;
+          if (contract.sourceFormat === "solidity-standard-json-input") {
+            const files = await storage.getContractSourceFiles(address);
+            const sources = Object.fromEntries(files.map((f) => [f.path, { content: f.content }]));
+            sourceCode = `{${JSON.stringify({ language: "Solidity", sources, settings: contract.compilerSettings || {} })}}`;
+          }
+          const libraries = Object.entries((contract.libraries as Record<string, string>) || {})
+            .map(([name, libAddress]) => `${name.split(":").pop()}:${libAddress}`)
+            .join(";");
+
           return res.json(etherscanResponse("1", "OK", [{
-            SourceCode: contract.sourceCode,
+            SourceCode: sourceCode,
             ABI: JSON.stringify(contract.abi),
             ContractName: contract.name,
             CompilerVersion: `v${contract.compilerVersion}`,
@@ -2073,7 +2886,7 @@ export async function registerRoutes(
             Runs: String(contract.runs || 200),
             ConstructorArguments: contract.constructorArgs || "",
             EVMVersion: contract.evmVersion || "default",
-            Library: "",
+            Library: libraries,
             LicenseType: contract.license || "",
             Proxy: "0",
             Implementation: "",
@@ -2088,16 +2901,64 @@ export async function registerRoutes(
             return res.json(etherscanResponse("0", "NOTOK", "Missing guid parameter"));
           }
           
-          // For now, verification is synchronous, so we check if contract exists
-          // The guid format is "address-timestamp"
-          const address = guid.split("-")[0];
-          const contract = await storage.getVerifiedContract(address);
-          
-          if (contract) {
-            return res.json(etherscanResponse("1", "OK", "Pass - Verified"));
-          } else {
-            return res.json(etherscanResponse("0", "NOTOK", "Pending in queue"));
+          const job = await storage.getVerificationJobByGuid(guid);
+          if (!job) {
+            return res.json(etherscanResponse("0", "NOTOK", "Unknown UID"));
           }
+
+          // Tooling (hardhat-verify, forge) keeps polling only while result is exactly "Pending in queue"
+          const progress = { state: job.status, attempts: job.attempts };
+          if (job.status === "pending" || job.status === "compiling") {
+            return res.json({ ...etherscanResponse("0", "NOTOK", "Pending in queue"), ...progress });
+          }
+          if (job.status === "pass") {
+            return res.json({ ...etherscanResponse("1", "OK", "Pass - Verified"), ...progress, matchType: job.matchType });
+          }
+          return res.json({
+            ...etherscanResponse("0", "NOTOK", `Fail - Unable to verify. ${job.failureReason || "Unknown error"}`),
+            ...progress,
+          });
+        }
+
+        // Creator and creation transaction of up to 5 contracts
+        if (action === "getcontractcreation") {
+          const addresses = ((req.query.contractaddresses as string) || "")
+            .split(",")
+            .map((a) => a.trim().toLowerCase())
+            .filter(Boolean);
+          if (addresses.length === 0) {
+            return res.json(etherscanResponse("0", "NOTOK", "Missing contractaddresses parameter"));
+          }
+          if (addresses.length > 5 || addresses.some((a) => !/^0x[a-f0-9]{40}$/.test(a))) {
+            return res.json(etherscanResponse("0", "NOTOK", "Invalid contractaddresses parameter (up to 5 comma-separated addresses)"));
+          }
+
+          const creations = await storage.getContractCreations(addresses);
+          if (creations.length === 0) {
+            return res.json(etherscanResponse("0", "No data found", null));
+          }
+
+          const result = await Promise.all(creations.map(async (creation) => {
+            let creationBytecode = "";
+            if (creation.factoryAddress) {
+              const frames = await storage.getInternalTransactionsByTxHash(creation.transactionHash);
+              const frame = frames.find((f) => f.type.startsWith("CREATE") && f.to?.toLowerCase() === creation.contractAddress);
+              creationBytecode = frame?.input || "";
+            } else {
+              const tx = await storage.getTransactionByHash(creation.transactionHash);
+              creationBytecode = tx?.input || "";
+            }
+            return {
+              contractAddress: creation.contractAddress,
+              contractCreator: creation.creatorAddress,
+              txHash: creation.transactionHash,
+              blockNumber: String(creation.blockNumber),
+              timestamp: String(Math.floor(new Date(creation.timestamp).getTime() / 1000)),
+              contractFactory: creation.factoryAddress || "",
+              creationBytecode,
+            };
+          }));
+          return res.json(etherscanResponse("1", "OK", result));
         }
       }
 
@@ -2114,6 +2975,46 @@ export async function registerRoutes(
           return res.json(etherscanResponse("1", "OK", addressData?.balance || "0"));
         }
 
+        // Get historical balance at a block
+        if (action === "balancehistory") {
+          const address = req.query.address as string;
+          const blockno = parseInt(req.query.blockno as string);
+          if (!address || isNaN(blockno)) {
+            return res.json(etherscanResponse("0", "NOTOK", "Missing address or blockno parameter"));
+          }
+
+          const result = await getBalanceAtBlock(address.toLowerCase(), blockno);
+          if (!result) {
+            return res.json(etherscanResponse("0", "NOTOK", "Balance not available for this block"));
+          }
+          return res.json(etherscanResponse("1", "OK", result.balance));
+        }
+
+        // Get historical token balance at a block
+        if (action === "tokenbalancehistory") {
+          const address = req.query.address as string;
+          const contractAddress = req.query.contractaddress as string;
+          const blockno = parseInt(req.query.blockno as string);
+          if (!address || !contractAddress || isNaN(blockno)) {
+            return res.json(etherscanResponse("0", "NOTOK", "Missing address, contractaddress or blockno parameter"));
+          }
+          const tokenId = req.query.tokenid as string | undefined;
+          if (tokenId !== undefined && !tokenIdSchema.safeParse(tokenId).success) {
+            return res.json(etherscanResponse("0", "NOTOK", "Invalid tokenid parameter"));
+          }
+
+          // Without a tokenid an ERC-721 balance is the number of tokens held, as balanceOf reports it;
+          // ERC-1155 balances only exist per id
+          const token = tokenId === undefined ? await storage.getTokenByAddress(contractAddress) : undefined;
+          if (token?.tokenType === "ERC1155") {
+            return res.json(etherscanResponse("0", "NOTOK", "Missing tokenid parameter for an ERC-1155 token"));
+          }
+          const result = token?.tokenType === "ERC721"
+            ? await storage.getNftBalanceAt(contractAddress, address, blockno)
+            : await storage.getTokenBalanceAt(contractAddress, address, tokenId ?? null, blockno);
+          return res.json(etherscanResponse("1", "OK", result.balance));
+        }
+
         // Get transaction list
         if (action === "txlist") {
           const address = req.query.address as string;
@@ -2248,75 +3149,40 @@ export async function registerRoutes(
 
       // Proxy Module (JSON-RPC passthrough)
       if (module === "proxy") {
-        const RPC_URL = process.env.EVM_RPC_URL || "https://rpc.telemeet.space";
+        // Sent through the chain's endpoint pool so proxy calls fail over like the indexer does
+        const provider = await getIndexer().getProvider();
         
         if (action === "eth_blocknumber") {
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_blockNumber", params: [], id: 1 }),
-          });
-          const data = await response.json();
-          return res.json(etherscanResponse("1", "OK", data.result));
+          return res.json(etherscanResponse("1", "OK", await provider.send("eth_blockNumber", [])));
         }
 
         if (action === "eth_getblockbynumber") {
           const tag = req.query.tag as string;
           const boolean = req.query.boolean === "true";
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_getBlockByNumber", params: [tag, boolean], id: 1 }),
-          });
-          const data = await response.json();
-          return res.json(etherscanResponse("1", "OK", data.result));
+          return res.json(etherscanResponse("1", "OK", await provider.send("eth_getBlockByNumber", [tag, boolean])));
         }
 
         if (action === "eth_gettransactionbyhash") {
           const txhash = req.query.txhash as string;
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_getTransactionByHash", params: [txhash], id: 1 }),
-          });
-          const data = await response.json();
-          return res.json(etherscanResponse("1", "OK", data.result));
+          return res.json(etherscanResponse("1", "OK", await provider.send("eth_getTransactionByHash", [txhash])));
         }
 
         if (action === "eth_gettransactionreceipt") {
           const txhash = req.query.txhash as string;
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_getTransactionReceipt", params: [txhash], id: 1 }),
-          });
-          const data = await response.json();
-          return res.json(etherscanResponse("1", "OK", data.result));
+          return res.json(etherscanResponse("1", "OK", await provider.send("eth_getTransactionReceipt", [txhash])));
         }
 
         if (action === "eth_getcode") {
           const address = req.query.address as string;
           const tag = req.query.tag as string || "latest";
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_getCode", params: [address, tag], id: 1 }),
-          });
-          const data = await response.json();
-          return res.json(etherscanResponse("1", "OK", data.result));
+          return res.json(etherscanResponse("1", "OK", await provider.send("eth_getCode", [address, tag])));
         }
 
         if (action === "eth_call") {
           const to = req.query.to as string;
           const data = req.query.data as string;
           const tag = req.query.tag as string || "latest";
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_call", params: [{ to, data }, tag], id: 1 }),
-          });
-          const result = await response.json();
-          return res.json(etherscanResponse("1", "OK", result.result));
+          return res.json(etherscanResponse("1", "OK", await provider.send("eth_call", [{ to, data }, tag])));
         }
       }
 
@@ -2352,40 +3218,51 @@ export async function registerRoutes(
           return res.json(etherscanResponse("0", "NOTOK", "Missing required parameters"));
         }
 
-        // Parse ABI from source code if standard input JSON format
-        let abi: any[] = [];
-        let parsedSourceCode = sourceCode;
-        
-        if (codeformat === "solidity-standard-json-input") {
+        const isStandardJson = codeformat === "solidity-standard-json-input";
+        if (!/^0x[a-fA-F0-9]{40}$/.test(contractaddress)) {
+          return res.json(etherscanResponse("0", "NOTOK", "Invalid contract address format"));
+        }
+
+        const existing = await storage.getVerifiedContract(contractaddress);
+        if (existing?.verificationStatus === "full") {
+          return res.json(etherscanResponse("0", "NOTOK", "Contract source code already verified"));
+        }
+
+        // Etherscan passes single-file libraries as libraryname1..10 / libraryaddress1..10
+        const libraries: Record<string, string> = {};
+        for (let i = 1; i <= 10; i++) {
+          const libName = req.body[`libraryname${i}`];
+          const libAddress = req.body[`libraryaddress${i}`];
+          if (libName && libAddress) libraries[libName] = libAddress;
+        }
+
+        let input: any;
+        if (isStandardJson) {
           try {
-            const jsonInput = JSON.parse(sourceCode);
-            parsedSourceCode = JSON.stringify(jsonInput);
+            input = typeof sourceCode === "string" ? JSON.parse(sourceCode) : sourceCode;
           } catch {
-            // Not JSON, use as-is
+            return res.json(etherscanResponse("0", "NOTOK", "Invalid standard JSON input"));
           }
         }
 
-        // For now, we accept the verification without actual compilation
-        // In production, you'd integrate with solc or Sourcify
-        const guid = `${contractaddress}-${Date.now()}`;
-
-        // Store verification request (would normally queue for async processing)
-        try {
-          await storage.createVerifiedContract({
-            contractAddress: contractaddress,
-            name: contractname.split(":").pop() || contractname,
-            sourceCode: parsedSourceCode,
-            compilerVersion: compilerversion.replace("v", "").split("+")[0],
-            evmVersion: evmversion || "paris",
-            optimization: optimizationUsed === "1",
-            runs: parseInt(runs) || 200,
-            constructorArgs: constructorArguements || "",
-            abi: abi,
-            license: licenseType || "",
-          });
-        } catch (err: any) {
-          return res.json(etherscanResponse("0", "NOTOK", `Verification failed: ${err.message}`));
-        }
+        const job = await verificationQueue.enqueue({
+          contractAddress: contractaddress,
+          contractName: contractname,
+          compilerVersion: compilerversion,
+          sourceFormat: isStandardJson ? "solidity-standard-json-input" : "solidity-single-file",
+          payload: isStandardJson
+            ? { input }
+            : {
+                sourceCode,
+                evmVersion: evmversion,
+                optimization: optimizationUsed === "1",
+                runs: parseInt(runs) || 200,
+                libraries,
+              },
+          constructorArgs: constructorArguements,
+          license: licenseType,
+        });
+        const guid = job.guid;
 
         return res.json(etherscanResponse("1", "OK", guid));
       }
@@ -0,0 +1,223 @@
+import { ethers } from "ethers";
+import type { RpcEndpointHealth, RpcEndpointRole } from "@shared/schema";
+
+// Concurrent calls made within batchStallTime are sent as one JSON-RPC batch request
+const BATCH_STALL_TIME = 10;
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Weight of the newest sample in the latency and error-rate moving averages
+const EWMA_WEIGHT = 0.2;
+// An endpoint that fails this many requests in a row is skipped until its cooldown expires
+const FAILURES_BEFORE_COOLDOWN = 3;
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 120000;
+
+const TRACING_METHOD = /^(debug|trace)_/;
+// Position of the block tag for state reads that need an archive node once they target a past block
+const HISTORICAL_STATE_METHODS: Record<string, number> = {
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_call: 1,
+};
+
+// Endpoint roles tried for each kind of call, most preferred first
+const ROUTES: Record<RpcEndpointRole, RpcEndpointRole[]> = {
+  general: ["general", "archive", "tracing"],
+  archive: ["archive", "general", "tracing"],
+  tracing: ["tracing"],
+};
+
+export interface RpcEndpointConfig {
+  id?: string;
+  url: string;
+  role: RpcEndpointRole;
+}
+
+interface PooledEndpoint extends RpcEndpointConfig {
+  primary: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  errors: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  downUntil: number;
+}
+
+function routeOf(payload: ethers.JsonRpcPayload): RpcEndpointRole {
+  if (TRACING_METHOD.test(payload.method)) return "tracing";
+  const tagIndex = HISTORICAL_STATE_METHODS[payload.method];
+  if (tagIndex === undefined) return "general";
+  const tag = Array.isArray(payload.params) ? payload.params[tagIndex] : undefined;
+  return typeof tag === "string" && tag.startsWith("0x") ? "archive" : "general";
+}
+
+// Lower is better: slow endpoints and endpoints that recently failed sort last
+function score(endpoint: PooledEndpoint): number {
+  return ((endpoint.latencyMs ?? 0) + 1) * (1 + 4 * endpoint.errorRate);
+}
+
+// The RPC endpoints of one chain. Calls go to the healthiest endpoint whose role fits the method and
+// fail over to the next one on transport errors; JSON-RPC errors are returned to the caller as usual.
+export class RpcEndpointPool {
+  private endpoints: PooledEndpoint[] = [];
+  private onRequest: (calls: number) => void;
+
+  constructor(primaryUrl: string, extra: RpcEndpointConfig[], onRequest: (calls: number) => void) {
+    this.onRequest = onRequest;
+    this.setEndpoints(primaryUrl, extra);
+  }
+
+  get primaryUrl(): string {
+    return this.endpoints[0].url;
+  }
+
+  // Endpoints that stay configured keep their health history
+  setEndpoints(primaryUrl: string, extra: RpcEndpointConfig[]): void {
+    const configs = [
+      { url: primaryUrl, role: "general" as RpcEndpointRole, primary: true },
+      ...extra.filter((e) => e.url !== primaryUrl).map((e) => ({ ...e, primary: false })),
+    ];
+    this.endpoints = configs.map((config) => {
+      const existing = this.endpoints.find((e) => e.url === config.url && e.role === config.role);
+      if (existing) return { ...existing, id: config.id, primary: config.primary };
+      return {
+        ...config,
+        latencyMs: null,
+        errorRate: 0,
+        requests: 0,
+        errors: 0,
+        consecutiveFailures: 0,
+        lastError: null,
+        lastErrorAt: null,
+        downUntil: 0,
+      };
+    });
+  }
+
+  async send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const groups = new Map<RpcEndpointRole, ethers.JsonRpcPayload[]>();
+    for (const p of payloads) {
+      const route = routeOf(p);
+      groups.set(route, [...(groups.get(route) || []), p]);
+    }
+
+    const results = await Promise.all(
+      Array.from(groups).map(([route, group]) => this.sendWithFailover(route, group))
+    );
+    return results.flat();
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((e) => ({
+      id: e.id || null,
+      url: e.url,
+      role: e.role,
+      primary: e.primary,
+      healthy: e.downUntil <= now,
+      latencyMs: e.latencyMs === null ? null : Math.round(e.latencyMs),
+      errorRate: Math.round(e.errorRate * 1000) / 1000,
+      requests: e.requests,
+      errors: e.errors,
+      lastError: e.lastError,
+      lastErrorAt: e.lastErrorAt?.toISOString() || null,
+      downUntil: e.downUntil > now ? new Date(e.downUntil).toISOString() : null,
+    }));
+  }
+
+  // Healthy endpoints first, then by role preference, then by score. Endpoints in cooldown stay
+  // at the end as a last resort so a fully degraded pool still recovers on its own.
+  private candidates(route: RpcEndpointRole): PooledEndpoint[] {
+    let roles = ROUTES[route];
+    // Without a dedicated tracing endpoint, trace calls go wherever general calls go
+    if (route === "tracing" && !this.endpoints.some((e) => e.role === "tracing")) roles = ROUTES.general;
+
+    const now = Date.now();
+    return this.endpoints
+      .filter((e) => roles.includes(e.role))
+      .sort((a, b) => {
+        const healthy = Number(b.downUntil <= now) - Number(a.downUntil <= now);
+        if (healthy !== 0) return healthy;
+        const role = roles.indexOf(a.role) - roles.indexOf(b.role);
+        return role !== 0 ? role : score(a) - score(b);
+      });
+  }
+
+  private async sendWithFailover(route: RpcEndpointRole, payloads: ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult>> {
+    let lastError: any = new Error(`No RPC endpoint configured for ${route} calls`);
+    for (const endpoint of this.candidates(route)) {
+      const started = Date.now();
+      try {
+        this.onRequest(payloads.length);
+        const results = await this.post(endpoint.url, payloads);
+        this.recordSuccess(endpoint, Date.now() - started);
+        return results;
+      } catch (error: any) {
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private async post(url: string, payloads: ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult>> {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = REQUEST_TIMEOUT_MS;
+    request.body = JSON.stringify(payloads.length === 1 ? payloads[0] : payloads);
+    request.setHeader("content-type", "application/json");
+
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    return Array.isArray(body) ? body : [body];
+  }
+
+  private recordSuccess(endpoint: PooledEndpoint, latencyMs: number): void {
+    endpoint.requests++;
+    endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs + EWMA_WEIGHT * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate -= EWMA_WEIGHT * endpoint.errorRate;
+    endpoint.consecutiveFailures = 0;
+    endpoint.downUntil = 0;
+  }
+
+  private recordFailure(endpoint: PooledEndpoint, error: any): void {
+    endpoint.requests++;
+    endpoint.errors++;
+    endpoint.errorRate += EWMA_WEIGHT * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error?.shortMessage || error?.message || String(error);
+    endpoint.lastErrorAt = new Date();
+    if (endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      const cooldown = BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - FAILURES_BEFORE_COOLDOWN);
+      endpoint.downUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN_MS);
+    }
+  }
+}
+
+// JsonRpcProvider whose requests are served by an endpoint pool instead of a single URL
+export class PooledJsonRpcProvider extends ethers.JsonRpcProvider {
+  private pool: RpcEndpointPool;
+
+  constructor(pool: RpcEndpointPool, batchMaxCount: number) {
+    super(pool.primaryUrl, undefined, { batchMaxCount, batchStallTime: BATCH_STALL_TIME });
+    this.pool = pool;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    return this.pool.send(payload);
+  }
+}
+
+export function isMethodUnsupported(error: any): boolean {
+  const msg = error?.message?.toLowerCase() || "";
+  return msg.includes("method not found") ||
+    msg.includes("not supported") ||
+    msg.includes("unknown method") ||
+    msg.includes("does not exist") ||
+    msg.includes("not available");
+}
@@ -0,0 +1,297 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { log } from "./index";
+import type { InsertSignature, Signature } from "@shared/schema";
+
+// Local 4byte-style dump loaded into the registry on startup (re-imported whenever the file changes)
+const SIGNATURE_DUMP_PATH = process.env.SIGNATURE_DUMP_PATH || path.resolve(process.cwd(), "signatures", "4byte.json");
+const DUMP_FINGERPRINT_KEY = "signature_dump_fingerprint";
+
+export type SignatureKind = "function" | "event" | "error";
+export type SignatureSource = "builtin" | "dump" | "abi" | "import";
+
+// Lower rank wins when a selector has several candidate signatures and none is marked preferred
+const SOURCE_RANK: Record<string, number> = { builtin: 0, import: 1, abi: 2, dump: 3 };
+
+const BUILTIN_SIGNATURES: { signature: string; category: string }[] = [
+  { signature: "transfer(address,uint256)", category: "token" },
+  { signature: "transferFrom(address,address,uint256)", category: "token" },
+  { signature: "approve(address,uint256)", category: "token" },
+  { signature: "balanceOf(address)", category: "token" },
+  { signature: "allowance(address,address)", category: "token" },
+  { signature: "totalSupply()", category: "token" },
+  { signature: "decimals()", category: "token" },
+  { signature: "name()", category: "token" },
+  { signature: "symbol()", category: "token" },
+
+  { signature: "safeTransferFrom(address,address,uint256)", category: "nft" },
+  { signature: "safeTransferFrom(address,address,uint256,bytes)", category: "nft" },
+  { signature: "setApprovalForAll(address,bool)", category: "nft" },
+  { signature: "ownerOf(uint256)", category: "nft" },
+  { signature: "isApprovedForAll(address,address)", category: "nft" },
+  { signature: "getApproved(uint256)", category: "nft" },
+  { signature: "tokenURI(uint256)", category: "nft" },
+
+  { signature: "deposit()", category: "defi" },
+  { signature: "withdraw(uint256)", category: "defi" },
+  { signature: "deposit(uint256,uint256)", category: "defi" },
+  { signature: "withdraw(uint256,uint256)", category: "defi" },
+  { signature: "deposit(uint256,string)", category: "defi" },
+  { signature: "addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)", category: "defi" },
+  { signature: "addLiquidityETH(address,uint256,uint256,uint256,address,uint256)", category: "defi" },
+  { signature: "removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)", category: "defi" },
+  { signature: "removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)", category: "defi" },
+  { signature: "swapExactTokensForTokens(uint256,uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapExactETHForTokens(uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapExactTokensForETH(uint256,uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapETHForExactTokens(uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapTokensForExactTokens(uint256,uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapTokensForExactETH(uint256,uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapExactETHForTokensSupportingFeeOnTransferTokens(uint256,address[],address,uint256)", category: "defi" },
+  { signature: "swapExactTokensForETHSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)", category: "defi" },
+
+  { signature: "initialize()", category: "proxy" },
+  { signature: "initialize(address)", category: "proxy" },
+  { signature: "initialize(uint256)", category: "proxy" },
+  { signature: "upgradeTo(address)", category: "proxy" },
+  { signature: "upgradeToAndCall(address,bytes)", category: "proxy" },
+
+  { signature: "owner()", category: "ownership" },
+  { signature: "renounceOwnership()", category: "ownership" },
+  { signature: "transferOwnership(address)", category: "ownership" },
+
+  { signature: "withdraw()", category: "common" },
+  { signature: "getBalance()", category: "common" },
+  { signature: "pause()", category: "common" },
+  { signature: "unpause()", category: "common" },
+  { signature: "paused()", category: "common" },
+  { signature: "mint()", category: "common" },
+  { signature: "mint(uint256)", category: "common" },
+  { signature: "mint(address,uint256)", category: "common" },
+  { signature: "burn(uint256)", category: "common" },
+  { signature: "burnFrom(address,uint256)", category: "common" },
+
+  { signature: "execute(bytes,bytes[],uint256)", category: "uniswap" },
+  { signature: "multicall(uint256,bytes[])", category: "uniswap" },
+  { signature: "exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))", category: "uniswap" },
+  { signature: "exactInput((bytes,address,uint256,uint256))", category: "uniswap" },
+  { signature: "exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))", category: "uniswap" },
+  { signature: "exactOutput((bytes,address,uint256,uint256))", category: "uniswap" },
+
+  { signature: "claim()", category: "airdrop" },
+  { signature: "claim(uint256)", category: "airdrop" },
+  { signature: "claim(uint256,address,uint256,bytes32[])", category: "airdrop" },
+
+  { signature: "onERC721Received(address,address,uint256,bytes)", category: "callback" },
+  { signature: "onERC1155Received(address,address,uint256,uint256,bytes)", category: "callback" },
+  { signature: "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)", category: "callback" },
+];
+
+// Selectors the explorer has long labelled whose full signatures are unknown. They are stored by name alone,
+// with a "name(...)" text signature, and lose to any real signature registered for the same selector.
+const NAME_ONLY_SUFFIX = "(...)";
+const NAME_ONLY_SIGNATURES: { selector: string; name: string; category: string }[] = [
+  { selector: "0x5fbfb9cf", name: "initialize", category: "proxy" },
+  { selector: "0x0d58e9ad", name: "claim", category: "airdrop" },
+];
+
+export interface ParsedSignatureFile {
+  entries: InsertSignature[];
+  invalid: number;
+}
+
+function normalizeSignature(kind: SignatureKind, signature: string): string | null {
+  try {
+    const fragment = kind === "event"
+      ? ethers.EventFragment.from(signature.replace(/^event\s+/, ""))
+      : kind === "error"
+        ? ethers.ErrorFragment.from(signature.replace(/^error\s+/, ""))
+        : ethers.FunctionFragment.from(signature.replace(/^function\s+/, ""));
+    return fragment.format("sighash");
+  } catch {
+    return null;
+  }
+}
+
+function selectorFor(kind: SignatureKind, textSignature: string): string {
+  const hash = ethers.id(textSignature);
+  return kind === "event" ? hash : hash.slice(0, 10);
+}
+
+function buildEntry(
+  textSignature: string,
+  source: SignatureSource,
+  options: { kind?: SignatureKind; selector?: string; category?: string | null } = {}
+): InsertSignature | null {
+  const kind: SignatureKind = options.kind || (options.selector?.length === 66 ? "event" : "function");
+  const normalized = normalizeSignature(kind, textSignature.trim());
+  if (!normalized) return null;
+
+  const selector = selectorFor(kind, normalized);
+  if (options.selector && options.selector.toLowerCase() !== selector) return null;
+
+  return {
+    selector,
+    kind,
+    name: normalized.slice(0, normalized.indexOf("(")),
+    textSignature: normalized,
+    category: options.category || null,
+    source,
+    isPreferred: false,
+  };
+}
+
+// Accepts 4byte-style dumps: a JSON map of selector -> signature(s), a JSON array of strings or
+// { hex_signature, text_signature } objects, or text with one "selector,signature" (or bare signature) per line
+export function parseSignatureFile(content: string, source: SignatureSource, kind?: SignatureKind): ParsedSignatureFile {
+  const entries: InsertSignature[] = [];
+  let invalid = 0;
+
+  const add = (signature: unknown, selector?: string) => {
+    const entry = typeof signature === "string" ? buildEntry(signature, source, { kind, selector }) : null;
+    if (entry) entries.push(entry);
+    else invalid++;
+  };
+
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const json = JSON.parse(trimmed);
+    if (Array.isArray(json)) {
+      for (const item of json) {
+        if (typeof item === "string") add(item);
+        else add(item?.text_signature ?? item?.signature, item?.hex_signature ?? item?.selector);
+      }
+    } else {
+      for (const [selector, value] of Object.entries(json)) {
+        for (const signature of Array.isArray(value) ? value : [value]) add(signature, selector);
+      }
+    }
+    return { entries, invalid };
+  }
+
+  for (const rawLine of trimmed.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const match = line.match(/^(0x[0-9a-fA-F]{8}|0x[0-9a-fA-F]{64})[\s,;:]+(.+)$/);
+    if (match) add(match[2], match[1]);
+    else add(line);
+  }
+  return { entries, invalid };
+}
+
+// Method names are resolved for every indexed transaction, so keep recent answers in memory
+const MAX_CACHED_NAMES = 10000;
+const methodNameCache = new Map<string, string | null>();
+
+function invalidateCache() {
+  methodNameCache.clear();
+}
+
+export function pickSignature(rows: Signature[]): Signature | null {
+  if (rows.length === 0) return null;
+  return [...rows].sort((a, b) =>
+    Number(b.isPreferred) - Number(a.isPreferred) ||
+    Number(a.textSignature.endsWith(NAME_ONLY_SUFFIX)) - Number(b.textSignature.endsWith(NAME_ONLY_SUFFIX)) ||
+    (SOURCE_RANK[a.source] ?? 9) - (SOURCE_RANK[b.source] ?? 9) ||
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  )[0];
+}
+
+export async function resolveSignature(selector: string): Promise<{ preferred: Signature | null; signatures: Signature[] }> {
+  const signatures = await storage.getSignaturesBySelector(selector.toLowerCase());
+  return { preferred: pickSignature(signatures), signatures };
+}
+
+// Preferred signature for each selector that has one, for pages that label many transactions at once
+export async function resolveSignatures(selectors: string[]): Promise<Map<string, Signature>> {
+  const bySelector = new Map<string, Signature[]>();
+  for (const row of await storage.getSignaturesBySelectors(selectors)) {
+    const rows = bySelector.get(row.selector) || [];
+    rows.push(row);
+    bySelector.set(row.selector, rows);
+  }
+
+  const resolved = new Map<string, Signature>();
+  for (const [selector, rows] of Array.from(bySelector)) {
+    const preferred = pickSignature(rows);
+    if (preferred) resolved.set(selector, preferred);
+  }
+  return resolved;
+}
+
+export async function resolveMethodName(selector: string): Promise<string | null> {
+  const key = selector.toLowerCase();
+  if (methodNameCache.has(key)) return methodNameCache.get(key)!;
+
+  const { preferred } = await resolveSignature(key);
+  const name = preferred?.kind === "function" ? preferred.name : null;
+
+  if (methodNameCache.size >= MAX_CACHED_NAMES) methodNameCache.clear();
+  methodNameCache.set(key, name);
+  return name;
+}
+
+export async function importSignatures(entries: InsertSignature[]): Promise<number> {
+  const inserted = await storage.insertSignatures(entries);
+  if (inserted > 0) invalidateCache();
+  return inserted;
+}
+
+export async function setPreferredSignature(id: string): Promise<Signature | undefined> {
+  const signature = await storage.setPreferredSignature(id);
+  invalidateCache();
+  return signature;
+}
+
+// Adds every function, event and custom error of a verified ABI
+export async function registerAbiSignatures(abi: any[]): Promise<number> {
+  let iface: ethers.Interface;
+  try {
+    iface = new ethers.Interface(abi);
+  } catch {
+    return 0;
+  }
+
+  const entries: InsertSignature[] = [];
+  iface.forEachFunction((fragment) => {
+    const entry = buildEntry(fragment.format("sighash"), "abi", { kind: "function" });
+    if (entry) entries.push(entry);
+  });
+  iface.forEachEvent((fragment) => {
+    const entry = buildEntry(fragment.format("sighash"), "abi", { kind: "event" });
+    if (entry) entries.push(entry);
+  });
+  iface.forEachError((fragment) => {
+    const entry = buildEntry(fragment.format("sighash"), "abi", { kind: "error" });
+    if (entry) entries.push(entry);
+  });
+
+  return entries.length > 0 ? importSignatures(entries) : 0;
+}
+
+export async function seedSignatureRegistry(): Promise<void> {
+  const builtin = BUILTIN_SIGNATURES
+    .map(({ signature, category }) => buildEntry(signature, "builtin", { kind: "function", category }))
+    .filter((e): e is InsertSignature => e !== null);
+  for (const { selector, name, category } of NAME_ONLY_SIGNATURES) {
+    builtin.push({ selector, kind: "function", name, textSignature: name + NAME_ONLY_SUFFIX, category, source: "builtin", isPreferred: false });
+  }
+  await importSignatures(builtin);
+
+  if (!fs.existsSync(SIGNATURE_DUMP_PATH)) return;
+
+  const stat = fs.statSync(SIGNATURE_DUMP_PATH);
+  const fingerprint = `${stat.size}:${Math.floor(stat.mtimeMs)}`;
+  const previous = await storage.getSiteSetting(DUMP_FINGERPRINT_KEY);
+  if (previous?.value === fingerprint) return;
+
+  log(`Importing signature dump ${SIGNATURE_DUMP_PATH}`, "signatures");
+  const { entries, invalid } = parseSignatureFile(fs.readFileSync(SIGNATURE_DUMP_PATH, "utf-8"), "dump");
+  const inserted = await importSignatures(entries);
+  await storage.upsertSiteSetting(DUMP_FINGERPRINT_KEY, fingerprint, "signatures");
+  log(`Signature dump imported: ${inserted} new, ${entries.length - inserted} existing, ${invalid} invalid`, "signatures");
+}
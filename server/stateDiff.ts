@@ -0,0 +1,297 @@
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { EIP1967_ADMIN_SLOT, EIP1967_BEACON_SLOT, EIP1967_IMPLEMENTATION_SLOT, EIP1822_PROXIABLE_SLOT } from "./proxyDetector";
+import type { AccountStateDiff, StorageSlotChange, StorageVariableChange } from "@shared/schema";
+
+const ZERO_WORD = "0x" + "0".repeat(64);
+// Mapping keys are guessed from words seen in the transaction; nested mappings hash every pair of them
+const MAX_CANDIDATE_KEYS = 64;
+const MAX_MAPPING_DEPTH = 2;
+const MAX_STATIC_ARRAY_ELEMENTS = 256;
+// Slots this far past the start of a dynamic array are not treated as its elements
+const MAX_DYNAMIC_ARRAY_SLOTS = BigInt(1000000);
+
+const PROXY_SLOTS: Record<string, { label: string; type: string }> = {
+  [EIP1967_IMPLEMENTATION_SLOT]: { label: "EIP-1967 implementation", type: "address" },
+  [EIP1967_ADMIN_SLOT]: { label: "EIP-1967 admin", type: "address" },
+  [EIP1967_BEACON_SLOT]: { label: "EIP-1967 beacon", type: "address" },
+  [EIP1822_PROXIABLE_SLOT]: { label: "EIP-1822 implementation", type: "address" },
+};
+
+// solc storageLayout output
+interface LayoutEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface LayoutType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: LayoutEntry[];
+}
+
+interface StorageLayout {
+  storage: LayoutEntry[];
+  types: Record<string, LayoutType> | null;
+}
+
+interface SlotVariable {
+  label: string;
+  type: string;
+  offset: number;
+  numberOfBytes: number;
+}
+
+interface ArrayRange {
+  label: string;
+  start: bigint;
+  elementType: string;
+}
+
+export interface PrestateDiff {
+  pre: Record<string, PrestateAccount>;
+  post: Record<string, PrestateAccount>;
+}
+
+interface PrestateAccount {
+  balance?: string;
+  nonce?: number;
+  code?: string;
+  storage?: Record<string, string>;
+}
+
+function toWord(value: string | bigint | undefined): string {
+  const n = typeof value === "bigint" ? value : BigInt(value || "0x0");
+  return "0x" + n.toString(16).padStart(64, "0");
+}
+
+function slotHash(...words: string[]): bigint {
+  return BigInt(ethers.keccak256(ethers.concat(words)));
+}
+
+function decodeVariable(word: string, variable: SlotVariable): string {
+  const bits = BigInt(variable.numberOfBytes * 8);
+  const raw = (BigInt(word) >> BigInt(variable.offset * 8)) & ((BigInt(1) << bits) - BigInt(1));
+  const type = variable.type;
+
+  if (type === "bool") return raw === BigInt(0) ? "false" : "true";
+  if (type === "address" || type === "address payable" || type.startsWith("contract ")) {
+    return "0x" + raw.toString(16).padStart(40, "0");
+  }
+  if (/^int\d*$/.test(type)) {
+    return (raw >= BigInt(1) << (bits - BigInt(1)) ? raw - (BigInt(1) << bits) : raw).toString();
+  }
+  if (/^uint\d*$/.test(type) || type.startsWith("enum ")) return raw.toString();
+  return "0x" + raw.toString(16).padStart(variable.numberOfBytes * 2, "0");
+}
+
+function formatKey(word: string, keyType: string): string {
+  if (keyType === "address" || keyType.startsWith("contract ")) return "0x" + word.slice(26);
+  if (/^u?int\d*$/.test(keyType) || keyType.startsWith("enum ")) return BigInt.asIntN(256, BigInt(word)).toString();
+  return word;
+}
+
+// Maps slots to the variables stored in them. Mapping entries can only be found for keys that appear in the
+// transaction, since storage only holds the hashes.
+class SlotResolver {
+  private types: Record<string, LayoutType>;
+  private keys: string[];
+  private slots = new Map<bigint, SlotVariable[]>();
+  private arrays: ArrayRange[] = [];
+
+  constructor(layout: StorageLayout, keys: string[]) {
+    this.types = layout.types || {};
+    this.keys = keys;
+    for (const entry of layout.storage) this.place(entry.label, entry.type, BigInt(entry.slot), entry.offset, 0);
+  }
+
+  resolve(slot: string): SlotVariable[] | null {
+    const n = BigInt(slot);
+    const exact = this.slots.get(n);
+    if (exact) return exact;
+
+    for (const array of this.arrays) {
+      if (n < array.start || n - array.start > MAX_DYNAMIC_ARRAY_SLOTS) continue;
+      const element = this.types[array.elementType];
+      if (!element) continue;
+      const elementBytes = Number(element.numberOfBytes);
+      const distance = n - array.start;
+
+      const found = new SlotResolver({ storage: [], types: this.types }, []);
+      if (elementBytes >= 32) {
+        const slotsPerElement = BigInt(Math.ceil(elementBytes / 32));
+        const index = distance / slotsPerElement;
+        found.place(`${array.label}[${index}]`, array.elementType, array.start + index * slotsPerElement, 0, MAX_MAPPING_DEPTH);
+      } else {
+        const perSlot = Math.floor(32 / elementBytes);
+        for (let i = 0; i < perSlot; i++) {
+          const index = distance * BigInt(perSlot) + BigInt(i);
+          found.place(`${array.label}[${index}]`, array.elementType, n, i * elementBytes, MAX_MAPPING_DEPTH);
+        }
+      }
+      const variables = found.slots.get(n);
+      if (variables) return variables;
+    }
+    return null;
+  }
+
+  private add(slot: bigint, variable: SlotVariable): void {
+    const list = this.slots.get(slot) || [];
+    list.push(variable);
+    this.slots.set(slot, list);
+  }
+
+  private place(label: string, typeId: string, slot: bigint, offset: number, depth: number): void {
+    const type = this.types[typeId];
+    if (!type) return;
+
+    switch (type.encoding) {
+      case "mapping": {
+        if (depth >= MAX_MAPPING_DEPTH || !type.key || !type.value) return;
+        const keyType = this.types[type.key]?.label || "";
+        // Dynamic keys (string, bytes) are hashed unpadded and cannot be matched from words
+        if (keyType === "string" || keyType === "bytes") return;
+        for (const key of this.keys) {
+          this.place(`${label}[${formatKey(key, keyType)}]`, type.value, slotHash(key, toWord(slot)), 0, depth + 1);
+        }
+        return;
+      }
+      case "dynamic_array":
+        this.add(slot, { label: `${label}.length`, type: "uint256", offset: 0, numberOfBytes: 32 });
+        if (type.base) this.arrays.push({ label, start: slotHash(toWord(slot)), elementType: type.base });
+        return;
+      case "bytes":
+        this.add(slot, { label, type: type.label, offset: 0, numberOfBytes: 32 });
+        return;
+      default:
+        break;
+    }
+
+    if (type.members) {
+      for (const member of type.members) {
+        this.place(`${label}.${member.label}`, member.type, slot + BigInt(member.slot), member.offset, depth);
+      }
+      return;
+    }
+
+    if (type.base) {
+      const element = this.types[type.base];
+      const count = Number(type.label.match(/\[(\d+)\]$/)?.[1] || 0);
+      if (!element || count === 0) return;
+      const elementBytes = Number(element.numberOfBytes);
+      for (let i = 0; i < Math.min(count, MAX_STATIC_ARRAY_ELEMENTS); i++) {
+        if (elementBytes >= 32) {
+          this.place(`${label}[${i}]`, type.base, slot + BigInt(i * Math.ceil(elementBytes / 32)), 0, depth);
+        } else {
+          const perSlot = Math.floor(32 / elementBytes);
+          this.place(`${label}[${i}]`, type.base, slot + BigInt(Math.floor(i / perSlot)), (i % perSlot) * elementBytes, depth);
+        }
+      }
+      return;
+    }
+
+    this.add(slot, { label, type: type.label, offset, numberOfBytes: Number(type.numberOfBytes) });
+  }
+}
+
+function isLayout(value: any): value is StorageLayout {
+  return !!value && Array.isArray(value.storage);
+}
+
+// Layouts that describe an account's storage: a proxy's own variables and those of its implementation
+async function loadLayouts(address: string): Promise<{ contractName: string | null; layouts: StorageLayout[] }> {
+  const [contract, addressInfo] = await Promise.all([
+    storage.getVerifiedContract(address),
+    storage.getAddressByAddress(address),
+  ]);
+  const layouts: StorageLayout[] = [];
+  if (isLayout(contract?.storageLayout)) layouts.push(contract!.storageLayout as StorageLayout);
+  if (addressInfo?.implementationAddress) {
+    const implementation = await storage.getVerifiedContract(addressInfo.implementationAddress);
+    if (isLayout(implementation?.storageLayout)) layouts.push(implementation!.storageLayout as StorageLayout);
+  }
+  return { contractName: contract?.name || null, layouts };
+}
+
+function describeSlot(slot: string, before: string, after: string, resolvers: SlotResolver[]): StorageVariableChange[] | null {
+  const proxySlot = PROXY_SLOTS[slot];
+  const variables = proxySlot
+    ? [{ ...proxySlot, offset: 0, numberOfBytes: 20 }]
+    : resolvers.map((r) => r.resolve(slot)).find((v) => v !== null);
+  if (!variables) return null;
+
+  return variables
+    .map((variable) => ({
+      label: variable.label,
+      type: variable.type,
+      before: decodeVariable(before, variable),
+      after: decodeVariable(after, variable),
+    }))
+    // Packed slots list every variable in them; only the ones that changed are of interest
+    .filter((change, _i, all) => all.length === 1 || change.before !== change.after);
+}
+
+// Turns a prestateTracer diff into per-account changes. In diff mode the tracer omits unchanged fields and
+// zero storage values, and accounts missing from "post" were self-destructed.
+export async function buildStateDiff(diff: PrestateDiff, transactionWords: string[]): Promise<AccountStateDiff[]> {
+  const pre = diff.pre || {};
+  const post = diff.post || {};
+  const addresses = Array.from(new Set([...Object.keys(pre), ...Object.keys(post)].map((a) => a.toLowerCase())));
+  const lookup = (accounts: Record<string, PrestateAccount>, address: string) =>
+    Object.entries(accounts).find(([a]) => a.toLowerCase() === address)?.[1];
+
+  const keys = Array.from(new Set([...addresses.map((a) => toWord(a)), ...transactionWords.map((w) => toWord(w))]))
+    .slice(0, MAX_CANDIDATE_KEYS);
+
+  return await Promise.all(addresses.map(async (address): Promise<AccountStateDiff> => {
+    const before = lookup(pre, address);
+    const after = lookup(post, address);
+    const destroyed = !!before && !after;
+    const created = !before;
+
+    const slots = new Set([...Object.keys(before?.storage || {}), ...Object.keys(after?.storage || {})].map((s) => toWord(s)));
+    const storageWord = (account: PrestateAccount | undefined, slot: string) => {
+      const entry = Object.entries(account?.storage || {}).find(([s]) => toWord(s) === slot);
+      return toWord(entry?.[1]);
+    };
+    const changes = Array.from(slots)
+      .map((slot) => ({ slot, before: storageWord(before, slot), after: destroyed ? ZERO_WORD : storageWord(after, slot) }))
+      .filter((change) => change.before !== change.after);
+
+    let contractName: string | null = null;
+    let resolvers: SlotResolver[] = [];
+    if (changes.length > 0) {
+      const loaded = await loadLayouts(address).catch(() => ({ contractName: null, layouts: [] as StorageLayout[] }));
+      contractName = loaded.contractName;
+      resolvers = loaded.layouts.map((layout) => new SlotResolver(layout, keys));
+    }
+
+    const storageChanges: StorageSlotChange[] = changes
+      .map((change) => ({ ...change, variables: describeSlot(change.slot, change.before, change.after, resolvers) }))
+      .sort((a, b) => (a.slot < b.slot ? -1 : 1));
+
+    const balanceChanged = after?.balance !== undefined || (destroyed && !!before?.balance);
+    const nonceChanged = after?.nonce !== undefined;
+    const codeChanged = after?.code !== undefined || (destroyed && !!before?.code);
+
+    return {
+      address,
+      contractName,
+      created,
+      destroyed,
+      balance: balanceChanged
+        ? { before: BigInt(before?.balance || "0x0").toString(), after: BigInt(after?.balance || "0x0").toString() }
+        : null,
+      nonce: nonceChanged ? { before: before?.nonce ?? 0, after: after!.nonce! } : null,
+      code: codeChanged ? { before: before?.code || null, after: after?.code || null } : null,
+      storage: storageChanges,
+      hasStorageLayout: resolvers.length > 0,
+    };
+  }));
+}
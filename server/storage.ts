@@ -8,6 +8,7 @@ import {
   dailyStats,
   networkStats,
   indexerState,
+  indexerCheckpoints,
   users,
   verifiedContracts,
   internalTransactions,
@@ -19,6 +20,19 @@ import {
   chains,
   siteSettings,
   airdrops,
+  contractSourceFiles,
+  verificationJobs,
+  proxyUpgrades,
+  signatures,
+  orphanedBlocks,
+  rpcEndpoints,
+  pendingTransactions,
+  balanceSnapshots,
+  tokenBalanceChanges,
+  tokenApprovals,
+  transactionTraces,
+  contractCreations,
+  nftMetadataJobs,
   type Block,
   type Transaction,
   type Address,
@@ -28,6 +42,8 @@ import {
   type DailyStats,
   type NetworkStats,
   type IndexerState,
+  type IndexerCheckpoint,
+  type InsertIndexerCheckpoint,
   type User,
   type VerifiedContract,
   type InternalTransaction,
@@ -38,6 +54,24 @@ import {
   type Chain,
   type SiteSetting,
   type Airdrop,
+  type ContractSourceFile,
+  type VerificationJob,
+  type ProxyUpgrade,
+  type Signature,
+  type OrphanedBlock,
+  type RpcEndpoint,
+  type PendingTransaction,
+  type BalanceSnapshot,
+  type TokenBalanceChange,
+  type TokenApproval,
+  type InsertTokenApproval,
+  type TransactionTrace,
+  type InsertTransactionTrace,
+  type TransactionTracer,
+  type ContractCreation,
+  type InsertContractCreation,
+  type NftMetadataJob,
+  type InsertNftMetadataJob,
   type InsertBlock,
   type InsertTransaction,
   type InsertAddress,
@@ -56,10 +90,139 @@ import {
   type InsertChain,
   type InsertSiteSetting,
   type InsertAirdrop,
+  type InsertVerificationJob,
+  type InsertProxyUpgrade,
+  type InsertSignature,
+  type InsertRpcEndpoint,
+  type InsertPendingTransaction,
+  type InsertBalanceSnapshot,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, or, sql, and, gte, lte, count } from "drizzle-orm";
+import { eq, desc, asc, or, sql, and, gte, lt, lte, count, inArray, isNull, isNotNull, getTableColumns, type SQL, type Column } from "drizzle-orm";
 import { bech32 } from "bech32";
+import { currentChainId } from "./chainContext";
+import { parseTokenApproval, APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC } from "./approvalDecoder";
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Everything derived from a single block, persisted together by saveIndexedBlock
+export interface IndexedBlockData {
+  block: InsertBlock;
+  transactions: InsertTransaction[];
+  logs: InsertTransactionLog[];
+  tokenTransfers: InsertTokenTransfer[];
+  internalTransactions: InsertInternalTransaction[];
+  proxyUpgrades: InsertProxyUpgrade[];
+  // Balances read from the chain for non-standard tokens; holders of all other tokens are updated from the transfers
+  tokenHolders: InsertTokenHolder[];
+  balanceSnapshots: InsertBalanceSnapshot[];
+  tokenApprovals: InsertTokenApproval[];
+  contractCreations: InsertContractCreation[];
+  // Tokens whose metadata is fetched once the block is stored; existing jobs are left as they are
+  nftMetadataJobs: InsertNftMetadataJob[];
+}
+
+export interface TokenHolderRef {
+  tokenAddress: string;
+  holderAddress: string;
+  tokenType: string;
+  tokenId: string | null;
+}
+
+// What a reorg rollback removed, and the address balances and counters the caller must refresh from the chain.
+// Token holder balances are rolled back in place from their recorded balance changes.
+export interface ReorgRollback {
+  blocks: number;
+  transactions: number;
+  logs: number;
+  transfers: number;
+  internalTransactions: number;
+  affectedAddresses: string[];
+}
+
+export interface DeployedContractEntry extends ContractCreation {
+  contractName: string | null;
+}
+
+export interface TokenApprovalEntry extends TokenApproval {
+  tokenName: string | null;
+  tokenSymbol: string | null;
+  tokenDecimals: number | null;
+  tokenType: string | null;
+  spenderLabel: string | null;
+}
+
+export interface TokenBalanceHistoryEntry extends TokenBalanceChange {
+  // Holder balance after the block, summed from all recorded changes up to it
+  balance: string;
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+function addressTopic(address: string): string {
+  return "0x" + address.toLowerCase().slice(2).padStart(64, "0");
+}
+
+// Keeps multi-row inserts well below Postgres' 65535 bind parameter limit
+const INSERT_CHUNK_SIZE = 500;
+
+// Restricts a chain-scoped table to the chain of the current request or indexer
+function onChain(table: { chainId: Column }): SQL {
+  return eq(table.chainId, currentChainId());
+}
+
+function withChain<T extends object>(row: T): T & { chainId: number } {
+  return { ...row, chainId: currentChainId() };
+}
+
+function chunk<T>(rows: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    chunks.push(rows.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+function refOf(change: TokenBalanceChange): TokenHolderRef {
+  return { tokenAddress: change.tokenAddress, holderAddress: change.holderAddress, tokenType: change.tokenType, tokenId: change.tokenId };
+}
+
+function holderKey(ref: TokenHolderRef): string {
+  return `${ref.tokenAddress}:${ref.holderAddress}:${ref.tokenId ?? ""}`;
+}
+
+// ERC-20 rows have no token ID; ERC-721 and ERC-1155 rows hold one token ID each
+function sameTokenId(column: Column, tokenId: string | null): SQL {
+  return tokenId ? eq(column, tokenId) : isNull(column);
+}
+
+type BalanceDeltas = Map<string, { ref: TokenHolderRef; delta: bigint }>;
+
+function addDelta(deltas: BalanceDeltas, ref: TokenHolderRef, delta: bigint): void {
+  const key = holderKey(ref);
+  const existing = deltas.get(key);
+  if (existing) existing.delta += delta;
+  else deltas.set(key, { ref, delta });
+}
+
+// Net balance change per (token, holder, token ID); the zero address side of mints and burns is not a holder
+function transferDeltas(transfers: InsertTokenTransfer[]): BalanceDeltas {
+  const deltas: BalanceDeltas = new Map();
+  for (const transfer of transfers) {
+    const amount = transfer.tokenType === "ERC721" ? BigInt(1) : BigInt(transfer.value ?? 0);
+    for (const [holder, sign] of [[transfer.from, BigInt(-1)], [transfer.to, BigInt(1)]] as const) {
+      const holderAddress = holder.toLowerCase();
+      if (holderAddress === ZERO_ADDRESS) continue;
+      addDelta(deltas, {
+        tokenAddress: transfer.tokenAddress.toLowerCase(),
+        holderAddress,
+        tokenType: transfer.tokenType,
+        tokenId: transfer.tokenId ?? null,
+      }, sign * amount);
+    }
+  }
+  return deltas;
+}
 
 // Bech32 prefix for Telebit chain
 const BECH32_PREFIX = "tbt";
@@ -100,10 +263,14 @@ export interface IStorage {
   getBlockByHash(hash: string): Promise<Block | undefined>;
   createBlock(block: InsertBlock): Promise<Block>;
   getLatestBlock(): Promise<Block | undefined>;
+  getBlockAtTimestamp(timestamp: Date): Promise<Block | undefined>;
 
   getTransactions(page: number, limit: number): Promise<{ transactions: Transaction[]; total: number }>;
   getTransactionsByCursor(cursor: { blockNumber: number; txIndex: number } | null, limit: number, direction?: 'next' | 'prev'): Promise<{ transactions: Transaction[]; nextCursor: string | null; prevCursor: string | null; hasMore: boolean }>;
   getTransactionByHash(hash: string): Promise<Transaction | undefined>;
+  getFailedTransactionsWithoutRevertReason(after: { blockNumber: number; txIndex: number } | null, limit: number): Promise<Transaction[]>;
+  getTransactionsWithUnnamedCustomErrors(after: { blockNumber: number; txIndex: number } | null, limit: number): Promise<Transaction[]>;
+  updateTransactionRevert(hash: string, revertReason: string, revertData: string | null): Promise<void>;
   getTransactionsByBlockNumber(blockNumber: number): Promise<Transaction[]>;
   getTransactionsByAddress(address: string, page: number, limit: number): Promise<{ transactions: Transaction[]; total: number }>;
   getTransactionsByAddressCursor(address: string, cursor: { blockNumber: number; txIndex: number } | null, limit: number, direction?: 'next' | 'prev'): Promise<{ transactions: Transaction[]; nextCursor: string | null; prevCursor: string | null; hasMore: boolean }>;
@@ -142,19 +309,77 @@ export interface IStorage {
 
   getIndexerState(): Promise<IndexerState | undefined>;
   updateIndexerState(lastBlock: number, isRunning: boolean, error?: string): Promise<void>;
-
-  deleteBlocksFromHeight(height: number): Promise<{ blocks: number; transactions: number; logs: number; transfers: number }>;
-
-  search(query: string): Promise<{ type: string; block?: Block; transaction?: Transaction; address?: Address } | null>;
+  getIndexerCheckpoints(typePrefix: string): Promise<IndexerCheckpoint[]>;
+  upsertIndexerCheckpoint(checkpoint: InsertIndexerCheckpoint): Promise<void>;
+  getIndexedBlockNumbers(fromBlock: number, toBlock: number): Promise<number[]>;
+  getLowestIndexedBlockNumber(): Promise<number | null>;
+  deleteIndexerCheckpoint(checkpointType: string): Promise<void>;
+  findBlockGaps(limit: number): Promise<{ fromBlock: number; toBlock: number }[]>;
+  findTransactionCountMismatches(fromBlock: number, toBlock: number, limit: number): Promise<{ blockNumber: number; expected: number; stored: number }[]>;
+  findBlocksWithUnindexedTransferBatches(batchTopic: string, limit: number): Promise<number[]>;
+
+  saveIndexedBlock(data: IndexedBlockData): Promise<void>;
+  deletePartialBlocks(): Promise<number[]>;
+  deleteBlocksFromHeight(height: number): Promise<ReorgRollback>;
+  getOrphanedBlockByHash(hash: string): Promise<OrphanedBlock | undefined>;
+  getOrphanedBlocksByNumber(number: number): Promise<OrphanedBlock[]>;
+  getBalanceSnapshots(address: string, page: number, limit: number): Promise<{ snapshots: BalanceSnapshot[]; total: number }>;
+  getBalanceSnapshotAt(address: string, blockNumber: number): Promise<BalanceSnapshot | undefined>;
+  getTokenApprovals(ownerAddress: string, page: number, limit: number): Promise<{ approvals: TokenApprovalEntry[]; total: number }>;
+  backfillTokenApprovals(): Promise<{ success: boolean; logsProcessed: number; error?: string }>;
+
+  search(query: string): Promise<{ type: string; block?: Block; transaction?: Transaction; pendingTransaction?: PendingTransaction; address?: Address } | null>;
 
   getVerifiedContract(address: string): Promise<VerifiedContract | undefined>;
-  createVerifiedContract(contract: InsertVerifiedContract): Promise<VerifiedContract>;
+  createVerifiedContract(contract: InsertVerifiedContract, sourceFiles?: { path: string; content: string }[]): Promise<VerifiedContract>;
   getVerifiedContracts(page: number, limit: number): Promise<{ contracts: VerifiedContract[]; total: number }>;
+  getContractSourceFiles(address: string): Promise<ContractSourceFile[]>;
+
+  // Pending Transactions
+  upsertPendingTransactions(txs: InsertPendingTransaction[]): Promise<void>;
+  touchPendingTransactions(hashes: string[]): Promise<void>;
+  getPendingTransaction(hash: string): Promise<PendingTransaction | undefined>;
+  getPendingTransactionsByAddress(address: string, page: number, limit: number): Promise<{ transactions: PendingTransaction[]; total: number }>;
+  getStalePendingTransactions(seenBefore: Date, limit: number): Promise<PendingTransaction[]>;
+  resolvePendingTransaction(pending: PendingTransaction, dropIfUnmined: boolean): Promise<boolean>;
+  pruneResolvedPendingTransactions(updatedBefore: Date): Promise<number>;
+
+  // Verification Jobs
+  createVerificationJob(job: InsertVerificationJob): Promise<VerificationJob>;
+  getVerificationJob(id: string): Promise<VerificationJob | undefined>;
+  getVerificationJobByGuid(guid: string): Promise<VerificationJob | undefined>;
+  getVerificationJobs(page: number, limit: number, status?: string): Promise<{ jobs: VerificationJob[]; total: number }>;
+  claimNextVerificationJob(): Promise<VerificationJob | undefined>;
+  updateVerificationJob(id: string, updates: Partial<InsertVerificationJob>): Promise<VerificationJob | undefined>;
+  retryVerificationJob(id: string): Promise<VerificationJob | undefined>;
+  resetStaleVerificationJobs(): Promise<number>;
+
+  // Proxies
+  updateAddressProxy(address: string, proxy: { proxyType: string | null; implementationAddress: string | null; beaconAddress: string | null }): Promise<void>;
+  updateBeaconProxies(beaconAddress: string, implementationAddress: string): Promise<void>;
+  createProxyUpgrade(upgrade: InsertProxyUpgrade): Promise<void>;
+  getProxyUpgrades(proxyAddress: string): Promise<ProxyUpgrade[]>;
+
+  // Signature Registry
+  insertSignatures(rows: InsertSignature[]): Promise<number>;
+  getSignaturesBySelector(selector: string): Promise<Signature[]>;
+  getSignaturesBySelectors(selectors: string[]): Promise<Signature[]>;
+  getSignatureCollisions(page: number, limit: number): Promise<{ collisions: { selector: string; signatures: Signature[] }[]; total: number }>;
+  setPreferredSignature(id: string): Promise<Signature | undefined>;
+  getSignatureStats(): Promise<{ total: number; bySource: Record<string, number>; collisions: number }>;
 
   // Internal Transactions
   getInternalTransactionsByTxHash(txHash: string): Promise<InternalTransaction[]>;
   getInternalTransactionsByAddress(address: string, page: number, limit: number): Promise<{ traces: InternalTransaction[]; total: number }>;
   createInternalTransaction(trace: InsertInternalTransaction): Promise<InternalTransaction>;
+  getTransactionTrace(txHash: string, tracer: TransactionTracer): Promise<TransactionTrace | undefined>;
+  saveTransactionTrace(trace: InsertTransactionTrace): Promise<void>;
+
+  // Contract Creations
+  getContractCreation(contractAddress: string): Promise<ContractCreation | undefined>;
+  getContractCreations(contractAddresses: string[]): Promise<ContractCreation[]>;
+  getContractsDeployedBy(address: string, page: number, limit: number): Promise<{ contracts: DeployedContractEntry[]; total: number }>;
+  backfillContractCreations(): Promise<{ success: boolean; deployments: number; factoryDeployments: number; error?: string }>;
 
   // Token Holders
   getTokenHolders(tokenAddress: string, page: number, limit: number): Promise<{ holders: TokenHolder[]; total: number }>;
@@ -163,6 +388,25 @@ export interface IStorage {
   getHolderTokens(holderAddress: string, page: number, limit: number): Promise<{ tokens: TokenHolder[]; total: number }>;
   getTokenHolderCount(tokenAddress: string): Promise<number>;
   updateTokenHolderCount(tokenAddress: string, count: number): Promise<void>;
+  rebuildTokenHolders(tokenAddress: string): Promise<{ transfersProcessed: number; holdersUpdated: number }>;
+  getTokenBalanceChanges(tokenAddress: string, holderAddress: string, tokenId: string | null, page: number, limit: number): Promise<{ changes: TokenBalanceHistoryEntry[]; total: number }>;
+  getTokenBalanceAt(tokenAddress: string, holderAddress: string, tokenId: string | null, blockNumber: number): Promise<{ balance: string; lastChangeBlock: number | null }>;
+  getNftBalanceAt(tokenAddress: string, holderAddress: string, blockNumber: number): Promise<{ balance: string; lastChangeBlock: number | null }>;
+  addTokenBalanceCorrection(holder: TokenHolderRef, delta: bigint, blockNumber: number, timestamp: Date): Promise<void>;
+
+  // Holder Reconciliation
+  getNonStandardTokens(tokenAddresses: string[]): Promise<string[]>;
+  getTokensForReconciliation(limit: number, historyStart: number): Promise<Token[]>;
+  getTokenHolderSample(tokenAddress: string, limit: number): Promise<TokenHolder[]>;
+  markTokenHoldersReconciled(tokenAddress: string): Promise<void>;
+  markTokenNonStandard(tokenAddress: string, reason: string): Promise<void>;
+
+  // Token Classification
+  getTokensToClassify(limit: number): Promise<Token[]>;
+  changeTokenType(tokenAddress: string, tokenType: string): Promise<{ transfersConverted: number }>;
+  setTokenClassificationOverride(tokenAddress: string, override: { tokenType: string; nonStandard: boolean; nonStandardReason: string | null }): Promise<Token | undefined>;
+  clearTokenClassificationOverride(tokenAddress: string): Promise<Token | undefined>;
+  getTokensWithClassificationIssues(page: number, limit: number): Promise<{ tokens: Token[]; total: number }>;
 
   // NFT Tokens
   getNftToken(contractAddress: string, tokenId: string): Promise<NftToken | undefined>;
@@ -170,6 +414,14 @@ export interface IStorage {
   getNftsByContract(contractAddress: string, page: number, limit: number): Promise<{ nfts: NftToken[]; total: number }>;
   createOrUpdateNft(nft: InsertNftToken): Promise<NftToken>;
   createOrUpdateNftToken(nft: InsertNftToken): Promise<NftToken>;
+  getNftTransferTokenType(contractAddress: string, tokenId: string): Promise<string | undefined>;
+
+  // NFT Metadata Jobs
+  getNftMetadataJob(contractAddress: string, tokenId: string): Promise<NftMetadataJob | undefined>;
+  requeueNftMetadataJob(job: InsertNftMetadataJob): Promise<NftMetadataJob>;
+  claimNextNftMetadataJob(): Promise<NftMetadataJob | undefined>;
+  updateNftMetadataJob(id: string, updates: Partial<InsertNftMetadataJob>): Promise<NftMetadataJob | undefined>;
+  resetStaleNftMetadataJobs(): Promise<number>;
 
   // API Keys
   createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
@@ -198,6 +450,10 @@ export interface IStorage {
   setDefaultChain(chainId: number): Promise<Chain | undefined>;
   clearDefaultChains(): Promise<void>;
   deleteChain(chainId: number): Promise<void>;
+  assignUnscopedRowsToChain(chainId: number): Promise<number>;
+  getRpcEndpoints(): Promise<RpcEndpoint[]>;
+  createRpcEndpoint(endpoint: InsertRpcEndpoint): Promise<RpcEndpoint>;
+  deleteRpcEndpoint(id: string): Promise<void>;
 
   // Airdrop Claims
   getClaimTransactions(selectors: string[], page: number, limit: number): Promise<{ transactions: Transaction[]; total: number; totalPages: number }>;
@@ -243,8 +499,8 @@ export class DatabaseStorage implements IStorage {
   async getBlocks(page: number, limit: number): Promise<{ blocks: Block[]; total: number }> {
     const offset = (page - 1) * limit;
     const [blockList, totalResult] = await Promise.all([
-      db.select().from(blocks).orderBy(desc(blocks.number)).limit(limit).offset(offset),
-      db.select({ count: count() }).from(blocks),
+      db.select().from(blocks).where(onChain(blocks)).orderBy(desc(blocks.number)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(blocks).where(onChain(blocks)),
     ]);
     return { blocks: blockList, total: totalResult[0]?.count || 0 };
   }
@@ -255,23 +511,25 @@ export class DatabaseStorage implements IStorage {
     if (direction === 'next') {
       if (cursor !== null) {
         blockList = await db.select().from(blocks)
-          .where(sql`${blocks.number} < ${cursor}`)
+          .where(and(onChain(blocks), sql`${blocks.number} < ${cursor}`))
           .orderBy(desc(blocks.number))
           .limit(limit + 1);
       } else {
         blockList = await db.select().from(blocks)
+          .where(onChain(blocks))
           .orderBy(desc(blocks.number))
           .limit(limit + 1);
       }
     } else {
       if (cursor !== null) {
         blockList = await db.select().from(blocks)
-          .where(sql`${blocks.number} > ${cursor}`)
+          .where(and(onChain(blocks), sql`${blocks.number} > ${cursor}`))
           .orderBy(blocks.number)
           .limit(limit + 1);
         blockList.reverse();
       } else {
         blockList = await db.select().from(blocks)
+          .where(onChain(blocks))
           .orderBy(desc(blocks.number))
           .limit(limit + 1);
       }
@@ -287,21 +545,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBlockByNumber(number: number): Promise<Block | undefined> {
-    const [block] = await db.select().from(blocks).where(eq(blocks.number, number));
+    const [block] = await db.select().from(blocks).where(and(onChain(blocks), eq(blocks.number, number)));
     return block || undefined;
   }
 
   async getBlockByHash(hash: string): Promise<Block | undefined> {
-    const [block] = await db.select().from(blocks).where(eq(blocks.hash, hash));
+    const [block] = await db.select().from(blocks).where(and(onChain(blocks), eq(blocks.hash, hash)));
     return block || undefined;
   }
 
   async createBlock(block: InsertBlock): Promise<Block> {
     const [created] = await db
       .insert(blocks)
-      .values(block)
+      .values(withChain(block))
       .onConflictDoUpdate({
-        target: blocks.number,
+        target: [blocks.chainId, blocks.number],
         set: block,
       })
       .returning();
@@ -309,15 +567,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getLatestBlock(): Promise<Block | undefined> {
-    const [block] = await db.select().from(blocks).orderBy(desc(blocks.number)).limit(1);
+    const [block] = await db.select().from(blocks).where(onChain(blocks)).orderBy(desc(blocks.number)).limit(1);
+    return block || undefined;
+  }
+
+  // Last block produced at or before the given time
+  async getBlockAtTimestamp(timestamp: Date): Promise<Block | undefined> {
+    const [block] = await db
+      .select()
+      .from(blocks)
+      .where(and(onChain(blocks), lte(blocks.timestamp, timestamp)))
+      .orderBy(desc(blocks.timestamp), desc(blocks.number))
+      .limit(1);
     return block || undefined;
   }
 
   async getTransactions(page: number, limit: number): Promise<{ transactions: Transaction[]; total: number }> {
     const offset = (page - 1) * limit;
     const [txList, totalResult] = await Promise.all([
-      db.select().from(transactions).orderBy(desc(transactions.blockNumber), desc(transactions.transactionIndex)).limit(limit).offset(offset),
-      db.select({ count: count() }).from(transactions),
+      db.select().from(transactions).where(onChain(transactions)).orderBy(desc(transactions.blockNumber), desc(transactions.transactionIndex)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(transactions).where(onChain(transactions)),
     ]);
     return { transactions: txList, total: totalResult[0]?.count || 0 };
   }
@@ -332,23 +601,25 @@ export class DatabaseStorage implements IStorage {
     if (direction === 'next') {
       if (cursor !== null) {
         txList = await db.select().from(transactions)
-          .where(sql`(${transactions.blockNumber}, ${transactions.transactionIndex}) < (${cursor.blockNumber}, ${cursor.txIndex})`)
+          .where(and(onChain(transactions), sql`(${transactions.blockNumber}, ${transactions.transactionIndex}) < (${cursor.blockNumber}, ${cursor.txIndex})`))
           .orderBy(desc(transactions.blockNumber), desc(transactions.transactionIndex))
           .limit(limit + 1);
       } else {
         txList = await db.select().from(transactions)
+          .where(onChain(transactions))
           .orderBy(desc(transactions.blockNumber), desc(transactions.transactionIndex))
           .limit(limit + 1);
       }
     } else {
       if (cursor !== null) {
         txList = await db.select().from(transactions)
-          .where(sql`(${transactions.blockNumber}, ${transactions.transactionIndex}) > (${cursor.blockNumber}, ${cursor.txIndex})`)
+          .where(and(onChain(transactions), sql`(${transactions.blockNumber}, ${transactions.transactionIndex}) > (${cursor.blockNumber}, ${cursor.txIndex})`))
           .orderBy(transactions.blockNumber, transactions.transactionIndex)
           .limit(limit + 1);
         txList.reverse();
       } else {
         txList = await db.select().from(transactions)
+          .where(onChain(transactions))
           .orderBy(desc(transactions.blockNumber), desc(transactions.transactionIndex))
           .limit(limit + 1);
       }
@@ -365,12 +636,41 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTransactionByHash(hash: string): Promise<Transaction | undefined> {
-    const [tx] = await db.select().from(transactions).where(eq(transactions.hash, hash));
+    const [tx] = await db.select().from(transactions).where(and(onChain(transactions), eq(transactions.hash, hash)));
     return tx || undefined;
   }
 
+  async getFailedTransactionsWithoutRevertReason(after: { blockNumber: number; txIndex: number } | null, limit: number): Promise<Transaction[]> {
+    const conditions = [onChain(transactions), eq(transactions.status, false), isNull(transactions.revertReason)];
+    if (after) {
+      conditions.push(sql`(${transactions.blockNumber}, ${transactions.transactionIndex}) > (${after.blockNumber}, ${after.txIndex})`);
+    }
+    return db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(transactions.blockNumber, transactions.transactionIndex)
+      .limit(limit);
+  }
+
+  // Failed transactions whose custom error selector had no known signature when they were indexed
+  async getTransactionsWithUnnamedCustomErrors(after: { blockNumber: number; txIndex: number } | null, limit: number): Promise<Transaction[]> {
+    const conditions = [onChain(transactions), eq(transactions.status, false), isNotNull(transactions.revertData), sql`${transactions.revertReason} LIKE 'Custom error 0x%'`];
+    if (after) {
+      conditions.push(sql`(${transactions.blockNumber}, ${transactions.transactionIndex}) > (${after.blockNumber}, ${after.txIndex})`);
+    }
+    return db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(transactions.blockNumber, transactions.transactionIndex)
+      .limit(limit);
+  }
+
+  async updateTransactionRevert(hash: string, revertReason: string, revertData: string | null): Promise<void> {
+    await db.update(transactions)
+      .set({ revertReason, revertData })
+      .where(and(onChain(transactions), eq(transactions.hash, hash)));
+  }
+
   async getTransactionsByBlockNumber(blockNumber: number): Promise<Transaction[]> {
-    return db.select().from(transactions).where(eq(transactions.blockNumber, blockNumber)).orderBy(transactions.transactionIndex);
+    return db.select().from(transactions).where(and(onChain(transactions), eq(transactions.blockNumber, blockNumber))).orderBy(transactions.transactionIndex);
   }
 
   async getTransactionsByAddress(address: string, page: number, limit: number): Promise<{ transactions: Transaction[]; total: number }> {
@@ -380,22 +680,22 @@ export class DatabaseStorage implements IStorage {
       db
         .select()
         .from(transactions)
-        .where(or(
+        .where(and(onChain(transactions), or(
           sql`LOWER(${transactions.from}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.to}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.contractAddress}) = ${normalizedAddress}`
-        ))
+        )))
         .orderBy(desc(transactions.blockNumber))
         .limit(limit)
         .offset(offset),
       db
         .select({ count: count() })
         .from(transactions)
-        .where(or(
+        .where(and(onChain(transactions), or(
           sql`LOWER(${transactions.from}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.to}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.contractAddress}) = ${normalizedAddress}`
-        )),
+        ))),
     ]);
     return { transactions: txList, total: totalResult[0]?.count || 0 };
   }
@@ -407,11 +707,11 @@ export class DatabaseStorage implements IStorage {
     direction: 'next' | 'prev' = 'next'
   ): Promise<{ transactions: Transaction[]; nextCursor: string | null; prevCursor: string | null; hasMore: boolean }> {
     const normalizedAddress = address.toLowerCase();
-    const addressCondition = or(
+    const addressCondition = and(onChain(transactions), or(
       sql`LOWER(${transactions.from}) = ${normalizedAddress}`,
       sql`LOWER(${transactions.to}) = ${normalizedAddress}`,
       sql`LOWER(${transactions.contractAddress}) = ${normalizedAddress}`
-    );
+    ));
     
     let txList: Transaction[];
     
@@ -461,9 +761,9 @@ export class DatabaseStorage implements IStorage {
   async createTransaction(tx: InsertTransaction): Promise<Transaction> {
     const [created] = await db
       .insert(transactions)
-      .values(tx)
+      .values(withChain(tx))
       .onConflictDoUpdate({
-        target: transactions.hash,
+        target: [transactions.chainId, transactions.hash],
         set: tx,
       })
       .returning();
@@ -471,7 +771,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTransactionLogs(txHash: string): Promise<TransactionLog[]> {
-    return db.select().from(transactionLogs).where(eq(transactionLogs.transactionHash, txHash)).orderBy(transactionLogs.logIndex);
+    return db.select().from(transactionLogs).where(and(onChain(transactionLogs), eq(transactionLogs.transactionHash, txHash))).orderBy(transactionLogs.logIndex);
   }
 
   async getLogsByAddress(address: string, page: number, limit: number): Promise<{ logs: TransactionLog[]; total: number }> {
@@ -481,34 +781,34 @@ export class DatabaseStorage implements IStorage {
     const [logs, countResult] = await Promise.all([
       db.select()
         .from(transactionLogs)
-        .where(sql`lower(${transactionLogs.address}) = ${normalizedAddress}`)
+        .where(and(onChain(transactionLogs), sql`lower(${transactionLogs.address}) = ${normalizedAddress}`))
         .orderBy(desc(transactionLogs.blockNumber), desc(transactionLogs.logIndex))
         .limit(limit)
         .offset(offset),
       db.select({ count: count() })
         .from(transactionLogs)
-        .where(sql`lower(${transactionLogs.address}) = ${normalizedAddress}`)
+        .where(and(onChain(transactionLogs), sql`lower(${transactionLogs.address}) = ${normalizedAddress}`))
     ]);
     
     return { logs, total: countResult[0]?.count || 0 };
   }
 
   async createTransactionLog(log: InsertTransactionLog): Promise<TransactionLog> {
-    const [created] = await db.insert(transactionLogs).values(log).returning();
+    const [created] = await db.insert(transactionLogs).values(withChain(log)).returning();
     return created;
   }
 
   async createTokenTransfer(transfer: InsertTokenTransfer): Promise<TokenTransfer | null> {
     const [created] = await db
       .insert(tokenTransfers)
-      .values(transfer)
+      .values(withChain(transfer))
       .onConflictDoNothing()
       .returning();
     return created || null;
   }
 
   async getTokenTransferCount(): Promise<number> {
-    const [result] = await db.select({ count: count() }).from(tokenTransfers);
+    const [result] = await db.select({ count: count() }).from(tokenTransfers).where(onChain(tokenTransfers));
     return result?.count || 0;
   }
 
@@ -519,22 +819,22 @@ export class DatabaseStorage implements IStorage {
       db
         .select()
         .from(tokenTransfers)
-        .where(or(
+        .where(and(onChain(tokenTransfers), or(
           sql`LOWER(${tokenTransfers.from}) = ${normalizedAddress}`,
           sql`LOWER(${tokenTransfers.to}) = ${normalizedAddress}`,
           sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`
-        ))
+        )))
         .orderBy(desc(tokenTransfers.blockNumber))
         .limit(limit)
         .offset(offset),
       db
         .select({ count: count() })
         .from(tokenTransfers)
-        .where(or(
+        .where(and(onChain(tokenTransfers), or(
           sql`LOWER(${tokenTransfers.from}) = ${normalizedAddress}`,
           sql`LOWER(${tokenTransfers.to}) = ${normalizedAddress}`,
           sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`
-        )),
+        ))),
     ]);
     return { transfers: transferList, total: totalResult[0]?.count || 0 };
   }
@@ -546,14 +846,14 @@ export class DatabaseStorage implements IStorage {
       db
         .select()
         .from(tokenTransfers)
-        .where(sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`)
+        .where(and(onChain(tokenTransfers), sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`))
         .orderBy(desc(tokenTransfers.blockNumber))
         .limit(limit)
         .offset(offset),
       db
         .select({ count: count() })
         .from(tokenTransfers)
-        .where(sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`),
+        .where(and(onChain(tokenTransfers), sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`)),
     ]);
     return { transfers: transferList, total: totalResult[0]?.count || 0 };
   }
@@ -562,8 +862,8 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(tokenTransfers)
-      .where(sql`LOWER(${tokenTransfers.transactionHash}) = ${txHash.toLowerCase()}`)
-      .orderBy(tokenTransfers.logIndex);
+      .where(and(onChain(tokenTransfers), sql`LOWER(${tokenTransfers.transactionHash}) = ${txHash.toLowerCase()}`))
+      .orderBy(tokenTransfers.logIndex, tokenTransfers.batchIndex);
   }
 
   async getAllTokenTransfersForToken(tokenAddress: string): Promise<TokenTransfer[]> {
@@ -571,7 +871,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(tokenTransfers)
-      .where(sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`)
+      .where(and(onChain(tokenTransfers), sql`LOWER(${tokenTransfers.tokenAddress}) = ${normalizedAddress}`))
       .orderBy(tokenTransfers.blockNumber);
   }
 
@@ -579,22 +879,26 @@ export class DatabaseStorage implements IStorage {
     const [token] = await db
       .select()
       .from(tokens)
-      .where(sql`LOWER(${tokens.address}) = ${address.toLowerCase()}`);
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${address.toLowerCase()}`));
     return token || undefined;
   }
 
   async createOrUpdateToken(token: InsertToken): Promise<Token> {
     const [created] = await db
       .insert(tokens)
-      .values(token)
+      .values(withChain(token))
       .onConflictDoUpdate({
-        target: tokens.address,
+        target: [tokens.chainId, tokens.address],
         set: {
           name: token.name,
           symbol: token.symbol,
           decimals: token.decimals,
           totalSupply: token.totalSupply,
-          tokenType: token.tokenType,
+          tokenType: sql`CASE WHEN ${tokens.classificationOverride} THEN ${tokens.tokenType} ELSE ${token.tokenType} END`,
+          detectedTokenType: token.detectedTokenType,
+          capabilities: token.capabilities,
+          classificationNotes: token.classificationNotes,
+          classifiedAt: token.classifiedAt,
         },
       })
       .returning();
@@ -604,8 +908,8 @@ export class DatabaseStorage implements IStorage {
   async getTokens(page: number, limit: number): Promise<{ tokens: Token[]; total: number }> {
     const offset = (page - 1) * limit;
     const [tokenList, totalResult] = await Promise.all([
-      db.select().from(tokens).orderBy(desc(tokens.transferCount)).limit(limit).offset(offset),
-      db.select({ count: count() }).from(tokens),
+      db.select().from(tokens).where(onChain(tokens)).orderBy(desc(tokens.transferCount)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(tokens).where(onChain(tokens)),
     ]);
     return { tokens: tokenList, total: totalResult[0]?.count || 0 };
   }
@@ -614,13 +918,14 @@ export class DatabaseStorage implements IStorage {
     await db
       .update(tokens)
       .set({ transferCount: sql`${tokens.transferCount} + 1` })
-      .where(sql`LOWER(${tokens.address}) = ${address.toLowerCase()}`);
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${address.toLowerCase()}`));
   }
 
   async getUniqueTokenAddresses(): Promise<{ tokenAddress: string; tokenType: string }[]> {
     const result = await db
       .selectDistinct({ tokenAddress: tokenTransfers.tokenAddress, tokenType: tokenTransfers.tokenType })
-      .from(tokenTransfers);
+      .from(tokenTransfers)
+      .where(onChain(tokenTransfers));
     return result;
   }
 
@@ -628,21 +933,21 @@ export class DatabaseStorage implements IStorage {
     const [result] = await db
       .select({ count: count() })
       .from(tokenTransfers)
-      .where(sql`LOWER(${tokenTransfers.tokenAddress}) = ${address.toLowerCase()}`);
+      .where(and(onChain(tokenTransfers), sql`LOWER(${tokenTransfers.tokenAddress}) = ${address.toLowerCase()}`));
     return result?.count || 0;
   }
 
   async getAddresses(page: number, limit: number): Promise<{ addresses: Address[]; total: number }> {
     const offset = (page - 1) * limit;
     const [addrList, totalResult] = await Promise.all([
-      db.select().from(addresses).orderBy(desc(addresses.transactionCount)).limit(limit).offset(offset),
-      db.select({ count: count() }).from(addresses),
+      db.select().from(addresses).where(onChain(addresses)).orderBy(desc(addresses.transactionCount)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(addresses).where(onChain(addresses)),
     ]);
     return { addresses: addrList, total: totalResult[0]?.count || 0 };
   }
 
   async getAddressByAddress(address: string): Promise<Address | undefined> {
-    const [addr] = await db.select().from(addresses).where(sql`LOWER(${addresses.address}) = ${address.toLowerCase()}`);
+    const [addr] = await db.select().from(addresses).where(and(onChain(addresses), sql`LOWER(${addresses.address}) = ${address.toLowerCase()}`));
     return addr || undefined;
   }
 
@@ -653,22 +958,22 @@ export class DatabaseStorage implements IStorage {
       db
         .select({ count: count() })
         .from(transactions)
-        .where(or(
+        .where(and(onChain(transactions), or(
           sql`LOWER(${transactions.from}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.to}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.contractAddress}) = ${normalizedAddress}`
-        )),
+        ))),
       db
         .select({ count: count() })
         .from(transactions)
-        .where(sql`LOWER(${transactions.from}) = ${normalizedAddress}`),
+        .where(and(onChain(transactions), sql`LOWER(${transactions.from}) = ${normalizedAddress}`)),
       db
         .select({ count: count() })
         .from(transactions)
-        .where(or(
+        .where(and(onChain(transactions), or(
           sql`LOWER(${transactions.to}) = ${normalizedAddress}`,
           sql`LOWER(${transactions.contractAddress}) = ${normalizedAddress}`
-        )),
+        ))),
     ]);
     
     return {
@@ -681,9 +986,9 @@ export class DatabaseStorage implements IStorage {
   async createOrUpdateAddress(addr: InsertAddress): Promise<Address> {
     const [created] = await db
       .insert(addresses)
-      .values(addr)
+      .values(withChain(addr))
       .onConflictDoUpdate({
-        target: addresses.address,
+        target: [addresses.chainId, addresses.address],
         set: {
           balance: addr.balance,
           transactionCount: addr.transactionCount,
@@ -692,6 +997,9 @@ export class DatabaseStorage implements IStorage {
           isContract: addr.isContract,
           contractCode: addr.contractCode,
           contractName: addr.contractName,
+          proxyType: addr.proxyType,
+          implementationAddress: addr.implementationAddress,
+          beaconAddress: addr.beaconAddress,
           lastSeen: addr.lastSeen,
         },
       })
@@ -700,20 +1008,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getNetworkStats(): Promise<NetworkStats | undefined> {
-    const [stats] = await db.select().from(networkStats).limit(1);
+    const [stats] = await db.select().from(networkStats).where(onChain(networkStats)).limit(1);
     return stats || undefined;
   }
 
   async updateNetworkStats(stats: InsertNetworkStats): Promise<NetworkStats> {
-    await db.delete(networkStats);
-    const [created] = await db.insert(networkStats).values(stats).returning();
+    await db.delete(networkStats).where(onChain(networkStats));
+    const [created] = await db.insert(networkStats).values(withChain(stats)).returning();
     return created;
   }
 
   async getDailyStats(date: Date): Promise<DailyStats | undefined> {
     const startOfDay = new Date(date);
     startOfDay.setUTCHours(0, 0, 0, 0);
-    const [stats] = await db.select().from(dailyStats).where(eq(dailyStats.date, startOfDay));
+    const [stats] = await db.select().from(dailyStats).where(and(onChain(dailyStats), eq(dailyStats.date, startOfDay)));
     return stats || undefined;
   }
 
@@ -724,6 +1032,7 @@ export class DatabaseStorage implements IStorage {
     await db
       .insert(dailyStats)
       .values({
+        chainId: currentChainId(),
         date: startOfDay,
         blockCount,
         transactionCount: txCount,
@@ -733,7 +1042,7 @@ export class DatabaseStorage implements IStorage {
         avgGasPrice: null,
       })
       .onConflictDoUpdate({
-        target: dailyStats.date,
+        target: [dailyStats.chainId, dailyStats.date],
         set: {
           blockCount: sql`${dailyStats.blockCount} + ${blockCount}`,
           transactionCount: sql`${dailyStats.transactionCount} + ${txCount}`,
@@ -747,16 +1056,18 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(dailyStats)
-      .where(and(gte(dailyStats.date, startDate), lte(dailyStats.date, endDate)))
+      .where(and(onChain(dailyStats), gte(dailyStats.date, startDate), lte(dailyStats.date, endDate)))
       .orderBy(desc(dailyStats.date));
   }
 
   async backfillDailyStats(): Promise<{ success: boolean; daysProcessed: number; error?: string }> {
+    const chainId = currentChainId();
     try {
       await db.execute(sql`
-        INSERT INTO daily_stats (id, date, block_count, transaction_count, address_count, gas_used, total_value, avg_gas_price)
+        INSERT INTO daily_stats (id, chain_id, date, block_count, transaction_count, address_count, gas_used, total_value, avg_gas_price)
         SELECT 
           gen_random_uuid()::varchar,
+          ${chainId},
           DATE_TRUNC('day', timestamp) as date,
           COUNT(DISTINCT number)::integer as block_count,
           COALESCE(SUM(transaction_count), 0)::integer as transaction_count,
@@ -765,14 +1076,15 @@ export class DatabaseStorage implements IStorage {
           0::numeric(78,0) as total_value,
           NULL::numeric(78,0) as avg_gas_price
         FROM blocks
+        WHERE chain_id = ${chainId}
         GROUP BY DATE_TRUNC('day', timestamp)
-        ON CONFLICT (date) DO UPDATE SET
+        ON CONFLICT (chain_id, date) DO UPDATE SET
           block_count = EXCLUDED.block_count,
           transaction_count = EXCLUDED.transaction_count,
           gas_used = EXCLUDED.gas_used
       `);
       
-      const [countResult] = await db.select({ count: count() }).from(dailyStats);
+      const [countResult] = await db.select({ count: count() }).from(dailyStats).where(onChain(dailyStats));
       return { success: true, daysProcessed: countResult?.count || 0 };
     } catch (error: any) {
       console.error("Daily stats backfill error:", error.message);
@@ -781,7 +1093,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getIndexerState(): Promise<IndexerState | undefined> {
-    const [state] = await db.select().from(indexerState).where(eq(indexerState.id, "main"));
+    const [state] = await db.select().from(indexerState).where(onChain(indexerState));
     return state || undefined;
   }
 
@@ -789,14 +1101,15 @@ export class DatabaseStorage implements IStorage {
     await db
       .insert(indexerState)
       .values({
-        id: "main",
+        id: `chain-${currentChainId()}`,
+        chainId: currentChainId(),
         lastIndexedBlock: lastBlock,
         isRunning,
         lastError: error || null,
         lastUpdated: new Date(),
       })
       .onConflictDoUpdate({
-        target: indexerState.id,
+        target: indexerState.chainId,
         set: {
           lastIndexedBlock: lastBlock,
           isRunning,
@@ -806,22 +1119,628 @@ export class DatabaseStorage implements IStorage {
       });
   }
 
-  async deleteBlocksFromHeight(height: number): Promise<{ blocks: number; transactions: number; logs: number; transfers: number }> {
+  async getIndexerCheckpoints(typePrefix: string): Promise<IndexerCheckpoint[]> {
+    return await db
+      .select()
+      .from(indexerCheckpoints)
+      .where(and(onChain(indexerCheckpoints), sql`${indexerCheckpoints.checkpointType} LIKE ${typePrefix + "%"}`))
+      .orderBy(desc(indexerCheckpoints.lastProcessedBlock));
+  }
+
+  async upsertIndexerCheckpoint(checkpoint: InsertIndexerCheckpoint): Promise<void> {
+    await db
+      .insert(indexerCheckpoints)
+      .values({ ...checkpoint, chainId: currentChainId(), updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [indexerCheckpoints.chainId, indexerCheckpoints.checkpointType],
+        set: {
+          lastProcessedBlock: checkpoint.lastProcessedBlock,
+          lastProcessedHash: checkpoint.lastProcessedHash,
+          metadata: checkpoint.metadata,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getIndexedBlockNumbers(fromBlock: number, toBlock: number): Promise<number[]> {
+    const rows = await db
+      .select({ number: blocks.number })
+      .from(blocks)
+      .where(and(onChain(blocks), gte(blocks.number, fromBlock), lte(blocks.number, toBlock)));
+    return rows.map((r) => r.number);
+  }
+
+  async getLowestIndexedBlockNumber(): Promise<number | null> {
+    const [row] = await db.select({ number: sql<number | null>`MIN(${blocks.number})` }).from(blocks).where(onChain(blocks));
+    return row?.number != null ? Number(row.number) : null;
+  }
+
+  async deleteIndexerCheckpoint(checkpointType: string): Promise<void> {
+    await db.delete(indexerCheckpoints).where(and(onChain(indexerCheckpoints), eq(indexerCheckpoints.checkpointType, checkpointType)));
+  }
+
+  // Holes between the lowest and highest stored block, newest first
+  async findBlockGaps(limit: number): Promise<{ fromBlock: number; toBlock: number }[]> {
+    const result = await db.execute(sql`
+      SELECT number + 1 AS from_block, next_number - 1 AS to_block
+      FROM (
+        SELECT number, LEAD(number) OVER (ORDER BY number) AS next_number
+        FROM blocks
+        WHERE chain_id = ${currentChainId()}
+      ) ordered
+      WHERE next_number > number + 1
+      ORDER BY number DESC
+      LIMIT ${limit}
+    `);
+    return result.rows.map((row: any) => ({
+      fromBlock: Number(row.from_block),
+      toBlock: Number(row.to_block),
+    }));
+  }
+
+  // Blocks indexed before TransferBatch events were decoded have the logs but none of their transfers.
+  // Batches with empty id arrays (258 hex chars of data) never produce transfers and are skipped, as are
+  // batches already re-indexed and found undecodable.
+  async findBlocksWithUnindexedTransferBatches(batchTopic: string, limit: number): Promise<number[]> {
+    const result = await db.execute(sql`
+      SELECT DISTINCT l.block_number
+      FROM transaction_logs l
+      WHERE l.chain_id = ${currentChainId()} AND l.topic0 = ${batchTopic} AND LENGTH(l.data) > 258
+        AND NOT l.transfer_decode_failed
+        AND NOT EXISTS (
+          SELECT 1 FROM token_transfers t
+          WHERE t.chain_id = l.chain_id AND t.transaction_hash = l.transaction_hash AND t.log_index = l.log_index
+        )
+      ORDER BY l.block_number DESC
+      LIMIT ${limit}
+    `);
+    return result.rows.map((row: any) => Number(row.block_number));
+  }
+
+  // Oldest first within [fromBlock, toBlock], so a caller paging through the range can resume after the last row
+  async findTransactionCountMismatches(fromBlock: number, toBlock: number, limit: number): Promise<{ blockNumber: number; expected: number; stored: number }[]> {
+    const result = await db.execute(sql`
+      SELECT b.number AS block_number, b.transaction_count AS expected, COUNT(t.hash) AS stored
+      FROM blocks b
+      LEFT JOIN transactions t ON t.chain_id = b.chain_id AND t.block_number = b.number
+      WHERE b.chain_id = ${currentChainId()} AND b.number BETWEEN ${fromBlock} AND ${toBlock}
+      GROUP BY b.number, b.transaction_count
+      HAVING COUNT(t.hash) <> b.transaction_count
+      ORDER BY b.number ASC
+      LIMIT ${limit}
+    `);
+    return result.rows.map((row: any) => ({
+      blockNumber: Number(row.block_number),
+      expected: Number(row.expected),
+      stored: Number(row.stored),
+    }));
+  }
+
+  // Archives the replaced blocks, removes everything derived from them and recomputes the counters stored in the DB
+  async deleteBlocksFromHeight(height: number): Promise<ReorgRollback> {
+    const chainId = currentChainId();
     return await db.transaction(async (tx) => {
-      const deletedTransfers = await tx.delete(tokenTransfers).where(gte(tokenTransfers.blockNumber, height)).returning();
-      const deletedLogs = await tx.delete(transactionLogs).where(gte(transactionLogs.blockNumber, height)).returning();
-      const deletedTxs = await tx.delete(transactions).where(gte(transactions.blockNumber, height)).returning();
-      const deletedBlocks = await tx.delete(blocks).where(gte(blocks.number, height)).returning();
+      const replacedBlocks = await tx.select().from(blocks).where(and(onChain(blocks), gte(blocks.number, height)));
+      const replacedTxs = await tx
+        .select({ hash: transactions.hash, blockNumber: transactions.blockNumber })
+        .from(transactions)
+        .where(and(onChain(transactions), gte(transactions.blockNumber, height)))
+        .orderBy(asc(transactions.transactionIndex));
+
+      const orphans = replacedBlocks.map((b) => ({
+        chainId: b.chainId,
+        number: b.number,
+        hash: b.hash,
+        parentHash: b.parentHash,
+        timestamp: b.timestamp,
+        miner: b.miner,
+        gasUsed: b.gasUsed,
+        gasLimit: b.gasLimit,
+        baseFeePerGas: b.baseFeePerGas,
+        transactionCount: b.transactionCount,
+        extraData: b.extraData,
+        transactionHashes: replacedTxs.filter((t) => t.blockNumber === b.number).map((t) => t.hash),
+      }));
+      for (const rows of chunk(orphans)) await tx.insert(orphanedBlocks).values(rows).onConflictDoNothing();
+
+      // Daily stats are recomputed from the blocks that remain, only for days that already have a row
+      await tx.execute(sql`
+        UPDATE daily_stats SET
+          block_count = (SELECT COUNT(*) FROM blocks b WHERE b.chain_id = ${chainId} AND b.number < ${height} AND DATE_TRUNC('day', b.timestamp) = daily_stats.date),
+          transaction_count = (SELECT COALESCE(SUM(b.transaction_count), 0) FROM blocks b WHERE b.chain_id = ${chainId} AND b.number < ${height} AND DATE_TRUNC('day', b.timestamp) = daily_stats.date),
+          gas_used = (SELECT COALESCE(SUM(b.gas_used), 0) FROM blocks b WHERE b.chain_id = ${chainId} AND b.number < ${height} AND DATE_TRUNC('day', b.timestamp) = daily_stats.date)
+        WHERE chain_id = ${chainId}
+          AND date IN (SELECT DISTINCT DATE_TRUNC('day', timestamp) FROM blocks WHERE chain_id = ${chainId} AND number >= ${height})
+      `);
+
+      const deletedTransfers = await tx.delete(tokenTransfers).where(and(onChain(tokenTransfers), gte(tokenTransfers.blockNumber, height))).returning();
+      const deletedLogs = await tx.delete(transactionLogs).where(and(onChain(transactionLogs), gte(transactionLogs.blockNumber, height))).returning();
+      const deletedInternal = await tx.delete(internalTransactions).where(and(onChain(internalTransactions), gte(internalTransactions.blockNumber, height))).returning();
+      await tx.delete(proxyUpgrades).where(and(onChain(proxyUpgrades), gte(proxyUpgrades.blockNumber, height)));
+      await tx.delete(balanceSnapshots).where(and(onChain(balanceSnapshots), gte(balanceSnapshots.blockNumber, height)));
+      const deletedBalanceChanges = await tx.delete(tokenBalanceChanges)
+        .where(and(onChain(tokenBalanceChanges), gte(tokenBalanceChanges.blockNumber, height)))
+        .returning();
+      await this.revertBalanceChanges(tx, deletedBalanceChanges);
+      const deletedApprovals = await tx.delete(tokenApprovals)
+        .where(and(onChain(tokenApprovals), gte(tokenApprovals.blockNumber, height)))
+        .returning();
+      await this.restoreTokenApprovals(tx, deletedApprovals, height);
+      await tx.delete(transactionTraces).where(and(onChain(transactionTraces), gte(transactionTraces.blockNumber, height)));
+      await tx.delete(contractCreations).where(and(onChain(contractCreations), gte(contractCreations.blockNumber, height)));
+      await this.dropOrphanedNftMetadataJobs(tx, deletedTransfers);
+      // Transactions of the replaced blocks may be back in the pool; the mempool tracker re-checks them
+      await tx.update(pendingTransactions)
+        .set({ status: "pending", replacedBy: null, blockNumber: null, updatedAt: new Date() })
+        .where(and(onChain(pendingTransactions), gte(pendingTransactions.blockNumber, height)));
+      const deletedTxs = await tx.delete(transactions).where(and(onChain(transactions), gte(transactions.blockNumber, height))).returning();
+      const deletedBlocks = await tx.delete(blocks).where(and(onChain(blocks), gte(blocks.number, height))).returning();
+
+      await this.revertRemovedTransfers(tx, deletedTransfers);
+
+      const affectedAddresses = new Set<string>();
+      const addAddress = (address: string | null | undefined) => {
+        if (address && address !== ZERO_ADDRESS) affectedAddresses.add(address.toLowerCase());
+      };
+      deletedBlocks.forEach((b) => addAddress(b.miner));
+      deletedTxs.forEach((t) => { addAddress(t.from); addAddress(t.to); addAddress(t.contractAddress); });
+      deletedLogs.forEach((l) => addAddress(l.address));
+      deletedInternal.forEach((i) => { addAddress(i.from); addAddress(i.to); });
+      deletedTransfers.forEach((t) => { addAddress(t.from); addAddress(t.to); });
+
       return {
         blocks: deletedBlocks.length,
         transactions: deletedTxs.length,
         logs: deletedLogs.length,
         transfers: deletedTransfers.length,
+        internalTransactions: deletedInternal.length,
+        affectedAddresses: Array.from(affectedAddresses),
       };
     });
   }
 
-  async search(query: string): Promise<{ type: string; block?: Block; transaction?: Transaction; address?: Address } | null> {
+  // Records the balance changes of a block and applies them to the holder rows. replaced holds the changes
+  // recorded when the block was indexed before; they are undone in the same pass.
+  private async applyBalanceChanges(executor: DbExecutor, data: IndexedBlockData, replaced: TokenBalanceChange[]): Promise<void> {
+    const net: BalanceDeltas = new Map();
+    for (const change of replaced) {
+      addDelta(net, refOf(change), -BigInt(change.delta));
+    }
+
+    const nonStandard = new Set(await this.findNonStandardTokens(executor, data.tokenTransfers.map((t) => t.tokenAddress)));
+    const changes = transferDeltas(data.tokenTransfers.filter((t) => !nonStandard.has(t.tokenAddress.toLowerCase())));
+
+    // Balances read from the chain are recorded as the difference to what is stored
+    for (const holder of data.tokenHolders) {
+      const ref: TokenHolderRef = {
+        tokenAddress: holder.tokenAddress.toLowerCase(),
+        holderAddress: holder.holderAddress.toLowerCase(),
+        tokenType: holder.tokenType ?? "ERC20",
+        tokenId: holder.tokenId ?? null,
+      };
+      const [existing] = await executor.select({ balance: tokenHolders.balance }).from(tokenHolders)
+        .where(this.holderCondition(ref))
+        .limit(1);
+      const stored = BigInt(existing?.balance ?? 0) + (net.get(holderKey(ref))?.delta ?? BigInt(0));
+      changes.set(holderKey(ref), { ref, delta: BigInt(holder.balance ?? 0) - stored });
+    }
+
+    const rows = [];
+    for (const { ref, delta } of Array.from(changes.values())) {
+      if (delta === BigInt(0)) continue;
+      addDelta(net, ref, delta);
+      rows.push(withChain({ ...ref, blockNumber: data.block.number, delta: delta.toString(), timestamp: data.block.timestamp }));
+    }
+    for (const batch of chunk(rows)) await executor.insert(tokenBalanceChanges).values(batch);
+
+    for (const { ref, delta } of Array.from(net.values())) {
+      await this.adjustTokenHolder(executor, ref, delta);
+    }
+    await this.refreshHolderCounts(executor, Array.from(net.values()).map((d) => d.ref.tokenAddress));
+  }
+
+  private async findNonStandardTokens(executor: DbExecutor, tokenAddresses: string[]): Promise<string[]> {
+    const lowerAddrs = Array.from(new Set(tokenAddresses.map((a) => a.toLowerCase())));
+    if (lowerAddrs.length === 0) return [];
+    const flagged = await executor.select({ address: tokens.address }).from(tokens)
+      .where(and(onChain(tokens), eq(tokens.nonStandard, true), inArray(sql`LOWER(${tokens.address})`, lowerAddrs)));
+    return flagged.map((t) => t.address.toLowerCase());
+  }
+
+  // Undoes the effects of removed transfers on the token rows: transfer counts drop and NFT ownership falls
+  // back to the recipient of the latest remaining transfer
+  private async revertRemovedTransfers(executor: DbExecutor, removed: TokenTransfer[]): Promise<void> {
+    const chainId = currentChainId();
+    const transferCounts = new Map<string, number>();
+    for (const transfer of removed) {
+      const tokenAddress = transfer.tokenAddress.toLowerCase();
+      transferCounts.set(tokenAddress, (transferCounts.get(tokenAddress) || 0) + 1);
+    }
+    for (const [tokenAddress, count] of Array.from(transferCounts)) {
+      await executor.update(tokens)
+        .set({ transferCount: sql`GREATEST(${tokens.transferCount} - ${count}, 0)` })
+        .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress}`));
+    }
+
+    const nfts = new Map<string, { contractAddress: string; tokenId: string }>();
+    for (const transfer of removed) {
+      if (transfer.tokenType !== "ERC721" || !transfer.tokenId) continue;
+      nfts.set(`${transfer.tokenAddress.toLowerCase()}:${transfer.tokenId}`, { contractAddress: transfer.tokenAddress.toLowerCase(), tokenId: transfer.tokenId });
+    }
+    for (const nft of Array.from(nfts.values())) {
+      await executor.update(nftTokens)
+        .set({
+          owner: sql`(
+            SELECT LOWER(${tokenTransfers.to}) FROM ${tokenTransfers}
+            WHERE ${tokenTransfers.chainId} = ${chainId} AND LOWER(${tokenTransfers.tokenAddress}) = ${nft.contractAddress} AND ${tokenTransfers.tokenId} = ${nft.tokenId}
+            ORDER BY ${tokenTransfers.blockNumber} DESC, ${tokenTransfers.logIndex} DESC
+            LIMIT 1
+          )`,
+          lastUpdated: new Date(),
+        })
+        .where(and(onChain(nftTokens), sql`LOWER(${nftTokens.contractAddress}) = ${nft.contractAddress}`, eq(nftTokens.tokenId, nft.tokenId)));
+    }
+  }
+
+  // Drops unfinished metadata jobs for NFTs whose every transfer was removed; re-indexing queues them again
+  private async dropOrphanedNftMetadataJobs(executor: DbExecutor, removed: TokenTransfer[]): Promise<void> {
+    const chainId = currentChainId();
+    const nfts = new Map<string, { contractAddress: string; tokenId: string }>();
+    for (const transfer of removed) {
+      if (transfer.tokenType === "ERC20" || !transfer.tokenId) continue;
+      nfts.set(`${transfer.tokenAddress.toLowerCase()}:${transfer.tokenId}`, { contractAddress: transfer.tokenAddress.toLowerCase(), tokenId: transfer.tokenId });
+    }
+    for (const nft of Array.from(nfts.values())) {
+      await executor.delete(nftMetadataJobs).where(and(
+        onChain(nftMetadataJobs),
+        eq(nftMetadataJobs.contractAddress, nft.contractAddress),
+        eq(nftMetadataJobs.tokenId, nft.tokenId),
+        inArray(nftMetadataJobs.status, ["pending", "failed"]),
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${tokenTransfers}
+          WHERE ${tokenTransfers.chainId} = ${chainId} AND LOWER(${tokenTransfers.tokenAddress}) = ${nft.contractAddress} AND ${tokenTransfers.tokenId} = ${nft.tokenId}
+        )`
+      ));
+    }
+  }
+
+  // Undoes recorded balance changes, e.g. of blocks removed by a reorg
+  private async revertBalanceChanges(executor: DbExecutor, changes: TokenBalanceChange[]): Promise<void> {
+    const net: BalanceDeltas = new Map();
+    for (const change of changes) {
+      addDelta(net, refOf(change), -BigInt(change.delta));
+    }
+    for (const { ref, delta } of Array.from(net.values())) {
+      await this.adjustTokenHolder(executor, ref, delta);
+    }
+    await this.refreshHolderCounts(executor, Array.from(net.values()).map((d) => d.ref.tokenAddress));
+  }
+
+  private holderCondition(ref: TokenHolderRef): SQL | undefined {
+    return and(
+      onChain(tokenHolders),
+      sql`LOWER(${tokenHolders.tokenAddress}) = ${ref.tokenAddress}`,
+      sql`LOWER(${tokenHolders.holderAddress}) = ${ref.holderAddress}`,
+      sameTokenId(tokenHolders.tokenId, ref.tokenId)
+    );
+  }
+
+  // Balances can go negative while history before the holder's first incoming transfer is not indexed yet.
+  // A single upsert against token_holders_chain_token_holder_idx, so blocks saved in parallel that credit the
+  // same new holder add to one row instead of each inserting their own.
+  private async adjustTokenHolder(executor: DbExecutor, ref: TokenHolderRef, delta: bigint): Promise<void> {
+    if (delta === BigInt(0)) return;
+    await executor.execute(sql`
+      INSERT INTO token_holders (chain_id, token_address, holder_address, token_id, token_type, balance, last_updated)
+      VALUES (${currentChainId()}, ${ref.tokenAddress}, ${ref.holderAddress}, ${ref.tokenId}, ${ref.tokenType}, ${delta.toString()}, NOW())
+      ON CONFLICT (chain_id, LOWER(token_address), LOWER(holder_address), COALESCE(token_id, ''))
+      DO UPDATE SET
+        balance = (CAST(token_holders.balance AS NUMERIC) + CAST(EXCLUDED.balance AS NUMERIC))::text,
+        last_updated = EXCLUDED.last_updated
+    `);
+  }
+
+  private async refreshHolderCounts(executor: DbExecutor, tokenAddresses: string[]): Promise<void> {
+    for (const tokenAddress of Array.from(new Set(tokenAddresses))) {
+      await executor.update(tokens)
+        .set({
+          holderCount: sql`(SELECT COUNT(*) FROM ${tokenHolders} WHERE ${tokenHolders.chainId} = ${currentChainId()} AND LOWER(${tokenHolders.tokenAddress}) = ${tokenAddress} AND CAST(${tokenHolders.balance} AS NUMERIC) > 0)`,
+        })
+        .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress}`));
+    }
+  }
+
+  async getOrphanedBlockByHash(hash: string): Promise<OrphanedBlock | undefined> {
+    const [block] = await db.select().from(orphanedBlocks).where(and(onChain(orphanedBlocks), eq(orphanedBlocks.hash, hash)));
+    return block || undefined;
+  }
+
+  async getOrphanedBlocksByNumber(number: number): Promise<OrphanedBlock[]> {
+    return await db.select().from(orphanedBlocks).where(and(onChain(orphanedBlocks), eq(orphanedBlocks.number, number))).orderBy(desc(orphanedBlocks.orphanedAt));
+  }
+
+  async getBalanceSnapshots(address: string, page: number, limit: number): Promise<{ snapshots: BalanceSnapshot[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const condition = and(onChain(balanceSnapshots), eq(balanceSnapshots.address, address.toLowerCase()), isNotNull(balanceSnapshots.balance));
+    const [snapshotList, totalResult] = await Promise.all([
+      db.select().from(balanceSnapshots).where(condition).orderBy(desc(balanceSnapshots.blockNumber)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(balanceSnapshots).where(condition),
+    ]);
+    return { snapshots: snapshotList, total: totalResult[0]?.count || 0 };
+  }
+
+  // A balance only changes in blocks that touch the address, so the latest snapshot at or before the block holds.
+  // A gap row (null balance) is returned as is: the balance after it is unknown and has to come from the node.
+  async getBalanceSnapshotAt(address: string, blockNumber: number): Promise<BalanceSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(balanceSnapshots)
+      .where(and(
+        onChain(balanceSnapshots),
+        eq(balanceSnapshots.address, address.toLowerCase()),
+        lte(balanceSnapshots.blockNumber, blockNumber)
+      ))
+      .orderBy(desc(balanceSnapshots.blockNumber))
+      .limit(1);
+    return snapshot || undefined;
+  }
+
+  // Writes a block and all of its derived rows atomically; re-indexing a block replaces what was stored before
+  async saveIndexedBlock(data: IndexedBlockData): Promise<void> {
+    const blockNumber = data.block.number;
+    const txHashes = data.transactions.map((t) => t.hash);
+
+    await db.transaction(async (tx) => {
+      const replacedTransfers = await tx.delete(tokenTransfers)
+        .where(and(onChain(tokenTransfers), eq(tokenTransfers.blockNumber, blockNumber)))
+        .returning({ tokenAddress: tokenTransfers.tokenAddress });
+      await tx.delete(transactionLogs).where(and(onChain(transactionLogs), eq(transactionLogs.blockNumber, blockNumber)));
+      await tx.delete(internalTransactions).where(and(onChain(internalTransactions), eq(internalTransactions.blockNumber, blockNumber)));
+      await tx.delete(proxyUpgrades).where(and(onChain(proxyUpgrades), eq(proxyUpgrades.blockNumber, blockNumber)));
+      await tx.delete(balanceSnapshots).where(and(onChain(balanceSnapshots), eq(balanceSnapshots.blockNumber, blockNumber)));
+      const replacedBalanceChanges = await tx.delete(tokenBalanceChanges)
+        .where(and(onChain(tokenBalanceChanges), eq(tokenBalanceChanges.blockNumber, blockNumber)))
+        .returning();
+      // Cached traces were taken in whatever block held the transaction when it was first viewed
+      await tx.delete(transactionTraces).where(and(
+        onChain(transactionTraces),
+        txHashes.length > 0
+          ? or(eq(transactionTraces.blockNumber, blockNumber), inArray(transactionTraces.transactionHash, txHashes))
+          : eq(transactionTraces.blockNumber, blockNumber)
+      ));
+      await tx.delete(contractCreations).where(and(
+        onChain(contractCreations),
+        txHashes.length > 0
+          ? or(eq(contractCreations.blockNumber, blockNumber), inArray(contractCreations.transactionHash, txHashes))
+          : eq(contractCreations.blockNumber, blockNumber)
+      ));
+      await tx.delete(transactions).where(and(
+        onChain(transactions),
+        txHashes.length > 0
+          ? or(eq(transactions.blockNumber, blockNumber), inArray(transactions.hash, txHashes))
+          : eq(transactions.blockNumber, blockNumber)
+      ));
+
+      const block = withChain(data.block);
+      await tx.insert(blocks).values(block).onConflictDoUpdate({ target: [blocks.chainId, blocks.number], set: block });
+      for (const rows of chunk(data.transactions.map(withChain))) await tx.insert(transactions).values(rows);
+      for (const rows of chunk(data.logs.map(withChain))) await tx.insert(transactionLogs).values(rows);
+      for (const rows of chunk(data.tokenTransfers.map(withChain))) await tx.insert(tokenTransfers).values(rows).onConflictDoNothing();
+      for (const rows of chunk(data.internalTransactions.map(withChain))) await tx.insert(internalTransactions).values(rows);
+      for (const rows of chunk(data.proxyUpgrades.map(withChain))) await tx.insert(proxyUpgrades).values(rows).onConflictDoNothing();
+      for (const rows of chunk(data.balanceSnapshots.map(withChain))) await tx.insert(balanceSnapshots).values(rows);
+      for (const rows of chunk(data.contractCreations.map(withChain))) await tx.insert(contractCreations).values(rows).onConflictDoNothing();
+      for (const rows of chunk(data.nftMetadataJobs.map(withChain))) await tx.insert(nftMetadataJobs).values(rows).onConflictDoNothing();
+
+      // Pending rows of these transactions are mined; other pending rows with the same sender and nonce were replaced
+      if (data.transactions.length > 0) {
+        await tx.execute(sql`
+          UPDATE pending_transactions p SET
+            status = CASE WHEN p.hash = t.hash THEN 'mined' ELSE 'replaced' END,
+            replaced_by = CASE WHEN p.hash = t.hash THEN NULL ELSE t.hash END,
+            block_number = t.block_number,
+            updated_at = NOW()
+          FROM transactions t
+          WHERE t.chain_id = ${currentChainId()} AND t.block_number = ${blockNumber}
+            AND p.chain_id = t.chain_id AND LOWER(p.from_address) = LOWER(t.from_address) AND p.nonce = t.nonce
+        `);
+      }
+
+      // Net change per token, so re-indexing a block does not count its transfers twice
+      const transferDeltas = new Map<string, number>();
+      for (const transfer of replacedTransfers) {
+        const tokenAddress = transfer.tokenAddress.toLowerCase();
+        transferDeltas.set(tokenAddress, (transferDeltas.get(tokenAddress) || 0) - 1);
+      }
+      for (const transfer of data.tokenTransfers) {
+        const tokenAddress = transfer.tokenAddress.toLowerCase();
+        transferDeltas.set(tokenAddress, (transferDeltas.get(tokenAddress) || 0) + 1);
+      }
+      for (const [tokenAddress, delta] of Array.from(transferDeltas)) {
+        if (delta === 0) continue;
+        await tx.update(tokens)
+          .set({ transferCount: sql`${tokens.transferCount} + ${delta}` })
+          .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress}`));
+      }
+
+      await this.applyBalanceChanges(tx, data, replacedBalanceChanges);
+      await this.upsertTokenApprovals(tx, data.tokenApprovals);
+    });
+  }
+
+  // Keeps the latest event per (owner, token, spender, type). Backfill writes blocks out of order, so an
+  // approval only replaces the stored one when it comes from a later log.
+  private async upsertTokenApprovals(executor: DbExecutor, approvals: InsertTokenApproval[]): Promise<void> {
+    const latest = new Map<string, InsertTokenApproval>();
+    for (const approval of approvals) {
+      const key = `${approval.ownerAddress}:${approval.tokenAddress}:${approval.spenderAddress}:${approval.approvalType}`;
+      const existing = latest.get(key);
+      if (!existing || approval.blockNumber > existing.blockNumber
+        || (approval.blockNumber === existing.blockNumber && approval.logIndex > existing.logIndex)) {
+        latest.set(key, approval);
+      }
+    }
+
+    for (const rows of chunk(Array.from(latest.values()).map(withChain))) {
+      await executor.insert(tokenApprovals).values(rows).onConflictDoUpdate({
+        target: [tokenApprovals.chainId, tokenApprovals.ownerAddress, tokenApprovals.tokenAddress, tokenApprovals.spenderAddress, tokenApprovals.approvalType],
+        set: {
+          allowance: sql`excluded.allowance`,
+          approved: sql`excluded.approved`,
+          transactionHash: sql`excluded.transaction_hash`,
+          blockNumber: sql`excluded.block_number`,
+          logIndex: sql`excluded.log_index`,
+          timestamp: sql`excluded.timestamp`,
+        },
+        setWhere: sql`(excluded.block_number, excluded.log_index) >= (${tokenApprovals.blockNumber}, ${tokenApprovals.logIndex})`,
+      });
+    }
+  }
+
+  // Approvals last set in removed blocks fall back to the latest matching event below the given height
+  private async restoreTokenApprovals(executor: DbExecutor, removed: TokenApproval[], height?: number): Promise<void> {
+    const restored: InsertTokenApproval[] = [];
+    for (const approval of removed) {
+      const [logEntry] = await executor
+        .select({
+          address: transactionLogs.address,
+          topics: transactionLogs.topics,
+          transactionHash: transactionLogs.transactionHash,
+          blockNumber: transactionLogs.blockNumber,
+          logIndex: transactionLogs.logIndex,
+          data: transactionLogs.data,
+          timestamp: blocks.timestamp,
+        })
+        .from(transactionLogs)
+        .innerJoin(blocks, and(eq(blocks.chainId, transactionLogs.chainId), eq(blocks.number, transactionLogs.blockNumber)))
+        .where(and(
+          onChain(transactionLogs),
+          sql`LOWER(${transactionLogs.address}) = ${approval.tokenAddress}`,
+          eq(transactionLogs.topic0, approval.approvalType === "allowance" ? APPROVAL_TOPIC : APPROVAL_FOR_ALL_TOPIC),
+          sql`${transactionLogs.topics}[2] = ${addressTopic(approval.ownerAddress)}`,
+          sql`${transactionLogs.topics}[3] = ${addressTopic(approval.spenderAddress)}`,
+          sql`array_length(${transactionLogs.topics}, 1) = 3`,
+          height !== undefined ? lt(transactionLogs.blockNumber, height) : undefined
+        ))
+        .orderBy(desc(transactionLogs.blockNumber), desc(transactionLogs.logIndex))
+        .limit(1);
+      const parsed = logEntry && parseTokenApproval(logEntry, logEntry.timestamp);
+      if (parsed) restored.push(parsed);
+    }
+    await this.upsertTokenApprovals(executor, restored);
+  }
+
+  // Builds the approvals table from Approval / ApprovalForAll logs indexed before it existed
+  async backfillTokenApprovals(): Promise<{ success: boolean; logsProcessed: number; error?: string }> {
+    const pageSize = 5000;
+    let logsProcessed = 0;
+    let after = { blockNumber: -1, logIndex: -1 };
+    try {
+      while (true) {
+        const page = await db
+          .select({
+            address: transactionLogs.address,
+            topics: transactionLogs.topics,
+            transactionHash: transactionLogs.transactionHash,
+            blockNumber: transactionLogs.blockNumber,
+            logIndex: transactionLogs.logIndex,
+            data: transactionLogs.data,
+            timestamp: blocks.timestamp,
+          })
+          .from(transactionLogs)
+          .innerJoin(blocks, and(eq(blocks.chainId, transactionLogs.chainId), eq(blocks.number, transactionLogs.blockNumber)))
+          .where(and(
+            onChain(transactionLogs),
+            inArray(transactionLogs.topic0, [APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC]),
+            sql`(${transactionLogs.blockNumber}, ${transactionLogs.logIndex}) > (${after.blockNumber}, ${after.logIndex})`
+          ))
+          .orderBy(asc(transactionLogs.blockNumber), asc(transactionLogs.logIndex))
+          .limit(pageSize);
+        if (page.length === 0) break;
+
+        const approvals = page
+          .map((logEntry) => parseTokenApproval(logEntry, logEntry.timestamp))
+          .filter((approval): approval is InsertTokenApproval => approval !== null);
+        await this.upsertTokenApprovals(db, approvals);
+        logsProcessed += page.length;
+        const last = page[page.length - 1];
+        after = { blockNumber: last.blockNumber, logIndex: last.logIndex };
+      }
+      return { success: true, logsProcessed };
+    } catch (error: any) {
+      console.error("Token approval backfill error:", error.message);
+      return { success: false, logsProcessed, error: error.message };
+    }
+  }
+
+  // Active approvals only, most recently changed first
+  async getTokenApprovals(ownerAddress: string, page: number, limit: number): Promise<{ approvals: TokenApprovalEntry[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const condition = and(onChain(tokenApprovals), eq(tokenApprovals.ownerAddress, ownerAddress.toLowerCase()), eq(tokenApprovals.approved, true));
+    const [approvalList, totalResult] = await Promise.all([
+      db.select({
+        ...getTableColumns(tokenApprovals),
+        tokenName: tokens.name,
+        tokenSymbol: tokens.symbol,
+        tokenDecimals: tokens.decimals,
+        tokenType: tokens.tokenType,
+        spenderLabel: sql<string | null>`(
+          SELECT ${addressLabels.label} FROM ${addressLabels}
+          WHERE LOWER(${addressLabels.address}) = ${tokenApprovals.spenderAddress} AND ${addressLabels.isPublic}
+          ORDER BY ${addressLabels.createdAt} DESC
+          LIMIT 1
+        )`,
+      })
+        .from(tokenApprovals)
+        .leftJoin(tokens, and(eq(tokens.chainId, tokenApprovals.chainId), sql`LOWER(${tokens.address}) = ${tokenApprovals.tokenAddress}`))
+        .where(condition)
+        .orderBy(desc(tokenApprovals.blockNumber), desc(tokenApprovals.logIndex))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(tokenApprovals).where(condition),
+    ]);
+    return { approvals: approvalList, total: totalResult[0]?.count || 0 };
+  }
+
+  // Blocks written before per-block transactions existed can lack some of their transactions; drop them for re-indexing
+  async deletePartialBlocks(): Promise<number[]> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.execute(sql`
+        SELECT b.number AS block_number
+        FROM blocks b
+        LEFT JOIN transactions t ON t.chain_id = b.chain_id AND t.block_number = b.number
+        WHERE b.chain_id = ${currentChainId()}
+        GROUP BY b.number, b.transaction_count
+        HAVING COUNT(t.hash) < b.transaction_count
+      `);
+      const partial = result.rows.map((row: any) => Number(row.block_number));
+      if (partial.length === 0) return partial;
+
+      const deletedTransfers = await tx.delete(tokenTransfers).where(and(onChain(tokenTransfers), inArray(tokenTransfers.blockNumber, partial))).returning();
+      await tx.delete(transactionLogs).where(and(onChain(transactionLogs), inArray(transactionLogs.blockNumber, partial)));
+      await tx.delete(internalTransactions).where(and(onChain(internalTransactions), inArray(internalTransactions.blockNumber, partial)));
+      await tx.delete(proxyUpgrades).where(and(onChain(proxyUpgrades), inArray(proxyUpgrades.blockNumber, partial)));
+      await tx.delete(balanceSnapshots).where(and(onChain(balanceSnapshots), inArray(balanceSnapshots.blockNumber, partial)));
+      const deletedBalanceChanges = await tx.delete(tokenBalanceChanges)
+        .where(and(onChain(tokenBalanceChanges), inArray(tokenBalanceChanges.blockNumber, partial)))
+        .returning();
+      await this.revertBalanceChanges(tx, deletedBalanceChanges);
+      // The partial blocks' logs are already gone, so approvals fall back to the latest log in any other block
+      const deletedApprovals = await tx.delete(tokenApprovals)
+        .where(and(onChain(tokenApprovals), inArray(tokenApprovals.blockNumber, partial)))
+        .returning();
+      await this.restoreTokenApprovals(tx, deletedApprovals);
+      await tx.delete(transactionTraces).where(and(onChain(transactionTraces), inArray(transactionTraces.blockNumber, partial)));
+      await tx.delete(contractCreations).where(and(onChain(contractCreations), inArray(contractCreations.blockNumber, partial)));
+      await this.revertRemovedTransfers(tx, deletedTransfers);
+      await this.dropOrphanedNftMetadataJobs(tx, deletedTransfers);
+      await tx.delete(transactions).where(and(onChain(transactions), inArray(transactions.blockNumber, partial)));
+      await tx.delete(blocks).where(and(onChain(blocks), inArray(blocks.number, partial)));
+      return partial;
+    });
+  }
+
+  async search(query: string): Promise<{ type: string; block?: Block; transaction?: Transaction; pendingTransaction?: PendingTransaction; address?: Address } | null> {
     const trimmed = query.trim();
 
     if (/^\d+$/.test(trimmed)) {
@@ -836,12 +1755,15 @@ export class DatabaseStorage implements IStorage {
 
       const tx = await this.getTransactionByHash(trimmed);
       if (tx) return { type: "transaction", transaction: tx };
+
+      const pendingTx = await this.getPendingTransaction(trimmed.toLowerCase());
+      if (pendingTx) return { type: "pending", pendingTransaction: pendingTx };
     }
 
     if (trimmed.startsWith("0x") && trimmed.length === 42) {
       const addr = await this.getAddressByAddress(trimmed);
       if (addr) return { type: "address", address: addr };
-      return { type: "address", address: { id: "", address: trimmed, balance: "0", transactionCount: 0, sentCount: 0, receivedCount: 0, isContract: false, contractCode: null, contractName: null, lastSeen: null, firstSeen: null } };
+      return { type: "address", address: { id: "", chainId: currentChainId(), address: trimmed, balance: "0", transactionCount: 0, sentCount: 0, receivedCount: 0, isContract: false, contractCode: null, contractName: null, proxyType: null, implementationAddress: null, beaconAddress: null, lastSeen: null, firstSeen: null } };
     }
 
     // Check for bech32 address (tbt1...)
@@ -850,7 +1772,7 @@ export class DatabaseStorage implements IStorage {
       if (hexAddress && hexAddress.length === 42) {
         const addr = await this.getAddressByAddress(hexAddress);
         if (addr) return { type: "address", address: addr };
-        return { type: "address", address: { id: "", address: hexAddress, balance: "0", transactionCount: 0, sentCount: 0, receivedCount: 0, isContract: false, contractCode: null, contractName: null, lastSeen: null, firstSeen: null } };
+        return { type: "address", address: { id: "", chainId: currentChainId(), address: hexAddress, balance: "0", transactionCount: 0, sentCount: 0, receivedCount: 0, isContract: false, contractCode: null, contractName: null, proxyType: null, implementationAddress: null, beaconAddress: null, lastSeen: null, firstSeen: null } };
       }
     }
 
@@ -858,48 +1780,453 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getVerifiedContract(address: string): Promise<VerifiedContract | undefined> {
-    const [contract] = await db.select().from(verifiedContracts).where(sql`LOWER(${verifiedContracts.address}) = ${address.toLowerCase()}`);
+    const [contract] = await db.select().from(verifiedContracts).where(and(onChain(verifiedContracts), sql`LOWER(${verifiedContracts.address}) = ${address.toLowerCase()}`));
     return contract || undefined;
   }
 
-  async createVerifiedContract(contract: InsertVerifiedContract): Promise<VerifiedContract> {
-    const [created] = await db
-      .insert(verifiedContracts)
-      .values(contract)
-      .onConflictDoUpdate({
-        target: verifiedContracts.address,
+  async createVerifiedContract(contract: InsertVerifiedContract, sourceFiles?: { path: string; content: string }[]): Promise<VerifiedContract> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(verifiedContracts)
+        .values(withChain(contract))
+        .onConflictDoUpdate({
+          target: [verifiedContracts.chainId, verifiedContracts.address],
+          set: {
+            name: contract.name,
+            compilerVersion: contract.compilerVersion,
+            evmVersion: contract.evmVersion,
+            optimization: contract.optimization,
+            runs: contract.runs,
+            constructorArgs: contract.constructorArgs,
+            sourceCode: contract.sourceCode,
+            abi: contract.abi,
+            bytecodeHash: contract.bytecodeHash,
+            verificationStatus: contract.verificationStatus,
+            sourceFormat: contract.sourceFormat,
+            mainFile: contract.mainFile,
+            libraries: contract.libraries,
+            compilerSettings: contract.compilerSettings,
+            storageLayout: contract.storageLayout,
+            license: contract.license,
+            verifiedAt: new Date(),
+          },
+        })
+        .returning();
+
+      if (sourceFiles) {
+        const address = contract.address.toLowerCase();
+        await tx.delete(contractSourceFiles).where(and(onChain(contractSourceFiles), sql`LOWER(${contractSourceFiles.contractAddress}) = ${address}`));
+        if (sourceFiles.length > 0) {
+          await tx.insert(contractSourceFiles).values(
+            sourceFiles.map((file) => withChain({ contractAddress: address, path: file.path, content: file.content }))
+          );
+        }
+      }
+
+      return created;
+    });
+  }
+
+  async getVerifiedContracts(page: number, limit: number): Promise<{ contracts: VerifiedContract[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const [contractList, totalResult] = await Promise.all([
+      db.select().from(verifiedContracts).where(onChain(verifiedContracts)).orderBy(desc(verifiedContracts.verifiedAt)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(verifiedContracts).where(onChain(verifiedContracts)),
+    ]);
+    return { contracts: contractList, total: totalResult[0]?.count || 0 };
+  }
+
+  async getContractSourceFiles(address: string): Promise<ContractSourceFile[]> {
+    return await db
+      .select()
+      .from(contractSourceFiles)
+      .where(and(onChain(contractSourceFiles), sql`LOWER(${contractSourceFiles.contractAddress}) = ${address.toLowerCase()}`))
+      .orderBy(contractSourceFiles.path);
+  }
+
+  // Pending Transactions
+  // Seeing a dropped transaction in the pool again makes it pending again; mined and replaced rows are left alone
+  async upsertPendingTransactions(txs: InsertPendingTransaction[]): Promise<void> {
+    const now = new Date();
+    for (const rows of chunk(txs.map(withChain))) {
+      await db.insert(pendingTransactions).values(rows).onConflictDoUpdate({
+        target: [pendingTransactions.chainId, pendingTransactions.hash],
         set: {
-          name: contract.name,
-          compilerVersion: contract.compilerVersion,
-          evmVersion: contract.evmVersion,
-          optimization: contract.optimization,
-          runs: contract.runs,
-          constructorArgs: contract.constructorArgs,
-          sourceCode: contract.sourceCode,
-          abi: contract.abi,
-          bytecodeHash: contract.bytecodeHash,
-          verificationStatus: contract.verificationStatus,
-          license: contract.license,
-          verifiedAt: new Date(),
+          status: sql`CASE WHEN ${pendingTransactions.status} = 'dropped' THEN 'pending' ELSE ${pendingTransactions.status} END`,
+          lastSeenAt: now,
+          updatedAt: now,
         },
+      });
+    }
+  }
+
+  async touchPendingTransactions(hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+    await db.update(pendingTransactions)
+      .set({ lastSeenAt: new Date() })
+      .where(and(onChain(pendingTransactions), inArray(pendingTransactions.hash, hashes)));
+  }
+
+  async getPendingTransaction(hash: string): Promise<PendingTransaction | undefined> {
+    const [pending] = await db.select().from(pendingTransactions).where(and(onChain(pendingTransactions), eq(pendingTransactions.hash, hash)));
+    return pending || undefined;
+  }
+
+  // Everything not yet mined, including dropped and replaced transactions so senders can find out what happened
+  async getPendingTransactionsByAddress(address: string, page: number, limit: number): Promise<{ transactions: PendingTransaction[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const normalizedAddress = address.toLowerCase();
+    const condition = and(
+      onChain(pendingTransactions),
+      sql`${pendingTransactions.status} <> 'mined'`,
+      or(
+        sql`LOWER(${pendingTransactions.from}) = ${normalizedAddress}`,
+        sql`LOWER(${pendingTransactions.to}) = ${normalizedAddress}`
+      )
+    );
+    const [txList, totalResult] = await Promise.all([
+      db.select().from(pendingTransactions).where(condition).orderBy(desc(pendingTransactions.firstSeenAt)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(pendingTransactions).where(condition),
+    ]);
+    return { transactions: txList, total: totalResult[0]?.count || 0 };
+  }
+
+  async getStalePendingTransactions(seenBefore: Date, limit: number): Promise<PendingTransaction[]> {
+    return await db
+      .select()
+      .from(pendingTransactions)
+      .where(and(onChain(pendingTransactions), eq(pendingTransactions.status, "pending"), sql`${pendingTransactions.lastSeenAt} < ${seenBefore}`))
+      .orderBy(asc(pendingTransactions.lastSeenAt))
+      .limit(limit);
+  }
+
+  // Marks the transaction mined or replaced when an indexed transaction used its sender and nonce, or dropped
+  // when there is none and dropIfUnmined is set. Returns whether the row left the pending state.
+  async resolvePendingTransaction(pending: PendingTransaction, dropIfUnmined: boolean): Promise<boolean> {
+    const [mined] = await db
+      .select({ hash: transactions.hash, blockNumber: transactions.blockNumber })
+      .from(transactions)
+      .where(and(onChain(transactions), sql`LOWER(${transactions.from}) = ${pending.from.toLowerCase()}`, eq(transactions.nonce, pending.nonce)))
+      .limit(1);
+    if (!mined && !dropIfUnmined) return false;
+
+    await db.update(pendingTransactions)
+      .set(mined
+        ? {
+            status: mined.hash === pending.hash ? "mined" : "replaced",
+            replacedBy: mined.hash === pending.hash ? null : mined.hash,
+            blockNumber: mined.blockNumber,
+            updatedAt: new Date(),
+          }
+        : { status: "dropped", updatedAt: new Date() })
+      .where(and(onChain(pendingTransactions), eq(pendingTransactions.id, pending.id)));
+    return true;
+  }
+
+  async pruneResolvedPendingTransactions(updatedBefore: Date): Promise<number> {
+    const deleted = await db.delete(pendingTransactions)
+      .where(and(onChain(pendingTransactions), sql`${pendingTransactions.status} <> 'pending'`, sql`${pendingTransactions.updatedAt} < ${updatedBefore}`))
+      .returning({ id: pendingTransactions.id });
+    return deleted.length;
+  }
+
+  // Verification Jobs
+  async createVerificationJob(job: InsertVerificationJob): Promise<VerificationJob> {
+    const [created] = await db.insert(verificationJobs).values(withChain(job)).returning();
+    return created;
+  }
+
+  async getVerificationJob(id: string): Promise<VerificationJob | undefined> {
+    const [job] = await db.select().from(verificationJobs).where(eq(verificationJobs.id, id));
+    return job || undefined;
+  }
+
+  async getVerificationJobByGuid(guid: string): Promise<VerificationJob | undefined> {
+    const [job] = await db.select().from(verificationJobs).where(eq(verificationJobs.guid, guid));
+    return job || undefined;
+  }
+
+  async getVerificationJobs(page: number, limit: number, status?: string): Promise<{ jobs: VerificationJob[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const condition = and(onChain(verificationJobs), status ? eq(verificationJobs.status, status) : undefined);
+    const [jobList, totalResult] = await Promise.all([
+      db.select().from(verificationJobs).where(condition).orderBy(desc(verificationJobs.createdAt)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(verificationJobs).where(condition),
+    ]);
+    return { jobs: jobList, total: totalResult[0]?.count || 0 };
+  }
+
+  // Atomically moves the oldest pending job to "compiling" so concurrent workers never pick the same job.
+  // Jobs of every chain share one queue; the worker runs each job on the job's chain.
+  async claimNextVerificationJob(): Promise<VerificationJob | undefined> {
+    const [job] = await db
+      .update(verificationJobs)
+      .set({
+        status: "compiling",
+        startedAt: new Date(),
+        attempts: sql`${verificationJobs.attempts} + 1`,
       })
+      .where(eq(
+        verificationJobs.id,
+        sql`(SELECT id FROM verification_jobs WHERE status = 'pending' ORDER BY created_at LIMIT 1 FOR UPDATE SKIP LOCKED)`
+      ))
       .returning();
-    return created;
+    return job || undefined;
   }
 
-  async getVerifiedContracts(page: number, limit: number): Promise<{ contracts: VerifiedContract[]; total: number }> {
+  async updateVerificationJob(id: string, updates: Partial<InsertVerificationJob>): Promise<VerificationJob | undefined> {
+    const [job] = await db.update(verificationJobs).set(updates).where(eq(verificationJobs.id, id)).returning();
+    return job || undefined;
+  }
+
+  async retryVerificationJob(id: string): Promise<VerificationJob | undefined> {
+    const [job] = await db
+      .update(verificationJobs)
+      .set({ status: "pending", failureReason: null, matchType: null, startedAt: null, completedAt: null })
+      .where(and(eq(verificationJobs.id, id), eq(verificationJobs.status, "fail")))
+      .returning();
+    return job || undefined;
+  }
+
+  // Jobs left in "compiling" by a crashed or restarted process go back to the queue
+  async resetStaleVerificationJobs(): Promise<number> {
+    const reset = await db
+      .update(verificationJobs)
+      .set({ status: "pending", startedAt: null })
+      .where(eq(verificationJobs.status, "compiling"))
+      .returning({ id: verificationJobs.id });
+    return reset.length;
+  }
+
+  // Proxies
+  async updateAddressProxy(address: string, proxy: { proxyType: string | null; implementationAddress: string | null; beaconAddress: string | null }): Promise<void> {
+    await db
+      .update(addresses)
+      .set(proxy)
+      .where(and(onChain(addresses), sql`LOWER(${addresses.address}) = ${address.toLowerCase()}`));
+  }
+
+  async updateBeaconProxies(beaconAddress: string, implementationAddress: string): Promise<void> {
+    await db
+      .update(addresses)
+      .set({ implementationAddress })
+      .where(and(onChain(addresses), sql`LOWER(${addresses.beaconAddress}) = ${beaconAddress.toLowerCase()}`));
+  }
+
+  async createProxyUpgrade(upgrade: InsertProxyUpgrade): Promise<void> {
+    await db.insert(proxyUpgrades).values(withChain(upgrade)).onConflictDoNothing();
+  }
+
+  async getProxyUpgrades(proxyAddress: string): Promise<ProxyUpgrade[]> {
+    return await db
+      .select()
+      .from(proxyUpgrades)
+      .where(and(onChain(proxyUpgrades), sql`LOWER(${proxyUpgrades.proxyAddress}) = ${proxyAddress.toLowerCase()}`))
+      .orderBy(desc(proxyUpgrades.blockNumber), desc(proxyUpgrades.logIndex));
+  }
+
+  // Signature Registry
+  async insertSignatures(rows: InsertSignature[]): Promise<number> {
+    let inserted = 0;
+    for (let i = 0; i < rows.length; i += 1000) {
+      const result = await db
+        .insert(signatures)
+        .values(rows.slice(i, i + 1000))
+        .onConflictDoNothing()
+        .returning({ id: signatures.id });
+      inserted += result.length;
+    }
+    return inserted;
+  }
+
+  async getSignaturesBySelector(selector: string): Promise<Signature[]> {
+    return await db
+      .select()
+      .from(signatures)
+      .where(eq(signatures.selector, selector.toLowerCase()))
+      .orderBy(desc(signatures.isPreferred), asc(signatures.createdAt));
+  }
+
+  async getSignaturesBySelectors(selectors: string[]): Promise<Signature[]> {
+    if (selectors.length === 0) return [];
+    return await db
+      .select()
+      .from(signatures)
+      .where(inArray(signatures.selector, selectors.map((s) => s.toLowerCase())))
+      .orderBy(desc(signatures.isPreferred), asc(signatures.createdAt));
+  }
+
+  async getSignatureCollisions(page: number, limit: number): Promise<{ collisions: { selector: string; signatures: Signature[] }[]; total: number }> {
     const offset = (page - 1) * limit;
-    const [contractList, totalResult] = await Promise.all([
-      db.select().from(verifiedContracts).orderBy(desc(verifiedContracts.verifiedAt)).limit(limit).offset(offset),
-      db.select({ count: count() }).from(verifiedContracts),
+    const colliding = db
+      .select({ selector: signatures.selector })
+      .from(signatures)
+      .groupBy(signatures.selector)
+      .having(sql`count(*) > 1`);
+
+    const [selectorRows, countResult] = await Promise.all([
+      colliding.orderBy(asc(signatures.selector)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(colliding.as("colliding")),
     ]);
-    return { contracts: contractList, total: totalResult[0]?.count || 0 };
+
+    const selectors = selectorRows.map((r) => r.selector);
+    const rows = selectors.length > 0
+      ? await db
+          .select()
+          .from(signatures)
+          .where(inArray(signatures.selector, selectors))
+          .orderBy(desc(signatures.isPreferred), asc(signatures.createdAt))
+      : [];
+
+    return {
+      collisions: selectors.map((selector) => ({
+        selector,
+        signatures: rows.filter((r) => r.selector === selector),
+      })),
+      total: countResult[0]?.count || 0,
+    };
+  }
+
+  async setPreferredSignature(id: string): Promise<Signature | undefined> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(signatures).where(eq(signatures.id, id));
+      if (!target) return undefined;
+
+      await tx
+        .update(signatures)
+        .set({ isPreferred: false })
+        .where(eq(signatures.selector, target.selector));
+      const [updated] = await tx
+        .update(signatures)
+        .set({ isPreferred: true })
+        .where(eq(signatures.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getSignatureStats(): Promise<{ total: number; bySource: Record<string, number>; collisions: number }> {
+    const colliding = db
+      .select({ selector: signatures.selector })
+      .from(signatures)
+      .groupBy(signatures.selector)
+      .having(sql`count(*) > 1`);
+
+    const [sourceRows, collisionResult] = await Promise.all([
+      db.select({ source: signatures.source, count: count() }).from(signatures).groupBy(signatures.source),
+      db.select({ count: count() }).from(colliding.as("colliding")),
+    ]);
+
+    const bySource: Record<string, number> = {};
+    let total = 0;
+    for (const row of sourceRows) {
+      bySource[row.source] = row.count;
+      total += row.count;
+    }
+    return { total, bySource, collisions: collisionResult[0]?.count || 0 };
+  }
+
+  // Transaction Traces
+  async getTransactionTrace(txHash: string, tracer: TransactionTracer): Promise<TransactionTrace | undefined> {
+    const [trace] = await db.select().from(transactionTraces)
+      .where(and(
+        onChain(transactionTraces),
+        eq(transactionTraces.transactionHash, txHash.toLowerCase()),
+        eq(transactionTraces.tracer, tracer)
+      ));
+    return trace || undefined;
+  }
+
+  async saveTransactionTrace(trace: InsertTransactionTrace): Promise<void> {
+    const row = withChain({ ...trace, transactionHash: trace.transactionHash.toLowerCase() });
+    await db.insert(transactionTraces).values(row).onConflictDoUpdate({
+      target: [transactionTraces.chainId, transactionTraces.transactionHash, transactionTraces.tracer],
+      set: { blockNumber: row.blockNumber, trace: row.trace, createdAt: new Date() },
+    });
+  }
+
+  // Contract Creations
+  // A CREATE2 address can be deployed again after a self-destruct; the latest deployment is the current code
+  async getContractCreation(contractAddress: string): Promise<ContractCreation | undefined> {
+    const [creation] = await db.select().from(contractCreations)
+      .where(and(onChain(contractCreations), eq(contractCreations.contractAddress, contractAddress.toLowerCase())))
+      .orderBy(desc(contractCreations.blockNumber))
+      .limit(1);
+    return creation || undefined;
+  }
+
+  async getContractCreations(contractAddresses: string[]): Promise<ContractCreation[]> {
+    if (contractAddresses.length === 0) return [];
+    const rows = await db.select().from(contractCreations)
+      .where(and(onChain(contractCreations), inArray(contractCreations.contractAddress, contractAddresses.map((a) => a.toLowerCase()))))
+      .orderBy(desc(contractCreations.blockNumber));
+    const latest = new Map<string, ContractCreation>();
+    for (const row of rows) {
+      if (!latest.has(row.contractAddress)) latest.set(row.contractAddress, row);
+    }
+    return Array.from(latest.values());
+  }
+
+  // Contracts the address deployed itself or, as a factory, created through CREATE/CREATE2
+  async getContractsDeployedBy(address: string, page: number, limit: number): Promise<{ contracts: DeployedContractEntry[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const normalized = address.toLowerCase();
+    const condition = and(
+      onChain(contractCreations),
+      or(eq(contractCreations.creatorAddress, normalized), eq(contractCreations.factoryAddress, normalized))
+    );
+    const [contracts, totalResult] = await Promise.all([
+      db.select({
+        ...getTableColumns(contractCreations),
+        contractName: verifiedContracts.name,
+      })
+        .from(contractCreations)
+        .leftJoin(verifiedContracts, and(
+          eq(verifiedContracts.chainId, contractCreations.chainId),
+          sql`LOWER(${verifiedContracts.address}) = ${contractCreations.contractAddress}`
+        ))
+        .where(condition)
+        .orderBy(desc(contractCreations.blockNumber))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(contractCreations).where(condition),
+    ]);
+    return { contracts, total: totalResult[0]?.count || 0 };
+  }
+
+  // Fills the table from blocks indexed before creations were recorded. Factory deployments come from the stored
+  // CREATE/CREATE2 internal transactions, so they are only found for blocks that were indexed with tracing; those
+  // rows only carry their own frame's error, so a creation undone by a reverting parent call is not excluded.
+  async backfillContractCreations(): Promise<{ success: boolean; deployments: number; factoryDeployments: number; error?: string }> {
+    const chainId = currentChainId();
+    try {
+      const deployments = await db.execute(sql`
+        INSERT INTO contract_creations (chain_id, contract_address, creator_address, factory_address, creation_type, transaction_hash, block_number, timestamp)
+        SELECT t.chain_id, LOWER(t.contract_address), LOWER(t.from_address), NULL, 'CREATE', t.hash, t.block_number, t.timestamp
+        FROM transactions t
+        WHERE t.chain_id = ${chainId} AND t.contract_address IS NOT NULL AND t.status = true
+        ON CONFLICT DO NOTHING
+      `);
+      const factoryDeployments = await db.execute(sql`
+        INSERT INTO contract_creations (chain_id, contract_address, creator_address, factory_address, creation_type, transaction_hash, block_number, timestamp)
+        SELECT i.chain_id, LOWER(i.to_address), LOWER(t.from_address), LOWER(i.from_address), UPPER(i.type), i.transaction_hash, i.block_number, i.timestamp
+        FROM internal_transactions i
+        JOIN transactions t ON t.chain_id = i.chain_id AND t.hash = i.transaction_hash
+        WHERE i.chain_id = ${chainId} AND UPPER(i.type) IN ('CREATE', 'CREATE2')
+          AND i.to_address IS NOT NULL AND i.error IS NULL AND t.status = true
+        ON CONFLICT DO NOTHING
+      `);
+      return { success: true, deployments: deployments.rowCount ?? 0, factoryDeployments: factoryDeployments.rowCount ?? 0 };
+    } catch (error: any) {
+      console.error("Contract creation backfill error:", error.message);
+      return { success: false, deployments: 0, factoryDeployments: 0, error: error.message };
+    }
   }
 
   // Internal Transactions
   async getInternalTransactionsByTxHash(txHash: string): Promise<InternalTransaction[]> {
     return db.select().from(internalTransactions)
-      .where(eq(internalTransactions.transactionHash, txHash))
+      .where(and(onChain(internalTransactions), eq(internalTransactions.transactionHash, txHash)))
       .orderBy(internalTransactions.id);
   }
 
@@ -908,23 +2235,23 @@ export class DatabaseStorage implements IStorage {
     const lowerAddr = address.toLowerCase();
     const [traces, totalResult] = await Promise.all([
       db.select().from(internalTransactions)
-        .where(or(
+        .where(and(onChain(internalTransactions), or(
           sql`LOWER(${internalTransactions.from}) = ${lowerAddr}`,
           sql`LOWER(${internalTransactions.to}) = ${lowerAddr}`
-        ))
+        )))
         .orderBy(desc(internalTransactions.blockNumber))
         .limit(limit).offset(offset),
       db.select({ count: count() }).from(internalTransactions)
-        .where(or(
+        .where(and(onChain(internalTransactions), or(
           sql`LOWER(${internalTransactions.from}) = ${lowerAddr}`,
           sql`LOWER(${internalTransactions.to}) = ${lowerAddr}`
-        )),
+        ))),
     ]);
     return { traces, total: totalResult[0]?.count || 0 };
   }
 
   async createInternalTransaction(trace: InsertInternalTransaction): Promise<InternalTransaction> {
-    const [created] = await db.insert(internalTransactions).values(trace).returning();
+    const [created] = await db.insert(internalTransactions).values(withChain(trace)).returning();
     return created;
   }
 
@@ -934,11 +2261,11 @@ export class DatabaseStorage implements IStorage {
     const lowerAddr = tokenAddress.toLowerCase();
     const [holders, totalResult] = await Promise.all([
       db.select().from(tokenHolders)
-        .where(sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerAddr}`)
+        .where(and(onChain(tokenHolders), sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerAddr}`))
         .orderBy(desc(tokenHolders.balance))
         .limit(limit).offset(offset),
       db.select({ count: count() }).from(tokenHolders)
-        .where(sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerAddr}`),
+        .where(and(onChain(tokenHolders), sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerAddr}`)),
     ]);
     return { holders, total: totalResult[0]?.count || 0 };
   }
@@ -947,6 +2274,7 @@ export class DatabaseStorage implements IStorage {
     const [holder] = await db
       .insert(tokenHolders)
       .values({
+        chainId: currentChainId(),
         tokenAddress: tokenAddress.toLowerCase(),
         holderAddress: holderAddress.toLowerCase(),
         balance,
@@ -955,7 +2283,7 @@ export class DatabaseStorage implements IStorage {
         lastUpdated: new Date(),
       })
       .onConflictDoUpdate({
-        target: [tokenHolders.tokenAddress, tokenHolders.holderAddress],
+        target: [tokenHolders.chainId, tokenHolders.tokenAddress, tokenHolders.holderAddress],
         set: {
           balance,
           lastUpdated: new Date(),
@@ -970,88 +2298,64 @@ export class DatabaseStorage implements IStorage {
     const lowerAddr = holderAddress.toLowerCase();
     const [tokens, totalResult] = await Promise.all([
       db.select().from(tokenHolders)
-        .where(sql`LOWER(${tokenHolders.holderAddress}) = ${lowerAddr}`)
+        .where(and(onChain(tokenHolders), sql`LOWER(${tokenHolders.holderAddress}) = ${lowerAddr}`))
         .orderBy(desc(tokenHolders.balance))
         .limit(limit).offset(offset),
       db.select({ count: count() }).from(tokenHolders)
-        .where(sql`LOWER(${tokenHolders.holderAddress}) = ${lowerAddr}`),
+        .where(and(onChain(tokenHolders), sql`LOWER(${tokenHolders.holderAddress}) = ${lowerAddr}`)),
     ]);
     return { tokens, total: totalResult[0]?.count || 0 };
   }
 
   async createOrUpdateTokenHolder(holder: InsertTokenHolder): Promise<TokenHolder> {
+    return this.upsertTokenHolder(db, holder);
+  }
+
+  private async upsertTokenHolder(executor: DbExecutor, holder: InsertTokenHolder): Promise<TokenHolder> {
     const lowerTokenAddr = holder.tokenAddress.toLowerCase();
     const lowerHolderAddr = holder.holderAddress.toLowerCase();
     
     // For ERC20: upsert by (tokenAddress, holderAddress)
     // For ERC721/ERC1155: upsert by (tokenAddress, holderAddress, tokenId)
-    if (holder.tokenType === "ERC20" || !holder.tokenId) {
-      // ERC20 or no tokenId - aggregate by holder address
-      const [existing] = await db.select().from(tokenHolders)
-        .where(and(
-          sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerTokenAddr}`,
-          sql`LOWER(${tokenHolders.holderAddress}) = ${lowerHolderAddr}`,
-          eq(tokenHolders.tokenType, "ERC20")
-        ))
-        .limit(1);
-      
-      if (existing) {
-        const [updated] = await db.update(tokenHolders)
-          .set({
-            balance: holder.balance,
-            lastUpdated: new Date(),
-          })
-          .where(eq(tokenHolders.id, existing.id))
-          .returning();
-        return updated;
-      } else {
-        const [created] = await db.insert(tokenHolders)
-          .values({
-            ...holder,
-            tokenAddress: lowerTokenAddr,
-            holderAddress: lowerHolderAddr,
-            lastUpdated: new Date(),
-          })
-          .returning();
-        return created;
-      }
-    } else {
-      // ERC721/ERC1155 - track per tokenId
-      const [existing] = await db.select().from(tokenHolders)
-        .where(and(
-          sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerTokenAddr}`,
-          sql`LOWER(${tokenHolders.holderAddress}) = ${lowerHolderAddr}`,
-          eq(tokenHolders.tokenId, holder.tokenId)
-        ))
-        .limit(1);
-      
-      if (existing) {
-        const [updated] = await db.update(tokenHolders)
-          .set({
-            balance: holder.balance,
-            lastUpdated: new Date(),
-          })
-          .where(eq(tokenHolders.id, existing.id))
-          .returning();
-        return updated;
-      } else {
-        const [created] = await db.insert(tokenHolders)
-          .values({
-            ...holder,
-            tokenAddress: lowerTokenAddr,
-            holderAddress: lowerHolderAddr,
-            lastUpdated: new Date(),
-          })
-          .returning();
-        return created;
-      }
+    const [existing] = await executor.select().from(tokenHolders)
+      .where(and(
+        onChain(tokenHolders),
+        sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerTokenAddr}`,
+        sql`LOWER(${tokenHolders.holderAddress}) = ${lowerHolderAddr}`,
+        holder.tokenType === "ERC20" || !holder.tokenId
+          ? eq(tokenHolders.tokenType, "ERC20")
+          : eq(tokenHolders.tokenId, holder.tokenId)
+      ))
+      .limit(1);
+    
+    if (existing) {
+      const [updated] = await executor.update(tokenHolders)
+        .set({
+          balance: holder.balance,
+          lastUpdated: new Date(),
+        })
+        .where(eq(tokenHolders.id, existing.id))
+        .returning();
+      return updated;
     }
+
+    const [created] = await executor.insert(tokenHolders)
+      .values({
+        ...holder,
+        chainId: currentChainId(),
+        tokenAddress: lowerTokenAddr,
+        holderAddress: lowerHolderAddr,
+        lastUpdated: new Date(),
+      })
+      .returning();
+    return created;
   }
 
   async getTokenHolderCount(tokenAddress: string): Promise<number> {
     const lowerAddr = tokenAddress.toLowerCase();
     const [result] = await db.select({ count: count() }).from(tokenHolders)
       .where(and(
+        onChain(tokenHolders),
         sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerAddr}`,
         sql`CAST(${tokenHolders.balance} AS NUMERIC) > 0`
       ));
@@ -1062,13 +2366,254 @@ export class DatabaseStorage implements IStorage {
     const lowerAddr = tokenAddress.toLowerCase();
     await db.update(tokens)
       .set({ holderCount })
-      .where(sql`LOWER(${tokens.address}) = ${lowerAddr}`);
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${lowerAddr}`));
+  }
+
+  // Replaces a token's balance changes and holder rows with the ones derived from its indexed transfers,
+  // e.g. for holders written before balances were tracked from transfers
+  async rebuildTokenHolders(tokenAddress: string): Promise<{ transfersProcessed: number; holdersUpdated: number }> {
+    const chainId = currentChainId();
+    const lowerAddr = tokenAddress.toLowerCase();
+    return await db.transaction(async (tx) => {
+      const [transferCount] = await tx.select({ count: count() }).from(tokenTransfers)
+        .where(and(onChain(tokenTransfers), sql`LOWER(${tokenTransfers.tokenAddress}) = ${lowerAddr}`));
+
+      await tx.delete(tokenBalanceChanges).where(and(onChain(tokenBalanceChanges), eq(tokenBalanceChanges.tokenAddress, lowerAddr)));
+      await tx.execute(sql`
+        INSERT INTO token_balance_changes (chain_id, token_address, holder_address, token_id, token_type, block_number, delta, timestamp)
+        SELECT ${chainId}, ${lowerAddr}, holder, token_id, token_type, block_number, SUM(delta)::text, MIN(timestamp)
+        FROM (
+          SELECT LOWER(from_address) AS holder, CAST(token_id AS TEXT) AS token_id, token_type, block_number, timestamp,
+            -(CASE WHEN token_type = 'ERC721' THEN 1 ELSE COALESCE(value, 0) END) AS delta
+          FROM token_transfers
+          WHERE chain_id = ${chainId} AND LOWER(token_address) = ${lowerAddr} AND LOWER(from_address) <> ${ZERO_ADDRESS}
+          UNION ALL
+          SELECT LOWER(to_address), CAST(token_id AS TEXT), token_type, block_number, timestamp,
+            CASE WHEN token_type = 'ERC721' THEN 1 ELSE COALESCE(value, 0) END
+          FROM token_transfers
+          WHERE chain_id = ${chainId} AND LOWER(token_address) = ${lowerAddr} AND LOWER(to_address) <> ${ZERO_ADDRESS}
+        ) deltas
+        GROUP BY holder, token_id, token_type, block_number
+        HAVING SUM(delta) <> 0
+      `);
+
+      await tx.delete(tokenHolders).where(and(onChain(tokenHolders), sql`LOWER(${tokenHolders.tokenAddress}) = ${lowerAddr}`));
+      const inserted = await tx.execute(sql`
+        INSERT INTO token_holders (chain_id, token_address, holder_address, balance, token_id, token_type, last_updated)
+        SELECT ${chainId}, token_address, holder_address, SUM(CAST(delta AS NUMERIC))::text, token_id, token_type, NOW()
+        FROM token_balance_changes
+        WHERE chain_id = ${chainId} AND token_address = ${lowerAddr}
+        GROUP BY token_address, holder_address, token_id, token_type
+        HAVING SUM(CAST(delta AS NUMERIC)) <> 0
+      `);
+      await this.refreshHolderCounts(tx, [lowerAddr]);
+
+      return { transfersProcessed: transferCount?.count || 0, holdersUpdated: inserted.rowCount ?? 0 };
+    });
+  }
+
+  // Newest first; balance is the running total of the holder's changes up to each block
+  async getTokenBalanceChanges(tokenAddress: string, holderAddress: string, tokenId: string | null, page: number, limit: number): Promise<{ changes: TokenBalanceHistoryEntry[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const condition = and(
+      onChain(tokenBalanceChanges),
+      eq(tokenBalanceChanges.tokenAddress, tokenAddress.toLowerCase()),
+      eq(tokenBalanceChanges.holderAddress, holderAddress.toLowerCase()),
+      sameTokenId(tokenBalanceChanges.tokenId, tokenId)
+    );
+    const [changes, totalResult] = await Promise.all([
+      db.select({
+        ...getTableColumns(tokenBalanceChanges),
+        balance: sql<string>`(SUM(CAST(${tokenBalanceChanges.delta} AS NUMERIC)) OVER (ORDER BY ${tokenBalanceChanges.blockNumber}))::text`,
+      })
+        .from(tokenBalanceChanges)
+        .where(condition)
+        .orderBy(desc(tokenBalanceChanges.blockNumber))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(tokenBalanceChanges).where(condition),
+    ]);
+    return { changes, total: totalResult[0]?.count || 0 };
+  }
+
+  async getTokenBalanceAt(tokenAddress: string, holderAddress: string, tokenId: string | null, blockNumber: number): Promise<{ balance: string; lastChangeBlock: number | null }> {
+    return this.sumBalanceChanges(tokenAddress, holderAddress, sameTokenId(tokenBalanceChanges.tokenId, tokenId), blockNumber);
+  }
+
+  // Number of tokens of an ERC-721 collection held at a block, the balanceOf of the contract
+  async getNftBalanceAt(tokenAddress: string, holderAddress: string, blockNumber: number): Promise<{ balance: string; lastChangeBlock: number | null }> {
+    return this.sumBalanceChanges(tokenAddress, holderAddress, undefined, blockNumber);
+  }
+
+  private async sumBalanceChanges(tokenAddress: string, holderAddress: string, tokenCondition: SQL | undefined, blockNumber: number): Promise<{ balance: string; lastChangeBlock: number | null }> {
+    const [result] = await db.select({
+      balance: sql<string>`COALESCE(SUM(CAST(${tokenBalanceChanges.delta} AS NUMERIC)), 0)::text`,
+      lastChangeBlock: sql<string | null>`MAX(${tokenBalanceChanges.blockNumber})`,
+    })
+      .from(tokenBalanceChanges)
+      .where(and(
+        onChain(tokenBalanceChanges),
+        eq(tokenBalanceChanges.tokenAddress, tokenAddress.toLowerCase()),
+        eq(tokenBalanceChanges.holderAddress, holderAddress.toLowerCase()),
+        tokenCondition,
+        lte(tokenBalanceChanges.blockNumber, blockNumber)
+      ));
+    return {
+      balance: result?.balance ?? "0",
+      lastChangeBlock: result?.lastChangeBlock != null ? Number(result.lastChangeBlock) : null,
+    };
+  }
+
+  // Records a change that no transfer event accounts for, found by comparing with balanceOf at the given block
+  async addTokenBalanceCorrection(holder: TokenHolderRef, delta: bigint, blockNumber: number, timestamp: Date): Promise<void> {
+    if (delta === BigInt(0)) return;
+    const ref: TokenHolderRef = { ...holder, tokenAddress: holder.tokenAddress.toLowerCase(), holderAddress: holder.holderAddress.toLowerCase() };
+    await db.transaction(async (tx) => {
+      await tx.insert(tokenBalanceChanges).values(withChain({ ...ref, blockNumber, delta: delta.toString(), timestamp }));
+      await this.adjustTokenHolder(tx, ref, delta);
+      await this.refreshHolderCounts(tx, [ref.tokenAddress]);
+    });
+  }
+
+  // Holder Reconciliation
+  async getNonStandardTokens(tokenAddresses: string[]): Promise<string[]> {
+    return this.findNonStandardTokens(db, tokenAddresses);
+  }
+
+  // Least recently checked tokens first; non-standard tokens are skipped since their balances are read from the chain
+  // With history indexed from a later block than genesis, only tokens deployed inside the indexed range are
+  // returned: older tokens have transfers before it, so their summed balances cannot match balanceOf
+  async getTokensForReconciliation(limit: number, historyStart: number): Promise<Token[]> {
+    const deployedInRange = historyStart > 0
+      ? sql`EXISTS (SELECT 1 FROM ${contractCreations} WHERE ${contractCreations.chainId} = ${currentChainId()} AND ${contractCreations.contractAddress} = LOWER(${tokens.address}) AND ${contractCreations.blockNumber} >= ${historyStart})`
+      : undefined;
+    return await db.select().from(tokens)
+      .where(and(onChain(tokens), eq(tokens.nonStandard, false), eq(tokens.classificationOverride, false), sql`${tokens.holderCount} > 0`, deployedInRange))
+      .orderBy(sql`${tokens.holdersReconciledAt} ASC NULLS FIRST`)
+      .limit(limit);
+  }
+
+  async getTokenHolderSample(tokenAddress: string, limit: number): Promise<TokenHolder[]> {
+    return await db.select().from(tokenHolders)
+      .where(and(
+        onChain(tokenHolders),
+        sql`LOWER(${tokenHolders.tokenAddress}) = ${tokenAddress.toLowerCase()}`,
+        sql`CAST(${tokenHolders.balance} AS NUMERIC) <> 0`
+      ))
+      .orderBy(sql`RANDOM()`)
+      .limit(limit);
+  }
+
+  async markTokenHoldersReconciled(tokenAddress: string): Promise<void> {
+    await db.update(tokens)
+      .set({ holdersReconciledAt: new Date() })
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress.toLowerCase()}`));
+  }
+
+  async markTokenNonStandard(tokenAddress: string, reason: string): Promise<void> {
+    await db.update(tokens)
+      .set({ nonStandard: true, nonStandardReason: reason, holdersReconciledAt: new Date() })
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress.toLowerCase()}`));
+  }
+
+  // Token Classification
+  async getTokensToClassify(limit: number): Promise<Token[]> {
+    return await db.select().from(tokens)
+      .where(and(onChain(tokens), isNull(tokens.classifiedAt), eq(tokens.classificationOverride, false)))
+      .orderBy(desc(tokens.transferCount))
+      .limit(limit);
+  }
+
+  // Re-shapes the stored transfers of a token between ERC-20 (amount in value) and ERC-721 (token id) and
+  // rebuilds its holders from them. ERC-1155 transfers come from their own events and are never converted.
+  async changeTokenType(tokenAddress: string, tokenType: string): Promise<{ transfersConverted: number }> {
+    const chainId = currentChainId();
+    const lowerAddr = tokenAddress.toLowerCase();
+    const converted = await db.transaction(async (tx) => {
+      let result;
+      if (tokenType === "ERC721") {
+        result = await tx.execute(sql`
+          UPDATE token_transfers SET token_type = 'ERC721', token_id = value, value = NULL
+          WHERE chain_id = ${chainId} AND LOWER(token_address) = ${lowerAddr} AND token_type = 'ERC20'
+        `);
+        // The converted ids are now NFTs the metadata queue has never seen
+        await tx.execute(sql`
+          INSERT INTO nft_metadata_jobs (chain_id, contract_address, token_id, token_type)
+          SELECT DISTINCT ${chainId}, ${lowerAddr}, CAST(token_id AS TEXT), 'ERC721'
+          FROM token_transfers
+          WHERE chain_id = ${chainId} AND LOWER(token_address) = ${lowerAddr}
+            AND token_type = 'ERC721' AND token_id IS NOT NULL
+          ON CONFLICT (chain_id, contract_address, token_id) DO NOTHING
+        `);
+      } else if (tokenType === "ERC20") {
+        result = await tx.execute(sql`
+          UPDATE token_transfers SET token_type = 'ERC20', value = token_id, token_id = NULL
+          WHERE chain_id = ${chainId} AND LOWER(token_address) = ${lowerAddr} AND token_type = 'ERC721'
+        `);
+        // A fungible token has no per-id metadata, so its NFT rows and pending jobs go too
+        await tx.delete(nftTokens)
+          .where(and(onChain(nftTokens), sql`LOWER(${nftTokens.contractAddress}) = ${lowerAddr}`));
+        await tx.delete(nftMetadataJobs)
+          .where(and(onChain(nftMetadataJobs), eq(nftMetadataJobs.contractAddress, lowerAddr)));
+      }
+      await tx.update(tokens)
+        .set({ tokenType })
+        .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${lowerAddr}`));
+      return result?.rowCount ?? 0;
+    });
+
+    if (converted > 0) await this.rebuildTokenHolders(lowerAddr);
+    return { transfersConverted: converted };
+  }
+
+  async setTokenClassificationOverride(
+    tokenAddress: string,
+    override: { tokenType: string; nonStandard: boolean; nonStandardReason: string | null }
+  ): Promise<Token | undefined> {
+    const existing = await this.getTokenByAddress(tokenAddress);
+    if (!existing) return undefined;
+
+    if (existing.tokenType !== override.tokenType) await this.changeTokenType(tokenAddress, override.tokenType);
+    const [updated] = await db.update(tokens)
+      .set({
+        classificationOverride: true,
+        nonStandard: override.nonStandard,
+        nonStandardReason: override.nonStandard ? override.nonStandardReason : null,
+      })
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress.toLowerCase()}`))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Hands the token back to the classifier; it is reclassified on the next classification run
+  async clearTokenClassificationOverride(tokenAddress: string): Promise<Token | undefined> {
+    const [updated] = await db.update(tokens)
+      .set({ classificationOverride: false, classifiedAt: null })
+      .where(and(onChain(tokens), sql`LOWER(${tokens.address}) = ${tokenAddress.toLowerCase()}`))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Overridden, non-standard and unusual tokens, for review in the admin dashboard
+  async getTokensWithClassificationIssues(page: number, limit: number): Promise<{ tokens: Token[]; total: number }> {
+    const offset = (page - 1) * limit;
+    const condition = and(onChain(tokens), or(
+      eq(tokens.classificationOverride, true),
+      eq(tokens.nonStandard, true),
+      sql`COALESCE(array_length(${tokens.classificationNotes}, 1), 0) > 0`
+    ));
+    const [tokenList, totalResult] = await Promise.all([
+      db.select().from(tokens).where(condition).orderBy(desc(tokens.transferCount)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(tokens).where(condition),
+    ]);
+    return { tokens: tokenList, total: totalResult[0]?.count || 0 };
   }
 
   // NFT Tokens
   async getNftToken(contractAddress: string, tokenId: string): Promise<NftToken | undefined> {
     const [nft] = await db.select().from(nftTokens)
       .where(and(
+        onChain(nftTokens),
         sql`LOWER(${nftTokens.contractAddress}) = ${contractAddress.toLowerCase()}`,
         eq(nftTokens.tokenId, tokenId)
       ));
@@ -1080,11 +2625,11 @@ export class DatabaseStorage implements IStorage {
     const lowerAddr = owner.toLowerCase();
     const [nfts, totalResult] = await Promise.all([
       db.select().from(nftTokens)
-        .where(sql`LOWER(${nftTokens.owner}) = ${lowerAddr}`)
+        .where(and(onChain(nftTokens), sql`LOWER(${nftTokens.owner}) = ${lowerAddr}`))
         .orderBy(desc(nftTokens.lastUpdated))
         .limit(limit).offset(offset),
       db.select({ count: count() }).from(nftTokens)
-        .where(sql`LOWER(${nftTokens.owner}) = ${lowerAddr}`),
+        .where(and(onChain(nftTokens), sql`LOWER(${nftTokens.owner}) = ${lowerAddr}`)),
     ]);
     return { nfts, total: totalResult[0]?.count || 0 };
   }
@@ -1094,11 +2639,11 @@ export class DatabaseStorage implements IStorage {
     const lowerAddr = contractAddress.toLowerCase();
     const [nfts, totalResult] = await Promise.all([
       db.select().from(nftTokens)
-        .where(sql`LOWER(${nftTokens.contractAddress}) = ${lowerAddr}`)
+        .where(and(onChain(nftTokens), sql`LOWER(${nftTokens.contractAddress}) = ${lowerAddr}`))
         .orderBy(nftTokens.tokenId)
         .limit(limit).offset(offset),
       db.select({ count: count() }).from(nftTokens)
-        .where(sql`LOWER(${nftTokens.contractAddress}) = ${lowerAddr}`),
+        .where(and(onChain(nftTokens), sql`LOWER(${nftTokens.contractAddress}) = ${lowerAddr}`)),
     ]);
     return { nfts, total: totalResult[0]?.count || 0 };
   }
@@ -1108,18 +2653,20 @@ export class DatabaseStorage implements IStorage {
       .insert(nftTokens)
       .values({
         ...nft,
+        chainId: currentChainId(),
         contractAddress: nft.contractAddress.toLowerCase(),
         owner: nft.owner?.toLowerCase(),
         lastUpdated: new Date(),
       })
       .onConflictDoUpdate({
-        target: [nftTokens.contractAddress, nftTokens.tokenId],
+        target: [nftTokens.chainId, nftTokens.contractAddress, nftTokens.tokenId],
         set: {
           owner: nft.owner?.toLowerCase(),
           name: nft.name,
           description: nft.description,
           image: nft.image,
           imageGateway: nft.imageGateway,
+          thumbnailUrl: nft.thumbnailUrl,
           metadataUri: nft.metadataUri,
           attributes: nft.attributes,
           lastUpdated: new Date(),
@@ -1133,6 +2680,82 @@ export class DatabaseStorage implements IStorage {
     return this.createOrUpdateNft(nft);
   }
 
+  // Standard of a stored ERC-721/1155 transfer of the token id, if the token has ever moved
+  async getNftTransferTokenType(contractAddress: string, tokenId: string): Promise<string | undefined> {
+    const [transfer] = await db.select({ tokenType: tokenTransfers.tokenType }).from(tokenTransfers)
+      .where(and(
+        onChain(tokenTransfers),
+        sql`LOWER(${tokenTransfers.tokenAddress}) = ${contractAddress.toLowerCase()}`,
+        eq(tokenTransfers.tokenId, tokenId),
+        inArray(tokenTransfers.tokenType, ["ERC721", "ERC1155"])
+      ))
+      .limit(1);
+    return transfer?.tokenType;
+  }
+
+  // NFT Metadata Jobs
+  async getNftMetadataJob(contractAddress: string, tokenId: string): Promise<NftMetadataJob | undefined> {
+    const [job] = await db.select().from(nftMetadataJobs)
+      .where(and(
+        onChain(nftMetadataJobs),
+        eq(nftMetadataJobs.contractAddress, contractAddress.toLowerCase()),
+        eq(nftMetadataJobs.tokenId, tokenId)
+      ));
+    return job || undefined;
+  }
+
+  // Creates the job or puts a finished one back in the queue with a fresh retry budget
+  async requeueNftMetadataJob(job: InsertNftMetadataJob): Promise<NftMetadataJob> {
+    const [queued] = await db
+      .insert(nftMetadataJobs)
+      .values(withChain({ ...job, contractAddress: job.contractAddress.toLowerCase() }))
+      .onConflictDoUpdate({
+        target: [nftMetadataJobs.chainId, nftMetadataJobs.contractAddress, nftMetadataJobs.tokenId],
+        set: {
+          tokenType: job.tokenType,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastError: null,
+          startedAt: null,
+          completedAt: null,
+        },
+      })
+      .returning();
+    return queued;
+  }
+
+  async claimNextNftMetadataJob(): Promise<NftMetadataJob | undefined> {
+    const [job] = await db
+      .update(nftMetadataJobs)
+      .set({
+        status: "processing",
+        startedAt: new Date(),
+        attempts: sql`${nftMetadataJobs.attempts} + 1`,
+      })
+      .where(eq(
+        nftMetadataJobs.id,
+        sql`(SELECT id FROM nft_metadata_jobs WHERE status = 'pending' AND next_attempt_at <= NOW() ORDER BY next_attempt_at LIMIT 1 FOR UPDATE SKIP LOCKED)`
+      ))
+      .returning();
+    return job || undefined;
+  }
+
+  async updateNftMetadataJob(id: string, updates: Partial<InsertNftMetadataJob>): Promise<NftMetadataJob | undefined> {
+    const [job] = await db.update(nftMetadataJobs).set(updates).where(eq(nftMetadataJobs.id, id)).returning();
+    return job || undefined;
+  }
+
+  // Jobs left in "processing" by a crashed or restarted process go back to the queue
+  async resetStaleNftMetadataJobs(): Promise<number> {
+    const reset = await db
+      .update(nftMetadataJobs)
+      .set({ status: "pending", startedAt: null })
+      .where(eq(nftMetadataJobs.status, "processing"))
+      .returning({ id: nftMetadataJobs.id });
+    return reset.length;
+  }
+
   // API Keys
   async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
     const [created] = await db.insert(apiKeys).values(apiKey).returning();
@@ -1297,14 +2920,44 @@ export class DatabaseStorage implements IStorage {
     await db.delete(chains).where(eq(chains.chainId, chainId));
   }
 
+  async getRpcEndpoints(): Promise<RpcEndpoint[]> {
+    return await db.select().from(rpcEndpoints).orderBy(rpcEndpoints.chainId, rpcEndpoints.createdAt);
+  }
+
+  async createRpcEndpoint(endpoint: InsertRpcEndpoint): Promise<RpcEndpoint> {
+    const [created] = await db.insert(rpcEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async deleteRpcEndpoint(id: string): Promise<void> {
+    await db.delete(rpcEndpoints).where(eq(rpcEndpoints.id, id));
+  }
+
+  // Rows indexed before data was scoped by chain carry chain_id 0; they belong to the chain that was being indexed then
+  async assignUnscopedRowsToChain(chainId: number): Promise<number> {
+    const scopedTables = [
+      blocks, transactions, addresses, transactionLogs, tokenTransfers, tokens, indexerCheckpoints, dailyStats,
+      networkStats, indexerState, verifiedContracts, internalTransactions, tokenHolders, nftTokens,
+      contractSourceFiles, verificationJobs, proxyUpgrades, orphanedBlocks,
+    ];
+    return await db.transaction(async (tx) => {
+      let assigned = 0;
+      for (const table of scopedTables) {
+        const result = await tx.update(table).set({ chainId }).where(eq(table.chainId, 0));
+        assigned += result.rowCount || 0;
+      }
+      return assigned;
+    });
+  }
+
   async getClaimTransactions(selectors: string[], page: number, limit: number): Promise<{ transactions: Transaction[]; total: number; totalPages: number }> {
     const offset = (page - 1) * limit;
     
     const selectorPatterns = selectors.map(s => `${s}%`);
-    const whereClause = sql`(${sql.join(
+    const whereClause = and(onChain(transactions), sql`(${sql.join(
       selectorPatterns.map(pattern => sql`${transactions.input} LIKE ${pattern}`),
       sql` OR `
-    )})`;
+    )})`);
 
     const [txList, countResult] = await Promise.all([
       db.select()
@@ -1328,10 +2981,10 @@ export class DatabaseStorage implements IStorage {
 
   async getClaimStats(selectors: string[]): Promise<{ totalClaims: number; uniqueClaimers: number; totalValue: string }> {
     const selectorPatterns = selectors.map(s => `${s}%`);
-    const whereClause = sql`(${sql.join(
+    const whereClause = and(onChain(transactions), sql`(${sql.join(
       selectorPatterns.map(pattern => sql`${transactions.input} LIKE ${pattern}`),
       sql` OR `
-    )})`;
+    )})`);
 
     const [statsResult] = await db.select({
       totalClaims: count(),
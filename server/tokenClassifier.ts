@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import { detectProxy } from "./proxyDetector";
+import type { InsertTokenTransfer, TokenCapabilities } from "@shared/schema";
+
+export type TokenStandard = "ERC20" | "ERC721" | "ERC1155";
+
+const INTERFACE_IDS = {
+  erc165: "0x01ffc9a7",
+  erc721: "0x80ac58cd",
+  erc721Metadata: "0x5b5e139f",
+  erc721Enumerable: "0x780e9d63",
+  erc1155: "0xd9b67a26",
+  erc1155MetadataUri: "0x0e89341c",
+  erc2981: "0x2a55205a",
+};
+
+const TOKEN_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+];
+
+const selectorsOf = (signatures: string[]) => signatures.map((s) => ethers.id(s).slice(2, 10));
+
+const SELECTORS = {
+  decimals: selectorsOf(["decimals()"]),
+  ownerOf: selectorsOf(["ownerOf(uint256)"]),
+  tokenByIndex: selectorsOf(["tokenByIndex(uint256)"]),
+  uri: selectorsOf(["uri(uint256)"]),
+  mint: selectorsOf([
+    "mint(address,uint256)",
+    "mint(uint256)",
+    "mint(address)",
+    "safeMint(address)",
+    "safeMint(address,uint256)",
+    "mint(address,uint256,uint256,bytes)",
+    "mintBatch(address,uint256[],uint256[],bytes)",
+  ]),
+  burn: selectorsOf([
+    "burn(uint256)",
+    "burnFrom(address,uint256)",
+    "burn(address,uint256)",
+    "burn(address,uint256,uint256)",
+    "burnBatch(address,uint256[],uint256[])",
+  ]),
+  paused: selectorsOf(["paused()"]),
+  permit: selectorsOf(["permit(address,address,uint256,uint256,uint8,bytes32,bytes32)"]),
+  royaltyInfo: selectorsOf(["royaltyInfo(uint256,uint256)"]),
+};
+
+export interface TokenClassification {
+  tokenType: TokenStandard;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  totalSupply: string | null;
+  capabilities: TokenCapabilities;
+  notes: string[];
+}
+
+async function attempt<T>(call: () => Promise<T>): Promise<T | null> {
+  try {
+    return await call();
+  } catch {
+    return null;
+  }
+}
+
+// Solidity dispatchers compare the calldata selector against PUSH4 constants, so every external function of
+// the contract shows up as a PUSH4 operand in its runtime code
+export function codeSelectors(code: string): Set<string> {
+  const selectors = new Set<string>();
+  const bytes = ethers.getBytes(code);
+  for (let i = 0; i < bytes.length; i++) {
+    const op = bytes[i];
+    if (op === 0x63 && i + 4 < bytes.length) {
+      selectors.add(ethers.hexlify(bytes.slice(i + 1, i + 5)).slice(2));
+    }
+    // Skip the operands of PUSH1..PUSH32 so data is not read as opcodes
+    if (op >= 0x60 && op <= 0x7f) i += op - 0x5f;
+  }
+  return selectors;
+}
+
+// ERC-165 requires supportsInterface(0x01ffc9a7) to be true and supportsInterface(0xffffffff) to be false;
+// contracts with a catch-all fallback answer anything, so both are checked before trusting other answers
+async function supportedInterfaces(contract: ethers.Contract): Promise<Set<string> | null> {
+  const [base, invalid] = await Promise.all([
+    attempt(() => contract.supportsInterface(INTERFACE_IDS.erc165)),
+    attempt(() => contract.supportsInterface("0xffffffff")),
+  ]);
+  if (base !== true || invalid !== false) return null;
+
+  const supported = new Set<string>([INTERFACE_IDS.erc165]);
+  const ids = Object.values(INTERFACE_IDS).filter((id) => id !== INTERFACE_IDS.erc165);
+  const answers = await Promise.all(ids.map((id) => attempt(() => contract.supportsInterface(id))));
+  ids.forEach((id, i) => {
+    if (answers[i] === true) supported.add(id);
+  });
+  return supported;
+}
+
+// Works out the standard a token really implements. `observedType` is what its Transfer events looked like,
+// which cannot tell an ERC-20 from an ERC-721 that does not index the token id.
+export async function classifyToken(provider: ethers.Provider, address: string, observedType: string): Promise<TokenClassification> {
+  const contract = new ethers.Contract(address, TOKEN_ABI, provider);
+  const notes: string[] = [];
+
+  const code = await attempt(() => provider.getCode(address));
+  let selectorCode = code && code !== "0x" ? code : null;
+  if (selectorCode) {
+    // Proxies dispatch in their implementation
+    const proxy = await attempt(() => detectProxy(provider, address, selectorCode!));
+    if (proxy) selectorCode = await attempt(() => provider.getCode(proxy.implementationAddress));
+  }
+  const selectors = selectorCode ? codeSelectors(selectorCode) : new Set<string>();
+  const hasSelector = (candidates: string[]) => candidates.some((s) => selectors.has(s));
+
+  const [interfaces, name, symbol, decimals, totalSupply] = await Promise.all([
+    supportedInterfaces(contract),
+    attempt<string>(() => contract.name()),
+    attempt<string>(() => contract.symbol()),
+    attempt<bigint>(() => contract.decimals()),
+    attempt<bigint>(() => contract.totalSupply()),
+  ]);
+  const supports = (id: string) => interfaces?.has(id) ?? false;
+
+  let tokenType: TokenStandard;
+  if (supports(INTERFACE_IDS.erc1155) || observedType === "ERC1155") {
+    tokenType = "ERC1155";
+    if (!supports(INTERFACE_IDS.erc1155)) notes.push("Does not report ERC-1155 through ERC-165");
+  } else if (supports(INTERFACE_IDS.erc721)) {
+    tokenType = "ERC721";
+    if (observedType === "ERC20") notes.push("Emits Transfer events without an indexed token id");
+  } else if (observedType === "ERC721") {
+    if (decimals !== null && !hasSelector(SELECTORS.ownerOf)) {
+      tokenType = "ERC20";
+      notes.push("Emits Transfer events with an indexed amount");
+    } else {
+      tokenType = "ERC721";
+      notes.push("Does not report ERC-721 through ERC-165");
+    }
+  } else if (decimals === null && hasSelector(SELECTORS.ownerOf) && !hasSelector(SELECTORS.decimals)) {
+    // Pre-standard NFTs such as CryptoKitties: no ERC-165 and the token id in the event data
+    tokenType = "ERC721";
+    notes.push("Does not report ERC-721 through ERC-165");
+    notes.push("Emits Transfer events without an indexed token id");
+  } else {
+    tokenType = "ERC20";
+    if (decimals === null) notes.push("No decimals() function");
+  }
+
+  if (tokenType === "ERC20" && (name === null || symbol === null)) notes.push("No name() or symbol() function");
+
+  const capabilities: TokenCapabilities = {
+    erc165: interfaces !== null,
+    metadata: tokenType === "ERC721"
+      ? supports(INTERFACE_IDS.erc721Metadata) || (name !== null && symbol !== null)
+      : tokenType === "ERC1155"
+        ? supports(INTERFACE_IDS.erc1155MetadataUri) || hasSelector(SELECTORS.uri)
+        : name !== null && symbol !== null && decimals !== null,
+    enumerable: tokenType === "ERC721" && (supports(INTERFACE_IDS.erc721Enumerable) || hasSelector(SELECTORS.tokenByIndex)),
+    mintable: hasSelector(SELECTORS.mint),
+    burnable: hasSelector(SELECTORS.burn),
+    pausable: hasSelector(SELECTORS.paused),
+    permit: tokenType === "ERC20" && hasSelector(SELECTORS.permit),
+    royalties: supports(INTERFACE_IDS.erc2981) || hasSelector(SELECTORS.royaltyInfo),
+  };
+
+  return {
+    tokenType,
+    name,
+    symbol,
+    decimals: tokenType === "ERC20" && decimals !== null ? Number(decimals) : null,
+    totalSupply: totalSupply !== null ? totalSupply.toString() : null,
+    capabilities,
+    notes,
+  };
+}
+
+// Rewrites a transfer parsed from the event's shape to match the token's classified standard: an ERC-721
+// emitting 3-topic Transfer events carries the token id where an ERC-20 carries the amount, and vice versa.
+// ERC-1155 events cannot be confused with the others and are left alone.
+export function conformTransfer(transfer: InsertTokenTransfer, tokenType: string): InsertTokenTransfer {
+  if (transfer.tokenType === tokenType || transfer.tokenType === "ERC1155" || tokenType === "ERC1155") return transfer;
+  if (tokenType === "ERC721") {
+    return { ...transfer, tokenType: "ERC721", tokenId: transfer.value ?? null, value: null };
+  }
+  return { ...transfer, tokenType: "ERC20", value: transfer.tokenId ?? null, tokenId: null };
+}
@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { pickSignature } from "./signatureRegistry";
+import { formatValue, loadContractInterfaces } from "./eventDecoder";
+import type { CallTraceFrame, DecodedCall, DecodedEventParam } from "@shared/schema";
+
+const CREATE_TYPES = new Set(["CREATE", "CREATE2"]);
+
+function selectorOf(frame: any): string | null {
+  if (CREATE_TYPES.has(frame.type) || typeof frame.input !== "string" || frame.input.length < 10) return null;
+  return frame.input.slice(0, 10).toLowerCase();
+}
+
+function collect(frame: any, addresses: Set<string>, selectors: Set<string>): void {
+  const selector = selectorOf(frame);
+  if (selector) {
+    selectors.add(selector);
+    if (frame.to) addresses.add(frame.to.toLowerCase());
+  }
+  for (const call of frame.calls || []) collect(call, addresses, selectors);
+}
+
+function toParams(inputs: readonly ethers.ParamType[], values: ethers.Result): DecodedEventParam[] {
+  return inputs.map((input, i) => ({
+    name: input.name || `arg${i}`,
+    type: input.type,
+    indexed: false,
+    value: formatValue(values[i]),
+  }));
+}
+
+function decodeWith(iface: ethers.Interface, frame: any, source: DecodedCall["source"]): DecodedCall | null {
+  try {
+    const fragment = iface.getFunction(frame.input.slice(0, 10));
+    if (!fragment) return null;
+    const args = iface.decodeFunctionData(fragment, frame.input);
+
+    let outputs: DecodedEventParam[] | null = null;
+    if (source === "abi" && !frame.error && frame.output && frame.output !== "0x") {
+      try {
+        outputs = toParams(fragment.outputs, iface.decodeFunctionResult(fragment, frame.output));
+      } catch {
+        outputs = null;
+      }
+    }
+
+    return {
+      name: fragment.name,
+      signature: fragment.format("sighash"),
+      source,
+      params: toParams(fragment.inputs, args),
+      outputs,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function loadRegistryFunctions(selectors: string[]): Promise<Map<string, ethers.Interface>> {
+  const interfaces = new Map<string, ethers.Interface>();
+  await Promise.all(selectors.map(async (selector) => {
+    try {
+      const rows = await storage.getSignaturesBySelector(selector);
+      const preferred = pickSignature(rows.filter((r) => r.kind === "function"));
+      if (preferred) interfaces.set(selector, new ethers.Interface([`function ${preferred.textSignature}`]));
+    } catch {
+      // Registry lookups are best-effort
+    }
+  }));
+  return interfaces;
+}
+
+function quantity(value: string | undefined): number {
+  return value ? Number(BigInt(value)) : 0;
+}
+
+// Turns a raw callTracer result into frames with inputs decoded by the callee's verified ABI (and its
+// implementation's for proxies), falling back to the signature registry. Return values are only decoded
+// with verified ABIs since registry signatures carry no outputs.
+export async function decodeCallTrace(trace: any): Promise<CallTraceFrame> {
+  const addresses = new Set<string>();
+  const selectors = new Set<string>();
+  collect(trace, addresses, selectors);
+
+  const interfacesByAddress = new Map<string, ethers.Interface[]>();
+  await Promise.all(Array.from(addresses).map(async (address) => {
+    try {
+      interfacesByAddress.set(address, await loadContractInterfaces(address));
+    } catch {
+      interfacesByAddress.set(address, []);
+    }
+  }));
+  const registry = await loadRegistryFunctions(Array.from(selectors));
+
+  const build = (frame: any): CallTraceFrame => {
+    const selector = selectorOf(frame);
+    let decoded: DecodedCall | null = null;
+    if (selector) {
+      for (const iface of interfacesByAddress.get(frame.to?.toLowerCase()) || []) {
+        decoded = decodeWith(iface, frame, "abi");
+        if (decoded) break;
+      }
+      const registryInterface = registry.get(selector);
+      if (!decoded && registryInterface) decoded = decodeWith(registryInterface, frame, "signature");
+    }
+
+    return {
+      type: frame.type || "CALL",
+      from: (frame.from || "").toLowerCase(),
+      to: frame.to ? frame.to.toLowerCase() : null,
+      value: frame.value ? BigInt(frame.value).toString() : "0",
+      gas: quantity(frame.gas),
+      gasUsed: quantity(frame.gasUsed),
+      input: frame.input || "0x",
+      output: frame.output || null,
+      error: frame.error || null,
+      revertReason: frame.revertReason || null,
+      decoded,
+      calls: (frame.calls || []).map(build),
+    };
+  };
+
+  return build(trace);
+}
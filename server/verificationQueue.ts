@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { storage } from "./storage";
+import { getIndexer } from "./indexer";
+import { log } from "./index";
+import { verifySource, verifyStandardJson, type VerificationResult } from "./verifier";
+import { registerAbiSignatures } from "./signatureRegistry";
+import { runWithChain } from "./chainContext";
+import type { VerificationJob } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 5000;
+
+export type VerificationSourceFormat = "solidity-single-file" | "solidity-standard-json-input";
+
+export interface SingleFilePayload {
+  sourceCode: string;
+  evmVersion?: string | null;
+  optimization: boolean;
+  runs: number;
+  libraries?: Record<string, string>;
+}
+
+export interface StandardJsonPayload {
+  input: any;
+}
+
+export interface EnqueueVerificationRequest {
+  contractAddress: string;
+  contractName: string;
+  compilerVersion: string;
+  sourceFormat: VerificationSourceFormat;
+  payload: SingleFilePayload | StandardJsonPayload;
+  constructorArgs?: string | null;
+  license?: string | null;
+}
+
+// Persists a successful compile-and-match result together with every source file
+export async function saveVerificationResult(
+  address: string,
+  code: string,
+  result: VerificationResult,
+  extra: { sourceFormat: string; constructorArgs?: string | null; license?: string | null }
+) {
+  const mainSource = result.sources.find((s) => s.path === result.fileName) || result.sources[0];
+  const optimizer = result.settings.optimizer || {};
+
+  const contract = await storage.createVerifiedContract({
+    address: address.toLowerCase(),
+    name: result.contractName,
+    compilerVersion: result.compilerVersion,
+    evmVersion: result.settings.evmVersion || null,
+    optimization: !!optimizer.enabled,
+    runs: optimizer.runs ?? 200,
+    constructorArgs: extra.constructorArgs || null,
+    sourceCode: mainSource?.content || "",
+    abi: result.abi,
+    bytecodeHash: ethers.keccak256(code),
+    verificationStatus: result.matchType,
+    sourceFormat: extra.sourceFormat,
+    mainFile: result.fileName,
+    libraries: Object.keys(result.libraries).length > 0 ? result.libraries : null,
+    compilerSettings: result.settings,
+    storageLayout: result.storageLayout,
+    license: extra.license || null,
+  }, result.sources);
+
+  await registerAbiSignatures(result.abi).catch((error) =>
+    log(`Failed to register ABI signatures for ${address}: ${error.message}`, "verifier")
+  );
+  return contract;
+}
+
+// Etherscan GUIDs are 50 characters long; tooling only treats them as opaque strings
+function generateGuid(): string {
+  return crypto.randomBytes(25).toString("hex");
+}
+
+function runVerification(job: VerificationJob, code: string): VerificationResult {
+  if (job.sourceFormat === "solidity-standard-json-input") {
+    const payload = job.payload as StandardJsonPayload;
+    return verifyStandardJson({
+      contractName: job.contractName,
+      compilerVersion: job.compilerVersion,
+      input: payload.input,
+    }, code);
+  }
+
+  const payload = job.payload as SingleFilePayload;
+  return verifySource({
+    contractName: job.contractName.split(":").pop() || job.contractName,
+    sourceCode: payload.sourceCode,
+    compilerVersion: job.compilerVersion,
+    evmVersion: payload.evmVersion,
+    optimization: payload.optimization,
+    runs: payload.runs,
+    libraries: payload.libraries,
+  }, code);
+}
+
+class VerificationQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    const reset = await storage.resetStaleVerificationJobs();
+    if (reset > 0) {
+      log(`Requeued ${reset} interrupted verification jobs`, "verifier");
+    }
+
+    this.timer = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async enqueue(request: EnqueueVerificationRequest): Promise<VerificationJob> {
+    const job = await storage.createVerificationJob({
+      guid: generateGuid(),
+      contractAddress: request.contractAddress.toLowerCase(),
+      contractName: request.contractName,
+      compilerVersion: request.compilerVersion,
+      sourceFormat: request.sourceFormat,
+      payload: request.payload,
+      constructorArgs: request.constructorArgs || null,
+      license: request.license || null,
+      status: "pending",
+    });
+    this.drain();
+    return job;
+  }
+
+  async retry(id: string): Promise<VerificationJob | undefined> {
+    const job = await storage.retryVerificationJob(id);
+    if (job) this.drain();
+    return job;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let job: VerificationJob | undefined;
+      while ((job = await storage.claimNextVerificationJob())) {
+        const claimed = job;
+        await runWithChain(claimed.chainId, () => this.process(claimed));
+      }
+    } catch (error: any) {
+      log(`Verification queue error: ${error.message}`, "verifier");
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async process(job: VerificationJob): Promise<void> {
+    try {
+      let code: string;
+      try {
+        const provider = await getIndexer().getProvider();
+        code = await provider.getCode(job.contractAddress);
+      } catch (error: any) {
+        throw new Error(`Unable to fetch contract code: ${error.message}`);
+      }
+
+      // Let the "compiling" state become visible before the synchronous compile blocks the event loop
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const result = runVerification(job, code);
+      await saveVerificationResult(job.contractAddress, code, result, {
+        sourceFormat: job.sourceFormat,
+        constructorArgs: job.constructorArgs,
+        license: job.license,
+      });
+
+      await storage.updateVerificationJob(job.id, {
+        status: "pass",
+        matchType: result.matchType,
+        completedAt: new Date(),
+      });
+      log(`Verified ${job.contractAddress} (${result.matchType} match, job ${job.guid})`, "verifier");
+    } catch (error: any) {
+      await storage.updateVerificationJob(job.id, {
+        status: "fail",
+        failureReason: error.message,
+        completedAt: new Date(),
+      });
+      log(`Verification failed for ${job.contractAddress} (job ${job.guid}): ${error.message}`, "verifier");
+    }
+  }
+}
+
+export const verificationQueue = new VerificationQueue();
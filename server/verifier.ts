@@ -0,0 +1,340 @@
+import solc from "solc";
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { log } from "./index";
+
+// Directory holding soljson-v<version>+commit.<hash>.js builds (same layout as binaries.soliditylang.org)
+const SOLC_CACHE_DIR = process.env.SOLC_CACHE_DIR || path.resolve(process.cwd(), "solc-cache");
+
+export type MatchType = "full" | "partial";
+
+export interface CompileSettings {
+  compilerVersion: string;
+  evmVersion?: string | null;
+  optimization: boolean;
+  runs: number;
+}
+
+export interface SourceVerificationRequest extends CompileSettings {
+  contractName: string;
+  sourceCode: string;
+  libraries?: Record<string, string>;
+}
+
+export interface StandardJsonVerificationRequest {
+  compilerVersion: string;
+  // Either "path/to/File.sol:Name" or a bare contract name when it is unique across sources
+  contractName: string;
+  input: any;
+}
+
+export interface VerificationResult {
+  matchType: MatchType;
+  abi: any[];
+  compilerVersion: string;
+  contractName: string;
+  fileName: string;
+  sources: { path: string; content: string }[];
+  libraries: Record<string, string>;
+  settings: Record<string, any>;
+  // Not produced by solc before 0.5.13
+  storageLayout: any | null;
+}
+
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VerificationError";
+    Object.setPrototypeOf(this, VerificationError.prototype);
+  }
+}
+
+type SolcCompiler = ReturnType<typeof solc.setupMethods>;
+
+const loadedCompilers = new Map<string, SolcCompiler>();
+
+// Accepts "0.8.20", "v0.8.20" or "v0.8.20+commit.a1b79de6"
+export function normalizeCompilerVersion(version: string): string {
+  return version.trim().replace(/^v/, "").replace(/\.Emscripten.*$/, "");
+}
+
+function shortVersion(version: string): string {
+  return normalizeCompilerVersion(version).split("+")[0];
+}
+
+function bundledVersion(): string {
+  return normalizeCompilerVersion(solc.version());
+}
+
+function findCachedBuild(version: string): string | null {
+  if (!fs.existsSync(SOLC_CACHE_DIR)) return null;
+
+  const normalized = normalizeCompilerVersion(version);
+  const files = fs.readdirSync(SOLC_CACHE_DIR).filter((f) => f.startsWith("soljson-") && f.endsWith(".js"));
+
+  const exact = files.find((f) => f === `soljson-v${normalized}.js`);
+  if (exact) return path.join(SOLC_CACHE_DIR, exact);
+
+  if (!normalized.includes("+")) {
+    const prefixed = files.find((f) => f.startsWith(`soljson-v${normalized}+commit.`));
+    if (prefixed) return path.join(SOLC_CACHE_DIR, prefixed);
+  }
+
+  return null;
+}
+
+// Lists compiler versions that can be used without network access
+export function listAvailableCompilers(): string[] {
+  const versions = new Set<string>([bundledVersion()]);
+
+  if (fs.existsSync(SOLC_CACHE_DIR)) {
+    for (const file of fs.readdirSync(SOLC_CACHE_DIR)) {
+      const match = file.match(/^soljson-v(.+)\.js$/);
+      if (match && !match[1].includes("nightly")) versions.add(match[1]);
+    }
+  }
+
+  return Array.from(versions).sort((a, b) => compareVersions(shortVersion(b), shortVersion(a)));
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < 3; i++) {
+    if ((pa[i] || 0) !== (pb[i] || 0)) return (pa[i] || 0) - (pb[i] || 0);
+  }
+  return 0;
+}
+
+export function loadCompiler(version: string): SolcCompiler {
+  const normalized = normalizeCompilerVersion(version);
+  const cached = loadedCompilers.get(normalized);
+  if (cached) return cached;
+
+  const bundled = bundledVersion();
+  if (bundled === normalized || shortVersion(bundled) === normalized) {
+    loadedCompilers.set(normalized, solc);
+    return solc;
+  }
+
+  const buildPath = findCachedBuild(normalized);
+  if (!buildPath) {
+    throw new VerificationError(`Compiler v${normalized} is not available in the local compiler cache`);
+  }
+
+  log(`Loading solc ${path.basename(buildPath)}`, "verifier");
+  const requireBuild = createRequire(buildPath);
+  const compiler = solc.setupMethods(requireBuild(buildPath));
+  loadedCompilers.set(normalized, compiler);
+  return compiler;
+}
+
+// Removes the trailing CBOR metadata (ipfs/bzzr hash + solc version) appended by solc >= 0.4.7
+export function stripMetadata(bytecode: string): string {
+  const hex = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+  if (hex.length < 4) return hex;
+
+  const metadataLength = parseInt(hex.slice(-4), 16);
+  const totalLength = (metadataLength + 2) * 2;
+  if (metadataLength === 0 || totalLength > hex.length) return hex;
+
+  // CBOR-encoded metadata always starts with a map header (0xa1..0xa5)
+  const mapHeader = parseInt(hex.slice(hex.length - totalLength, hex.length - totalLength + 2), 16);
+  if (mapHeader < 0xa1 || mapHeader > 0xa5) return hex;
+
+  return hex.slice(0, hex.length - totalLength);
+}
+
+// Immutable values are written into runtime code at deploy time; zero them so they compare equal
+function zeroImmutables(bytecode: string, immutableReferences: Record<string, { start: number; length: number }[]> | undefined): string {
+  if (!immutableReferences) return bytecode;
+
+  let result = bytecode;
+  for (const refs of Object.values(immutableReferences)) {
+    for (const { start, length } of refs) {
+      result = result.slice(0, start * 2) + "0".repeat(length * 2) + result.slice((start + length) * 2);
+    }
+  }
+  return result;
+}
+
+export function matchBytecode(compiled: string, onChain: string, immutableReferences?: Record<string, { start: number; length: number }[]>): MatchType | null {
+  const compiledHex = compiled.replace(/^0x/, "").toLowerCase();
+  const onChainHex = zeroImmutables(onChain.replace(/^0x/, "").toLowerCase(), immutableReferences);
+
+  if (!compiledHex) return null;
+  if (compiledHex === onChainHex) return "full";
+  if (stripMetadata(compiledHex) === stripMetadata(onChainHex)) return "partial";
+  return null;
+}
+
+const OUTPUT_SELECTION = {
+  "*": {
+    "*": [
+      "abi",
+      "evm.deployedBytecode.object",
+      "evm.deployedBytecode.immutableReferences",
+      "evm.deployedBytecode.linkReferences",
+      "storageLayout",
+    ],
+  },
+};
+
+function buildSettings(settings: CompileSettings) {
+  return {
+    optimizer: {
+      enabled: settings.optimization,
+      runs: settings.runs,
+    },
+    ...(settings.evmVersion && settings.evmVersion !== "default" ? { evmVersion: settings.evmVersion } : {}),
+  };
+}
+
+function compileStandardJson(compiler: SolcCompiler, input: any): any {
+  const output = JSON.parse(compiler.compile(JSON.stringify(input)));
+
+  const errors = (output.errors || []).filter((e: any) => e.severity === "error");
+  if (errors.length > 0) {
+    const messages = errors.map((e: any) => e.formattedMessage || e.message).join("\n");
+    throw new VerificationError(`Compilation failed:\n${messages}`);
+  }
+
+  return output;
+}
+
+function findCompiledContract(output: any, contractName: string): { fileName: string; name: string; contract: any } {
+  const separator = contractName.lastIndexOf(":");
+  if (separator !== -1) {
+    const fileName = contractName.slice(0, separator);
+    const name = contractName.slice(separator + 1);
+    const contract = output.contracts?.[fileName]?.[name];
+    if (!contract) {
+      throw new VerificationError(`Contract "${name}" not found in ${fileName}`);
+    }
+    return { fileName, name, contract };
+  }
+
+  const candidates: { fileName: string; name: string; contract: any }[] = [];
+  for (const [fileName, contracts] of Object.entries<any>(output.contracts || {})) {
+    if (contracts[contractName]) {
+      candidates.push({ fileName, name: contractName, contract: contracts[contractName] });
+    }
+  }
+
+  if (candidates.length === 0) {
+    throw new VerificationError(`Contract "${contractName}" not found in submitted sources`);
+  }
+  if (candidates.length > 1) {
+    const paths = candidates.map((c) => `${c.fileName}:${c.name}`).join(", ");
+    throw new VerificationError(`Contract name "${contractName}" is ambiguous, use a fully qualified name (${paths})`);
+  }
+  return candidates[0];
+}
+
+// Fills unlinked library placeholders with the addresses found at the same offsets in on-chain code
+function linkFromOnChain(
+  bytecode: string,
+  onChain: string,
+  linkReferences: Record<string, Record<string, { start: number; length: number }[]>> | undefined
+): { bytecode: string; libraries: Record<string, string> } {
+  const libraries: Record<string, string> = {};
+  if (!linkReferences) return { bytecode, libraries };
+
+  let linked = bytecode;
+  for (const [file, libs] of Object.entries(linkReferences)) {
+    for (const [lib, refs] of Object.entries(libs)) {
+      for (const { start, length } of refs) {
+        const address = onChain.slice(start * 2, (start + length) * 2);
+        if (address.length !== length * 2) continue;
+        linked = linked.slice(0, start * 2) + address + linked.slice((start + length) * 2);
+        libraries[`${file}:${lib}`] = "0x" + address;
+      }
+    }
+  }
+  return { bytecode: linked, libraries };
+}
+
+function collectSources(input: any): { path: string; content: string }[] {
+  if (!input || typeof input.sources !== "object" || input.sources === null) {
+    throw new VerificationError("Standard JSON input must contain a \"sources\" object");
+  }
+
+  return Object.entries<any>(input.sources).map(([sourcePath, source]) => {
+    if (typeof source?.content !== "string") {
+      throw new VerificationError(`Source "${sourcePath}" must include its content (urls are not supported)`);
+    }
+    return { path: sourcePath, content: source.content };
+  });
+}
+
+function flattenLibraries(libraries: Record<string, Record<string, string>> | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [file, libs] of Object.entries(libraries || {})) {
+    for (const [lib, address] of Object.entries(libs)) {
+      result[file ? `${file}:${lib}` : lib] = address;
+    }
+  }
+  return result;
+}
+
+// Compiles a solc standard-JSON input and compares the selected contract against the deployed runtime bytecode
+export function verifyStandardJson(request: StandardJsonVerificationRequest, onChainCode: string): VerificationResult {
+  if (!onChainCode || onChainCode === "0x") {
+    throw new VerificationError("Address is not a contract");
+  }
+
+  const sources = collectSources(request.input);
+  const { outputSelection: _ignored, ...settings } = request.input.settings || {};
+
+  const compiler = loadCompiler(request.compilerVersion);
+  const output = compileStandardJson(compiler, {
+    language: request.input.language || "Solidity",
+    sources: request.input.sources,
+    settings: { ...settings, outputSelection: OUTPUT_SELECTION },
+  });
+
+  const { fileName, name, contract } = findCompiledContract(output, request.contractName);
+  const deployed = contract.evm?.deployedBytecode;
+  const onChainHex = onChainCode.replace(/^0x/, "").toLowerCase();
+  const { bytecode, libraries: detectedLibraries } = linkFromOnChain(
+    (deployed?.object || "").toLowerCase(),
+    onChainHex,
+    deployed?.linkReferences
+  );
+
+  const matchType = matchBytecode(bytecode, onChainHex, deployed?.immutableReferences);
+  if (!matchType) {
+    throw new VerificationError("Bytecode mismatch: compiled runtime bytecode does not match on-chain code");
+  }
+
+  return {
+    matchType,
+    abi: contract.abi || [],
+    compilerVersion: normalizeCompilerVersion(compiler.version()),
+    contractName: name,
+    fileName,
+    sources,
+    libraries: { ...flattenLibraries(settings.libraries), ...detectedLibraries },
+    settings,
+    storageLayout: contract.storageLayout?.storage ? contract.storageLayout : null,
+  };
+}
+
+// Compiles a single flattened source file and compares it against the deployed runtime bytecode
+export function verifySource(request: SourceVerificationRequest, onChainCode: string): VerificationResult {
+  const fileName = `${request.contractName}.sol`;
+  const libraries = request.libraries && Object.keys(request.libraries).length > 0
+    ? { libraries: { [fileName]: request.libraries } }
+    : {};
+
+  return verifyStandardJson({
+    compilerVersion: request.compilerVersion,
+    contractName: `${fileName}:${request.contractName}`,
+    input: {
+      language: "Solidity",
+      sources: { [fileName]: { content: request.sourceCode } },
+      settings: { ...buildSettings(request), ...libraries },
+    },
+  }, onChainCode);
+}
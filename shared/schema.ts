@@ -11,6 +11,8 @@ export const chains = pgTable("chains", {
   name: varchar("name", { length: 100 }).notNull(),
   shortName: varchar("short_name", { length: 20 }).notNull(),
   rpcUrl: text("rpc_url").notNull(),
+  // WebSocket endpoint for newHeads subscriptions; the indexer polls rpcUrl when unset
+  wsUrl: text("ws_url"),
   explorerUrl: text("explorer_url"),
   nativeCurrency: varchar("native_currency", { length: 20 }).notNull().default("ETH"),
   nativeDecimals: integer("native_decimals").notNull().default(18),
@@ -27,10 +29,13 @@ export const chains = pgTable("chains", {
   index("chains_active_idx").on(table.isActive),
 ]);
 
+// Indexed data is scoped by chain_id (chains.chainId); 0 marks rows written before multi-chain
+// support, which are assigned to the default chain on startup
 export const blocks = pgTable("blocks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  number: bigint("number", { mode: "number" }).notNull().unique(),
-  hash: varchar("hash", { length: 66 }).notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  number: bigint("number", { mode: "number" }).notNull(),
+  hash: varchar("hash", { length: 66 }).notNull(),
   parentHash: varchar("parent_hash", { length: 66 }).notNull(),
   timestamp: timestamp("timestamp").notNull(),
   miner: varchar("miner", { length: 42 }).notNull(),
@@ -49,6 +54,8 @@ export const blocks = pgTable("blocks", {
   transactionsRoot: varchar("transactions_root", { length: 66 }),
   logsBloom: text("logs_bloom"),
 }, (table) => [
+  uniqueIndex("blocks_chain_number_idx").on(table.chainId, table.number),
+  uniqueIndex("blocks_chain_hash_idx").on(table.chainId, table.hash),
   index("blocks_number_idx").on(table.number),
   index("blocks_timestamp_idx").on(table.timestamp),
   index("blocks_miner_idx").on(table.miner),
@@ -57,7 +64,8 @@ export const blocks = pgTable("blocks", {
 
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  hash: varchar("hash", { length: 66 }).notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  hash: varchar("hash", { length: 66 }).notNull(),
   blockNumber: bigint("block_number", { mode: "number" }).notNull(),
   blockHash: varchar("block_hash", { length: 66 }).notNull(),
   transactionIndex: integer("transaction_index").notNull(),
@@ -79,7 +87,10 @@ export const transactions = pgTable("transactions", {
   timestamp: timestamp("timestamp").notNull(),
   methodId: varchar("method_id", { length: 10 }),
   methodName: varchar("method_name", { length: 100 }),
+  revertReason: text("revert_reason"),
+  revertData: text("revert_data"),
 }, (table) => [
+  uniqueIndex("transactions_chain_hash_idx").on(table.chainId, table.hash),
   index("transactions_block_number_idx").on(table.blockNumber),
   index("transactions_from_idx").on(table.from),
   index("transactions_to_idx").on(table.to),
@@ -96,7 +107,8 @@ export const transactions = pgTable("transactions", {
 
 export const addresses = pgTable("addresses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  address: varchar("address", { length: 42 }).notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  address: varchar("address", { length: 42 }).notNull(),
   balance: varchar("balance", { length: 78 }).notNull().default("0"),
   transactionCount: integer("transaction_count").notNull().default(0),
   sentCount: integer("sent_count").notNull().default(0),
@@ -104,16 +116,22 @@ export const addresses = pgTable("addresses", {
   isContract: boolean("is_contract").notNull().default(false),
   contractCode: text("contract_code"),
   contractName: varchar("contract_name", { length: 255 }),
+  proxyType: varchar("proxy_type", { length: 20 }),
+  implementationAddress: varchar("implementation_address", { length: 42 }),
+  beaconAddress: varchar("beacon_address", { length: 42 }),
   lastSeen: timestamp("last_seen"),
   firstSeen: timestamp("first_seen"),
 }, (table) => [
+  uniqueIndex("addresses_chain_address_idx").on(table.chainId, table.address),
   index("addresses_address_idx").on(table.address),
+  index("addresses_implementation_idx").on(sql`lower(${table.implementationAddress})`),
   index("addresses_tx_count_desc_idx").on(sql`${table.transactionCount} DESC`),
   index("addresses_lower_address_idx").on(sql`lower(${table.address})`),
 ]);
 
 export const transactionLogs = pgTable("transaction_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
   transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
   logIndex: integer("log_index").notNull(),
   address: varchar("address", { length: 42 }).notNull(),
@@ -123,7 +141,10 @@ export const transactionLogs = pgTable("transaction_logs", {
   blockHash: varchar("block_hash", { length: 66 }).notNull(),
   removed: boolean("removed").default(false),
   topic0: varchar("topic0", { length: 66 }),
+  // Set when a TransferBatch log carries ids but its data can't be decoded, so gap scans stop re-queueing its block
+  transferDecodeFailed: boolean("transfer_decode_failed").notNull().default(false),
 }, (table) => [
+  index("logs_chain_block_idx").on(table.chainId, table.blockNumber),
   index("logs_transaction_hash_idx").on(table.transactionHash),
   index("logs_address_idx").on(table.address),
   index("logs_block_number_idx").on(table.blockNumber),
@@ -134,8 +155,11 @@ export const transactionLogs = pgTable("transaction_logs", {
 
 export const tokenTransfers = pgTable("token_transfers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
   transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
   logIndex: integer("log_index").notNull(),
+  // Position of the (id, value) pair within an ERC-1155 TransferBatch event; 0 for every other transfer
+  batchIndex: integer("batch_index").notNull().default(0),
   blockNumber: bigint("block_number", { mode: "number" }).notNull(),
   timestamp: timestamp("timestamp").notNull(),
   tokenAddress: varchar("token_address", { length: 42 }).notNull(),
@@ -145,7 +169,7 @@ export const tokenTransfers = pgTable("token_transfers", {
   tokenId: decimal("token_id", { precision: 78, scale: 0 }),
   tokenType: varchar("token_type", { length: 10 }).notNull(),
 }, (table) => [
-  uniqueIndex("token_transfers_tx_log_idx").on(table.transactionHash, table.logIndex),
+  uniqueIndex("token_transfers_chain_tx_log_batch_idx").on(table.chainId, table.transactionHash, table.logIndex, table.batchIndex),
   index("token_transfers_tx_hash_idx").on(table.transactionHash),
   index("token_transfers_token_address_idx").on(table.tokenAddress),
   index("token_transfers_from_idx").on(table.from),
@@ -160,7 +184,8 @@ export const tokenTransfers = pgTable("token_transfers", {
 
 export const tokens = pgTable("tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  address: varchar("address", { length: 42 }).notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  address: varchar("address", { length: 42 }).notNull(),
   name: varchar("name", { length: 255 }),
   symbol: varchar("symbol", { length: 50 }),
   decimals: integer("decimals"),
@@ -168,26 +193,42 @@ export const tokens = pgTable("tokens", {
   tokenType: varchar("token_type", { length: 10 }).notNull(),
   holderCount: integer("holder_count").notNull().default(0),
   transferCount: integer("transfer_count").notNull().default(0),
+  // Set by the holder reconciliation job when transfer events do not add up to balanceOf (rebasing, fee-on-transfer, ...)
+  nonStandard: boolean("non_standard").notNull().default(false),
+  nonStandardReason: text("non_standard_reason"),
+  holdersReconciledAt: timestamp("holders_reconciled_at"),
+  // Standard and capabilities found by the token classifier; tokenType differs from detectedTokenType only when overridden
+  detectedTokenType: varchar("detected_token_type", { length: 10 }),
+  capabilities: jsonb("capabilities").$type<TokenCapabilities>(),
+  // Deviations from the standard noticed while classifying (no ERC-165, no decimals(), ...)
+  classificationNotes: text("classification_notes").array(),
+  classifiedAt: timestamp("classified_at"),
+  // Set when an admin fixed the type and non-standard flag; the classifier and holder reconciliation leave them alone
+  classificationOverride: boolean("classification_override").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
+  uniqueIndex("tokens_chain_address_idx").on(table.chainId, table.address),
   index("tokens_address_idx").on(table.address),
   index("tokens_type_idx").on(table.tokenType),
 ]);
 
 export const indexerCheckpoints = pgTable("indexer_checkpoints", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  checkpointType: varchar("checkpoint_type", { length: 50 }).notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  checkpointType: varchar("checkpoint_type", { length: 50 }).notNull(),
   lastProcessedBlock: bigint("last_processed_block", { mode: "number" }).notNull().default(0),
   lastProcessedHash: varchar("last_processed_hash", { length: 66 }),
   metadata: jsonb("metadata"),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => [
+  uniqueIndex("checkpoints_chain_type_idx").on(table.chainId, table.checkpointType),
   index("checkpoints_type_idx").on(table.checkpointType),
 ]);
 
 export const dailyStats = pgTable("daily_stats", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  date: timestamp("date").notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  date: timestamp("date").notNull(),
   blockCount: integer("block_count").notNull().default(0),
   transactionCount: integer("transaction_count").notNull().default(0),
   addressCount: integer("address_count").notNull().default(0),
@@ -195,11 +236,13 @@ export const dailyStats = pgTable("daily_stats", {
   totalValue: decimal("total_value", { precision: 78, scale: 0 }).notNull().default("0"),
   avgGasPrice: decimal("avg_gas_price", { precision: 78, scale: 0 }),
 }, (table) => [
+  uniqueIndex("daily_stats_chain_date_idx").on(table.chainId, table.date),
   index("daily_stats_date_idx").on(table.date),
 ]);
 
 export const networkStats = pgTable("network_stats", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
   latestBlock: bigint("latest_block", { mode: "number" }).notNull(),
   totalTransactions: bigint("total_transactions", { mode: "number" }).notNull().default(0),
   totalAddresses: integer("total_addresses").notNull().default(0),
@@ -207,10 +250,13 @@ export const networkStats = pgTable("network_stats", {
   avgGasPrice: varchar("avg_gas_price", { length: 78 }),
   totalTokenTransfers: bigint("total_token_transfers", { mode: "number" }).notNull().default(0),
   lastUpdated: timestamp("last_updated").notNull().defaultNow(),
-});
+}, (table) => [
+  index("network_stats_chain_idx").on(table.chainId),
+]);
 
 export const indexerState = pgTable("indexer_state", {
   id: varchar("id").primaryKey().default("main"),
+  chainId: integer("chain_id").notNull().default(0).unique(),
   lastIndexedBlock: bigint("last_indexed_block", { mode: "number" }).notNull().default(0),
   isRunning: boolean("is_running").notNull().default(false),
   lastError: text("last_error"),
@@ -219,7 +265,8 @@ export const indexerState = pgTable("indexer_state", {
 
 export const verifiedContracts = pgTable("verified_contracts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  address: varchar("address", { length: 42 }).notNull().unique(),
+  chainId: integer("chain_id").notNull().default(0),
+  address: varchar("address", { length: 42 }).notNull(),
   name: varchar("name", { length: 255 }).notNull(),
   compilerVersion: varchar("compiler_version", { length: 50 }).notNull(),
   evmVersion: varchar("evm_version", { length: 50 }),
@@ -230,10 +277,17 @@ export const verifiedContracts = pgTable("verified_contracts", {
   abi: jsonb("abi").notNull(),
   bytecodeHash: varchar("bytecode_hash", { length: 66 }),
   verificationStatus: varchar("verification_status", { length: 20 }).notNull().default("verified"),
+  sourceFormat: varchar("source_format", { length: 40 }).notNull().default("solidity-single-file"),
+  mainFile: text("main_file"),
+  libraries: jsonb("libraries"),
+  compilerSettings: jsonb("compiler_settings"),
+  // solc storageLayout output; null for contracts verified before it was recorded or with compilers that lack it
+  storageLayout: jsonb("storage_layout"),
   license: varchar("license", { length: 50 }),
   verifiedAt: timestamp("verified_at").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
+  uniqueIndex("verified_contracts_chain_address_idx").on(table.chainId, table.address),
   index("verified_contracts_address_idx").on(table.address),
   index("verified_contracts_lower_address_idx").on(sql`lower(${table.address})`),
   index("verified_contracts_name_idx").on(table.name),
@@ -295,6 +349,95 @@ export type IndexerCheckpoint = typeof indexerCheckpoints.$inferSelect;
 export type DailyStats = typeof dailyStats.$inferSelect;
 export type VerifiedContract = typeof verifiedContracts.$inferSelect;
 
+// Decoded event logs (served alongside raw transaction_logs rows)
+export interface DecodedEventParam {
+  name: string;
+  type: string;
+  indexed: boolean;
+  value: any;
+}
+
+export interface DecodedEvent {
+  name: string;
+  signature: string;
+  source: "abi" | "signature";
+  params: DecodedEventParam[];
+}
+
+export type DecodedTransactionLog = TransactionLog & { decoded: DecodedEvent | null };
+
+export interface DecodedCall {
+  name: string;
+  signature: string;
+  source: "abi" | "signature";
+  params: DecodedEventParam[];
+  // Decoded return values; null when the call reverted or the output could not be decoded
+  outputs: DecodedEventParam[] | null;
+}
+
+// One frame of a callTracer trace with its input decoded
+export interface CallTraceFrame {
+  type: string;
+  from: string;
+  to: string | null;
+  value: string;
+  gas: number;
+  gasUsed: number;
+  input: string;
+  output: string | null;
+  error: string | null;
+  revertReason: string | null;
+  decoded: DecodedCall | null;
+  calls: CallTraceFrame[];
+}
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+// A storage variable packed into a changed slot, named from the contract's storage layout
+export interface StorageVariableChange {
+  label: string;
+  type: string;
+  before: string;
+  after: string;
+}
+
+export interface StorageSlotChange {
+  slot: string;
+  before: string;
+  after: string;
+  // Null when the slot could not be matched to a variable
+  variables: StorageVariableChange[] | null;
+}
+
+// Changes to one account from a prestateTracer diff; unchanged fields are null
+export interface AccountStateDiff {
+  address: string;
+  contractName: string | null;
+  created: boolean;
+  destroyed: boolean;
+  balance: ValueChange<string> | null;
+  nonce: ValueChange<number> | null;
+  code: ValueChange<string | null> | null;
+  storage: StorageSlotChange[];
+  // Whether a storage layout was available to name the slots
+  hasStorageLayout: boolean;
+}
+
+// What a token contract supports, from ERC-165 where implemented and otherwise from its function selectors
+export interface TokenCapabilities {
+  erc165: boolean;
+  metadata: boolean;
+  enumerable: boolean;
+  mintable: boolean;
+  burnable: boolean;
+  pausable: boolean;
+  permit: boolean;
+  royalties: boolean;
+}
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -340,6 +483,7 @@ export type SignupInput = z.infer<typeof signupSchema>;
 // Internal Transactions/Traces Table
 export const internalTransactions = pgTable("internal_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
   transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
   blockNumber: bigint("block_number", { mode: "number" }).notNull(),
   traceAddress: text("trace_address").array(),
@@ -356,6 +500,7 @@ export const internalTransactions = pgTable("internal_transactions", {
   rewardType: varchar("reward_type", { length: 50 }),
   timestamp: timestamp("timestamp").notNull(),
 }, (table) => [
+  index("internal_tx_chain_block_idx").on(table.chainId, table.blockNumber),
   index("internal_tx_hash_idx").on(table.transactionHash),
   index("internal_tx_block_idx").on(table.blockNumber),
   index("internal_tx_from_idx").on(sql`lower(${table.from})`),
@@ -367,6 +512,7 @@ export const internalTransactions = pgTable("internal_transactions", {
 // For ERC721/ERC1155: (tokenAddress, holderAddress, tokenId) uniquely identifies balance
 export const tokenHolders = pgTable("token_holders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
   tokenAddress: varchar("token_address", { length: 42 }).notNull(),
   holderAddress: varchar("holder_address", { length: 42 }).notNull(),
   balance: varchar("balance", { length: 78 }).notNull().default("0"),
@@ -374,6 +520,13 @@ export const tokenHolders = pgTable("token_holders", {
   tokenType: varchar("token_type", { length: 20 }).notNull().default("ERC20"),
   lastUpdated: timestamp("last_updated").defaultNow().notNull(),
 }, (table) => [
+  uniqueIndex("token_holders_chain_token_holder_idx").on(
+    table.chainId,
+    sql`lower(${table.tokenAddress})`,
+    sql`lower(${table.holderAddress})`,
+    sql`coalesce(${table.tokenId}, '')`
+  ),
+  index("token_holders_chain_idx").on(table.chainId),
   index("token_holders_token_idx").on(sql`lower(${table.tokenAddress})`),
   index("token_holders_holder_idx").on(sql`lower(${table.holderAddress})`),
   index("token_holders_balance_idx").on(table.balance),
@@ -383,6 +536,7 @@ export const tokenHolders = pgTable("token_holders", {
 // NFT Tokens Table (individual NFT metadata)
 export const nftTokens = pgTable("nft_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
   contractAddress: varchar("contract_address", { length: 42 }).notNull(),
   tokenId: varchar("token_id", { length: 78 }).notNull(),
   owner: varchar("owner", { length: 42 }),
@@ -390,12 +544,14 @@ export const nftTokens = pgTable("nft_tokens", {
   description: text("description"),
   image: text("image"),
   imageGateway: text("image_gateway"),
+  // Resized copy of the image in our own object storage
+  thumbnailUrl: text("thumbnail_url"),
   metadataUri: text("metadata_uri"),
   attributes: jsonb("attributes"),
   tokenType: varchar("token_type", { length: 20 }).notNull().default("ERC721"),
   lastUpdated: timestamp("last_updated").defaultNow().notNull(),
 }, (table) => [
-  uniqueIndex("nft_tokens_contract_token_idx").on(table.contractAddress, table.tokenId),
+  uniqueIndex("nft_tokens_chain_contract_token_idx").on(table.chainId, table.contractAddress, table.tokenId),
   index("nft_tokens_contract_idx").on(sql`lower(${table.contractAddress})`),
   index("nft_tokens_owner_idx").on(sql`lower(${table.owner})`),
   index("nft_tokens_token_id_idx").on(table.tokenId),
@@ -495,6 +651,249 @@ export const airdrops = pgTable("airdrops", {
   index("airdrops_start_date_idx").on(table.startDate),
 ]);
 
+// Contract Source Files Table (one row per source file of a verified contract)
+export const contractSourceFiles = pgTable("contract_source_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  contractAddress: varchar("contract_address", { length: 42 }).notNull(),
+  path: text("path").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("contract_source_files_chain_address_path_idx").on(table.chainId, table.contractAddress, table.path),
+  index("contract_source_files_address_idx").on(sql`lower(${table.contractAddress})`),
+]);
+
+// Verification Jobs Table (async compile-and-match queue behind the Etherscan-compatible API)
+export const verificationJobs = pgTable("verification_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  guid: varchar("guid", { length: 64 }).notNull().unique(),
+  contractAddress: varchar("contract_address", { length: 42 }).notNull(),
+  contractName: varchar("contract_name", { length: 255 }).notNull(),
+  compilerVersion: varchar("compiler_version", { length: 100 }).notNull(),
+  sourceFormat: varchar("source_format", { length: 40 }).notNull(),
+  payload: jsonb("payload").notNull(),
+  constructorArgs: text("constructor_args"),
+  license: varchar("license", { length: 50 }),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  matchType: varchar("match_type", { length: 20 }),
+  failureReason: text("failure_reason"),
+  attempts: integer("attempts").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("verification_jobs_chain_idx").on(table.chainId),
+  index("verification_jobs_status_idx").on(table.status),
+  index("verification_jobs_address_idx").on(sql`lower(${table.contractAddress})`),
+  index("verification_jobs_created_idx").on(table.createdAt),
+]);
+
+// Proxy Upgrades Table (implementation history from Upgraded / BeaconUpgraded events)
+export const proxyUpgrades = pgTable("proxy_upgrades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  proxyAddress: varchar("proxy_address", { length: 42 }).notNull(),
+  implementationAddress: varchar("implementation_address", { length: 42 }),
+  beaconAddress: varchar("beacon_address", { length: 42 }),
+  eventType: varchar("event_type", { length: 20 }).notNull(),
+  transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
+  logIndex: integer("log_index").notNull(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+}, (table) => [
+  uniqueIndex("proxy_upgrades_chain_tx_log_idx").on(table.chainId, table.transactionHash, table.logIndex),
+  index("proxy_upgrades_proxy_idx").on(sql`lower(${table.proxyAddress})`),
+  index("proxy_upgrades_block_idx").on(table.blockNumber),
+]);
+
+// Signature Registry (function selectors, event topics and custom error selectors)
+export const signatures = pgTable("signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  selector: varchar("selector", { length: 66 }).notNull(), // 4-byte for functions/errors, 32-byte topic for events
+  kind: varchar("kind", { length: 10 }).notNull().default("function"), // function, event, error
+  name: varchar("name", { length: 255 }).notNull(),
+  textSignature: text("text_signature").notNull(),
+  category: varchar("category", { length: 20 }), // token, nft, defi, proxy, ... (used for method badges)
+  source: varchar("source", { length: 20 }).notNull(), // builtin, dump, abi, import
+  isPreferred: boolean("is_preferred").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("signatures_selector_text_idx").on(table.selector, table.textSignature),
+  index("signatures_selector_idx").on(table.selector),
+]);
+
+// Orphaned Blocks Table (blocks replaced by a chain reorganization)
+export const orphanedBlocks = pgTable("orphaned_blocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  number: bigint("number", { mode: "number" }).notNull(),
+  hash: varchar("hash", { length: 66 }).notNull(),
+  parentHash: varchar("parent_hash", { length: 66 }).notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+  miner: varchar("miner", { length: 42 }).notNull(),
+  gasUsed: bigint("gas_used", { mode: "number" }).notNull(),
+  gasLimit: bigint("gas_limit", { mode: "number" }).notNull(),
+  baseFeePerGas: varchar("base_fee_per_gas", { length: 78 }),
+  transactionCount: integer("transaction_count").notNull().default(0),
+  extraData: text("extra_data"),
+  transactionHashes: jsonb("transaction_hashes").$type<string[]>().notNull().default([]),
+  orphanedAt: timestamp("orphaned_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("orphaned_blocks_chain_hash_idx").on(table.chainId, table.hash),
+  index("orphaned_blocks_number_idx").on(table.number),
+]);
+
+// RPC Endpoints Table (additional endpoints per chain; chains.rpcUrl is always the primary general endpoint)
+// Roles: "general" serves regular calls, "archive" is preferred for historical state reads,
+// "tracing" is the only role that receives debug_* and trace_* calls
+export const rpcEndpoints = pgTable("rpc_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull(),
+  url: text("url").notNull(),
+  role: varchar("role", { length: 20 }).notNull().default("general"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("rpc_endpoints_chain_url_idx").on(table.chainId, table.url),
+]);
+
+// Pending Transactions Table (transactions seen in the mempool before they are mined)
+// Status: "pending" while waiting in the pool, "mined" once included in an indexed block, "replaced" when another
+// transaction with the same sender and nonce was mined (replacedBy links to it), "dropped" when it left the pool unmined
+export const pendingTransactions = pgTable("pending_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  hash: varchar("hash", { length: 66 }).notNull(),
+  from: varchar("from_address", { length: 42 }).notNull(),
+  to: varchar("to_address", { length: 42 }),
+  value: varchar("value", { length: 78 }).notNull(),
+  gas: bigint("gas", { mode: "number" }).notNull(),
+  gasPrice: varchar("gas_price", { length: 78 }),
+  maxFeePerGas: varchar("max_fee_per_gas", { length: 78 }),
+  maxPriorityFeePerGas: varchar("max_priority_fee_per_gas", { length: 78 }),
+  input: text("input"),
+  nonce: integer("nonce").notNull(),
+  type: integer("type"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  replacedBy: varchar("replaced_by", { length: 66 }),
+  // Block the transaction, or the transaction that replaced it, was mined in
+  blockNumber: bigint("block_number", { mode: "number" }),
+  firstSeenAt: timestamp("first_seen_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("pending_transactions_chain_hash_idx").on(table.chainId, table.hash),
+  index("pending_transactions_sender_nonce_idx").on(table.chainId, sql`lower(${table.from})`, table.nonce),
+  index("pending_transactions_lower_to_idx").on(sql`lower(${table.to})`),
+  index("pending_transactions_status_seen_idx").on(table.status, table.lastSeenAt),
+  index("pending_transactions_block_number_idx").on(table.blockNumber),
+]);
+
+// Balance Snapshots Table (native balance of an address after each block that touched it)
+export const balanceSnapshots = pgTable("balance_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  address: varchar("address", { length: 42 }).notNull(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  // Null marks a gap: the node could not return the balance at this block (no archive state)
+  balance: varchar("balance", { length: 78 }),
+  timestamp: timestamp("timestamp").notNull(),
+}, (table) => [
+  uniqueIndex("balance_snapshots_chain_address_block_idx").on(table.chainId, table.address, table.blockNumber),
+  index("balance_snapshots_block_number_idx").on(table.blockNumber),
+]);
+
+// Token Balance Changes Table (net change of a holder's token balance in each block that touched it)
+export const tokenBalanceChanges = pgTable("token_balance_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  tokenAddress: varchar("token_address", { length: 42 }).notNull(),
+  holderAddress: varchar("holder_address", { length: 42 }).notNull(),
+  tokenId: varchar("token_id", { length: 78 }),
+  tokenType: varchar("token_type", { length: 20 }).notNull(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  delta: varchar("delta", { length: 79 }).notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+}, (table) => [
+  index("token_balance_changes_holder_idx").on(table.chainId, table.tokenAddress, table.holderAddress, table.blockNumber),
+  index("token_balance_changes_block_number_idx").on(table.chainId, table.blockNumber),
+]);
+
+// Token Approvals Table (latest ERC-20 allowance or ERC-721/1155 operator approval per owner, token and spender)
+export const tokenApprovals = pgTable("token_approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  ownerAddress: varchar("owner_address", { length: 42 }).notNull(),
+  tokenAddress: varchar("token_address", { length: 42 }).notNull(),
+  spenderAddress: varchar("spender_address", { length: 42 }).notNull(),
+  approvalType: varchar("approval_type", { length: 20 }).notNull(), // allowance, operator
+  // Approved amount for allowances; null for operator approvals
+  allowance: varchar("allowance", { length: 78 }),
+  approved: boolean("approved").notNull(),
+  transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  logIndex: integer("log_index").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+}, (table) => [
+  uniqueIndex("token_approvals_chain_owner_token_spender_idx").on(table.chainId, table.ownerAddress, table.tokenAddress, table.spenderAddress, table.approvalType),
+  index("token_approvals_block_number_idx").on(table.chainId, table.blockNumber),
+]);
+
+// Transaction Traces Table (tracer output, fetched from the node on first view and kept until its block is reorged out)
+export const transactionTraces = pgTable("transaction_traces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
+  tracer: varchar("tracer", { length: 30 }).notNull().default("callTracer"), // callTracer, prestateTracer (diff mode)
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  trace: jsonb("trace").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("transaction_traces_chain_hash_tracer_idx").on(table.chainId, table.transactionHash, table.tracer),
+  index("transaction_traces_block_number_idx").on(table.chainId, table.blockNumber),
+]);
+
+// Contract Creations Table (one row per deployment: top-level ones from receipts, factory CREATE/CREATE2 from traces)
+export const contractCreations = pgTable("contract_creations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  contractAddress: varchar("contract_address", { length: 42 }).notNull(),
+  // Sender of the creation transaction, as in Etherscan's contractCreator
+  creatorAddress: varchar("creator_address", { length: 42 }).notNull(),
+  // Contract that executed CREATE/CREATE2; null for deployment transactions
+  factoryAddress: varchar("factory_address", { length: 42 }),
+  creationType: varchar("creation_type", { length: 10 }).notNull(), // CREATE, CREATE2
+  transactionHash: varchar("transaction_hash", { length: 66 }).notNull(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+}, (table) => [
+  uniqueIndex("contract_creations_chain_contract_tx_idx").on(table.chainId, table.contractAddress, table.transactionHash),
+  index("contract_creations_creator_idx").on(table.chainId, table.creatorAddress, table.blockNumber),
+  index("contract_creations_factory_idx").on(table.chainId, table.factoryAddress, table.blockNumber),
+  index("contract_creations_block_number_idx").on(table.chainId, table.blockNumber),
+]);
+
+// NFT Metadata Jobs Table (one row per token; fetched in the background with retries, refreshed on request)
+export const nftMetadataJobs = pgTable("nft_metadata_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(0),
+  contractAddress: varchar("contract_address", { length: 42 }).notNull(),
+  tokenId: varchar("token_id", { length: 78 }).notNull(),
+  tokenType: varchar("token_type", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, processing, done, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  uniqueIndex("nft_metadata_jobs_chain_contract_token_idx").on(table.chainId, table.contractAddress, table.tokenId),
+  index("nft_metadata_jobs_status_idx").on(table.status, table.nextAttemptAt),
+]);
+
 // Insert schemas for new tables
 export const insertInternalTransactionSchema = createInsertSchema(internalTransactions).omit({ id: true });
 export const insertTokenHolderSchema = createInsertSchema(tokenHolders).omit({ id: true });
@@ -504,6 +903,19 @@ export const insertApiKeyUsageSchema = createInsertSchema(apiKeyUsage).omit({ id
 export const insertAddressLabelSchema = createInsertSchema(addressLabels).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSiteSettingSchema = createInsertSchema(siteSettings).omit({ id: true, updatedAt: true });
 export const insertAirdropSchema = createInsertSchema(airdrops).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertContractSourceFileSchema = createInsertSchema(contractSourceFiles).omit({ id: true, createdAt: true });
+export const insertVerificationJobSchema = createInsertSchema(verificationJobs).omit({ id: true, createdAt: true });
+export const insertProxyUpgradeSchema = createInsertSchema(proxyUpgrades).omit({ id: true });
+export const insertSignatureSchema = createInsertSchema(signatures).omit({ id: true, createdAt: true });
+export const insertOrphanedBlockSchema = createInsertSchema(orphanedBlocks).omit({ id: true, orphanedAt: true });
+export const insertRpcEndpointSchema = createInsertSchema(rpcEndpoints).omit({ id: true, createdAt: true });
+export const insertBalanceSnapshotSchema = createInsertSchema(balanceSnapshots).omit({ id: true });
+export const insertPendingTransactionSchema = createInsertSchema(pendingTransactions).omit({ id: true, firstSeenAt: true, lastSeenAt: true, updatedAt: true });
+export const insertTokenBalanceChangeSchema = createInsertSchema(tokenBalanceChanges).omit({ id: true });
+export const insertTokenApprovalSchema = createInsertSchema(tokenApprovals).omit({ id: true });
+export const insertTransactionTraceSchema = createInsertSchema(transactionTraces).omit({ id: true, createdAt: true });
+export const insertContractCreationSchema = createInsertSchema(contractCreations).omit({ id: true });
+export const insertNftMetadataJobSchema = createInsertSchema(nftMetadataJobs).omit({ id: true, createdAt: true });
 
 // Types for new tables
 export type InternalTransaction = typeof internalTransactions.$inferSelect;
@@ -522,3 +934,51 @@ export type InsertAddressLabel = z.infer<typeof insertAddressLabelSchema>;
 export type InsertSiteSetting = z.infer<typeof insertSiteSettingSchema>;
 export type Airdrop = typeof airdrops.$inferSelect;
 export type InsertAirdrop = z.infer<typeof insertAirdropSchema>;
+export type ContractSourceFile = typeof contractSourceFiles.$inferSelect;
+export type InsertContractSourceFile = z.infer<typeof insertContractSourceFileSchema>;
+export type VerificationJob = typeof verificationJobs.$inferSelect;
+export type InsertVerificationJob = z.infer<typeof insertVerificationJobSchema>;
+export type ProxyUpgrade = typeof proxyUpgrades.$inferSelect;
+export type InsertProxyUpgrade = z.infer<typeof insertProxyUpgradeSchema>;
+export type Signature = typeof signatures.$inferSelect;
+export type InsertSignature = z.infer<typeof insertSignatureSchema>;
+export type OrphanedBlock = typeof orphanedBlocks.$inferSelect;
+export type InsertOrphanedBlock = z.infer<typeof insertOrphanedBlockSchema>;
+export type RpcEndpoint = typeof rpcEndpoints.$inferSelect;
+export type InsertRpcEndpoint = z.infer<typeof insertRpcEndpointSchema>;
+export type PendingTransaction = typeof pendingTransactions.$inferSelect;
+export type InsertPendingTransaction = z.infer<typeof insertPendingTransactionSchema>;
+export type BalanceSnapshot = typeof balanceSnapshots.$inferSelect;
+export type InsertBalanceSnapshot = z.infer<typeof insertBalanceSnapshotSchema>;
+export type TokenBalanceChange = typeof tokenBalanceChanges.$inferSelect;
+export type InsertTokenBalanceChange = z.infer<typeof insertTokenBalanceChangeSchema>;
+export type TokenApproval = typeof tokenApprovals.$inferSelect;
+export type InsertTokenApproval = z.infer<typeof insertTokenApprovalSchema>;
+export type TokenApprovalType = "allowance" | "operator";
+export type TransactionTrace = typeof transactionTraces.$inferSelect;
+export type InsertTransactionTrace = z.infer<typeof insertTransactionTraceSchema>;
+export type ContractCreation = typeof contractCreations.$inferSelect;
+export type InsertContractCreation = z.infer<typeof insertContractCreationSchema>;
+export type NftMetadataJob = typeof nftMetadataJobs.$inferSelect;
+export type InsertNftMetadataJob = z.infer<typeof insertNftMetadataJobSchema>;
+export type NftMetadataJobStatus = "pending" | "processing" | "done" | "failed";
+export type TransactionTracer = "callTracer" | "prestateTracer";
+export type PendingTransactionStatus = "pending" | "mined" | "replaced" | "dropped";
+
+export type RpcEndpointRole = "general" | "archive" | "tracing";
+
+// Live health of one endpoint in a chain's RPC pool
+export interface RpcEndpointHealth {
+  id: string | null;
+  url: string;
+  role: RpcEndpointRole;
+  primary: boolean;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  errors: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  downUntil: string | null;
+}